@@ -0,0 +1,141 @@
+// controllers/__tests__/webhook.controller.test.ts
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import PaymentEvent, { PaymentEventStatus } from '../../models/PaymentEvent';
+import { createFakeWebhookEvent, PaymentEventType } from '../../utils/paymentProvider';
+import { recordWebsitePayment } from '../../utils/paymentUtils';
+import { handlePaymentWebhook } from '../webhook.controller';
+
+jest.mock('../../models/PaymentEvent', () => ({
+  ...jest.requireActual('../../models/PaymentEvent'),
+  __esModule: true,
+  default: { create: jest.fn(), findOneAndUpdate: jest.fn(), deleteOne: jest.fn() },
+}));
+
+jest.mock('../../models/Website', () => ({
+  ...jest.requireActual('../../models/Website'),
+  __esModule: true,
+  default: { findById: jest.fn(async (id) => ({ _id: id })) },
+}));
+
+jest.mock('../../utils/paymentUtils', () => ({
+  recordWebsitePayment: jest.fn(),
+}));
+
+const paymentEventMock = PaymentEvent as unknown as {
+  create: jest.Mock;
+  findOneAndUpdate: jest.Mock;
+  deleteOne: jest.Mock;
+};
+const recordPaymentMock = recordWebsitePayment as jest.MockedFunction<typeof recordWebsitePayment>;
+
+const websiteId = new mongoose.Types.ObjectId().toString();
+const invoice = { _id: new mongoose.Types.ObjectId() };
+
+const makeRecord = () => ({
+  _id: new mongoose.Types.ObjectId(),
+  status: PaymentEventStatus.PROCESSING,
+  save: jest.fn(),
+});
+
+const deliver = async () => {
+  const { payload, signature } = createFakeWebhookEvent({
+    id: 'evt_1',
+    type: PaymentEventType.PAYMENT_SUCCEEDED,
+    transactionId: 'txn_1',
+    amount: 4900,
+    currency: 'USD',
+    websiteId,
+  });
+
+  const req = {
+    body: Buffer.from(payload),
+    headers: { 'x-fake-signature': signature },
+  } as unknown as Request;
+  const res = {
+    status: jest.fn().mockReturnThis(),
+    json: jest.fn().mockReturnThis(),
+  };
+
+  await handlePaymentWebhook(req, res as unknown as Response);
+  return { status: res.status.mock.calls[0][0], body: res.json.mock.calls[0][0] };
+};
+
+const duplicateKeyError = () => Object.assign(new Error('E11000 duplicate key error'), { code: 11000 });
+
+describe('handlePaymentWebhook', () => {
+  const env = process.env;
+
+  beforeAll(() => {
+    process.env = { ...env, NODE_ENV: 'test', PAYMENT_PROVIDER: 'fake', PAYMENT_WEBHOOK_SECRET: 'test_secret' };
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    process.env = env;
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    recordPaymentMock.mockResolvedValue({ success: true, duplicate: false, website: {} as any, invoice: invoice as any });
+  });
+
+  it('applies a new event once and records it as processed', async () => {
+    const record = makeRecord();
+    paymentEventMock.create.mockResolvedValue(record);
+
+    const { status, body } = await deliver();
+
+    expect(status).toBe(200);
+    expect(body.status).toBe(PaymentEventStatus.PROCESSED);
+    expect(recordPaymentMock).toHaveBeenCalledTimes(1);
+    expect(record.status).toBe(PaymentEventStatus.PROCESSED);
+    expect(record.save).toHaveBeenCalled();
+  });
+
+  it('acknowledges a redelivered event without applying the payment again', async () => {
+    paymentEventMock.create.mockRejectedValue(duplicateKeyError());
+    paymentEventMock.findOneAndUpdate.mockResolvedValue(null);
+
+    const { status, body } = await deliver();
+
+    expect(status).toBe(200);
+    expect(body.duplicate).toBe(true);
+    expect(recordPaymentMock).not.toHaveBeenCalled();
+  });
+
+  it('takes over the claim of an event whose earlier delivery failed', async () => {
+    const record = makeRecord();
+    paymentEventMock.create.mockRejectedValue(duplicateKeyError());
+    paymentEventMock.findOneAndUpdate.mockResolvedValue(record);
+
+    const { status } = await deliver();
+
+    expect(paymentEventMock.findOneAndUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({ eventId: 'evt_1', status: PaymentEventStatus.FAILED }),
+      expect.anything(),
+      expect.anything()
+    );
+    expect(status).toBe(200);
+    expect(recordPaymentMock).toHaveBeenCalledTimes(1);
+    expect(record.status).toBe(PaymentEventStatus.PROCESSED);
+  });
+
+  it('keeps an event the payment was refused for as FAILED and asks for a retry', async () => {
+    const record = makeRecord();
+    paymentEventMock.create.mockResolvedValue(record);
+    recordPaymentMock.mockResolvedValue({
+      success: false,
+      statusCode: 400,
+      error: 'Payment is in EUR; this website is billed in USD',
+    });
+
+    const { status } = await deliver();
+
+    expect(status).toBe(422);
+    expect(record.status).toBe(PaymentEventStatus.FAILED);
+    expect(record.save).toHaveBeenCalled();
+    expect(paymentEventMock.deleteOne).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,289 @@
+// controllers/admin.account.controller.ts
+import { Request, Response } from 'express';
+import Admin, { AdminRole } from '../models/Admin';
+import AdminSession from '../models/AdminSession';
+import { AdminRequest } from '../types';
+import { hashPassword, isStrongPassword } from '../utils/passwordUtils';
+
+/**
+ * Check whether removing/demoting this admin would leave no active owner
+ */
+const isLastActiveOwner = async (adminId: string): Promise<boolean> => {
+  const otherOwners = await Admin.countDocuments({
+    _id: { $ne: adminId },
+    role: AdminRole.OWNER,
+    isActive: true,
+  });
+  return otherOwners === 0;
+};
+
+/**
+ * @desc    Get all admin accounts
+ * @route   GET /api/admin/admins
+ * @access  Private (Owner)
+ */
+export const getAllAdmins = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { role, isActive } = req.query;
+
+    // Build query
+    const query: any = {};
+
+    if (role) {
+      query.role = role;
+    }
+
+    if (isActive !== undefined) {
+      query.isActive = isActive === 'true';
+    }
+
+    const admins = await Admin.find(query)
+      .sort({ createdAt: 1 })
+      .select('-__v')
+      .lean();
+
+    res.status(200).json({
+      success: true,
+      count: admins.length,
+      data: admins,
+    });
+  } catch (error) {
+    console.error('Error fetching admins:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch admins',
+    });
+  }
+};
+
+/**
+ * @desc    Create admin account
+ * @route   POST /api/admin/admins
+ * @access  Private (Owner)
+ */
+export const createAdmin = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { username, password, role, name, email } = req.body;
+
+    if (!username || !role) {
+      res.status(400).json({
+        success: false,
+        error: 'Username and role are required',
+      });
+      return;
+    }
+
+    if (!Object.values(AdminRole).includes(role)) {
+      res.status(400).json({
+        success: false,
+        error: `Valid role is required (${Object.values(AdminRole).join(', ')})`,
+      });
+      return;
+    }
+
+    if (!isStrongPassword(password)) {
+      res.status(400).json({
+        success: false,
+        error: 'Password must be at least 12 characters',
+      });
+      return;
+    }
+
+    const admin = await Admin.create({
+      username,
+      name,
+      email,
+      role,
+      passwordHash: await hashPassword(password),
+    });
+
+    const { passwordHash, ...adminData } = admin.toObject();
+
+    res.status(201).json({
+      success: true,
+      message: 'Admin account created',
+      data: adminData,
+    });
+  } catch (error: any) {
+    console.error('Error creating admin:', error);
+
+    if (error.code === 11000) {
+      res.status(400).json({
+        success: false,
+        error: 'An admin with this username already exists',
+      });
+      return;
+    }
+
+    if (error.name === 'ValidationError') {
+      res.status(400).json({
+        success: false,
+        error: 'Validation error',
+        details: error.message,
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create admin',
+    });
+  }
+};
+
+/**
+ * @desc    Update admin account (role, profile, active flag, password)
+ * @route   PATCH /api/admin/admins/:id
+ * @access  Private (Owner)
+ */
+export const updateAdmin = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { name, email, role, isActive, password } = req.body;
+
+    const admin = await Admin.findById(id);
+
+    if (!admin) {
+      res.status(404).json({
+        success: false,
+        error: 'Admin not found',
+      });
+      return;
+    }
+
+    if (role !== undefined && !Object.values(AdminRole).includes(role)) {
+      res.status(400).json({
+        success: false,
+        error: `Valid role is required (${Object.values(AdminRole).join(', ')})`,
+      });
+      return;
+    }
+
+    if (password !== undefined && !isStrongPassword(password)) {
+      res.status(400).json({
+        success: false,
+        error: 'Password must be at least 12 characters',
+      });
+      return;
+    }
+
+    // Never leave the team without an active owner
+    const losesOwner =
+      admin.role === AdminRole.OWNER &&
+      admin.isActive &&
+      ((role !== undefined && role !== AdminRole.OWNER) || isActive === false);
+
+    if (losesOwner && (await isLastActiveOwner(id))) {
+      res.status(400).json({
+        success: false,
+        error: 'Cannot demote or deactivate the last active owner',
+      });
+      return;
+    }
+
+    if (name !== undefined) admin.name = name;
+    if (email !== undefined) admin.email = email;
+    if (role !== undefined) admin.role = role;
+    if (isActive !== undefined) admin.isActive = Boolean(isActive);
+    if (password !== undefined) admin.passwordHash = await hashPassword(password);
+
+    await admin.save();
+
+    // Sign the admin out everywhere after a password change or deactivation
+    if (password !== undefined || isActive === false) {
+      await AdminSession.updateMany(
+        { adminId: admin._id, revokedAt: null },
+        { revokedAt: new Date() }
+      );
+    }
+
+    const { passwordHash, ...adminData } = admin.toObject();
+
+    res.status(200).json({
+      success: true,
+      message: 'Admin account updated',
+      data: adminData,
+    });
+  } catch (error: any) {
+    console.error('Error updating admin:', error);
+
+    if (error.name === 'ValidationError') {
+      res.status(400).json({
+        success: false,
+        error: 'Validation error',
+        details: error.message,
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update admin',
+    });
+  }
+};
+
+/**
+ * @desc    Delete admin account
+ * @route   DELETE /api/admin/admins/:id
+ * @access  Private (Owner)
+ */
+export const deleteAdmin = async (
+  req: AdminRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (req.admin?.id === id) {
+      res.status(400).json({
+        success: false,
+        error: 'You cannot delete your own account',
+      });
+      return;
+    }
+
+    const admin = await Admin.findById(id);
+
+    if (!admin) {
+      res.status(404).json({
+        success: false,
+        error: 'Admin not found',
+      });
+      return;
+    }
+
+    if (admin.role === AdminRole.OWNER && (await isLastActiveOwner(id))) {
+      res.status(400).json({
+        success: false,
+        error: 'Cannot delete the last active owner',
+      });
+      return;
+    }
+
+    await Promise.all([
+      Admin.findByIdAndDelete(id),
+      AdminSession.deleteMany({ adminId: id }),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      message: 'Admin account deleted',
+    });
+  } catch (error) {
+    console.error('Error deleting admin:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete admin',
+    });
+  }
+};
\ No newline at end of file
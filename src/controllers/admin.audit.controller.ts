@@ -0,0 +1,124 @@
+// controllers/admin.audit.controller.ts
+import { Request, Response } from 'express';
+import AuditLog, { AuditEntityType } from '../models/AuditLog';
+
+/**
+ * @desc    Get audit log entries
+ * @route   GET /api/admin/audit
+ * @access  Private (Admin)
+ */
+export const getAuditLogs = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const {
+      entityType,
+      entityId,
+      admin,
+      from,
+      to,
+      page = 1,
+      limit = 50,
+    } = req.query;
+
+    // Build query
+    const query: any = {};
+
+    if (entityType) {
+      query.entityType = entityType;
+    }
+
+    if (entityId) {
+      query.entityId = entityId;
+    }
+
+    if (admin) {
+      query.admin = admin;
+    }
+
+    if (from || to) {
+      const fromDate = from ? new Date(from as string) : null;
+      const toDate = to ? new Date(to as string) : null;
+
+      if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+        res.status(400).json({
+          success: false,
+          error: 'from and to must be valid dates',
+        });
+        return;
+      }
+
+      query.createdAt = {};
+      if (fromDate) query.createdAt.$gte = fromDate;
+      if (toDate) query.createdAt.$lte = toDate;
+    }
+
+    // Pagination
+    const skip = (Number(page) - 1) * Number(limit);
+
+    const [logs, total] = await Promise.all([
+      AuditLog.find(query)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(Number(limit))
+        .lean(),
+      AuditLog.countDocuments(query),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      count: logs.length,
+      total,
+      page: Number(page),
+      pages: Math.ceil(total / Number(limit)),
+      data: logs,
+    });
+  } catch (error) {
+    console.error('Error fetching audit logs:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch audit logs',
+    });
+  }
+};
+
+/**
+ * Audit history handler for a single entity
+ * @param entityType - Entity type the :id route param refers to
+ */
+export const getEntityAuditLogs = (entityType: AuditEntityType) => {
+  return async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { page = 1, limit = 50 } = req.query;
+
+      const query = { entityType, entityId: id };
+      const skip = (Number(page) - 1) * Number(limit);
+
+      const [logs, total] = await Promise.all([
+        AuditLog.find(query)
+          .sort({ createdAt: -1 })
+          .skip(skip)
+          .limit(Number(limit))
+          .lean(),
+        AuditLog.countDocuments(query),
+      ]);
+
+      res.status(200).json({
+        success: true,
+        count: logs.length,
+        total,
+        page: Number(page),
+        pages: Math.ceil(total / Number(limit)),
+        data: logs,
+      });
+    } catch (error) {
+      console.error('Error fetching entity audit logs:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch audit logs',
+      });
+    }
+  };
+};
\ No newline at end of file
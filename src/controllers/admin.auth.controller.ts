@@ -0,0 +1,257 @@
+// controllers/admin.auth.controller.ts
+import { Request, Response } from 'express';
+import Admin, { AdminRole } from '../models/Admin';
+import AdminSession from '../models/AdminSession';
+import { AdminRequest } from '../types';
+import { authenticateAdmin, createAdminSession } from '../utils/adminSessionUtils';
+
+/**
+ * @desc    Log in and issue an admin session token
+ * @route   POST /api/admin/auth/login
+ * @access  Public
+ */
+export const login = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { username, password } = req.body;
+
+    if (!username || !password || typeof username !== 'string' || typeof password !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: 'Username and password are required',
+      });
+      return;
+    }
+
+    const { admin, lockedUntil } = await authenticateAdmin(username, password, req.ip);
+
+    if (lockedUntil) {
+      res.setHeader('Retry-After', Math.ceil((lockedUntil.getTime() - Date.now()) / 1000).toString());
+      res.status(429).json({
+        success: false,
+        error: 'Too many failed login attempts. Please try again later.',
+        retryAfter: lockedUntil,
+      });
+      return;
+    }
+
+    if (!admin) {
+      res.status(401).json({
+        success: false,
+        error: 'Invalid username or password',
+      });
+      return;
+    }
+
+    const { token, session } = await createAdminSession(admin, req.ip, req.get('user-agent'));
+
+    res.status(200).json({
+      success: true,
+      message: 'Logged in successfully',
+      data: {
+        token,
+        expiresAt: session.expiresAt,
+        admin: {
+          id: admin._id,
+          username: admin.username,
+          name: admin.name,
+          email: admin.email,
+          role: admin.role,
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Admin login error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to log in',
+    });
+  }
+};
+
+/**
+ * @desc    Revoke the current session token
+ * @route   POST /api/admin/auth/logout
+ * @access  Private (Admin)
+ */
+export const logout = async (
+  req: AdminRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.admin?.sessionId) {
+      res.status(400).json({
+        success: false,
+        error: 'Logout requires a session token',
+      });
+      return;
+    }
+
+    await AdminSession.findByIdAndUpdate(req.admin.sessionId, {
+      revokedAt: new Date(),
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Logged out successfully',
+    });
+  } catch (error) {
+    console.error('Admin logout error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to log out',
+    });
+  }
+};
+
+/**
+ * @desc    Revoke all sessions of the current admin
+ * @route   POST /api/admin/auth/logout-all
+ * @access  Private (Admin)
+ */
+export const logoutAll = async (
+  req: AdminRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const result = await AdminSession.updateMany(
+      { adminId: req.admin!.id, revokedAt: null },
+      { revokedAt: new Date() }
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'All sessions revoked',
+      count: result.modifiedCount,
+    });
+  } catch (error) {
+    console.error('Admin logout-all error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to revoke sessions',
+    });
+  }
+};
+
+/**
+ * @desc    Get the current admin
+ * @route   GET /api/admin/auth/me
+ * @access  Private (Admin)
+ */
+export const getCurrentAdmin = async (
+  req: AdminRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const [admin, session] = await Promise.all([
+      Admin.findById(req.admin!.id).select('-__v').lean(),
+      req.admin!.sessionId ? AdminSession.findById(req.admin!.sessionId).lean() : null,
+    ]);
+
+    if (!admin) {
+      res.status(404).json({
+        success: false,
+        error: 'Admin not found',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        admin,
+        authMethod: session ? 'token' : 'basic',
+        sessionExpiresAt: session?.expiresAt,
+      },
+    });
+  } catch (error) {
+    console.error('Get current admin error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get admin',
+    });
+  }
+};
+
+/**
+ * @desc    List active sessions of the current admin
+ * @route   GET /api/admin/auth/sessions
+ * @access  Private (Admin)
+ */
+export const getSessions = async (
+  req: AdminRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const sessions = await AdminSession.find({
+      adminId: req.admin!.id,
+      revokedAt: null,
+      expiresAt: { $gt: new Date() },
+    })
+      .sort({ createdAt: -1 })
+      .select('-__v')
+      .lean();
+
+    res.status(200).json({
+      success: true,
+      count: sessions.length,
+      data: sessions.map(session => ({
+        ...session,
+        current: session._id.toString() === req.admin!.sessionId,
+      })),
+    });
+  } catch (error) {
+    console.error('Get admin sessions error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch sessions',
+    });
+  }
+};
+
+/**
+ * @desc    Revoke a session (own sessions, or any session for owners)
+ * @route   DELETE /api/admin/auth/sessions/:id
+ * @access  Private (Admin)
+ */
+export const revokeSession = async (
+  req: AdminRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const query: any = { _id: id, revokedAt: null };
+
+    if (req.admin!.role !== AdminRole.OWNER) {
+      query.adminId = req.admin!.id;
+    }
+
+    const session = await AdminSession.findOneAndUpdate(
+      query,
+      { revokedAt: new Date() },
+      { new: true }
+    );
+
+    if (!session) {
+      res.status(404).json({
+        success: false,
+        error: 'Session not found',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Session revoked',
+    });
+  } catch (error) {
+    console.error('Revoke admin session error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to revoke session',
+    });
+  }
+};
\ No newline at end of file
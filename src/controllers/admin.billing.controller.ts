@@ -0,0 +1,612 @@
+// controllers/admin.billing.controller.ts
+import { Request, Response } from 'express';
+import BillingPolicy, { BillingPolicyScope } from '../models/BillingPolicy';
+import { AdminRequest } from '../types';
+import Website from '../models/Website';
+import WebsiteRequest from '../models/WebsiteRequest';
+import {
+  DEFAULT_BILLING_POLICY,
+  getBillingPolicy,
+  loadBillingPolicyResolver,
+} from '../utils/billingPolicyUtils';
+import { findReminderCandidates, planUpcomingReminders } from '../utils/billingReminderUtils';
+import { getDaysRemaining } from '../utils/billingUtils';
+import { buildPaymentReminderEmail } from '../utils/emailService';
+import PlanChange, { PlanChangeStatus } from '../models/PlanChange';
+import PaymentEvent from '../models/PaymentEvent';
+import {
+  applyPlanChange,
+  OPEN_PLAN_CHANGE_STATUSES,
+  preparePlanChange,
+} from '../utils/planChangeUtils';
+import {
+  getChurn,
+  getCollectedRevenue,
+  getOutstandingReceivables,
+  getRecurringRevenue,
+  getRevenueByPlan,
+  parseAnalyticsQuery,
+} from '../utils/billingAnalyticsUtils';
+
+const POLICY_FIELDS = [
+  'graceDays',
+  'overdueToSuspendDays',
+  'reminderOffsets',
+  'reinstatement.requireFullBalance',
+  'reinstatement.dueDateBasis',
+];
+
+/**
+ * Build a $set/$unset update from the policy fields in a request body (null clears an override)
+ */
+const buildPolicyUpdate = (body: any, admin?: string) => {
+  const $set: Record<string, any> = { updatedBy: admin };
+  const $unset: Record<string, 1> = {};
+
+  POLICY_FIELDS.forEach((field) => {
+    const value = field.split('.').reduce((obj, key) => obj?.[key], body);
+
+    if (value === null) {
+      $unset[field] = 1;
+    } else if (value !== undefined) {
+      $set[field] = value;
+    }
+  });
+
+  return Object.keys($unset).length ? { $set, $unset } : { $set };
+};
+
+/**
+ * @desc    Get billing policies (global and per-plan overrides)
+ * @route   GET /api/admin/billing/policies
+ * @access  Private (Admin)
+ */
+export const getBillingPolicies = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const [policies, effectiveGlobal] = await Promise.all([
+      BillingPolicy.find().sort({ scope: 1, plan: 1 }).lean(),
+      getBillingPolicy(),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        defaults: DEFAULT_BILLING_POLICY,
+        effectiveGlobal,
+        global: policies.find((policy) => policy.scope === BillingPolicyScope.GLOBAL) || null,
+        plans: policies.filter((policy) => policy.scope === BillingPolicyScope.PLAN),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching billing policies:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch billing policies',
+    });
+  }
+};
+
+/**
+ * @desc    Get the effective billing policy for a plan
+ * @route   GET /api/admin/billing/policies/effective
+ * @access  Private (Admin)
+ */
+export const getEffectiveBillingPolicy = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { plan } = req.query;
+
+    const policy = await getBillingPolicy(plan as string | undefined);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        plan: plan || null,
+        ...policy,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching effective billing policy:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch billing policy',
+    });
+  }
+};
+
+/**
+ * @desc    Update the global billing policy
+ * @route   PUT /api/admin/billing/policies/global
+ * @access  Private (Admin)
+ */
+export const updateGlobalBillingPolicy = async (
+  req: AdminRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const policy = await BillingPolicy.findOneAndUpdate(
+      { scope: BillingPolicyScope.GLOBAL },
+      buildPolicyUpdate(req.body, req.admin?.username),
+      { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Global billing policy updated successfully',
+      data: policy,
+    });
+  } catch (error: any) {
+    console.error('Error updating global billing policy:', error);
+
+    if (error.name === 'ValidationError' || error.name === 'CastError') {
+      res.status(400).json({
+        success: false,
+        error: 'Validation error',
+        details: error.message,
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update billing policy',
+    });
+  }
+};
+
+/**
+ * @desc    Create or update a plan's billing policy overrides
+ * @route   PUT /api/admin/billing/policies/plans/:plan
+ * @access  Private (Admin)
+ */
+export const upsertPlanBillingPolicy = async (
+  req: AdminRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const plan = req.params.plan.toLowerCase().trim();
+
+    const policy = await BillingPolicy.findOneAndUpdate(
+      { scope: BillingPolicyScope.PLAN, plan },
+      buildPolicyUpdate(req.body, req.admin?.username),
+      { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+    );
+
+    res.status(200).json({
+      success: true,
+      message: `Billing policy for plan "${plan}" updated successfully`,
+      data: policy,
+    });
+  } catch (error: any) {
+    console.error('Error updating plan billing policy:', error);
+
+    if (error.name === 'ValidationError' || error.name === 'CastError') {
+      res.status(400).json({
+        success: false,
+        error: 'Validation error',
+        details: error.message,
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update billing policy',
+    });
+  }
+};
+
+/**
+ * @desc    Remove a plan's billing policy overrides
+ * @route   DELETE /api/admin/billing/policies/plans/:plan
+ * @access  Private (Admin)
+ */
+export const deletePlanBillingPolicy = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const plan = req.params.plan.toLowerCase().trim();
+
+    const policy = await BillingPolicy.findOneAndDelete({ scope: BillingPolicyScope.PLAN, plan });
+
+    if (!policy) {
+      res.status(404).json({
+        success: false,
+        error: 'Billing policy not found for this plan',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: `Billing policy for plan "${plan}" removed; the global policy now applies`,
+    });
+  } catch (error) {
+    console.error('Error deleting plan billing policy:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete billing policy',
+    });
+  }
+};
+
+/**
+ * @desc    Preview payment reminders that are due now or scheduled soon
+ * @route   GET /api/admin/billing/reminders/upcoming
+ * @access  Private (Admin)
+ */
+export const getUpcomingReminders = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const days = Math.min(Math.max(Number(req.query.days) || 7, 1), 60);
+    const now = new Date();
+
+    const [resolvePolicy, websites] = await Promise.all([
+      loadBillingPolicyResolver(),
+      findReminderCandidates(now, days),
+    ]);
+
+    const reminders = planUpcomingReminders(websites, resolvePolicy, now, days);
+
+    res.status(200).json({
+      success: true,
+      count: reminders.length,
+      data: reminders.map((reminder) => ({
+        websiteId: reminder.website._id,
+        websiteName: reminder.website.name,
+        plan: reminder.website.billing.plan,
+        billingStatus: reminder.website.billing.status,
+        dueAt: reminder.dueAt,
+        offsetDays: reminder.offsetDays,
+        sendAt: reminder.sendAt,
+        dueNow: reminder.sendAt.getTime() === now.getTime(),
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching upcoming reminders:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch upcoming reminders',
+    });
+  }
+};
+
+/**
+ * @desc    Render the payment reminder email for a website
+ * @route   GET /api/admin/billing/reminders/preview/:id
+ * @access  Private (Admin)
+ */
+export const previewReminderEmail = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const website = await Website.findById(id);
+
+    if (!website) {
+      res.status(404).json({
+        success: false,
+        error: 'Website not found',
+      });
+      return;
+    }
+
+    if (!website.billing.dueAt) {
+      res.status(400).json({
+        success: false,
+        error: 'Website has no billing due date',
+      });
+      return;
+    }
+
+    const request = await WebsiteRequest.findById(website.requestId);
+
+    if (!request) {
+      res.status(404).json({
+        success: false,
+        error: 'Website request not found',
+      });
+      return;
+    }
+
+    const daysRemaining = req.query.days
+      ? Number(req.query.days)
+      : Math.max(getDaysRemaining(website.billing.dueAt), 1);
+
+    const email = await buildPaymentReminderEmail(request, website, daysRemaining);
+
+    if (req.query.format === 'html') {
+      res.type('html').send(email.html);
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        to: request.contactEmail,
+        daysRemaining,
+        ...email,
+      },
+    });
+  } catch (error) {
+    console.error('Error previewing reminder email:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to preview reminder email',
+    });
+  }
+};
+
+/**
+ * @desc    Get plan changes (client requests, scheduled and applied changes)
+ * @route   GET /api/admin/billing/plan-changes
+ * @access  Private (Admin)
+ */
+export const getPlanChanges = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { status, source, websiteId, page = 1, limit = 20 } = req.query;
+
+    const query: any = {};
+    if (status) {
+      query.status = status;
+    }
+    if (source) {
+      query.source = source;
+    }
+    if (websiteId) {
+      query.websiteId = websiteId;
+    }
+
+    const skip = (Number(page) - 1) * Number(limit);
+
+    const [changes, total] = await Promise.all([
+      PlanChange.find(query)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(Number(limit))
+        .populate('websiteId', 'name domain billing.status')
+        .lean(),
+      PlanChange.countDocuments(query),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      count: changes.length,
+      total,
+      page: Number(page),
+      pages: Math.ceil(total / Number(limit)),
+      data: changes,
+    });
+  } catch (error) {
+    console.error('Error fetching plan changes:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch plan changes',
+    });
+  }
+};
+
+/**
+ * @desc    Approve a client's plan change request (re-validated and re-priced now)
+ * @route   POST /api/admin/billing/plan-changes/:id/approve
+ * @access  Private (Admin)
+ */
+export const approvePlanChange = async (
+  req: AdminRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const change = await PlanChange.findById(req.params.id);
+
+    if (!change || change.status !== PlanChangeStatus.REQUESTED) {
+      res.status(404).json({
+        success: false,
+        error: 'Pending plan change request not found',
+      });
+      return;
+    }
+
+    const website = await Website.findById(change.websiteId);
+
+    if (!website) {
+      res.status(404).json({
+        success: false,
+        error: 'Website not found',
+      });
+      return;
+    }
+
+    const prepared = await preparePlanChange(
+      website,
+      { plan: change.toPlan, billingCycle: change.toCycle, timing: change.timing },
+      { excludeChangeId: change._id }
+    );
+
+    if (!prepared.success) {
+      res.status(prepared.statusCode).json({
+        success: false,
+        error: prepared.error,
+      });
+      return;
+    }
+
+    change.set(prepared.draft);
+    change.decidedBy = req.admin?.username;
+    const approved = await applyPlanChange(website, change);
+
+    res.status(200).json({
+      success: true,
+      message: approved.status === PlanChangeStatus.APPLIED
+        ? 'Plan change approved and applied'
+        : `Plan change approved for ${approved.effectiveAt?.toISOString()}`,
+      data: approved,
+    });
+  } catch (error) {
+    console.error('Error approving plan change:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to approve plan change',
+    });
+  }
+};
+
+/**
+ * @desc    Reject a client's plan change request, or cancel a scheduled change
+ * @route   POST /api/admin/billing/plan-changes/:id/cancel
+ * @access  Private (Admin)
+ */
+export const cancelPlanChange = async (
+  req: AdminRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { reason } = req.body;
+    const change = await PlanChange.findById(req.params.id);
+
+    if (!change || !OPEN_PLAN_CHANGE_STATUSES.includes(change.status)) {
+      res.status(404).json({
+        success: false,
+        error: 'Pending plan change not found',
+      });
+      return;
+    }
+
+    change.status = change.status === PlanChangeStatus.REQUESTED
+      ? PlanChangeStatus.REJECTED
+      : PlanChangeStatus.CANCELLED;
+    change.decidedBy = req.admin?.username;
+    if (reason) {
+      change.note = reason;
+    }
+    await change.save();
+
+    res.status(200).json({
+      success: true,
+      message: `Plan change ${change.status.toLowerCase()}`,
+      data: change,
+    });
+  } catch (error) {
+    console.error('Error cancelling plan change:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to cancel plan change',
+    });
+  }
+};
+
+/**
+ * @desc    Get payment provider webhook events (e.g. status=FAILED for deliveries awaiting a retry)
+ * @route   GET /api/admin/billing/payment-events
+ * @access  Private (Admin)
+ */
+export const getPaymentEvents = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { status, websiteId, page = 1, limit = 20 } = req.query;
+
+    const query: any = {};
+    if (status) {
+      query.status = status;
+    }
+    if (websiteId) {
+      query.websiteId = websiteId;
+    }
+
+    const skip = (Number(page) - 1) * Number(limit);
+
+    const [events, total] = await Promise.all([
+      PaymentEvent.find(query)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(Number(limit))
+        .populate('websiteId', 'name domain')
+        .lean(),
+      PaymentEvent.countDocuments(query),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      count: events.length,
+      total,
+      page: Number(page),
+      pages: Math.ceil(total / Number(limit)),
+      data: events,
+    });
+  } catch (error) {
+    console.error('Error fetching payment events:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch payment events',
+    });
+  }
+};
+
+/**
+ * @desc    Revenue analytics: MRR/ARR, collected revenue, receivables, churn and revenue per plan
+ * @route   GET /api/admin/billing/analytics
+ * @access  Private (Admin)
+ */
+export const getBillingAnalytics = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const parsed = parseAnalyticsQuery(req.query);
+
+    if (!parsed.success) {
+      res.status(parsed.statusCode).json({
+        success: false,
+        error: parsed.error,
+      });
+      return;
+    }
+
+    const { options } = parsed;
+    const [recurring, collected, outstanding, churn, byPlan] = await Promise.all([
+      getRecurringRevenue(options),
+      getCollectedRevenue(options),
+      getOutstandingReceivables(options),
+      getChurn(options),
+      getRevenueByPlan(options),
+    ]);
+
+    // Amounts are in minor units and never summed across currencies
+    res.status(200).json({
+      success: true,
+      data: {
+        range: {
+          from: options.from,
+          to: options.to,
+          groupBy: options.groupBy,
+          currency: options.currency,
+        },
+        recurring,
+        collected,
+        outstanding,
+        churn,
+        byPlan,
+      },
+    });
+  } catch (error) {
+    console.error('Error computing billing analytics:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to compute billing analytics',
+    });
+  }
+};
\ No newline at end of file
@@ -0,0 +1,288 @@
+// controllers/admin.coupon.controller.ts
+import { Request, Response } from 'express';
+import Coupon, { CouponStatus } from '../models/Coupon';
+import CouponRedemption from '../models/CouponRedemption';
+import { AdminRequest } from '../types';
+import { normalizeCouponCode } from '../utils/couponUtils';
+import { getSupportedCurrencies, isSupportedCurrency } from '../utils/currencyUtils';
+
+// Fields admins may set; the code is fixed once created since redemptions reference it
+const COUPON_FIELDS = [
+  'description',
+  'discountType',
+  'amount',
+  'currency',
+  'duration',
+  'durationCycles',
+  'plans',
+  'maxRedemptions',
+  'expiresAt',
+  'status',
+];
+
+const sendCouponValidationError = (res: Response, error: any): boolean => {
+  if (error.name === 'ValidationError' || error.name === 'CastError') {
+    res.status(400).json({
+      success: false,
+      error: 'Validation error',
+      details: error.message,
+    });
+    return true;
+  }
+
+  if (error.code === 11000) {
+    res.status(409).json({
+      success: false,
+      error: 'A coupon with this code already exists',
+    });
+    return true;
+  }
+
+  return false;
+};
+
+const sendUnsupportedCurrencyError = (res: Response, currency: unknown): boolean => {
+  if (currency === undefined || isSupportedCurrency(currency)) {
+    return false;
+  }
+
+  res.status(400).json({
+    success: false,
+    error: `Currency must be one of: ${getSupportedCurrencies().join(', ')}`,
+  });
+  return true;
+};
+
+/**
+ * @desc    Get all coupons
+ * @route   GET /api/admin/coupons
+ * @access  Private (Admin)
+ */
+export const getAllCoupons = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { status, search, page = 1, limit = 20 } = req.query;
+
+    const query: any = {};
+    if (status) {
+      query.status = status;
+    }
+    if (search) {
+      query.code = { $regex: search, $options: 'i' };
+    }
+
+    const skip = (Number(page) - 1) * Number(limit);
+
+    const [coupons, total] = await Promise.all([
+      Coupon.find(query)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(Number(limit))
+        .lean(),
+      Coupon.countDocuments(query),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      count: coupons.length,
+      total,
+      page: Number(page),
+      pages: Math.ceil(total / Number(limit)),
+      data: coupons,
+    });
+  } catch (error) {
+    console.error('Error fetching coupons:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch coupons',
+    });
+  }
+};
+
+/**
+ * @desc    Get a coupon with its redemptions
+ * @route   GET /api/admin/coupons/:id
+ * @access  Private (Admin)
+ */
+export const getCouponById = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const coupon = await Coupon.findById(req.params.id);
+
+    if (!coupon) {
+      res.status(404).json({
+        success: false,
+        error: 'Coupon not found',
+      });
+      return;
+    }
+
+    const redemptions = await CouponRedemption.find({ couponId: coupon._id })
+      .sort({ redeemedAt: -1 })
+      .populate('websiteId', 'name domain')
+      .populate('requestId', 'projectName contactEmail')
+      .lean();
+
+    res.status(200).json({
+      success: true,
+      data: {
+        coupon,
+        redemptions,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching coupon:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch coupon',
+    });
+  }
+};
+
+/**
+ * @desc    Create a coupon
+ * @route   POST /api/admin/coupons
+ * @access  Private (Admin)
+ */
+export const createCoupon = async (
+  req: AdminRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    if (sendUnsupportedCurrencyError(res, req.body.currency)) {
+      return;
+    }
+
+    const data: Record<string, any> = { code: req.body.code };
+    COUPON_FIELDS.forEach((field) => {
+      if (req.body[field] !== undefined) {
+        data[field] = req.body[field];
+      }
+    });
+
+    const coupon = await Coupon.create({
+      ...data,
+      createdBy: req.admin?.username,
+      updatedBy: req.admin?.username,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Coupon created successfully',
+      data: coupon,
+    });
+  } catch (error: any) {
+    console.error('Error creating coupon:', error);
+
+    if (sendCouponValidationError(res, error)) {
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create coupon',
+    });
+  }
+};
+
+/**
+ * @desc    Update a coupon (websites already discounted keep the terms they redeemed)
+ * @route   PATCH /api/admin/coupons/:id
+ * @access  Private (Admin)
+ */
+export const updateCoupon = async (
+  req: AdminRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const coupon = await Coupon.findById(req.params.id);
+
+    if (!coupon) {
+      res.status(404).json({
+        success: false,
+        error: 'Coupon not found',
+      });
+      return;
+    }
+
+    if (req.body.code !== undefined && normalizeCouponCode(String(req.body.code)) !== coupon.code) {
+      res.status(400).json({
+        success: false,
+        error: 'Coupon code cannot be changed',
+      });
+      return;
+    }
+
+    if (sendUnsupportedCurrencyError(res, req.body.currency)) {
+      return;
+    }
+
+    COUPON_FIELDS.forEach((field) => {
+      if (req.body[field] !== undefined) {
+        coupon.set(field, req.body[field]);
+      }
+    });
+    coupon.updatedBy = req.admin?.username;
+
+    await coupon.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Coupon updated successfully',
+      data: coupon,
+    });
+  } catch (error: any) {
+    console.error('Error updating coupon:', error);
+
+    if (sendCouponValidationError(res, error)) {
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update coupon',
+    });
+  }
+};
+
+/**
+ * @desc    Disable a coupon (no new redemptions)
+ * @route   DELETE /api/admin/coupons/:id
+ * @access  Private (Admin)
+ */
+export const disableCoupon = async (
+  req: AdminRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const coupon = await Coupon.findById(req.params.id);
+
+    if (!coupon) {
+      res.status(404).json({
+        success: false,
+        error: 'Coupon not found',
+      });
+      return;
+    }
+
+    coupon.status = CouponStatus.DISABLED;
+    coupon.updatedBy = req.admin?.username;
+    await coupon.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Coupon disabled successfully',
+      data: coupon,
+    });
+  } catch (error) {
+    console.error('Error disabling coupon:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to disable coupon',
+    });
+  }
+};
\ No newline at end of file
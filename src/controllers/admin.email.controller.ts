@@ -0,0 +1,504 @@
+// controllers/admin.email.controller.ts
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import EmailOutbox, { EmailEvent, EmailOutboxStatus } from '../models/EmailOutbox';
+import EmailTemplate from '../models/EmailTemplate';
+import Website from '../models/Website';
+import WebsiteRequest from '../models/WebsiteRequest';
+import { AdminRequest } from '../types';
+import { resendEmail } from '../utils/emailOutboxUtils';
+import { buildPreviewEmailData } from '../utils/emailService';
+import { DEFAULT_EMAIL_TEMPLATES, EmailTemplateContent } from '../utils/emailTemplateDefaults';
+import {
+  getEmailTemplate,
+  renderEmailContent,
+  validateEmailTemplate,
+} from '../utils/emailTemplateUtils';
+
+const TEMPLATE_FIELDS = ['subject', 'html', 'text'] as const;
+
+const isEmailEvent = (event: string): event is EmailEvent => {
+  return (Object.values(EmailEvent) as string[]).includes(event);
+};
+
+// Template fields present in the request body
+const pickTemplateFields = (body: any): Partial<EmailTemplateContent> => {
+  const fields: Partial<EmailTemplateContent> = {};
+
+  for (const field of TEMPLATE_FIELDS) {
+    if (body?.[field] !== undefined) {
+      fields[field] = body[field];
+    }
+  }
+
+  return fields;
+};
+
+/**
+ * @desc    Get queued, sent and failed emails
+ * @route   GET /api/admin/emails
+ * @access  Private (Admin)
+ */
+export const getEmails = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const {
+      status,
+      event,
+      to,
+      failed,
+      page = 1,
+      limit = 20,
+    } = req.query;
+
+    // Build query
+    const query: any = {};
+
+    if (status) {
+      query.status = status;
+    }
+
+    if (event) {
+      query.event = event;
+    }
+
+    if (to) {
+      query.to = to;
+    }
+
+    // Dead emails and pending ones that have failed at least once
+    if (failed === 'true') {
+      query.lastError = { $exists: true, $ne: null };
+      query.status = status || { $in: [EmailOutboxStatus.PENDING, EmailOutboxStatus.DEAD] };
+    }
+
+    // Pagination
+    const skip = (Number(page) - 1) * Number(limit);
+
+    const [emails, total] = await Promise.all([
+      EmailOutbox.find(query)
+        .select('-html -text -attachments.content')
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(Number(limit))
+        .lean(),
+      EmailOutbox.countDocuments(query),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      count: emails.length,
+      total,
+      page: Number(page),
+      pages: Math.ceil(total / Number(limit)),
+      data: emails,
+    });
+  } catch (error) {
+    console.error('Error fetching emails:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch emails',
+    });
+  }
+};
+
+/**
+ * @desc    Get a queued email with its HTML and text bodies
+ * @route   GET /api/admin/emails/:id
+ * @access  Private (Admin)
+ */
+export const getEmailDetails = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid email ID',
+      });
+      return;
+    }
+
+    const email = await EmailOutbox.findById(id).select('-attachments.content').lean();
+
+    if (!email) {
+      res.status(404).json({
+        success: false,
+        error: 'Email not found',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: email,
+    });
+  } catch (error) {
+    console.error('Error fetching email details:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch email details',
+    });
+  }
+};
+
+/**
+ * @desc    Resend a dead or sent email now (resets its attempts)
+ * @route   POST /api/admin/emails/:id/resend
+ * @access  Private (Owner, Project Manager, Billing, Support Agent)
+ */
+export const resendOutboxEmail = async (
+  req: AdminRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid email ID',
+      });
+      return;
+    }
+
+    const email = await EmailOutbox.findById(id);
+
+    if (!email) {
+      res.status(404).json({
+        success: false,
+        error: 'Email not found',
+      });
+      return;
+    }
+
+    if (email.status === EmailOutboxStatus.SENDING) {
+      res.status(409).json({
+        success: false,
+        error: 'Email is being sent right now',
+      });
+      return;
+    }
+
+    const result = await resendEmail(email, req.admin?.username);
+    const sent = result.status === EmailOutboxStatus.SENT;
+
+    res.status(200).json({
+      success: true,
+      message: sent ? 'Email sent successfully' : 'Email could not be sent and will be retried',
+      data: {
+        _id: result._id,
+        event: result.event,
+        to: result.to,
+        subject: result.subject,
+        status: result.status,
+        attempts: result.attempts,
+        nextAttemptAt: result.nextAttemptAt,
+        lastError: result.lastError,
+        sentAt: result.sentAt,
+      },
+    });
+  } catch (error) {
+    console.error('Error resending email:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to resend email',
+    });
+  }
+};
+
+/**
+ * @desc    Get all email templates (without bodies)
+ * @route   GET /api/admin/email-templates
+ * @access  Private (Admin)
+ */
+export const getEmailTemplates = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const stored = await EmailTemplate.find().select('event subject customized updatedBy updatedAt').lean();
+    const byEvent = new Map(stored.map((template) => [template.event, template]));
+
+    const templates = Object.values(EmailEvent).map((event) => {
+      const { description, variables, subject } = DEFAULT_EMAIL_TEMPLATES[event];
+      const template = byEvent.get(event);
+
+      return {
+        event,
+        description,
+        variables,
+        subject: template?.subject || subject,
+        customized: template?.customized || false,
+        updatedBy: template?.updatedBy,
+        updatedAt: template?.updatedAt,
+      };
+    });
+
+    res.status(200).json({
+      success: true,
+      count: templates.length,
+      data: templates,
+    });
+  } catch (error) {
+    console.error('Error fetching email templates:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch email templates',
+    });
+  }
+};
+
+/**
+ * @desc    Get an email template with its default
+ * @route   GET /api/admin/email-templates/:event
+ * @access  Private (Admin)
+ */
+export const getEmailTemplateDetails = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { event } = req.params;
+
+    if (!isEmailEvent(event)) {
+      res.status(404).json({
+        success: false,
+        error: 'Email template not found',
+      });
+      return;
+    }
+
+    const { description, variables, subject, html, text } = DEFAULT_EMAIL_TEMPLATES[event];
+    const template = await EmailTemplate.findOne({ event }).lean();
+
+    res.status(200).json({
+      success: true,
+      data: {
+        event,
+        description,
+        variables,
+        subject: template?.subject ?? subject,
+        html: template?.html ?? html,
+        text: template?.text ?? text,
+        customized: template?.customized || false,
+        updatedBy: template?.updatedBy,
+        updatedAt: template?.updatedAt,
+        default: { subject, html, text },
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching email template:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch email template',
+    });
+  }
+};
+
+/**
+ * @desc    Edit an email template
+ * @route   PATCH /api/admin/email-templates/:event
+ * @access  Private (Owner, Project Manager)
+ */
+export const updateEmailTemplate = async (
+  req: AdminRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { event } = req.params;
+
+    if (!isEmailEvent(event)) {
+      res.status(404).json({
+        success: false,
+        error: 'Email template not found',
+      });
+      return;
+    }
+
+    const updates = pickTemplateFields(req.body);
+
+    if (Object.keys(updates).length === 0) {
+      res.status(400).json({
+        success: false,
+        error: 'Provide at least one of subject, html or text',
+      });
+      return;
+    }
+
+    const validationError = validateEmailTemplate(updates);
+
+    if (validationError) {
+      res.status(400).json({
+        success: false,
+        error: validationError,
+      });
+      return;
+    }
+
+    // Fields not edited keep their stored value, or the default for a template never seeded
+    const defaults = DEFAULT_EMAIL_TEMPLATES[event];
+    const insertDefaults = Object.fromEntries(
+      TEMPLATE_FIELDS.filter((field) => updates[field] === undefined).map((field) => [field, defaults[field]])
+    );
+
+    const template = await EmailTemplate.findOneAndUpdate(
+      { event },
+      {
+        $set: { ...updates, customized: true, updatedBy: req.admin?.username },
+        $setOnInsert: { event, ...insertDefaults },
+      },
+      { new: true, upsert: true, runValidators: true }
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Email template updated successfully',
+      data: template,
+    });
+  } catch (error) {
+    console.error('Error updating email template:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update email template',
+    });
+  }
+};
+
+/**
+ * @desc    Render an email template against a website and its request
+ * @route   POST /api/admin/email-templates/:event/preview
+ * @access  Private (Admin)
+ */
+export const previewEmailTemplate = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { event } = req.params;
+    const { websiteId, requestId } = req.body || {};
+
+    if (!isEmailEvent(event)) {
+      res.status(404).json({
+        success: false,
+        error: 'Email template not found',
+      });
+      return;
+    }
+
+    if ((websiteId && !mongoose.Types.ObjectId.isValid(websiteId))
+      || (requestId && !mongoose.Types.ObjectId.isValid(requestId))) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid website or request ID',
+      });
+      return;
+    }
+
+    // Unsaved edits in the body are previewed over the current template
+    const edits = pickTemplateFields(req.body);
+    const validationError = validateEmailTemplate(edits);
+
+    if (validationError) {
+      res.status(400).json({
+        success: false,
+        error: validationError,
+      });
+      return;
+    }
+
+    // Default to the most recent website (or the one created from the given request)
+    const website = websiteId
+      ? await Website.findById(websiteId)
+      : await Website.findOne(requestId ? { requestId } : {}).sort({ createdAt: -1 });
+
+    if (!website) {
+      res.status(404).json({
+        success: false,
+        error: 'No website found to preview with',
+      });
+      return;
+    }
+
+    const request = await WebsiteRequest.findById(requestId || website.requestId);
+
+    if (!request) {
+      res.status(404).json({
+        success: false,
+        error: 'Website request not found',
+      });
+      return;
+    }
+
+    const template = { ...(await getEmailTemplate(event)), ...edits };
+    const email = renderEmailContent(template, await buildPreviewEmailData(event, request, website));
+
+    if (req.query.format === 'html') {
+      res.type('html').send(email.html);
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        event,
+        websiteId: website._id,
+        requestId: request._id,
+        ...email,
+      },
+    });
+  } catch (error) {
+    console.error('Error previewing email template:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to preview email template',
+    });
+  }
+};
+
+/**
+ * @desc    Revert an email template to its default
+ * @route   POST /api/admin/email-templates/:event/revert
+ * @access  Private (Owner, Project Manager)
+ */
+export const revertEmailTemplate = async (
+  req: AdminRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { event } = req.params;
+
+    if (!isEmailEvent(event)) {
+      res.status(404).json({
+        success: false,
+        error: 'Email template not found',
+      });
+      return;
+    }
+
+    const { subject, html, text } = DEFAULT_EMAIL_TEMPLATES[event];
+
+    const template = await EmailTemplate.findOneAndUpdate(
+      { event },
+      { $set: { subject, html, text, customized: false, updatedBy: req.admin?.username } },
+      { new: true, upsert: true }
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Email template reverted to default',
+      data: template,
+    });
+  } catch (error) {
+    console.error('Error reverting email template:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to revert email template',
+    });
+  }
+};
\ No newline at end of file
@@ -0,0 +1,389 @@
+// controllers/admin.invoice.controller.ts
+import { Request, Response } from 'express';
+import Invoice, { InvoiceStatus } from '../models/Invoice';
+import Website from '../models/Website';
+import { generateCycleInvoice } from '../utils/invoiceUtils';
+import { getInvoiceFileName, renderInvoiceHtml, renderInvoicePdf } from '../utils/invoiceRenderer';
+
+/**
+ * @desc    Get all invoices
+ * @route   GET /api/admin/invoices
+ * @access  Private (Admin)
+ */
+export const getAllInvoices = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const {
+      status,
+      websiteId,
+      userId,
+      page = 1,
+      limit = 20,
+    } = req.query;
+
+    // Build query
+    const query: any = {};
+
+    if (status) {
+      query.status = status;
+    }
+
+    if (websiteId) {
+      query.websiteId = websiteId;
+    }
+
+    if (userId) {
+      query.userId = userId;
+    }
+
+    // Pagination
+    const skip = (Number(page) - 1) * Number(limit);
+
+    const [invoices, total] = await Promise.all([
+      Invoice.find(query)
+        .populate('website', 'name domain')
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(Number(limit))
+        .lean(),
+      Invoice.countDocuments(query),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      count: invoices.length,
+      total,
+      page: Number(page),
+      pages: Math.ceil(total / Number(limit)),
+      data: invoices,
+    });
+  } catch (error) {
+    console.error('Error fetching invoices:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch invoices',
+    });
+  }
+};
+
+/**
+ * @desc    Get single invoice
+ * @route   GET /api/admin/invoices/:invoiceId
+ * @access  Private (Admin)
+ */
+export const getInvoiceDetails = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { invoiceId } = req.params;
+
+    const invoice = await Invoice.findById(invoiceId)
+      .populate('website', 'name domain userId billing.plan billing.billingCycle')
+      .lean();
+
+    if (!invoice) {
+      res.status(404).json({
+        success: false,
+        error: 'Invoice not found',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: invoice,
+    });
+  } catch (error) {
+    console.error('Error fetching invoice details:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch invoice details',
+    });
+  }
+};
+
+/**
+ * @desc    Get invoices of a website
+ * @route   GET /api/admin/websites/:id/invoices
+ * @access  Private (Admin)
+ */
+export const getWebsiteInvoices = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { status } = req.query;
+
+    const query: any = { websiteId: id };
+
+    if (status) {
+      query.status = status;
+    }
+
+    const invoices = await Invoice.find(query)
+      .sort({ createdAt: -1 })
+      .lean();
+
+    res.status(200).json({
+      success: true,
+      count: invoices.length,
+      data: invoices,
+    });
+  } catch (error) {
+    console.error('Error fetching website invoices:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch website invoices',
+    });
+  }
+};
+
+/**
+ * @desc    Create a draft invoice for a website billing period
+ * @route   POST /api/admin/websites/:id/invoices
+ * @access  Private (Admin)
+ */
+export const createWebsiteInvoice = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { periodStart, dueAt, discount, taxRate, notes } = req.body;
+
+    const website = await Website.findById(id);
+
+    if (!website) {
+      res.status(404).json({
+        success: false,
+        error: 'Website not found',
+      });
+      return;
+    }
+
+    if (!website.billing.price) {
+      res.status(400).json({
+        success: false,
+        error: 'Website has no billing price set',
+      });
+      return;
+    }
+
+    const start = periodStart ? new Date(periodStart) : website.billing.dueAt || new Date();
+
+    if (isNaN(start.getTime())) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid periodStart date',
+      });
+      return;
+    }
+
+    const existing = await Invoice.findOne({
+      websiteId: website._id,
+      periodStart: start,
+      status: { $ne: InvoiceStatus.VOID },
+    });
+
+    if (existing) {
+      res.status(409).json({
+        success: false,
+        error: `Invoice ${existing.number} already exists for this billing period`,
+      });
+      return;
+    }
+
+    const invoice = await generateCycleInvoice(website, start, {
+      dueAt: dueAt ? new Date(dueAt) : start,
+      status: InvoiceStatus.DRAFT,
+      discount: discount !== undefined ? Number(discount) : undefined,
+      taxRate: taxRate !== undefined ? Number(taxRate) : undefined,
+      notes,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Invoice created successfully',
+      data: invoice,
+    });
+  } catch (error: any) {
+    console.error('Error creating invoice:', error);
+
+    if (error.name === 'ValidationError') {
+      res.status(400).json({
+        success: false,
+        error: 'Validation error',
+        details: error.message,
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create invoice',
+    });
+  }
+};
+
+/**
+ * @desc    Issue a draft invoice
+ * @route   POST /api/admin/invoices/:invoiceId/issue
+ * @access  Private (Admin)
+ */
+export const issueInvoice = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { invoiceId } = req.params;
+
+    const invoice = await Invoice.findById(invoiceId);
+
+    if (!invoice) {
+      res.status(404).json({
+        success: false,
+        error: 'Invoice not found',
+      });
+      return;
+    }
+
+    if (invoice.status !== InvoiceStatus.DRAFT) {
+      res.status(409).json({
+        success: false,
+        error: `Only draft invoices can be issued (current status: ${invoice.status})`,
+      });
+      return;
+    }
+
+    invoice.status = InvoiceStatus.OPEN;
+    invoice.issuedAt = new Date();
+
+    if (!invoice.dueAt) {
+      invoice.dueAt = invoice.periodStart || invoice.issuedAt;
+    }
+
+    await invoice.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Invoice issued successfully',
+      data: invoice,
+    });
+  } catch (error) {
+    console.error('Error issuing invoice:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to issue invoice',
+    });
+  }
+};
+
+/**
+ * @desc    Void an unpaid invoice
+ * @route   POST /api/admin/invoices/:invoiceId/void
+ * @access  Private (Admin)
+ */
+export const voidInvoice = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { invoiceId } = req.params;
+    const { reason } = req.body;
+
+    const invoice = await Invoice.findById(invoiceId);
+
+    if (!invoice) {
+      res.status(404).json({
+        success: false,
+        error: 'Invoice not found',
+      });
+      return;
+    }
+
+    if (invoice.status === InvoiceStatus.PAID || invoice.status === InvoiceStatus.VOID) {
+      res.status(409).json({
+        success: false,
+        error: `Cannot void an invoice with status ${invoice.status}`,
+      });
+      return;
+    }
+
+    if (invoice.amountPaid > 0) {
+      res.status(409).json({
+        success: false,
+        error: 'Cannot void a partially paid invoice',
+      });
+      return;
+    }
+
+    invoice.status = InvoiceStatus.VOID;
+    invoice.voidedAt = new Date();
+
+    if (reason) {
+      invoice.notes = invoice.notes ? `${invoice.notes}\nVoided: ${reason}` : `Voided: ${reason}`;
+    }
+
+    await invoice.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Invoice voided successfully',
+      data: invoice,
+    });
+  } catch (error) {
+    console.error('Error voiding invoice:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to void invoice',
+    });
+  }
+};
+
+/**
+ * @desc    Download an invoice/receipt as PDF or HTML
+ * @route   GET /api/admin/websites/:id/invoices/:invoiceId.pdf
+ * @route   GET /api/admin/websites/:id/invoices/:invoiceId.html
+ * @access  Private (Admin)
+ */
+export const downloadInvoice = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id, invoiceId, format } = req.params;
+
+    const [website, invoice] = await Promise.all([
+      Website.findById(id),
+      Invoice.findOne({ _id: invoiceId, websiteId: id }),
+    ]);
+
+    if (!website || !invoice) {
+      res.status(404).json({
+        success: false,
+        error: website ? 'Invoice not found' : 'Website not found',
+      });
+      return;
+    }
+
+    if (format === 'html') {
+      res.type('html').send(renderInvoiceHtml(invoice, website));
+      return;
+    }
+
+    res
+      .type('application/pdf')
+      .attachment(getInvoiceFileName(invoice))
+      .send(renderInvoicePdf(invoice, website));
+  } catch (error) {
+    console.error('Error rendering invoice:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to render invoice',
+    });
+  }
+};
\ No newline at end of file
@@ -0,0 +1,200 @@
+// controllers/admin.job.controller.ts
+import { Request, Response } from 'express';
+import JobRun, { JobRunStatus, JobTrigger } from '../models/JobRun';
+import { AdminRequest } from '../types';
+import { runBillingJobs } from '../jobs/billingCron';
+import { getRegisteredJob, listRegisteredJobs, runRegisteredJob } from '../jobs/jobRegistry';
+
+/**
+ * @desc    List registered jobs
+ * @route   GET /api/admin/jobs
+ * @access  Private (Admin)
+ */
+export const getJobs = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const jobs = listRegisteredJobs().map(({ name, description, schedule }) => ({
+      name,
+      description,
+      schedule,
+    }));
+
+    res.status(200).json({
+      success: true,
+      count: jobs.length,
+      data: jobs,
+    });
+  } catch (error) {
+    console.error('Error fetching jobs:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch jobs',
+    });
+  }
+};
+
+/**
+ * @desc    Run a registered job now
+ * @route   POST /api/admin/jobs/:jobName/run
+ * @access  Private (Owner, Billing)
+ */
+export const runJobNow = async (
+  req: AdminRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { jobName } = req.params;
+
+    if (!getRegisteredJob(jobName)) {
+      res.status(404).json({
+        success: false,
+        error: `Unknown job: ${jobName}`,
+      });
+      return;
+    }
+
+    const dryRun = req.query.dryRun === 'true' || req.body?.dryRun === true;
+
+    const run = await runRegisteredJob(jobName, JobTrigger.MANUAL, {
+      dryRun,
+      triggeredBy: req.admin?.username,
+    });
+
+    if (run?.status === JobRunStatus.SKIPPED) {
+      res.status(409).json({
+        success: false,
+        error: 'Job is already running',
+        data: run,
+      });
+      return;
+    }
+
+    const failed = run?.status === JobRunStatus.FAILED;
+
+    res.status(failed ? 500 : 200).json({
+      success: !failed,
+      data: run,
+    });
+  } catch (error) {
+    console.error('Error running job:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to run job',
+    });
+  }
+};
+
+/**
+ * @desc    Get job run history
+ * @route   GET /api/admin/jobs/runs
+ * @access  Private (Admin)
+ */
+export const getJobRuns = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const {
+      jobName,
+      status,
+      trigger,
+      dryRun,
+      page = 1,
+      limit = 20,
+    } = req.query;
+
+    // Build query
+    const query: any = {};
+
+    if (jobName) {
+      query.jobName = jobName;
+    }
+
+    if (status) {
+      query.status = status;
+    }
+
+    if (trigger) {
+      query.trigger = trigger;
+    }
+
+    if (dryRun !== undefined) {
+      query.dryRun = dryRun === 'true';
+    }
+
+    // Pagination
+    const skip = (Number(page) - 1) * Number(limit);
+
+    const [runs, total] = await Promise.all([
+      JobRun.find(query)
+        .sort({ startedAt: -1 })
+        .skip(skip)
+        .limit(Number(limit))
+        .lean(),
+      JobRun.countDocuments(query),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      count: runs.length,
+      total,
+      page: Number(page),
+      pages: Math.ceil(total / Number(limit)),
+      data: runs,
+    });
+  } catch (error) {
+    console.error('Error fetching job runs:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch job runs',
+    });
+  }
+};
+
+/**
+ * @desc    Run the billing status update and payment reminders now
+ * @route   POST /api/admin/billing/check
+ * @access  Private (Owner, Billing)
+ */
+export const runBillingCheck = async (
+  req: AdminRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const dryRun = req.query.dryRun === 'true' || req.body?.dryRun === true;
+
+    const runs = await runBillingJobs(JobTrigger.MANUAL, {
+      dryRun,
+      triggeredBy: req.admin?.username,
+    });
+
+    if (runs.some((run) => run.status === JobRunStatus.SKIPPED)) {
+      res.status(409).json({
+        success: false,
+        error: 'A billing run is already in progress',
+        data: runs,
+      });
+      return;
+    }
+
+    const failed = runs.some((run) => run.status === JobRunStatus.FAILED);
+
+    res.status(failed ? 500 : 200).json({
+      success: !failed,
+      message: failed
+        ? 'Billing status check failed'
+        : dryRun
+          ? 'Billing status dry run completed'
+          : 'Billing status check completed',
+      data: runs,
+    });
+  } catch (error) {
+    console.error('Manual billing check failed:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to run billing check',
+    });
+  }
+};
\ No newline at end of file
@@ -0,0 +1,278 @@
+// controllers/admin.plan.controller.ts
+import { Request, Response } from 'express';
+import Plan, { PlanStatus } from '../models/Plan';
+import Website from '../models/Website';
+import { AdminRequest } from '../types';
+import { getDefaultCurrency, getSupportedCurrencies, isSupportedCurrency } from '../utils/currencyUtils';
+
+// Fields admins may set; slug and currency are fixed once created since websites reference them
+const PLAN_FIELDS = [
+  'name',
+  'description',
+  'prices',
+  'includedPages',
+  'features',
+  'status',
+  'sortOrder',
+];
+
+const sendPlanValidationError = (res: Response, error: any): boolean => {
+  if (error.name === 'ValidationError' || error.name === 'CastError') {
+    res.status(400).json({
+      success: false,
+      error: 'Validation error',
+      details: error.message,
+    });
+    return true;
+  }
+
+  if (error.code === 11000) {
+    res.status(409).json({
+      success: false,
+      error: 'A plan with this slug already exists',
+    });
+    return true;
+  }
+
+  return false;
+};
+
+/**
+ * @desc    Get all plans, including archived ones
+ * @route   GET /api/admin/plans
+ * @access  Private (Admin)
+ */
+export const getAllPlans = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { status } = req.query;
+
+    const query: any = {};
+    if (status) {
+      query.status = status;
+    }
+
+    const [plans, websiteCounts] = await Promise.all([
+      Plan.find(query).sort({ sortOrder: 1, createdAt: 1 }).lean(),
+      Website.aggregate([
+        { $match: { 'billing.plan': { $ne: null } } },
+        { $group: { _id: '$billing.plan', count: { $sum: 1 } } },
+      ]),
+    ]);
+
+    const countsBySlug = new Map(websiteCounts.map((entry) => [entry._id, entry.count]));
+
+    res.status(200).json({
+      success: true,
+      count: plans.length,
+      data: plans.map((plan) => ({
+        ...plan,
+        websiteCount: countsBySlug.get(plan.slug) || 0,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching plans:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch plans',
+    });
+  }
+};
+
+/**
+ * @desc    Get a plan
+ * @route   GET /api/admin/plans/:id
+ * @access  Private (Admin)
+ */
+export const getPlanById = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const plan = await Plan.findById(req.params.id);
+
+    if (!plan) {
+      res.status(404).json({
+        success: false,
+        error: 'Plan not found',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: plan,
+    });
+  } catch (error) {
+    console.error('Error fetching plan:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch plan',
+    });
+  }
+};
+
+/**
+ * @desc    Create a plan
+ * @route   POST /api/admin/plans
+ * @access  Private (Admin)
+ */
+export const createPlan = async (
+  req: AdminRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const currency = req.body.currency ?? getDefaultCurrency();
+
+    if (!isSupportedCurrency(currency)) {
+      res.status(400).json({
+        success: false,
+        error: `Currency must be one of: ${getSupportedCurrencies().join(', ')}`,
+      });
+      return;
+    }
+
+    const data: Record<string, any> = { slug: req.body.slug, currency };
+    PLAN_FIELDS.forEach((field) => {
+      if (req.body[field] !== undefined) {
+        data[field] = req.body[field];
+      }
+    });
+
+    const plan = await Plan.create({
+      ...data,
+      archivedAt: data.status === PlanStatus.ARCHIVED ? new Date() : undefined,
+      updatedBy: req.admin?.username,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Plan created successfully',
+      data: plan,
+    });
+  } catch (error: any) {
+    console.error('Error creating plan:', error);
+
+    if (sendPlanValidationError(res, error)) {
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create plan',
+    });
+  }
+};
+
+/**
+ * @desc    Update a plan (price changes apply to new billing setups, not existing websites)
+ * @route   PATCH /api/admin/plans/:id
+ * @access  Private (Admin)
+ */
+export const updatePlan = async (
+  req: AdminRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const plan = await Plan.findById(req.params.id);
+
+    if (!plan) {
+      res.status(404).json({
+        success: false,
+        error: 'Plan not found',
+      });
+      return;
+    }
+
+    if (req.body.slug !== undefined && req.body.slug !== plan.slug) {
+      res.status(400).json({
+        success: false,
+        error: 'Plan slug cannot be changed',
+      });
+      return;
+    }
+
+    if (req.body.currency !== undefined && String(req.body.currency).toUpperCase() !== plan.currency) {
+      res.status(400).json({
+        success: false,
+        error: 'Plan currency cannot be changed; create a plan in the other currency instead',
+      });
+      return;
+    }
+
+    const previousStatus = plan.status;
+
+    PLAN_FIELDS.forEach((field) => {
+      if (req.body[field] !== undefined) {
+        plan.set(field, req.body[field]);
+      }
+    });
+
+    if (plan.status !== previousStatus) {
+      plan.archivedAt = plan.status === PlanStatus.ARCHIVED ? new Date() : undefined;
+    }
+    plan.updatedBy = req.admin?.username;
+
+    await plan.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Plan updated successfully',
+      data: plan,
+    });
+  } catch (error: any) {
+    console.error('Error updating plan:', error);
+
+    if (sendPlanValidationError(res, error)) {
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update plan',
+    });
+  }
+};
+
+/**
+ * @desc    Archive a plan (websites already on it keep it)
+ * @route   DELETE /api/admin/plans/:id
+ * @access  Private (Admin)
+ */
+export const archivePlan = async (
+  req: AdminRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const plan = await Plan.findById(req.params.id);
+
+    if (!plan) {
+      res.status(404).json({
+        success: false,
+        error: 'Plan not found',
+      });
+      return;
+    }
+
+    if (plan.status !== PlanStatus.ARCHIVED) {
+      plan.status = PlanStatus.ARCHIVED;
+      plan.archivedAt = new Date();
+      plan.updatedBy = req.admin?.username;
+      await plan.save();
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Plan archived successfully',
+      data: plan,
+    });
+  } catch (error) {
+    console.error('Error archiving plan:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to archive plan',
+    });
+  }
+};
\ No newline at end of file
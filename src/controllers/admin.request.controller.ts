@@ -1,8 +1,11 @@
 // controllers/admin.request.controller.ts
 import { Request, Response } from 'express';
 import WebsiteRequest, { RequestStatus } from '../models/WebsiteRequest';
-import Website, { WebsiteStatus } from '../models/Website';
+import Website, { BillingStatus, WebsiteStatus } from '../models/Website';
 import { sendClientApprovalEmail } from '../utils/emailService';
+import { withEmailTransaction } from '../utils/emailOutboxUtils';
+import { isActiveAdminUsername } from '../utils/adminUtils';
+import { getDefaultCurrency } from '../utils/currencyUtils';
 
 /**
  * @desc    Get all website requests (admin view)
@@ -249,6 +252,14 @@ export const approveRequest = async (
       return;
     }
     
+    if (assignedAdmin && !(await isActiveAdminUsername(assignedAdmin))) {
+      res.status(400).json({
+        success: false,
+        error: 'Assigned admin must be an active admin account',
+      });
+      return;
+    }
+    
     // Check if website already exists
     const existingWebsite = await Website.findOne({ requestId: id });
     
@@ -260,27 +271,34 @@ export const approveRequest = async (
       return;
     }
     
-    // Create website
-    const website = await Website.create({
-      userId: request.userId,
-      requestId: request._id,
-      name: request.projectName,
-      description: request.description,
-      projectType: request.projectType,
-      status: WebsiteStatus.CREATED,
-      assignedAdmin: assignedAdmin || undefined,
-      totalPages: request.pagesRequired || undefined,
-      adminNotes: initialNotes || undefined,
-      startedAt: new Date(),
-    });
-    
-    // Update request status
-    request.status = RequestStatus.APPROVED;
-    await request.save();
-    
-    // Send approval email to client
-    Promise.resolve(sendClientApprovalEmail(request, website)).catch(error => {
-      console.error('Failed to send approval email:', error);
+    // Create the website, approve the request and queue the approval email to the client
+    // (delivered and retried by the email outbox) together, so the client is never left uninformed
+    const website = await withEmailTransaction(async (session) => {
+      const [created] = await Website.create([{
+        userId: request.userId,
+        requestId: request._id,
+        name: request.projectName,
+        description: request.description,
+        projectType: request.projectType,
+        status: WebsiteStatus.CREATED,
+        assignedAdmin: assignedAdmin ? assignedAdmin.toLowerCase().trim() : undefined,
+        totalPages: request.pagesRequired || undefined,
+        adminNotes: initialNotes || undefined,
+        startedAt: new Date(),
+        // Until a plan is priced at deployment, billing is in the default currency
+        billing: {
+          status: BillingStatus.PENDING,
+          billingCycle: 'monthly',
+          currency: getDefaultCurrency(),
+        },
+      }], { session });
+      
+      request.status = RequestStatus.APPROVED;
+      await request.save({ session });
+      
+      await sendClientApprovalEmail(request, created, { session });
+      
+      return created;
     });
     
     res.status(201).json({
@@ -1,9 +1,16 @@
 // controllers/admin.support.controller.ts
 import { Request, Response } from 'express';
-import SupportRequest, { SupportStatus, SupportPriority } from '../models/SupportRequest';
+import { AdminRequest } from '../types';
+import SupportRequest, {
+  SupportStatus,
+  SupportPriority,
+  MessageAuthorRole,
+  MessageVisibility,
+} from '../models/SupportRequest';
 import Website from '../models/Website';
 import WebsiteRequest from '../models/WebsiteRequest';
 import { sendSupportResolvedEmail } from '../utils/emailService';
+import { isActiveAdminUsername } from '../utils/adminUtils';
 
 /**
  * @desc    Get all support requests
@@ -236,6 +243,17 @@ export const updateSupportRequest = async (
       return;
     }
 
+    if (filteredData.assignedAdmin) {
+      if (!(await isActiveAdminUsername(filteredData.assignedAdmin))) {
+        res.status(400).json({
+          success: false,
+          error: 'Assigned admin must be an active admin account',
+        });
+        return;
+      }
+      filteredData.assignedAdmin = filteredData.assignedAdmin.toLowerCase().trim();
+    }
+
     const supportRequest = await SupportRequest.findByIdAndUpdate(
       id,
       { $set: filteredData },
@@ -326,6 +344,82 @@ export const addInternalNotes = async (
   }
 };
 
+/**
+ * @desc    Add admin reply or internal note to support request thread
+ * @route   POST /api/admin/support/:id/messages
+ * @access  Private (Admin)
+ */
+export const addAdminSupportMessage = async (
+  req: AdminRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { body, visibility = MessageVisibility.PUBLIC } = req.body;
+    const admin = req.admin;
+
+    if (!body || typeof body !== 'string' || !body.trim()) {
+      res.status(400).json({
+        success: false,
+        error: 'Message body is required',
+      });
+      return;
+    }
+
+    if (!Object.values(MessageVisibility).includes(visibility)) {
+      res.status(400).json({
+        success: false,
+        error: 'Valid visibility is required (PUBLIC, INTERNAL)',
+      });
+      return;
+    }
+
+    const supportRequest = await SupportRequest.findById(id);
+
+    if (!supportRequest) {
+      res.status(404).json({
+        success: false,
+        error: 'Support request not found',
+      });
+      return;
+    }
+
+    supportRequest.messages.push({
+      authorRole: MessageAuthorRole.ADMIN,
+      authorId: admin?.username || 'admin',
+      body,
+      visibility,
+      createdAt: new Date(),
+    });
+
+    await supportRequest.save();
+
+    res.status(201).json({
+      success: true,
+      message: visibility === MessageVisibility.INTERNAL
+        ? 'Internal note added'
+        : 'Reply added successfully',
+      data: supportRequest,
+    });
+  } catch (error: any) {
+    console.error('Error adding support message:', error);
+
+    if (error.name === 'ValidationError') {
+      res.status(400).json({
+        success: false,
+        error: 'Validation error',
+        details: error.message,
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to add message',
+    });
+  }
+};
+
 /**
  * @desc    Assign admin to support request
  * @route   PATCH /api/admin/support/:id/assign
@@ -347,9 +441,17 @@ export const assignAdminToSupport = async (
       return;
     }
 
+    if (!(await isActiveAdminUsername(assignedAdmin))) {
+      res.status(400).json({
+        success: false,
+        error: 'Assigned admin must be an active admin account',
+      });
+      return;
+    }
+
     const supportRequest = await SupportRequest.findByIdAndUpdate(
       id,
-      { assignedAdmin },
+      { assignedAdmin: assignedAdmin.toLowerCase().trim() },
       { new: true }
     );
 
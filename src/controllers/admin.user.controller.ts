@@ -1,8 +1,27 @@
 // controllers/admin.user.controller.ts
 import { Request, Response } from 'express';
+import { AdminRequest } from '../types';
 import User from '../models/User';
 import WebsiteRequest from '../models/WebsiteRequest';
 import Website from '../models/Website';
+import LedgerEntry, { LedgerEntrySource, LedgerEntryType } from '../models/LedgerEntry';
+import {
+  addLedgerEntry,
+  applyAccountCredit,
+  getAccountBalances,
+  getCreditBalance,
+  withCreditLock,
+} from '../utils/ledgerUtils';
+import {
+  getBillingCurrency,
+  getSupportedCurrencies,
+  isMinorUnitAmount,
+  isSupportedCurrency,
+  normalizeCurrency,
+} from '../utils/currencyUtils';
+
+// Ledger entries an admin can add by hand (the rest come from payments and invoices)
+const ADMIN_LEDGER_SOURCES = [LedgerEntrySource.GOODWILL, LedgerEntrySource.ADJUSTMENT];
 
 /**
  * @desc    Get all users
@@ -417,6 +436,245 @@ export const getUserWebsites = async (
   }
 };
 
+/**
+ * @desc    Get a user's account balance per currency and credit ledger
+ * @route   GET /api/admin/users/:id/ledger
+ * @access  Private (Admin)
+ */
+export const getUserLedger = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { 
+      currency, 
+      page = 1, 
+      limit = 50 
+    } = req.query;
+    
+    // Try to find user by MongoDB _id, clerkId, or googleId
+    let user = await User.findById(id).catch(() => null);
+    
+    if (!user) {
+      user = await User.findOne({
+        $or: [
+          { clerkId: id },
+          { googleId: id }
+        ]
+      });
+    }
+    
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+      return;
+    }
+    
+    // Use the appropriate userId for querying
+    const userId = user.clerkId || user.googleId || user._id.toString();
+    
+    // Build query
+    const query: any = { userId };
+    
+    if (currency) {
+      query.currency = normalizeCurrency(String(currency));
+    }
+    
+    // Pagination
+    const skip = (Number(page) - 1) * Number(limit);
+    
+    const [balances, entries, total] = await Promise.all([
+      getAccountBalances(userId),
+      LedgerEntry.find(query)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(Number(limit))
+        .lean(),
+      LedgerEntry.countDocuments(query),
+    ]);
+    
+    res.status(200).json({
+      success: true,
+      count: entries.length,
+      total,
+      page: Number(page),
+      pages: Math.ceil(total / Number(limit)),
+      data: {
+        balances,
+        entries,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching user ledger:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch user ledger',
+    });
+  }
+};
+
+/**
+ * @desc    Grant account credit to a user (goodwill) or correct their balance
+ * @route   POST /api/admin/users/:id/ledger
+ * @access  Private (Admin)
+ */
+export const addUserLedgerEntry = async (
+  req: AdminRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { type, amount, currency, description, websiteId } = req.body;
+    const admin = req.admin;
+    
+    if (!Object.values(LedgerEntryType).includes(type)) {
+      res.status(400).json({
+        success: false,
+        error: `Type must be one of: ${Object.values(LedgerEntryType).join(', ')}`,
+      });
+      return;
+    }
+    
+    // Credits default to goodwill; debits are always corrections
+    const source = req.body.source || (type === LedgerEntryType.CREDIT
+      ? LedgerEntrySource.GOODWILL
+      : LedgerEntrySource.ADJUSTMENT);
+    
+    if (!ADMIN_LEDGER_SOURCES.includes(source)) {
+      res.status(400).json({
+        success: false,
+        error: `Source must be one of: ${ADMIN_LEDGER_SOURCES.join(', ')}`,
+      });
+      return;
+    }
+    
+    if (!isMinorUnitAmount(amount) || amount <= 0) {
+      res.status(400).json({
+        success: false,
+        error: 'Amount must be a positive amount in minor units (e.g. cents)',
+      });
+      return;
+    }
+    
+    if (!isSupportedCurrency(currency)) {
+      res.status(400).json({
+        success: false,
+        error: `Currency must be one of: ${getSupportedCurrencies().join(', ')}`,
+      });
+      return;
+    }
+    
+    if (typeof description !== 'string' || !description.trim()) {
+      res.status(400).json({
+        success: false,
+        error: 'A description is required',
+      });
+      return;
+    }
+    
+    // Try to find user by MongoDB _id, clerkId, or googleId
+    let user = await User.findById(id).catch(() => null);
+    
+    if (!user) {
+      user = await User.findOne({
+        $or: [
+          { clerkId: id },
+          { googleId: id }
+        ]
+      });
+    }
+    
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+      return;
+    }
+    
+    // Use the appropriate userId for querying
+    const userId = user.clerkId || user.googleId || user._id.toString();
+    const code = normalizeCurrency(currency);
+    
+    if (websiteId && !(await Website.exists({ _id: websiteId, userId }).catch(() => null))) {
+      res.status(404).json({
+        success: false,
+        error: 'Website not found for this user',
+      });
+      return;
+    }
+    
+    const recordEntry = () => addLedgerEntry({
+      userId,
+      websiteId,
+      type,
+      source,
+      amount,
+      currency: code,
+      description: description.trim(),
+      createdBy: admin?.username,
+    });
+    
+    // A debit spends credit, so it is checked and recorded under the user's credit lock
+    const result = type === LedgerEntryType.DEBIT
+      ? await withCreditLock(userId, async () => {
+          const credit = await getCreditBalance(userId, code);
+          return { credit, entry: amount > credit ? null : await recordEntry() };
+        })
+      : { credit: null, entry: await recordEntry() };
+    
+    if (!result) {
+      res.status(409).json({
+        success: false,
+        error: 'The user\'s account credit is being applied; try again shortly',
+      });
+      return;
+    }
+    
+    if (!result.entry) {
+      res.status(409).json({
+        success: false,
+        error: `Debit exceeds the user's ${code} credit of ${result.credit}`,
+      });
+      return;
+    }
+    
+    const { entry } = result;
+    
+    // New credit goes straight to any unpaid invoices in that currency
+    let applied = 0;
+    
+    if (type === LedgerEntryType.CREDIT) {
+      const websites = await Website.find({ userId });
+      
+      for (const website of websites) {
+        if (getBillingCurrency(website.billing) === code) {
+          applied += await applyAccountCredit(website);
+        }
+      }
+    }
+    
+    res.status(201).json({
+      success: true,
+      message: 'Ledger entry recorded successfully',
+      data: {
+        entry,
+        applied,
+        balances: await getAccountBalances(userId),
+      },
+    });
+  } catch (error) {
+    console.error('Error adding ledger entry:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to add ledger entry',
+    });
+  }
+};
+
 /**
  * @desc    Delete user (soft delete - mark as inactive)
  * @route   DELETE /api/admin/users/:id
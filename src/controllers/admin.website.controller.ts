@@ -1,9 +1,105 @@
 // controllers/admin.website.controller.ts
 import { Request, Response } from 'express';
-import Website, { WebsiteStatus, BillingStatus } from '../models/Website';
+import { AdminRequest } from '../types';
+import Website, { IWebsite, WebsiteStatus, BillingStatus } from '../models/Website';
 import WebsiteRequest from '../models/WebsiteRequest';
-import { initializeBilling } from '../utils/billingUtils';
+import Invoice, { InvoiceStatus } from '../models/Invoice';
+import { PLAN_BILLING_CYCLES, PlanBillingCycle } from '../models/Plan';
+import {
+  applyWebsiteStatusTransition,
+  saveWebsiteStatusTransition,
+  canTransitionWebsiteStatus,
+  getInvalidTransitionMessage,
+} from '../utils/websiteStatusUtils';
+import { isActiveAdminUsername } from '../utils/adminUtils';
+import { getBillingPolicy } from '../utils/billingPolicyUtils';
+import { generateInitialInvoice } from '../utils/invoiceUtils';
+import { recordWebsitePayment, refundWebsitePayment } from '../utils/paymentUtils';
 import { sendBillingActivatedEmail } from '../utils/emailService';
+import { withEmailTransaction } from '../utils/emailOutboxUtils';
+import { resolvePlanPrice } from '../utils/planUtils';
+import { getBillingCurrency, getDefaultCurrency, isMinorUnitAmount } from '../utils/currencyUtils';
+import PlanChange, { PlanChangeSource, PlanChangeStatus } from '../models/PlanChange';
+import { ICouponRedemption } from '../models/CouponRedemption';
+import { applyPlanChange, preparePlanChange } from '../utils/planChangeUtils';
+import {
+  applyRequestCoupon,
+  attachCouponToBilling,
+  redeemCoupon,
+  releaseCouponRedemption,
+  validateCoupon,
+} from '../utils/couponUtils';
+
+type DeploymentPricing =
+  | { success: true; billingPlan?: string; billingPrice?: number; billingCurrency?: string }
+  | { success: false; statusCode: number; error: string };
+
+/**
+ * Resolve plan and price for billing initialization on DEPLOYED from the plan catalog
+ *
+ * The plan comes from the admin, else the website, else the client's request;
+ * the price is never taken from the request body.
+ */
+const resolveDeploymentPricing = async (
+  website: IWebsite,
+  to: WebsiteStatus,
+  billingPlan?: string,
+  billingCycle: PlanBillingCycle = 'monthly'
+): Promise<DeploymentPricing> => {
+  if (to !== WebsiteStatus.DEPLOYED || website.billing.activatedAt) {
+    return { success: true };
+  }
+
+  if (!PLAN_BILLING_CYCLES.includes(billingCycle)) {
+    return { success: false, statusCode: 400, error: 'Invalid billing cycle' };
+  }
+
+  let slug = billingPlan || website.billing.plan;
+  if (!slug) {
+    const request = await WebsiteRequest.findById(website.requestId).select('selectedPlan');
+    slug = request?.selectedPlan;
+  }
+
+  // Websites without a plan start billing without a price (set later via updateBilling)
+  if (!slug) {
+    return { success: true };
+  }
+
+  const resolved = await resolvePlanPrice(slug, billingCycle, website.billing.plan);
+  if (!resolved.success) {
+    return resolved;
+  }
+
+  return {
+    success: true,
+    billingPlan: resolved.plan.slug,
+    billingPrice: resolved.price,
+    billingCurrency: resolved.plan.currency,
+  };
+};
+
+/**
+ * Save a status transition; when it initialized billing, queue the billing activation
+ * email in the same transaction so the client always hears about it
+ */
+const saveStatusTransitionWithNotice = async (
+  website: IWebsite,
+  from: WebsiteStatus,
+  billingInitialized: boolean
+): Promise<boolean> => {
+  const request = billingInitialized ? await WebsiteRequest.findById(website.requestId) : null;
+
+  return withEmailTransaction(async (session) => {
+    if (!(await saveWebsiteStatusTransition(website, from, session))) {
+      return false;
+    }
+
+    if (request) {
+      await sendBillingActivatedEmail(request, website, { session });
+    }
+    return true;
+  });
+};
 
 /**
  * @desc    Get all websites
@@ -125,18 +221,18 @@ export const getWebsiteDetails = async (
  * @access  Private (Admin)
  */
 export const updateWebsite = async (
-  req: Request,
+  req: AdminRequest,
   res: Response
 ): Promise<void> => {
   try {
     const { id } = req.params;
     const updateData = req.body;
+    const admin = req.admin;
     
-    // Fields that can be updated
+    // Fields that can be updated (status goes through the transition table)
     const allowedFields = [
       'name',
       'description',
-      'status',
       'assignedAdmin',
       'domain',
       'deploymentUrl',
@@ -148,17 +244,8 @@ export const updateWebsite = async (
       'milestones',
     ];
     
-    // Filter update data
-    const filteredData: any = {};
-    allowedFields.forEach(field => {
-      if (updateData[field] !== undefined) {
-        filteredData[field] = updateData[field];
-      }
-    });
-    
-    // Get current website to check status change
-    const currentWebsite = await Website.findById(id);
-    if (!currentWebsite) {
+    const website = await Website.findById(id);
+    if (!website) {
       res.status(404).json({
         success: false,
         error: 'Website not found',
@@ -166,69 +253,94 @@ export const updateWebsite = async (
       return;
     }
 
-    // Handle status change timestamps
-    if (filteredData.status) {
-      if (filteredData.status === WebsiteStatus.IN_PROGRESS && !currentWebsite.startedAt) {
-        filteredData.startedAt = new Date();
-      }
-      if (filteredData.status === WebsiteStatus.COMPLETED) {
-        filteredData.completedAt = new Date();
+    const statusChanged = updateData.status !== undefined && updateData.status !== website.status;
+
+    if (statusChanged) {
+      if (!Object.values(WebsiteStatus).includes(updateData.status)) {
+        res.status(400).json({
+          success: false,
+          error: 'Valid status is required',
+        });
+        return;
       }
-      if (filteredData.status === WebsiteStatus.DEPLOYED) {
-        filteredData.deployedAt = new Date();
-        
-        // 🔥 PHASE 2: Initialize billing when deployed
-        if (currentWebsite.status !== WebsiteStatus.DEPLOYED) {
-          // Convert plan to lowercase if provided
-          const billingPlan = updateData.billingPlan 
-            ? updateData.billingPlan.toLowerCase().trim() 
-            : undefined;
-          
-          const billingData = initializeBilling(
-            billingPlan,
-            updateData.billingPrice,
-            updateData.billingCycle || 'monthly'
-          );
-          
-          // Update billing fields individually
-          filteredData['billing.status'] = billingData.status;
-          filteredData['billing.plan'] = billingData.plan;
-          filteredData['billing.price'] = billingData.price;
-          filteredData['billing.billingCycle'] = billingData.billingCycle;
-          filteredData['billing.activatedAt'] = billingData.activatedAt;
-          filteredData['billing.dueAt'] = billingData.dueAt;
-          filteredData['billing.graceEndsAt'] = billingData.graceEndsAt;
-          
-          console.log(`✅ Billing initialized for website ${id}:`, billingData);
-        }
+
+      if (!canTransitionWebsiteStatus(website.status, updateData.status)) {
+        res.status(409).json({
+          success: false,
+          error: getInvalidTransitionMessage(website.status, updateData.status),
+        });
+        return;
       }
     }
     
-    const website = await Website.findByIdAndUpdate(
-      id,
-      { $set: filteredData },
-      { new: true, runValidators: true }
-    ).populate('request');
-    
-    if (!website) {
-      res.status(404).json({
+    const pricing = statusChanged
+      ? await resolveDeploymentPricing(website, updateData.status, updateData.billingPlan, updateData.billingCycle)
+      : { success: true as const };
+
+    if (!pricing.success) {
+      res.status(pricing.statusCode).json({
         success: false,
-        error: 'Website not found',
+        error: pricing.error,
       });
       return;
     }
+    
+    if (updateData.assignedAdmin) {
+      if (!(await isActiveAdminUsername(updateData.assignedAdmin))) {
+        res.status(400).json({
+          success: false,
+          error: 'Assigned admin must be an active admin account',
+        });
+        return;
+      }
+      updateData.assignedAdmin = updateData.assignedAdmin.toLowerCase().trim();
+    }
+    
+    // Apply allowed fields
+    allowedFields.forEach(field => {
+      if (updateData[field] !== undefined) {
+        website.set(field, updateData[field]);
+      }
+    });
+
+    const previousStatus = website.status;
+    let billingInitialized = false;
+    if (statusChanged) {
+      const policy = await getBillingPolicy(pricing.billingPlan || website.billing.plan);
+      ({ billingInitialized } = applyWebsiteStatusTransition(website, updateData.status, {
+        admin: admin?.username,
+        notes: updateData.notes,
+        billingPlan: pricing.billingPlan,
+        billingPrice: pricing.billingPrice,
+        billingCurrency: pricing.billingCurrency,
+        billingCycle: updateData.billingCycle,
+        graceDays: policy.graceDays,
+      }));
+
+      if (!(await saveStatusTransitionWithNotice(website, previousStatus, billingInitialized))) {
+        res.status(409).json({
+          success: false,
+          error: 'Website status was changed by someone else. Reload and try again',
+        });
+        return;
+      }
+    } else {
+      await website.save();
+    }
 
-    // Send billing activation email if status changed to DEPLOYED
-    if (filteredData.status === WebsiteStatus.DEPLOYED && 
-        currentWebsite.status !== WebsiteStatus.DEPLOYED) {
+    // Discount code redeemed with the request applies from the first invoice
+    if (billingInitialized && (await applyRequestCoupon(website))) {
+      await website.save();
+    }
+
+    await website.populate('request');
+
+    // Issue the first invoice, due when the grace period ends, if billing was just initialized
+    if (billingInitialized) {
       try {
-        const request = await WebsiteRequest.findById(website.requestId);
-        if (request) {
-          await sendBillingActivatedEmail(request, website);
-        }
-      } catch (emailError) {
-        console.error('Failed to send billing activation email:', emailError);
-        // Don't fail the request if email fails
+        await generateInitialInvoice(website);
+      } catch (invoiceError) {
+        console.error('Failed to generate initial invoice:', invoiceError);
       }
     }
     
@@ -262,12 +374,13 @@ export const updateWebsite = async (
  * @access  Private (Admin)
  */
 export const updateWebsiteStatus = async (
-  req: Request,
+  req: AdminRequest,
   res: Response
 ): Promise<void> => {
   try {
     const { id } = req.params;
-    const { status, notes } = req.body;
+    const { status, notes, billingPlan, billingCycle } = req.body;
+    const admin = req.admin;
     
     if (!status || !Object.values(WebsiteStatus).includes(status)) {
       res.status(400).json({
@@ -287,38 +400,36 @@ export const updateWebsiteStatus = async (
       return;
     }
     
-    const previousStatus = website.status;
+    if (!canTransitionWebsiteStatus(website.status, status)) {
+      res.status(409).json({
+        success: false,
+        error: getInvalidTransitionMessage(website.status, status),
+      });
+      return;
+    }
     
-    // Update status
-    website.status = status;
-    
-    // Update timestamps based on status
-    if (status === WebsiteStatus.IN_PROGRESS && !website.startedAt) {
-      website.startedAt = new Date();
-    }
-    if (status === WebsiteStatus.COMPLETED) {
-      website.completedAt = new Date();
-    }
-    if (status === WebsiteStatus.DEPLOYED) {
-      website.deployedAt = new Date();
-      
-      // 🔥 PHASE 2: Initialize billing when deployed
-      if (previousStatus !== WebsiteStatus.DEPLOYED) {
-        const billingData = initializeBilling();
-        
-        // Update billing fields
-        website.billing.status = billingData.status!;
-        website.billing.plan = billingData.plan;
-        website.billing.price = billingData.price;
-        website.billing.billingCycle = billingData.billingCycle!;
-        website.billing.activatedAt = billingData.activatedAt;
-        website.billing.dueAt = billingData.dueAt;
-        website.billing.graceEndsAt = billingData.graceEndsAt;
-        
-        console.log(`✅ Billing initialized for website ${id}:`, billingData);
-      }
+    const pricing = await resolveDeploymentPricing(website, status, billingPlan, billingCycle);
+    
+    if (!pricing.success) {
+      res.status(pricing.statusCode).json({
+        success: false,
+        error: pricing.error,
+      });
+      return;
     }
     
+    const previousStatus = website.status;
+    const policy = await getBillingPolicy(pricing.billingPlan || website.billing.plan);
+    const { billingInitialized } = applyWebsiteStatusTransition(website, status, {
+      admin: admin?.username,
+      notes,
+      billingPlan: pricing.billingPlan,
+      billingPrice: pricing.billingPrice,
+      billingCurrency: pricing.billingCurrency,
+      billingCycle,
+      graceDays: policy.graceDays,
+    });
+    
     // Add notes if provided
     if (notes) {
       website.adminNotes = website.adminNotes 
@@ -326,17 +437,25 @@ export const updateWebsiteStatus = async (
         : notes;
     }
     
-    await website.save();
+    if (!(await saveStatusTransitionWithNotice(website, previousStatus, billingInitialized))) {
+      res.status(409).json({
+        success: false,
+        error: 'Website status was changed by someone else. Reload and try again',
+      });
+      return;
+    }
 
-    // Send billing activation email if status changed to DEPLOYED
-    if (status === WebsiteStatus.DEPLOYED && previousStatus !== WebsiteStatus.DEPLOYED) {
+    // Discount code redeemed with the request applies from the first invoice
+    if (billingInitialized && (await applyRequestCoupon(website))) {
+      await website.save();
+    }
+
+    // Issue the first invoice, due when the grace period ends, if billing was just initialized
+    if (billingInitialized) {
       try {
-        const request = await WebsiteRequest.findById(website.requestId);
-        if (request) {
-          await sendBillingActivatedEmail(request, website);
-        }
-      } catch (emailError) {
-        console.error('Failed to send billing activation email:', emailError);
+        await generateInitialInvoice(website);
+      } catch (invoiceError) {
+        console.error('Failed to generate initial invoice:', invoiceError);
       }
     }
     
@@ -360,12 +479,21 @@ export const updateWebsiteStatus = async (
  * @access  Private (Admin)
  */
 export const updateBilling = async (
-  req: Request,
+  req: AdminRequest,
   res: Response
 ): Promise<void> => {
   try {
     const { id } = req.params;
-    const { plan, price, billingCycle, status } = req.body;
+    const { plan, price, billingCycle, status, couponCode } = req.body;
+    const admin = req.admin;
+    
+    if (price !== undefined) {
+      res.status(400).json({
+        success: false,
+        error: 'Price is set from the plan catalog; change the plan or billing cycle instead',
+      });
+      return;
+    }
     
     const website = await Website.findById(id);
     
@@ -377,19 +505,98 @@ export const updateBilling = async (
       return;
     }
     
-    // Update billing fields with lowercase conversion for plan
-    if (plan !== undefined) {
-      website.billing.plan = typeof plan === 'string' 
-        ? plan.toLowerCase().trim() 
-        : plan;
+    // Re-price from the catalog whenever the plan or cycle changes
+    if (plan !== undefined || billingCycle !== undefined) {
+      const cycle = billingCycle ?? website.billing.billingCycle;
+      const slug = plan ?? website.billing.plan;
+
+      if (!PLAN_BILLING_CYCLES.includes(cycle)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid billing cycle',
+        });
+        return;
+      }
+
+      if (typeof slug !== 'string' || !slug) {
+        res.status(400).json({
+          success: false,
+          error: 'A plan from the catalog is required to set the billing cycle',
+        });
+        return;
+      }
+
+      // Once billing has started, invoices and payments are in its currency
+      const resolved = await resolvePlanPrice(
+        slug,
+        cycle,
+        website.billing.plan,
+        website.billing.activatedAt ? getBillingCurrency(website.billing) : undefined
+      );
+
+      if (!resolved.success) {
+        res.status(resolved.statusCode).json({
+          success: false,
+          error: resolved.error,
+        });
+        return;
+      }
+
+      website.billing.plan = resolved.plan.slug;
+      website.billing.price = resolved.price;
+      website.billing.currency = resolved.plan.currency;
+      website.billing.billingCycle = cycle;
     }
-    if (price !== undefined) website.billing.price = price;
-    if (billingCycle !== undefined) website.billing.billingCycle = billingCycle;
     if (status !== undefined && Object.values(BillingStatus).includes(status)) {
       website.billing.status = status;
     }
     
-    await website.save();
+    // couponCode: null removes the current discount; a code replaces it
+    let redemption: ICouponRedemption | null = null;
+    if (couponCode === null) {
+      website.billing.coupon = undefined;
+    } else if (couponCode !== undefined) {
+      const couponCheck = await validateCoupon(couponCode, {
+        plan: website.billing.plan,
+        currency: getBillingCurrency(website.billing),
+      });
+
+      if (!couponCheck.success) {
+        res.status(couponCheck.statusCode).json({
+          success: false,
+          error: couponCheck.error,
+        });
+        return;
+      }
+
+      redemption = await redeemCoupon(couponCheck.coupon, {
+        userId: website.userId,
+        websiteId: website._id as ICouponRedemption['websiteId'],
+        redeemedBy: admin?.username,
+      });
+
+      if (!redemption) {
+        res.status(400).json({
+          success: false,
+          error: 'This coupon has been fully redeemed',
+        });
+        return;
+      }
+
+      attachCouponToBilling(website, couponCheck.coupon);
+    }
+    
+    try {
+      await website.save();
+    } catch (error) {
+      // Don't use up a redemption on a change that wasn't saved
+      if (redemption) {
+        await releaseCouponRedemption(redemption).catch((releaseError) => {
+          console.error('Failed to release coupon redemption:', releaseError);
+        });
+      }
+      throw error;
+    }
     
     res.status(200).json({
       success: true,
@@ -405,6 +612,83 @@ export const updateBilling = async (
   }
 };
 
+/**
+ * @desc    Change a website's plan, prorated now or at the next cycle boundary
+ * @route   POST /api/admin/websites/:id/billing/change-plan
+ * @access  Private (Admin)
+ */
+export const changeWebsitePlan = async (
+  req: AdminRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { plan, billingCycle, timing, note, dryRun } = req.body;
+    const admin = req.admin;
+    
+    const website = await Website.findById(id);
+    
+    if (!website) {
+      res.status(404).json({
+        success: false,
+        error: 'Website not found',
+      });
+      return;
+    }
+    
+    const prepared = await preparePlanChange(website, { plan, billingCycle, timing });
+    
+    if (!prepared.success) {
+      res.status(prepared.statusCode).json({
+        success: false,
+        error: prepared.error,
+      });
+      return;
+    }
+    
+    // Preview the proration without changing anything
+    if (dryRun === true || req.query.dryRun === 'true') {
+      res.status(200).json({
+        success: true,
+        dryRun: true,
+        data: prepared.draft,
+      });
+      return;
+    }
+    
+    const change = await applyPlanChange(
+      website,
+      new PlanChange({
+        ...prepared.draft,
+        websiteId: website._id,
+        userId: website.userId,
+        source: PlanChangeSource.ADMIN,
+        status: PlanChangeStatus.SCHEDULED,
+        requestedBy: admin?.username,
+        decidedBy: admin?.username,
+        note,
+      })
+    );
+    
+    res.status(200).json({
+      success: true,
+      message: change.status === PlanChangeStatus.APPLIED
+        ? 'Plan changed successfully'
+        : `Plan change scheduled for ${change.effectiveAt?.toISOString()}`,
+      data: {
+        change,
+        website,
+      },
+    });
+  } catch (error) {
+    console.error('Error changing website plan:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to change plan',
+    });
+  }
+};
+
 /**
  * @desc    Record payment for website
  * @route   POST /api/admin/websites/:id/payment
@@ -416,12 +700,12 @@ export const recordPayment = async (
 ): Promise<void> => {
   try {
     const { id } = req.params;
-    const { amount, method, transactionId } = req.body;
+    const { amount, currency, method, transactionId, invoiceId } = req.body;
     
-    if (!amount || amount <= 0) {
+    if (!isMinorUnitAmount(amount) || amount <= 0) {
       res.status(400).json({
         success: false,
-        error: 'Valid payment amount is required',
+        error: 'Valid payment amount in minor units (e.g. cents) is required',
       });
       return;
     }
@@ -436,29 +720,29 @@ export const recordPayment = async (
       return;
     }
     
-    const now = new Date();
-    
-    // Add payment to history
-    if (!website.billing.paymentHistory) {
-      website.billing.paymentHistory = [];
-    }
-    
-    website.billing.paymentHistory.push({
+    const result = await recordWebsitePayment(website, {
       amount,
-      date: now,
+      currency,
       method,
       transactionId,
+      invoiceId,
     });
     
-    // Update billing status to ACTIVE
-    website.billing.status = BillingStatus.ACTIVE;
-    website.billing.lastPaymentAt = now;
-    
-    // Calculate next due date
-    const { calculateNextDueDate } = require('../utils/billingUtils');
-    website.billing.dueAt = calculateNextDueDate(now, website.billing.billingCycle);
+    if (!result.success) {
+      res.status(result.statusCode).json({
+        success: false,
+        error: result.error,
+      });
+      return;
+    }
     
-    await website.save();
+    if (result.duplicate) {
+      res.status(409).json({
+        success: false,
+        error: 'A payment with this transaction ID has already been recorded',
+      });
+      return;
+    }
     
     res.status(200).json({
       success: true,
@@ -474,6 +758,71 @@ export const recordPayment = async (
   }
 };
 
+/**
+ * @desc    Refund all or part of a recorded payment
+ * @route   POST /api/admin/websites/:id/payments/:paymentId/refund
+ * @access  Private (Admin)
+ */
+export const refundPayment = async (
+  req: AdminRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id, paymentId } = req.params;
+    const { amount, reason, transactionId } = req.body;
+    const admin = req.admin;
+    
+    if (amount !== undefined && (!isMinorUnitAmount(amount) || amount <= 0)) {
+      res.status(400).json({
+        success: false,
+        error: 'Refund amount must be a positive amount in minor units (e.g. cents)',
+      });
+      return;
+    }
+    
+    const website = await Website.findById(id);
+    
+    if (!website) {
+      res.status(404).json({
+        success: false,
+        error: 'Website not found',
+      });
+      return;
+    }
+    
+    const result = await refundWebsitePayment(website, paymentId, {
+      amount,
+      reason,
+      transactionId,
+      refundedBy: admin?.username,
+    });
+    
+    if (!result.success) {
+      res.status(result.statusCode).json({
+        success: false,
+        error: result.error,
+      });
+      return;
+    }
+    
+    res.status(200).json({
+      success: true,
+      message: 'Refund recorded successfully',
+      data: {
+        refund: result.refund,
+        reopenedInvoices: result.reopenedInvoices,
+        website,
+      },
+    });
+  } catch (error) {
+    console.error('Error refunding payment:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to refund payment',
+    });
+  }
+};
+
 /**
  * @desc    Add milestone to website
  * @route   POST /api/admin/websites/:id/milestones
@@ -611,9 +960,17 @@ export const assignAdmin = async (
       return;
     }
     
+    if (!(await isActiveAdminUsername(assignedAdmin))) {
+      res.status(400).json({
+        success: false,
+        error: 'Assigned admin must be an active admin account',
+      });
+      return;
+    }
+    
     const website = await Website.findByIdAndUpdate(
       id,
-      { assignedAdmin },
+      { assignedAdmin: assignedAdmin.toLowerCase().trim() },
       { new: true }
     );
     
@@ -649,7 +1006,7 @@ export const getWebsiteStats = async (
   res: Response
 ): Promise<void> => {
   try {
-    const [statusStats, billingStats, adminStats, total] = await Promise.all([
+    const [statusStats, billingStats, adminStats, total, pricedStats, paymentStats, outstandingStats] = await Promise.all([
       Website.aggregate([
         {
           $group: {
@@ -681,6 +1038,42 @@ export const getWebsiteStats = async (
         },
       ]),
       Website.countDocuments(),
+      // Amounts are in minor units and only ever summed within one currency
+      Website.aggregate([
+        {
+          $match: { 'billing.price': { $gt: 0 } },
+        },
+        {
+          $group: {
+            _id: '$billing.currency',
+            count: { $sum: 1 },
+          },
+        },
+      ]),
+      Website.aggregate([
+        {
+          $unwind: '$billing.paymentHistory',
+        },
+        {
+          $group: {
+            _id: { $ifNull: ['$billing.paymentHistory.currency', '$billing.currency'] },
+            count: { $sum: 1 },
+            amount: { $sum: '$billing.paymentHistory.amount' },
+          },
+        },
+      ]),
+      Invoice.aggregate([
+        {
+          $match: { status: InvoiceStatus.OPEN },
+        },
+        {
+          $group: {
+            _id: '$currency',
+            count: { $sum: 1 },
+            amount: { $sum: { $subtract: ['$total', '$amountPaid'] } },
+          },
+        },
+      ]),
     ]);
     
     const formattedStatusStats = Object.values(WebsiteStatus).reduce((acc, status) => {
@@ -695,6 +1088,35 @@ export const getWebsiteStats = async (
       return acc;
     }, {} as Record<string, number>);
     
+    const formattedCurrencyStats: Record<string, {
+      pricedWebsites: number;
+      payments: number;
+      revenue: number;
+      openInvoices: number;
+      outstanding: number;
+    }> = {};
+    const getCurrencyStats = (currency?: string | null) => {
+      const key = currency || getDefaultCurrency();
+      if (!formattedCurrencyStats[key]) {
+        formattedCurrencyStats[key] = { pricedWebsites: 0, payments: 0, revenue: 0, openInvoices: 0, outstanding: 0 };
+      }
+      return formattedCurrencyStats[key];
+    };
+
+    pricedStats.forEach((stat) => {
+      getCurrencyStats(stat._id).pricedWebsites += stat.count;
+    });
+    paymentStats.forEach((stat) => {
+      const currencyStats = getCurrencyStats(stat._id);
+      currencyStats.payments += stat.count;
+      currencyStats.revenue += stat.amount;
+    });
+    outstandingStats.forEach((stat) => {
+      const currencyStats = getCurrencyStats(stat._id);
+      currencyStats.openInvoices += stat.count;
+      currencyStats.outstanding += stat.amount;
+    });
+    
     res.status(200).json({
       success: true,
       data: {
@@ -702,6 +1124,7 @@ export const getWebsiteStats = async (
         byStatus: formattedStatusStats,
         byBillingStatus: formattedBillingStats,
         byAdmin: adminStats,
+        byCurrency: formattedCurrencyStats,
       },
     });
   } catch (error) {
@@ -0,0 +1,260 @@
+// controllers/billing.controller.ts
+import { Response } from 'express';
+import { AuthRequest } from '../types';
+import Website from '../models/Website';
+import WebsiteRequest from '../models/WebsiteRequest';
+import { ensureMissedCycleInvoices, getInvoiceBalance, roundAmount } from '../utils/invoiceUtils';
+import { getPaymentProvider } from '../utils/paymentProvider';
+import { getBillingCurrency } from '../utils/currencyUtils';
+import PlanChange, { PlanChangeSource, PlanChangeStatus } from '../models/PlanChange';
+import { preparePlanChange } from '../utils/planChangeUtils';
+import { applyAccountCredit, getAccountBalances } from '../utils/ledgerUtils';
+import LedgerEntry from '../models/LedgerEntry';
+
+/**
+ * @desc    Start a checkout for the outstanding balance of a website
+ * @route   POST /api/users/websites/:id/checkout
+ * @access  Private
+ */
+export const createWebsiteCheckout = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.auth?.userId;
+    const { id } = req.params;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+      });
+    }
+
+    const website = await Website.findOne({ _id: id, userId });
+
+    if (!website) {
+      return res.status(404).json({
+        success: false,
+        error: 'Website not found',
+      });
+    }
+
+    if (!website.billing.price) {
+      return res.status(400).json({
+        success: false,
+        error: 'Billing has not been set up for this website',
+      });
+    }
+
+    // Account credit settles what it can of the missed cycles first
+    await ensureMissedCycleInvoices(website);
+    await applyAccountCredit(website);
+
+    // Outstanding amount: one invoice per missed cycle (price x cycles missed)
+    const { cycles, invoices } = await ensureMissedCycleInvoices(website);
+    const amount = roundAmount(
+      invoices.reduce((sum, invoice) => sum + getInvoiceBalance(invoice), 0)
+    );
+
+    if (amount <= 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'There is no outstanding balance for this website',
+      });
+    }
+
+    const request = await WebsiteRequest.findById(website.requestId).select('contactEmail');
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+    const returnUrl = `${frontendUrl}/dashboard/websites/${website._id}/billing`;
+
+    // No invoiceId: the confirmed payment settles all open invoices oldest first
+    const provider = getPaymentProvider();
+    const session = await provider.createCheckoutSession({
+      amount,
+      currency: getBillingCurrency(website.billing),
+      description: `${website.name} - ${cycles > 1 ? `${cycles} billing cycles` : 'outstanding balance'}`,
+      websiteId: String(website._id),
+      customerEmail: request?.contactEmail,
+      successUrl: `${returnUrl}?checkout=success`,
+      cancelUrl: `${returnUrl}?checkout=cancelled`,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: {
+        sessionId: session.id,
+        url: session.url,
+        provider: provider.name,
+        amount,
+        currency: getBillingCurrency(website.billing),
+        cycles,
+        billingStatus: website.billing.status,
+        invoices: invoices.map((invoice) => ({
+          _id: invoice._id,
+          number: invoice.number,
+          dueAt: invoice.dueAt,
+          balance: getInvoiceBalance(invoice),
+        })),
+      },
+    });
+  } catch (error: any) {
+    console.error('Create website checkout error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to start checkout',
+    });
+  }
+};
+
+/**
+ * @desc    Request a plan change for a website (applied once an admin approves it)
+ * @route   POST /api/users/websites/:id/billing/change-plan
+ * @access  Private
+ */
+export const requestPlanChange = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.auth?.userId;
+    const { id } = req.params;
+    const { plan, billingCycle, timing, note } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+      });
+    }
+
+    const website = await Website.findOne({ _id: id, userId });
+
+    if (!website) {
+      return res.status(404).json({
+        success: false,
+        error: 'Website not found',
+      });
+    }
+
+    const prepared = await preparePlanChange(website, { plan, billingCycle, timing });
+
+    if (!prepared.success) {
+      return res.status(prepared.statusCode).json({
+        success: false,
+        error: prepared.error,
+      });
+    }
+
+    const change = await PlanChange.create({
+      ...prepared.draft,
+      websiteId: website._id,
+      userId,
+      source: PlanChangeSource.CLIENT,
+      status: PlanChangeStatus.REQUESTED,
+      requestedBy: userId,
+      note,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Plan change requested; the proration is recalculated when it is approved',
+      data: change,
+    });
+  } catch (error: any) {
+    console.error('Request plan change error:', error);
+
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation error',
+        details: error.message,
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to request plan change',
+    });
+  }
+};
+
+/**
+ * @desc    Get plan changes of a website
+ * @route   GET /api/users/websites/:id/billing/plan-changes
+ * @access  Private
+ */
+export const getWebsitePlanChanges = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.auth?.userId;
+    const { id } = req.params;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+      });
+    }
+
+    const website = await Website.findOne({ _id: id, userId }).select('_id');
+
+    if (!website) {
+      return res.status(404).json({
+        success: false,
+        error: 'Website not found',
+      });
+    }
+
+    const changes = await PlanChange.find({ websiteId: website._id })
+      .sort({ createdAt: -1 })
+      .select('-__v -decidedBy')
+      .lean();
+
+    res.json({
+      success: true,
+      count: changes.length,
+      data: changes,
+    });
+  } catch (error: any) {
+    console.error('Get plan changes error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch plan changes',
+    });
+  }
+};
+
+/**
+ * @desc    Get the account balance per currency (credit, unpaid invoices, net) and recent ledger entries
+ * @route   GET /api/users/billing/balance
+ * @access  Private
+ */
+export const getBillingBalance = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.auth?.userId;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+      });
+    }
+
+    const [balances, entries] = await Promise.all([
+      getAccountBalances(userId),
+      LedgerEntry.find({ userId })
+        .sort({ createdAt: -1 })
+        .limit(20)
+        .select('-__v -createdBy')
+        .lean(),
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        balances,
+        entries,
+      },
+    });
+  } catch (error: any) {
+    console.error('Get billing balance error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch billing balance',
+    });
+  }
+};
\ No newline at end of file
@@ -0,0 +1,160 @@
+// controllers/invoice.controller.ts
+import { Response } from 'express';
+import { AuthRequest } from '../types';
+import Website from '../models/Website';
+import Invoice, { InvoiceStatus } from '../models/Invoice';
+import { getInvoiceFileName, renderInvoiceHtml, renderInvoicePdf } from '../utils/invoiceRenderer';
+
+/**
+ * @desc    Get invoices of one of the user's websites
+ * @route   GET /api/users/websites/:id/invoices
+ * @access  Private
+ */
+export const getWebsiteInvoices = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.auth?.userId;
+    const { id } = req.params;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+      });
+    }
+
+    const website = await Website.findOne({ _id: id, userId }).select('_id').lean();
+
+    if (!website) {
+      return res.status(404).json({
+        success: false,
+        error: 'Website not found',
+      });
+    }
+
+    // Drafts are internal until issued
+    const invoices = await Invoice.find({
+      websiteId: website._id,
+      userId,
+      status: { $ne: InvoiceStatus.DRAFT },
+    })
+      .select('-__v')
+      .sort({ createdAt: -1 })
+      .lean();
+
+    res.json({
+      success: true,
+      count: invoices.length,
+      data: invoices,
+    });
+  } catch (error: any) {
+    console.error('Get website invoices error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch invoices',
+    });
+  }
+};
+
+/**
+ * @desc    Get a single invoice of one of the user's websites
+ * @route   GET /api/users/websites/:id/invoices/:invoiceId
+ * @access  Private
+ */
+export const getWebsiteInvoiceById = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.auth?.userId;
+    const { id, invoiceId } = req.params;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+      });
+    }
+
+    const invoice = await Invoice.findOne({
+      _id: invoiceId,
+      websiteId: id,
+      userId,
+      status: { $ne: InvoiceStatus.DRAFT },
+    })
+      .select('-__v')
+      .lean();
+
+    if (!invoice) {
+      return res.status(404).json({
+        success: false,
+        error: 'Invoice not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: invoice,
+    });
+  } catch (error: any) {
+    console.error('Get website invoice by ID error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch invoice',
+    });
+  }
+};
+
+/**
+ * @desc    Download an invoice/receipt of one of the user's websites as PDF or HTML
+ * @route   GET /api/users/websites/:id/invoices/:invoiceId.pdf
+ * @route   GET /api/users/websites/:id/invoices/:invoiceId.html
+ * @access  Private
+ */
+export const downloadWebsiteInvoice = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.auth?.userId;
+    const { id, invoiceId, format } = req.params;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+      });
+    }
+
+    const website = await Website.findOne({ _id: id, userId });
+
+    if (!website) {
+      return res.status(404).json({
+        success: false,
+        error: 'Website not found',
+      });
+    }
+
+    const invoice = await Invoice.findOne({
+      _id: invoiceId,
+      websiteId: website._id,
+      status: { $ne: InvoiceStatus.DRAFT },
+    });
+
+    if (!invoice) {
+      return res.status(404).json({
+        success: false,
+        error: 'Invoice not found',
+      });
+    }
+
+    if (format === 'html') {
+      res.type('html').send(renderInvoiceHtml(invoice, website));
+      return;
+    }
+
+    res
+      .type('application/pdf')
+      .attachment(getInvoiceFileName(invoice))
+      .send(renderInvoicePdf(invoice, website));
+  } catch (error: any) {
+    console.error('Download website invoice error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to render invoice',
+    });
+  }
+};
\ No newline at end of file
@@ -0,0 +1,53 @@
+// controllers/job.controller.ts
+import { Request, Response } from 'express';
+import { JobRunStatus, JobTrigger } from '../models/JobRun';
+import { getRegisteredJob, runRegisteredJob } from '../jobs/jobRegistry';
+
+/**
+ * @desc    Run a registered job (for external schedulers such as Vercel Cron)
+ * @route   GET|POST /api/jobs/:jobName/run
+ * @access  Job trigger secret or signature
+ */
+export const runScheduledJob = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { jobName } = req.params;
+
+    if (!getRegisteredJob(jobName)) {
+      res.status(404).json({
+        success: false,
+        error: `Unknown job: ${jobName}`,
+      });
+      return;
+    }
+
+    const dryRun = req.query.dryRun === 'true' || req.body?.dryRun === true;
+    const triggeredBy = req.get('user-agent')?.startsWith('vercel-cron') ? 'vercel-cron' : 'external';
+
+    const run = await runRegisteredJob(jobName, JobTrigger.EXTERNAL, { dryRun, triggeredBy });
+
+    if (run?.status === JobRunStatus.SKIPPED) {
+      res.status(409).json({
+        success: false,
+        error: 'Job is already running',
+        data: run,
+      });
+      return;
+    }
+
+    const failed = run?.status === JobRunStatus.FAILED;
+
+    res.status(failed ? 500 : 200).json({
+      success: !failed,
+      data: run,
+    });
+  } catch (error) {
+    console.error('Error running scheduled job:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to run job',
+    });
+  }
+};
\ No newline at end of file
@@ -0,0 +1,195 @@
+// controllers/notification.controller.ts
+import { Request, Response } from 'express';
+import { AuthRequest } from '../types';
+import User from '../models/User';
+import {
+  NOTIFICATION_PREFERENCES,
+  NotificationPreference,
+  isNotificationPreference,
+  setNotificationPreferences,
+  verifyUnsubscribeToken,
+} from '../utils/notificationUtils';
+import { renderTemplate } from '../utils/templateEngine';
+
+const PREFERENCE_LABELS: Record<NotificationPreference, string> = {
+  paymentReminders: 'payment reminders',
+};
+
+// Minimal page shown by the unsubscribe link in a browser
+const UNSUBSCRIBE_PAGE = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>{{title}}</title>
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif; color: #1f2937; max-width: 480px; margin: 64px auto; padding: 0 16px;">
+  <h1 style="font-size: 22px;">{{title}}</h1>
+  <p>{{message}}</p>
+  {{#action}}
+  <form method="POST" action="{{action}}">
+    <button type="submit" style="padding: 10px 20px; font-size: 15px; cursor: pointer;">Unsubscribe</button>
+  </form>
+  {{/action}}
+</body>
+</html>`;
+
+const sendUnsubscribePage = (
+  res: Response,
+  statusCode: number,
+  page: { title: string; message: string; action?: string }
+): void => {
+  res.status(statusCode).type('html').send(renderTemplate(UNSUBSCRIBE_PAGE, page));
+};
+
+/**
+ * @desc    Get the current user's email notification preferences
+ * @route   GET /api/users/notifications
+ * @access  Private
+ */
+export const getNotificationPreferences = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.auth?.userId;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+      });
+    }
+
+    const user = await User.findOne({ clerkId: userId }).select('notificationPreferences').lean();
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        preferences: user.notificationPreferences,
+        optional: NOTIFICATION_PREFERENCES,
+      },
+    });
+  } catch (error: any) {
+    console.error('Get notification preferences error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch notification preferences',
+    });
+  }
+};
+
+/**
+ * @desc    Turn optional email notifications on or off (billing and security notices can't be turned off)
+ * @route   PATCH /api/users/notifications
+ * @access  Private
+ */
+export const updateNotificationPreferences = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.auth?.userId;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+      });
+    }
+
+    const entries = Object.entries(req.body || {});
+    const invalid = entries.find(([key, value]) => !isNotificationPreference(key) || typeof value !== 'boolean');
+
+    if (entries.length === 0 || invalid) {
+      return res.status(400).json({
+        success: false,
+        error: `Provide true or false for: ${NOTIFICATION_PREFERENCES.join(', ')}`,
+      });
+    }
+
+    const preferences = await setNotificationPreferences(userId, Object.fromEntries(entries));
+
+    if (!preferences) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Notification preferences updated',
+      data: { preferences },
+    });
+  } catch (error: any) {
+    console.error('Update notification preferences error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update notification preferences',
+    });
+  }
+};
+
+/**
+ * @desc    Confirmation page for an unsubscribe link (GET never unsubscribes, so link scanners can't)
+ * @route   GET /api/notifications/unsubscribe?token=
+ * @access  Public (signed token)
+ */
+export const showUnsubscribePage = async (req: Request, res: Response) => {
+  const target = verifyUnsubscribeToken(req.query.token);
+
+  if (!target) {
+    return sendUnsubscribePage(res, 400, {
+      title: 'Invalid link',
+      message: 'This unsubscribe link is invalid. You can manage your email preferences from your dashboard.',
+    });
+  }
+
+  sendUnsubscribePage(res, 200, {
+    title: 'Unsubscribe',
+    message: `Stop receiving ${PREFERENCE_LABELS[target.preference]} by email? Billing and account notices will still be sent.`,
+    action: req.originalUrl,
+  });
+};
+
+/**
+ * @desc    One-click unsubscribe (RFC 8058 List-Unsubscribe-Post, or the confirmation page's form)
+ * @route   POST /api/notifications/unsubscribe?token=
+ * @access  Public (signed token)
+ */
+export const unsubscribe = async (req: Request, res: Response) => {
+  try {
+    const target = verifyUnsubscribeToken(req.query.token);
+
+    if (!target) {
+      return sendUnsubscribePage(res, 400, {
+        title: 'Invalid link',
+        message: 'This unsubscribe link is invalid. You can manage your email preferences from your dashboard.',
+      });
+    }
+
+    const preferences = await setNotificationPreferences(target.userId, {
+      [target.preference]: false,
+    });
+
+    if (!preferences) {
+      return sendUnsubscribePage(res, 404, {
+        title: 'Account not found',
+        message: 'We could not find the account for this link.',
+      });
+    }
+
+    sendUnsubscribePage(res, 200, {
+      title: 'You have been unsubscribed',
+      message: `You will no longer receive ${PREFERENCE_LABELS[target.preference]} by email. You can turn them back on from your dashboard.`,
+    });
+  } catch (error: any) {
+    console.error('Unsubscribe error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to unsubscribe',
+    });
+  }
+};
\ No newline at end of file
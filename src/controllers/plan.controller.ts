@@ -0,0 +1,32 @@
+// controllers/plan.controller.ts
+import { Request, Response } from 'express';
+import Plan, { PlanStatus } from '../models/Plan';
+
+/**
+ * @desc    Get the plans currently offered
+ * @route   GET /api/plans
+ * @access  Public
+ */
+export const getActivePlans = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const plans = await Plan.find({ status: PlanStatus.ACTIVE })
+      .sort({ sortOrder: 1, createdAt: 1 })
+      .select('slug name description currency prices includedPages features')
+      .lean();
+
+    res.status(200).json({
+      success: true,
+      count: plans.length,
+      data: plans,
+    });
+  } catch (error) {
+    console.error('Error fetching plans:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch plans',
+    });
+  }
+};
\ No newline at end of file
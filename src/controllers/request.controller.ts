@@ -3,6 +3,10 @@ import { Response } from 'express';
 import WebsiteRequest, { RequestStatus } from '../models/WebsiteRequest';
 import { AuthRequest, CreateWebsiteRequestDTO, UpdateWebsiteRequestDTO } from '../types';
 import { sendRequestNotificationEmail, sendAdminNotificationEmail } from '../utils/emailService';
+import { findPlanBySlug } from '../utils/planUtils';
+import { ICouponRedemption } from '../models/CouponRedemption';
+import { redeemCoupon, validateCoupon } from '../utils/couponUtils';
+import { withEmailTransaction } from '../utils/emailOutboxUtils';
 
 // Helper function to check if user has submitted a request in last 24 hours
 const checkRateLimit = async (userId: string): Promise<boolean> => {
@@ -16,6 +20,16 @@ const checkRateLimit = async (userId: string): Promise<boolean> => {
   return !!recentRequest;
 };
 
+// Helper function to resolve a selected plan against the active catalog (null if unknown)
+const resolveSelectedPlan = async (selectedPlan: unknown): Promise<string | null> => {
+  if (typeof selectedPlan !== 'string') {
+    return null;
+  }
+
+  const plan = await findPlanBySlug(selectedPlan);
+  return plan ? plan.slug : null;
+};
+
 /**
  * @desc    Create a new website request
  * @route   POST /api/requests
@@ -69,23 +83,67 @@ export const createWebsiteRequest = async (
       return;
     }
     
+    // Selected plan must be one currently offered
+    if (requestData.selectedPlan) {
+      const selectedPlan = await resolveSelectedPlan(requestData.selectedPlan);
+
+      if (!selectedPlan) {
+        res.status(400).json({
+          success: false,
+          error: 'Selected plan is not available',
+        });
+        return;
+      }
+      requestData.selectedPlan = selectedPlan;
+    }
+    
+    // Discount code must be redeemable for the selected plan
+    const couponCheck = requestData.couponCode
+      ? await validateCoupon(requestData.couponCode, { plan: requestData.selectedPlan })
+      : null;
+
+    if (couponCheck && !couponCheck.success) {
+      res.status(couponCheck.statusCode).json({
+        success: false,
+        error: couponCheck.error,
+      });
+      return;
+    }
+    if (couponCheck) {
+      requestData.couponCode = couponCheck.coupon.code;
+    }
+    
     // Set editableUntil to 2 hours from now
     const editableUntil = new Date(Date.now() + 2 * 60 * 60 * 1000);
     
-    // Create the request
-    const websiteRequest = await WebsiteRequest.create({
-      userId,
-      ...requestData,
-      status: RequestStatus.PENDING,
-      editableUntil,
-    });
-    
-    // Send email notifications (fire and forget - don't block the response)
-    Promise.all([
-      sendRequestNotificationEmail(websiteRequest),
-      sendAdminNotificationEmail(websiteRequest),
-    ]).catch(error => {
-      console.error('Failed to send email notifications:', error);
+    // Create the request, redeem its coupon and queue both notifications (delivered and
+    // retried by the email outbox) together, so a request is never left without them
+    const websiteRequest = await withEmailTransaction(async (session) => {
+      const [created] = await WebsiteRequest.create([{
+        userId,
+        ...requestData,
+        status: RequestStatus.PENDING,
+        editableUntil,
+      }], { session });
+      
+      // Redeem the coupon; it moves onto billing when the website is deployed
+      if (couponCheck) {
+        const redemption = await redeemCoupon(couponCheck.coupon, {
+          userId,
+          requestId: created._id as ICouponRedemption['requestId'],
+        }, session);
+
+        // Last redemption was taken by someone else in the meantime
+        if (!redemption) {
+          created.couponCode = undefined;
+          await created.save({ session });
+        }
+      }
+      
+      await sendRequestNotificationEmail(created, { session });
+      await sendAdminNotificationEmail(created, { session });
+      
+      return created;
     });
     
     res.status(201).json({
@@ -251,11 +309,24 @@ export const updateWebsiteRequest = async (
     }
     
     // Fields that cannot be updated
-    const protectedFields = ['userId', 'status', 'editableUntil', 'internalNotes', 'createdAt'];
+    const protectedFields = ['userId', 'status', 'editableUntil', 'internalNotes', 'createdAt', 'couponCode'];
     protectedFields.forEach(field => {
       delete updateData[field as keyof UpdateWebsiteRequestDTO];
     });
     
+    if (updateData.selectedPlan) {
+      const selectedPlan = await resolveSelectedPlan(updateData.selectedPlan);
+
+      if (!selectedPlan) {
+        res.status(400).json({
+          success: false,
+          error: 'Selected plan is not available',
+        });
+        return;
+      }
+      updateData.selectedPlan = selectedPlan;
+    }
+    
     // Update the request
     Object.assign(request, updateData);
     await request.save();
@@ -1,7 +1,13 @@
 // controllers/support.controller.ts
 import { Response } from 'express';
+import { FlattenMaps } from 'mongoose';
 import { AuthRequest } from '../types';
-import SupportRequest, { SupportStatus } from '../models/SupportRequest';
+import SupportRequest, {
+  ISupportRequest,
+  SupportStatus,
+  MessageAuthorRole,
+  MessageVisibility,
+} from '../models/SupportRequest';
 import Website from '../models/Website';
 import WebsiteRequest from '../models/WebsiteRequest';
 import { 
@@ -9,6 +15,22 @@ import {
   sendSupportRequestUserEmail 
 } from '../utils/emailService';
 
+// Owner check shared by every single-request client endpoint
+const findOwnedSupportRequest = (id: string, userId: string) =>
+  SupportRequest.findOne({ _id: id, userId });
+
+// Remove admin-only notes and thread entries before sending a request to the client
+const toClientView = (supportRequest: FlattenMaps<ISupportRequest>) => {
+  const { internalNotes, ...clientView } = supportRequest;
+
+  return {
+    ...clientView,
+    messages: (clientView.messages || []).filter(
+      (entry) => entry.visibility !== MessageVisibility.INTERNAL
+    ),
+  };
+};
+
 /**
  * @desc    Create support request
  * @route   POST /api/support
@@ -74,6 +96,14 @@ export const createSupportRequest = async (
       category,
       subject,
       message,
+      messages: [
+        {
+          authorRole: MessageAuthorRole.CLIENT,
+          authorId: userId,
+          body: message,
+          visibility: MessageVisibility.PUBLIC,
+        },
+      ],
       status: SupportStatus.OPEN,
     });
 
@@ -171,7 +201,7 @@ export const getUserSupportRequests = async (
     res.status(200).json({
       success: true,
       count: supportRequests.length,
-      data: supportRequests,
+      data: supportRequests.map(toClientView),
     });
   } catch (error) {
     console.error('Get support requests error:', error);
@@ -203,7 +233,7 @@ export const getSupportRequestById = async (
       return;
     }
 
-    const supportRequest = await SupportRequest.findOne({ _id: id, userId })
+    const supportRequest = await findOwnedSupportRequest(id, userId)
       .populate('website', 'name status deploymentUrl')
       .select('-internalNotes') // Don't send internal notes to user
       .lean();
@@ -218,7 +248,7 @@ export const getSupportRequestById = async (
 
     res.status(200).json({
       success: true,
-      data: supportRequest,
+      data: toClientView(supportRequest),
     });
   } catch (error) {
     console.error('Get support request error:', error);
@@ -269,7 +299,7 @@ export const getSupportRequestsByWebsite = async (
     res.status(200).json({
       success: true,
       count: supportRequests.length,
-      data: supportRequests,
+      data: supportRequests.map(toClientView),
     });
   } catch (error) {
     console.error('Get website support requests error:', error);
@@ -278,4 +308,107 @@ export const getSupportRequestsByWebsite = async (
       error: 'Failed to fetch support requests',
     });
   }
-};
\ No newline at end of file
+};
+
+/**
+ * @desc    Reply to a support request thread
+ * @route   POST /api/support/:id/messages
+ * @access  Private (User)
+ */
+export const addSupportMessage = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = req.auth?.userId;
+    const { id } = req.params;
+    const { body } = req.body;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+      });
+      return;
+    }
+
+    if (!body || typeof body !== 'string' || !body.trim()) {
+      res.status(400).json({
+        success: false,
+        error: 'Message body is required',
+      });
+      return;
+    }
+
+    const supportRequest = await findOwnedSupportRequest(id, userId);
+
+    if (!supportRequest) {
+      res.status(404).json({
+        success: false,
+        error: 'Support request not found',
+      });
+      return;
+    }
+
+    supportRequest.messages.push({
+      authorRole: MessageAuthorRole.CLIENT,
+      authorId: userId,
+      body,
+      visibility: MessageVisibility.PUBLIC,
+      createdAt: new Date(),
+    });
+
+    // Save the reply first so it is kept even if the ticket can't be reopened
+    await supportRequest.save();
+
+    // A client follow-up on a resolved ticket reopens it, unless another request
+    // for the same category is already open (unique open-ticket index)
+    let reopened = false;
+    let reopenBlocked = false;
+    if (supportRequest.status === SupportStatus.RESOLVED) {
+      try {
+        const result = await SupportRequest.updateOne(
+          { _id: supportRequest._id, status: SupportStatus.RESOLVED },
+          { $set: { status: SupportStatus.OPEN }, $unset: { resolvedAt: 1 } }
+        );
+        reopened = result.modifiedCount > 0;
+      } catch (error: any) {
+        if (error.code !== 11000) {
+          throw error;
+        }
+        reopenBlocked = true;
+      }
+    }
+
+    if (reopened) {
+      supportRequest.status = SupportStatus.OPEN;
+      supportRequest.resolvedAt = undefined;
+    }
+
+    res.status(201).json({
+      success: true,
+      message: reopened
+        ? 'Reply added and support request reopened'
+        : reopenBlocked
+          ? 'Reply added. This request stays resolved because you already have an open request for this category; please follow up there'
+          : 'Reply added successfully',
+      data: toClientView(supportRequest.toObject<FlattenMaps<ISupportRequest>>()),
+    });
+  } catch (error: any) {
+    console.error('Add support message error:', error);
+
+    if (error.name === 'ValidationError') {
+      res.status(400).json({
+        success: false,
+        error: 'Validation error',
+        details: error.message,
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to add reply',
+    });
+  }
+};
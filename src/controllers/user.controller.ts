@@ -2,6 +2,7 @@ import { Response } from 'express';
 import User from '../models/User';
 import { AuthRequest } from '../types';
 import Website from '../models/Website';
+import { findPlanBySlug } from '../utils/planUtils';
 
 export const updateUserProfile = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
@@ -134,9 +135,19 @@ export const getUserWebsitesByPlan = async (req: AuthRequest, res: Response) =>
       });
     }
 
+    // Archived plans still match websites that were set up on them
+    const catalogPlan = await findPlanBySlug(plan, { includeArchived: true });
+
+    if (!catalogPlan) {
+      return res.status(404).json({
+        success: false,
+        error: 'Plan not found',
+      });
+    }
+
     const websites = await Website.find({ 
       userId,
-      'billing.plan': plan.toLowerCase()
+      'billing.plan': catalogPlan.slug
     })
       .sort({ createdAt: -1 })
       .select('-__v -adminNotes -repositoryUrl -milestones')
@@ -145,7 +156,8 @@ export const getUserWebsitesByPlan = async (req: AuthRequest, res: Response) =>
     res.json({
       success: true,
       count: websites.length,
-      plan: plan.toLowerCase(),
+      plan: catalogPlan.slug,
+      planName: catalogPlan.name,
       data: websites,
     });
   } catch (error: any) {
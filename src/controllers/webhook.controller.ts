@@ -0,0 +1,182 @@
+// controllers/webhook.controller.ts
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import Website from '../models/Website';
+import Invoice from '../models/Invoice';
+import PaymentEvent, { IPaymentEvent, PaymentEventStatus } from '../models/PaymentEvent';
+import { getPaymentProvider, PaymentEventType, PaymentEvent as ProviderPaymentEvent } from '../utils/paymentProvider';
+import { recordWebsitePayment } from '../utils/paymentUtils';
+
+const isObjectId = (value?: string): value is string => {
+  return !!value && mongoose.Types.ObjectId.isValid(value);
+};
+
+/**
+ * Resolve the website an event belongs to (metadata websiteId, else via the invoice)
+ */
+const findEventWebsite = async (event: ProviderPaymentEvent) => {
+  if (isObjectId(event.websiteId)) {
+    return Website.findById(event.websiteId);
+  }
+
+  if (isObjectId(event.invoiceId)) {
+    const invoice = await Invoice.findById(event.invoiceId).select('websiteId');
+    return invoice ? Website.findById(invoice.websiteId) : null;
+  }
+
+  return null;
+};
+
+/**
+ * Apply a verified provider event and return the resulting log status
+ */
+const applyPaymentEvent = async (
+  event: ProviderPaymentEvent,
+  record: IPaymentEvent
+): Promise<{ status: PaymentEventStatus; error?: string }> => {
+  const website = await findEventWebsite(event);
+
+  if (!website) {
+    return { status: PaymentEventStatus.IGNORED, error: 'No matching website for event' };
+  }
+
+  record.websiteId = website._id as mongoose.Types.ObjectId;
+
+  if (event.type === PaymentEventType.PAYMENT_FAILED) {
+    console.warn(
+      `⚠️  Payment ${event.transactionId} failed for website ${website._id}: ${event.failureReason || 'unknown reason'}`
+    );
+    return { status: PaymentEventStatus.PROCESSED };
+  }
+
+  if (!event.transactionId || !(event.amount > 0)) {
+    return { status: PaymentEventStatus.IGNORED, error: 'Event has no transaction ID or amount' };
+  }
+
+  const result = await recordWebsitePayment(website, {
+    amount: event.amount,
+    currency: event.currency,
+    method: event.method,
+    transactionId: event.transactionId,
+    invoiceId: isObjectId(event.invoiceId) ? event.invoiceId : undefined,
+    paidAt: event.occurredAt,
+  });
+
+  if (!result.success) {
+    return { status: PaymentEventStatus.FAILED, error: result.error };
+  }
+
+  if (result.duplicate) {
+    return { status: PaymentEventStatus.DUPLICATE };
+  }
+
+  record.invoiceId = result.invoice._id as mongoose.Types.ObjectId;
+  return { status: PaymentEventStatus.PROCESSED };
+};
+
+/**
+ * @desc    Receive payment provider webhooks
+ * @route   POST /api/webhooks/payments
+ * @access  Public (signature verified)
+ */
+export const handlePaymentWebhook = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const provider = getPaymentProvider();
+  const payload: Buffer = Buffer.isBuffer(req.body) ? req.body : Buffer.from(JSON.stringify(req.body || {}));
+
+  if (!provider.verifyWebhookSignature(payload, req.headers)) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid webhook signature',
+    });
+    return;
+  }
+
+  let event: ProviderPaymentEvent | null;
+
+  try {
+    event = provider.parseEvent(payload);
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid webhook payload',
+    });
+    return;
+  }
+
+  // Acknowledge events we don't handle so the provider stops retrying
+  if (!event) {
+    res.status(200).json({ success: true, received: true, ignored: true });
+    return;
+  }
+
+  // Claim the event (and its payment); a duplicate key means it was already delivered,
+  // unless that delivery failed, in which case the retry takes the claim over
+  let record: IPaymentEvent;
+
+  try {
+    record = await PaymentEvent.create({
+      provider: provider.name,
+      eventId: event.id,
+      type: event.type,
+      transactionId: event.transactionId,
+      amount: event.amount,
+      currency: event.currency,
+    });
+  } catch (error: any) {
+    if (error.code !== 11000) {
+      throw error;
+    }
+
+    const retried = await PaymentEvent.findOneAndUpdate(
+      { provider: provider.name, eventId: event.id, status: PaymentEventStatus.FAILED },
+      { $set: { status: PaymentEventStatus.PROCESSING }, $unset: { error: 1, processedAt: 1 } },
+      { new: true }
+    );
+
+    if (!retried) {
+      res.status(200).json({ success: true, received: true, duplicate: true });
+      return;
+    }
+    record = retried;
+  }
+
+  try {
+    const { status, error } = await applyPaymentEvent(event, record);
+
+    record.status = status;
+    record.error = error;
+    record.processedAt = new Date();
+    await record.save();
+
+    // Business-rule failures (e.g. a currency mismatch) stay recorded as FAILED and are
+    // refused, so the provider retries them once the website or invoice is fixed
+    if (status === PaymentEventStatus.FAILED) {
+      console.error(`❌ Payment event ${event.id} failed: ${error}`);
+      res.status(422).json({
+        success: false,
+        error,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      received: true,
+      status,
+      ...(error && { error }),
+    });
+  } catch (error) {
+    console.error('Error processing payment webhook:', error);
+
+    // Release the claim so the provider's retry can process the event
+    await PaymentEvent.deleteOne({ _id: record._id });
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to process payment webhook',
+    });
+  }
+};
\ No newline at end of file
@@ -0,0 +1,71 @@
+// jobs/adminDigest.ts
+import WebsiteRequest, { RequestStatus } from '../models/WebsiteRequest';
+import SupportRequest, { SupportStatus } from '../models/SupportRequest';
+import Website, { BillingStatus } from '../models/Website';
+import { addDays } from '../utils/billingUtils';
+import { AdminDigest, sendAdminDigestEmail } from '../utils/emailService';
+
+// Digest covers the last day of activity
+const DIGEST_PERIOD_DAYS = 1;
+
+export interface AdminDigestSummary {
+  dryRun: boolean;
+  sent: boolean;
+  digest: AdminDigest;
+}
+
+/**
+ * Collect request, support and billing activity for the admin digest
+ */
+export const buildAdminDigest = async (now: Date = new Date()): Promise<AdminDigest> => {
+  const since = addDays(now, -DIGEST_PERIOD_DAYS);
+
+  const [
+    newRequests,
+    pendingRequests,
+    expiredRequests,
+    openSupportRequests,
+    overdueWebsites,
+    suspendedWebsites,
+    dueSoonWebsites,
+  ] = await Promise.all([
+    WebsiteRequest.find({ createdAt: { $gte: since } })
+      .select('projectName projectType contactName createdAt')
+      .sort({ createdAt: -1 })
+      .lean(),
+    WebsiteRequest.countDocuments({ status: { $in: [RequestStatus.PENDING, RequestStatus.IN_REVIEW] } }),
+    WebsiteRequest.countDocuments({ status: RequestStatus.EXPIRED, updatedAt: { $gte: since } }),
+    SupportRequest.countDocuments({ status: { $in: [SupportStatus.OPEN, SupportStatus.IN_PROGRESS] } }),
+    Website.countDocuments({ 'billing.status': BillingStatus.OVERDUE }),
+    Website.countDocuments({ 'billing.status': BillingStatus.SUSPENDED }),
+    Website.countDocuments({
+      'billing.status': BillingStatus.ACTIVE,
+      'billing.dueAt': { $gt: now, $lte: addDays(now, 7) },
+    }),
+  ]);
+
+  return {
+    since,
+    newRequests,
+    pendingRequests,
+    expiredRequests,
+    openSupportRequests,
+    overdueWebsites,
+    suspendedWebsites,
+    dueSoonWebsites,
+  };
+};
+
+/**
+ * Email the daily digest to ADMIN_EMAIL (with dryRun, only builds it)
+ */
+export const sendAdminDigest = async (
+  { dryRun = false }: { dryRun?: boolean } = {}
+): Promise<AdminDigestSummary> => {
+  const digest = await buildAdminDigest();
+  const sent = dryRun ? false : await sendAdminDigestEmail(digest);
+
+  console.log(`📬 Admin digest${dryRun ? ' (dry run)' : ''}: ${digest.newRequests.length} new request(s), ${sent ? 'sent' : 'not sent'}`);
+
+  return { dryRun, sent, digest };
+};
\ No newline at end of file
@@ -1,8 +1,114 @@
 // jobs/billingCron.ts
 import cron from 'node-cron';
-import Website, { BillingStatus } from '../models/Website';
-import WebsiteRequest from '../models/WebsiteRequest';
-import { sendBillingSuspensionEmail, sendBillingOverdueEmail } from '../utils/emailService';
+import mongoose, { ClientSession } from 'mongoose';
+import Website, { BillingStatus, IWebsite } from '../models/Website';
+import WebsiteRequest, { IWebsiteRequest } from '../models/WebsiteRequest';
+import { IJobRun, JobTrigger } from '../models/JobRun';
+import { getLastSuccessfulRun, runJob } from './jobRunner';
+import { addDays, getDaysRemaining } from '../utils/billingUtils';
+import { loadBillingPolicyResolver } from '../utils/billingPolicyUtils';
+import { getOutstandingBalance } from '../utils/invoiceUtils';
+import { applyDuePlanChanges } from '../utils/planChangeUtils';
+import { applyAccountCredit } from '../utils/ledgerUtils';
+import {
+  claimReminder,
+  findReminderCandidates,
+  getDueReminderOffset,
+  releaseReminder,
+} from '../utils/billingReminderUtils';
+import {
+  sendBillingSuspensionEmail,
+  sendBillingOverdueEmail,
+  sendPaymentReminderEmail,
+} from '../utils/emailService';
+import { EnqueueEmailOptions, withEmailTransaction } from '../utils/emailOutboxUtils';
+
+/**
+ * Save a billing status change only if the status is still `from`, so a payment
+ * that reinstated the website while the job ran is never overwritten
+ */
+const saveBillingStatusChange = async (
+  website: IWebsite,
+  from: BillingStatus,
+  session?: ClientSession
+): Promise<boolean> => {
+  const where = website.$where;
+  website.$where = { ...where, 'billing.status': from };
+
+  try {
+    await website.save({ session });
+    return true;
+  } catch (error) {
+    if (error instanceof mongoose.Error.DocumentNotFoundError) {
+      return false;
+    }
+    throw error;
+  } finally {
+    website.$where = where;
+  }
+};
+
+// Job names used for locking and run history
+export const BILLING_STATUS_JOB = 'billing-status-update';
+export const PAYMENT_REMINDERS_JOB = 'payment-reminders';
+
+// Daily schedule (2:00 AM server time)
+const DAILY_BILLING_HOUR = 2;
+
+/**
+ * Run the billing status update and payment reminders as locked, recorded jobs
+ */
+export const runBillingJobs = async (
+  trigger: JobTrigger,
+  options: { dryRun?: boolean; triggeredBy?: string } = {}
+): Promise<IJobRun[]> => {
+  const statusRun = await runJob(
+    BILLING_STATUS_JOB,
+    ({ dryRun }) => updateBillingStatuses({ dryRun }),
+    { trigger, ...options }
+  );
+
+  const reminderRun = await runJob(
+    PAYMENT_REMINDERS_JOB,
+    ({ dryRun }) => sendPaymentReminders({ dryRun }),
+    { trigger, ...options }
+  );
+
+  return [statusRun, reminderRun];
+};
+
+/**
+ * Most recent time the daily billing run was scheduled for
+ */
+const getLastScheduledRunTime = (now: Date = new Date()): Date => {
+  const scheduled = new Date(now);
+  scheduled.setHours(DAILY_BILLING_HOUR, 0, 0, 0);
+
+  if (scheduled > now) {
+    scheduled.setDate(scheduled.getDate() - 1);
+  }
+
+  return scheduled;
+};
+
+/**
+ * Catch up on a missed daily run (e.g. the server was down at 2 AM)
+ */
+export const runMissedBillingJobs = async (): Promise<void> => {
+  try {
+    const scheduledAt = getLastScheduledRunTime();
+    const lastRun = await getLastSuccessfulRun(BILLING_STATUS_JOB);
+
+    if (lastRun && lastRun.startedAt >= scheduledAt) {
+      return;
+    }
+
+    console.log(`🔄 Catching up missed billing run (scheduled ${scheduledAt.toLocaleString()})...`);
+    await runBillingJobs(JobTrigger.CATCH_UP);
+  } catch (error) {
+    console.error('❌ Error catching up billing jobs:', error);
+  }
+};
 
 /**
  * 🔥 PHASE 3: Automated billing status checker
@@ -11,11 +117,11 @@ import { sendBillingSuspensionEmail, sendBillingOverdueEmail } from '../utils/em
  */
 export const startBillingCron = () => {
   // Run every day at 2:00 AM
-  cron.schedule('0 2 * * *', async () => {
+  cron.schedule(`0 ${DAILY_BILLING_HOUR} * * *`, async () => {
     console.log('🔄 Running billing status check...');
     
     try {
-      await updateBillingStatuses();
+      await runBillingJobs(JobTrigger.SCHEDULE);
       console.log('✅ Billing status check completed');
     } catch (error) {
       console.error('❌ Error in billing cron job:', error);
@@ -25,13 +131,49 @@ export const startBillingCron = () => {
   console.log('✅ Billing cron job scheduled (runs daily at 2:00 AM)');
 };
 
+export interface BillingStatusChange {
+  websiteId: string;
+  websiteName: string;
+  from: BillingStatus;
+  to: BillingStatus;
+  reason: string;
+}
+
+export interface BillingUpdateSummary {
+  dryRun: boolean;
+  pendingToSuspended: number;
+  activeToOverdue: number;
+  overdueToSuspended: number;
+  reinstated: number;
+  planChangesApplied: number;
+  creditApplied: number;
+  errors: number;
+  changes: BillingStatusChange[];
+}
+
 /**
  * Manual trigger for billing status update (useful for testing)
+ *
+ * Applies the billing lifecycle from the billing policy:
+ * PENDING → SUSPENDED (grace period ended), ACTIVE → OVERDUE (due date passed),
+ * OVERDUE → SUSPENDED (overdueToSuspendDays after the due date) and
+ * OVERDUE/SUSPENDED → ACTIVE once nothing is outstanding.
+ * Scheduled plan changes whose cycle boundary has passed are applied first, and
+ * each website's account credit is spent on its open invoices before its checks.
+ * With dryRun, nothing is saved or emailed; the summary lists what would change.
  */
-export const updateBillingStatuses = async (): Promise<void> => {
+export const updateBillingStatuses = async (
+  options: { dryRun?: boolean } = {}
+): Promise<BillingUpdateSummary> => {
   const now = new Date();
+  const dryRun = !!options.dryRun;
   
   try {
+    const resolvePolicy = await loadBillingPolicyResolver();
+
+    // Switch plans before invoicing and status checks use them
+    const planChangesApplied = await applyDuePlanChanges(now, { dryRun });
+
     // Find all websites with billing issues
     const websites = await Website.find({
       $or: [
@@ -43,115 +185,229 @@ export const updateBillingStatuses = async (): Promise<void> => {
           'billing.status': BillingStatus.ACTIVE,
           'billing.dueAt': { $lt: now },
         },
+        {
+          'billing.status': { $in: [BillingStatus.OVERDUE, BillingStatus.SUSPENDED] },
+        },
       ],
     }).populate('requestId');
 
-    console.log(`📊 Found ${websites.length} websites requiring billing updates`);
+    console.log(`📊 Found ${websites.length} websites requiring billing updates${dryRun ? ' (dry run)' : ''}`);
 
-    let pendingToSuspended = 0;
-    let activeToOverdue = 0;
-    let errors = 0;
+    const summary: BillingUpdateSummary = {
+      dryRun,
+      pendingToSuspended: 0,
+      activeToOverdue: 0,
+      overdueToSuspended: 0,
+      reinstated: 0,
+      planChangesApplied,
+      creditApplied: 0,
+      errors: 0,
+      changes: [],
+    };
 
     for (const website of websites) {
       try {
-        let statusChanged = false;
-        let emailSent = false;
+        // Account credit settles what it can before the status checks
+        if (!dryRun && await applyAccountCredit(website, now) > 0) {
+          summary.creditApplied++;
+        }
+
+        const policy = resolvePolicy(website.billing.plan);
+        const { status, dueAt, graceEndsAt } = website.billing;
+        let nextStatus: BillingStatus | null = null;
+        let reason = '';
+        let notify: ((request: IWebsiteRequest, website: IWebsite, options: EnqueueEmailOptions) => Promise<void>) | null = null;
+        let counter: 'pendingToSuspended' | 'activeToOverdue' | 'overdueToSuspended' | 'reinstated' | null = null;
 
-        // PENDING → SUSPENDED (grace period ended)
         if (
-          website.billing.status === BillingStatus.PENDING &&
-          website.billing.graceEndsAt &&
-          website.billing.graceEndsAt < now
+          // PENDING → SUSPENDED (grace period ended)
+          status === BillingStatus.PENDING &&
+          graceEndsAt &&
+          graceEndsAt < now
         ) {
-          website.billing.status = BillingStatus.SUSPENDED;
-          website.billing.suspendedAt = now;
-          statusChanged = true;
-          pendingToSuspended++;
-
-          console.log(`⚠️  Suspended website ${website._id} (${website.name}) - grace period ended`);
-
-          // Send suspension email
-          try {
-            const request = await WebsiteRequest.findById(website.requestId);
-            if (request) {
-              await sendBillingSuspensionEmail(request, website);
-              emailSent = true;
-            }
-          } catch (emailError) {
-            console.error(`Failed to send suspension email for ${website._id}:`, emailError);
+          nextStatus = BillingStatus.SUSPENDED;
+          reason = 'grace period ended';
+          notify = sendBillingSuspensionEmail;
+          counter = 'pendingToSuspended';
+        } else if (
+          // ACTIVE → OVERDUE (payment due date passed)
+          status === BillingStatus.ACTIVE &&
+          dueAt &&
+          dueAt < now
+        ) {
+          nextStatus = BillingStatus.OVERDUE;
+          reason = 'payment due date passed';
+          notify = sendBillingOverdueEmail;
+          counter = 'activeToOverdue';
+        } else if (status === BillingStatus.OVERDUE || status === BillingStatus.SUSPENDED) {
+          const outstanding = await getOutstandingBalance(website._id);
+
+          if (outstanding <= 0 && dueAt && dueAt > now) {
+            // OVERDUE/SUSPENDED → ACTIVE (paid up and the next due date is ahead)
+            nextStatus = BillingStatus.ACTIVE;
+            reason = 'nothing outstanding';
+            counter = 'reinstated';
+          } else if (
+            // OVERDUE → SUSPENDED (overdue for longer than the policy allows)
+            status === BillingStatus.OVERDUE &&
+            dueAt &&
+            addDays(dueAt, policy.overdueToSuspendDays) < now
+          ) {
+            nextStatus = BillingStatus.SUSPENDED;
+            reason = `overdue for ${policy.overdueToSuspendDays}+ days`;
+            notify = sendBillingSuspensionEmail;
+            counter = 'overdueToSuspended';
           }
         }
 
-        // ACTIVE → OVERDUE (payment due date passed)
-        if (
-          website.billing.status === BillingStatus.ACTIVE &&
-          website.billing.dueAt &&
-          website.billing.dueAt < now
-        ) {
-          website.billing.status = BillingStatus.OVERDUE;
-          statusChanged = true;
-          activeToOverdue++;
-
-          console.log(`⚠️  Marked website ${website._id} (${website.name}) as OVERDUE`);
-
-          // Send overdue email
-          try {
-            const request = await WebsiteRequest.findById(website.requestId);
-            if (request) {
-              await sendBillingOverdueEmail(request, website);
-              emailSent = true;
+        if (!nextStatus || !counter) {
+          continue;
+        }
+
+        if (!dryRun) {
+          website.billing.status = nextStatus;
+          if (nextStatus === BillingStatus.SUSPENDED) {
+            website.billing.suspendedAt = now;
+          }
+          if (nextStatus === BillingStatus.ACTIVE) {
+            website.billing.suspendedAt = undefined;
+          }
+
+          // The status change and its email to the client are stored together
+          const request = notify ? await WebsiteRequest.findById(website.requestId) : null;
+          const saved = await withEmailTransaction(async (session) => {
+            if (!(await saveBillingStatusChange(website, status, session))) {
+              return false;
+            }
+
+            if (notify && request) {
+              await notify(request, website, { session });
             }
-          } catch (emailError) {
-            console.error(`Failed to send overdue email for ${website._id}:`, emailError);
+            return true;
+          });
+
+          if (!saved) {
+            console.log(`↩️  Website ${website._id} (${website.name}): billing changed during the run, skipped`);
+            continue;
           }
         }
 
-        if (statusChanged) {
-          await website.save();
+        summary[counter]++;
+        summary.changes.push({
+          websiteId: String(website._id),
+          websiteName: website.name,
+          from: status,
+          to: nextStatus,
+          reason,
+        });
+
+        if (dryRun) {
+          continue;
         }
+
+        console.log(`⚠️  Website ${website._id} (${website.name}): ${status} → ${nextStatus} - ${reason}`);
       } catch (websiteError) {
         console.error(`Error updating website ${website._id}:`, websiteError);
-        errors++;
+        summary.errors++;
       }
     }
 
     console.log(`
-📈 Billing Update Summary:
-   - PENDING → SUSPENDED: ${pendingToSuspended}
-   - ACTIVE → OVERDUE: ${activeToOverdue}
-   - Errors: ${errors}
+📈 Billing Update Summary${dryRun ? ' (dry run)' : ''}:
+   - PENDING → SUSPENDED: ${summary.pendingToSuspended}
+   - ACTIVE → OVERDUE: ${summary.activeToOverdue}
+   - OVERDUE → SUSPENDED: ${summary.overdueToSuspended}
+   - Reinstated → ACTIVE: ${summary.reinstated}
+   - Plan changes applied: ${summary.planChangesApplied}
+   - Account credit applied: ${summary.creditApplied}
+   - Errors: ${summary.errors}
     `);
 
+    return summary;
   } catch (error) {
     console.error('Failed to update billing statuses:', error);
     throw error;
   }
 };
 
+export interface ReminderSummary {
+  dryRun: boolean;
+  sent: number;
+  skipped: number;
+  errors: number;
+  reminders: Array<{ websiteId: string; websiteName: string; offsetDays: number }>;
+}
+
 /**
- * Check websites that will become overdue soon (for warnings)
+ * Send pre-due payment reminders at the billing policy's offsets (e.g. 7, 3 and 1 days before dueAt)
+ *
+ * Each reminder is claimed on the website's billing record before it is sent,
+ * so overlapping daily/hourly runs never send the same reminder twice.
+ * With dryRun, nothing is claimed or sent; the summary lists what would go out.
  */
-export const checkUpcomingOverdue = async (daysAhead: number = 3): Promise<void> => {
-  const futureDate = new Date();
-  futureDate.setDate(futureDate.getDate() + daysAhead);
-  
+export const sendPaymentReminders = async (
+  options: { dryRun?: boolean } = {}
+): Promise<ReminderSummary> => {
+  const now = new Date();
+  const dryRun = !!options.dryRun;
+  const summary: ReminderSummary = { dryRun, sent: 0, skipped: 0, errors: 0, reminders: [] };
+
   try {
-    const upcomingOverdue = await Website.find({
-      'billing.status': BillingStatus.ACTIVE,
-      'billing.dueAt': {
-        $gt: new Date(),
-        $lt: futureDate,
-      },
-    }).populate('requestId');
+    const resolvePolicy = await loadBillingPolicyResolver();
+    const websites = await findReminderCandidates(now);
+
+    for (const website of websites) {
+      const offsetDays = getDueReminderOffset(website, resolvePolicy(website.billing.plan), now);
+
+      if (offsetDays === null) {
+        continue;
+      }
+
+      summary.reminders.push({
+        websiteId: String(website._id),
+        websiteName: website.name,
+        offsetDays,
+      });
+
+      if (dryRun) {
+        continue;
+      }
+
+      if (!(await claimReminder(website, offsetDays, now))) {
+        summary.skipped++;
+        continue;
+      }
 
-    console.log(`⏰ ${upcomingOverdue.length} websites have payments due within ${daysAhead} days`);
+      try {
+        const request = await WebsiteRequest.findById(website.requestId);
+
+        if (!request) {
+          summary.skipped++;
+          continue;
+        }
+
+        // Unsubscribed clients keep the claim so the reminder isn't retried
+        if (!(await sendPaymentReminderEmail(request, website, getDaysRemaining(website.billing.dueAt!)))) {
+          summary.skipped++;
+          continue;
+        }
 
-    // You can send warning emails here
-    for (const website of upcomingOverdue) {
-      console.log(`   - ${website.name}: Due on ${website.billing.dueAt?.toLocaleDateString()}`);
+        summary.sent++;
+
+        console.log(`⏰ Sent ${offsetDays}-day payment reminder for ${website.name}`);
+      } catch (emailError) {
+        console.error(`Failed to send payment reminder for ${website._id}:`, emailError);
+        await releaseReminder(website, offsetDays);
+        summary.errors++;
+      }
     }
+
+    console.log(`⏰ Payment reminders${dryRun ? ' (dry run)' : ''}: ${summary.reminders.length} due, ${summary.sent} sent, ${summary.skipped} skipped, ${summary.errors} errors`);
+
+    return summary;
   } catch (error) {
-    console.error('Error checking upcoming overdue:', error);
+    console.error('Error sending payment reminders:', error);
+    throw error;
   }
 };
 
@@ -161,7 +417,7 @@ export const startHourlyBillingCheck = () => {
     console.log('⏰ Running hourly billing check...');
     
     try {
-      await updateBillingStatuses();
+      await runBillingJobs(JobTrigger.SCHEDULE);
     } catch (error) {
       console.error('❌ Error in hourly billing check:', error);
     }
@@ -0,0 +1,61 @@
+// jobs/emailOutbox.ts
+import EmailOutbox, { EmailOutboxStatus } from '../models/EmailOutbox';
+import { claimEmail, sendClaimedEmail } from '../utils/emailOutboxUtils';
+
+// Emails sent per run; the rest wait for the next run
+const BATCH_SIZE = 100;
+
+export interface EmailOutboxSummary {
+  dryRun: boolean;
+  due: number;
+  sent: number;
+  retrying: number;
+  dead: number;
+}
+
+/**
+ * Send queued emails that are due, oldest first
+ *
+ * With dryRun, nothing is sent; the summary counts the emails that are due.
+ */
+export const processEmailOutbox = async (
+  { dryRun = false }: { dryRun?: boolean } = {}
+): Promise<EmailOutboxSummary> => {
+  const now = new Date();
+  const summary: EmailOutboxSummary = { dryRun, due: 0, sent: 0, retrying: 0, dead: 0 };
+
+  if (dryRun) {
+    summary.due = await EmailOutbox.countDocuments({
+      $or: [
+        { status: EmailOutboxStatus.PENDING, nextAttemptAt: { $lte: now } },
+        { status: EmailOutboxStatus.SENDING, lockedUntil: { $lte: now } },
+      ],
+    });
+    return summary;
+  }
+
+  while (summary.due < BATCH_SIZE) {
+    const email = await claimEmail({}, now);
+
+    if (!email) {
+      break;
+    }
+
+    summary.due++;
+    const result = await sendClaimedEmail(email);
+
+    if (result.status === EmailOutboxStatus.SENT) {
+      summary.sent++;
+    } else if (result.status === EmailOutboxStatus.DEAD) {
+      summary.dead++;
+    } else {
+      summary.retrying++;
+    }
+  }
+
+  if (summary.due > 0) {
+    console.log(`📤 Email outbox: ${summary.sent} sent, ${summary.retrying} to retry, ${summary.dead} dead`);
+  }
+
+  return summary;
+};
\ No newline at end of file
@@ -0,0 +1,107 @@
+// jobs/jobRegistry.ts
+import cron from 'node-cron';
+import { IJobRun, JobTrigger } from '../models/JobRun';
+import { JobHandler, runJob } from './jobRunner';
+import {
+  BILLING_STATUS_JOB,
+  PAYMENT_REMINDERS_JOB,
+  sendPaymentReminders,
+  updateBillingStatuses,
+} from './billingCron';
+import { expireStaleRequests } from './requestExpiry';
+import { sendAdminDigest } from './adminDigest';
+import { processEmailOutbox } from './emailOutbox';
+
+export const REQUEST_EXPIRY_JOB = 'request-expiry';
+export const ADMIN_DIGEST_JOB = 'admin-digest';
+export const EMAIL_OUTBOX_JOB = 'email-outbox';
+
+export interface RegisteredJob {
+  name: string;
+  description: string;
+  schedule: string; // Suggested cron expression for external schedulers
+  handler: JobHandler;
+}
+
+/**
+ * Named jobs that can be triggered by the in-process cron, admins or an external scheduler
+ */
+const JOB_REGISTRY: Record<string, RegisteredJob> = {
+  [BILLING_STATUS_JOB]: {
+    name: BILLING_STATUS_JOB,
+    description: 'Apply the billing lifecycle (overdue, suspension, reinstatement)',
+    schedule: '0 2 * * *',
+    handler: ({ dryRun }) => updateBillingStatuses({ dryRun }),
+  },
+  [PAYMENT_REMINDERS_JOB]: {
+    name: PAYMENT_REMINDERS_JOB,
+    description: 'Send pre-due payment reminders',
+    schedule: '0 2 * * *',
+    handler: ({ dryRun }) => sendPaymentReminders({ dryRun }),
+  },
+  [REQUEST_EXPIRY_JOB]: {
+    name: REQUEST_EXPIRY_JOB,
+    description: 'Expire pending or contacted requests with no recent activity',
+    schedule: '0 3 * * *',
+    handler: ({ dryRun }) => expireStaleRequests({ dryRun }),
+  },
+  [ADMIN_DIGEST_JOB]: {
+    name: ADMIN_DIGEST_JOB,
+    description: 'Email the daily activity digest to the admin',
+    schedule: '0 8 * * *',
+    handler: ({ dryRun }) => sendAdminDigest({ dryRun }),
+  },
+  [EMAIL_OUTBOX_JOB]: {
+    name: EMAIL_OUTBOX_JOB,
+    description: 'Send queued emails and retry failed ones',
+    // Emails are first sent when queued, so this only retries failures. Vercel Hobby
+    // allows daily crons only, so vercel.json drains the outbox at 4 AM; on Pro or
+    // above, set its schedule there to this one
+    schedule: '*/5 * * * *',
+    handler: ({ dryRun }) => processEmailOutbox({ dryRun }),
+  },
+};
+
+export const getRegisteredJob = (jobName: string): RegisteredJob | undefined => {
+  return Object.prototype.hasOwnProperty.call(JOB_REGISTRY, jobName)
+    ? JOB_REGISTRY[jobName]
+    : undefined;
+};
+
+export const listRegisteredJobs = (): RegisteredJob[] => Object.values(JOB_REGISTRY);
+
+/**
+ * Run a registered job by name; returns null for an unknown job
+ */
+export const runRegisteredJob = async (
+  jobName: string,
+  trigger: JobTrigger,
+  options: { dryRun?: boolean; triggeredBy?: string } = {}
+): Promise<IJobRun | null> => {
+  const job = getRegisteredJob(jobName);
+
+  if (!job) {
+    return null;
+  }
+
+  return runJob(job.name, job.handler, { trigger, ...options });
+};
+
+/**
+ * Schedule the non-billing jobs in-process (billing has its own cron)
+ */
+export const startMaintenanceCron = () => {
+  for (const jobName of [REQUEST_EXPIRY_JOB, ADMIN_DIGEST_JOB, EMAIL_OUTBOX_JOB]) {
+    const job = JOB_REGISTRY[jobName];
+
+    cron.schedule(job.schedule, async () => {
+      try {
+        await runRegisteredJob(job.name, JobTrigger.SCHEDULE);
+      } catch (error) {
+        console.error(`❌ Error in ${job.name} cron job:`, error);
+      }
+    });
+  }
+
+  console.log('✅ Maintenance cron jobs scheduled (request expiry, admin digest, email outbox)');
+};
\ No newline at end of file
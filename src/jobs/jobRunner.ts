@@ -0,0 +1,165 @@
+// jobs/jobRunner.ts
+import crypto from 'crypto';
+import os from 'os';
+import JobLock from '../models/JobLock';
+import JobRun, { IJobRun, JobRunStatus, JobTrigger } from '../models/JobRun';
+
+// Locks expire on their own so a crashed run can't block the job forever;
+// a running job renews its lock, so the TTL only bounds how long a crash blocks it
+const DEFAULT_LOCK_TTL_MS = 5 * 60 * 1000;
+const LOCK_RENEWALS_PER_TTL = 3;
+
+export interface JobContext {
+  dryRun: boolean;
+  trigger: JobTrigger;
+}
+
+export type JobHandler = (context: JobContext) => Promise<Record<string, any> | void>;
+
+export interface RunJobOptions {
+  trigger: JobTrigger;
+  dryRun?: boolean;
+  triggeredBy?: string;
+  lockTtlMs?: number;
+}
+
+/**
+ * Try to take the distributed lock for a job; returns the owner token or null
+ */
+export const acquireJobLock = async (
+  jobName: string,
+  ttlMs: number = DEFAULT_LOCK_TTL_MS
+): Promise<string | null> => {
+  const now = new Date();
+  const owner = `${os.hostname()}:${process.pid}:${crypto.randomBytes(6).toString('hex')}`;
+
+  try {
+    // Matches only a free or expired lock; upserting over a held lock hits the unique _id
+    await JobLock.findOneAndUpdate(
+      { _id: jobName, lockedUntil: { $lte: now } },
+      { $set: { owner, lockedUntil: new Date(now.getTime() + ttlMs), acquiredAt: now } },
+      { upsert: true }
+    );
+    return owner;
+  } catch (error: any) {
+    if (error.code === 11000) {
+      return null;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Extend a job lock held by this owner; returns false if the lock was lost
+ */
+export const renewJobLock = async (
+  jobName: string,
+  owner: string,
+  ttlMs: number = DEFAULT_LOCK_TTL_MS
+): Promise<boolean> => {
+  const result = await JobLock.updateOne(
+    { _id: jobName, owner },
+    { $set: { lockedUntil: new Date(Date.now() + ttlMs) } }
+  );
+  return result.matchedCount > 0;
+};
+
+/**
+ * Release a job lock held by this owner
+ */
+export const releaseJobLock = async (jobName: string, owner: string): Promise<void> => {
+  await JobLock.updateOne({ _id: jobName, owner }, { $set: { lockedUntil: new Date(0) } });
+};
+
+/**
+ * Run a job under its lock and record the run in JobRun
+ *
+ * Dry runs don't take the lock (they change nothing). If the lock is held,
+ * a SKIPPED run is recorded and the handler is not called.
+ */
+export const runJob = async (
+  jobName: string,
+  handler: JobHandler,
+  options: RunJobOptions
+): Promise<IJobRun> => {
+  const dryRun = !!options.dryRun;
+  const startedAt = new Date();
+
+  const run = new JobRun({
+    jobName,
+    trigger: options.trigger,
+    dryRun,
+    triggeredBy: options.triggeredBy,
+    startedAt,
+  });
+
+  const lockTtlMs = options.lockTtlMs || DEFAULT_LOCK_TTL_MS;
+  const owner = dryRun ? null : await acquireJobLock(jobName, lockTtlMs);
+
+  if (!dryRun && !owner) {
+    run.status = JobRunStatus.SKIPPED;
+    run.finishedAt = startedAt;
+    run.durationMs = 0;
+    run.error = 'Another run of this job is in progress';
+    await run.save();
+
+    console.warn(`⏭️  Skipped ${jobName}: another run holds the lock`);
+    return run;
+  }
+
+  await run.save();
+
+  // Keep the lock while the handler runs, however long it takes
+  const renewal = owner
+    ? setInterval(() => {
+        renewJobLock(jobName, owner, lockTtlMs)
+          .then((held) => {
+            if (!held) {
+              console.warn(`⚠️  ${jobName} lost its lock while running`);
+            }
+          })
+          .catch((lockError) => {
+            console.error(`Failed to renew lock for ${jobName}:`, lockError);
+          });
+      }, lockTtlMs / LOCK_RENEWALS_PER_TTL)
+    : null;
+  renewal?.unref();
+
+  try {
+    const summary = await handler({ dryRun, trigger: options.trigger });
+
+    run.status = JobRunStatus.SUCCEEDED;
+    run.summary = summary || undefined;
+  } catch (error: any) {
+    console.error(`❌ Job ${jobName} failed:`, error);
+
+    run.status = JobRunStatus.FAILED;
+    run.error = error?.message || String(error);
+  } finally {
+    if (renewal) {
+      clearInterval(renewal);
+    }
+    if (owner) {
+      await releaseJobLock(jobName, owner).catch((lockError) => {
+        console.error(`Failed to release lock for ${jobName}:`, lockError);
+      });
+    }
+  }
+
+  run.finishedAt = new Date();
+  run.durationMs = run.finishedAt.getTime() - startedAt.getTime();
+  await run.save();
+
+  return run;
+};
+
+/**
+ * Get the last successful real (non dry-run) run of a job
+ */
+export const getLastSuccessfulRun = async (jobName: string): Promise<IJobRun | null> => {
+  return JobRun.findOne({
+    jobName,
+    status: JobRunStatus.SUCCEEDED,
+    dryRun: false,
+  }).sort({ startedAt: -1 });
+};
\ No newline at end of file
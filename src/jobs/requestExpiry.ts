@@ -0,0 +1,82 @@
+// jobs/requestExpiry.ts
+import WebsiteRequest, { RequestStatus } from '../models/WebsiteRequest';
+import { addDays } from '../utils/billingUtils';
+
+// Requests still waiting on someone that are closed when left untouched
+export const EXPIRABLE_REQUEST_STATUSES = [RequestStatus.PENDING, RequestStatus.CONTACTED];
+
+const DEFAULT_REQUEST_EXPIRY_DAYS = 30;
+
+/**
+ * Days without activity before a request expires (REQUEST_EXPIRY_DAYS)
+ */
+export const getRequestExpiryDays = (): number => {
+  const days = Number(process.env.REQUEST_EXPIRY_DAYS);
+  return Number.isInteger(days) && days > 0 ? days : DEFAULT_REQUEST_EXPIRY_DAYS;
+};
+
+export interface ExpiredRequest {
+  requestId: string;
+  projectName: string;
+  from: RequestStatus;
+  lastActivityAt: Date;
+}
+
+export interface RequestExpirySummary {
+  dryRun: boolean;
+  expiryDays: number;
+  expired: number;
+  requests: ExpiredRequest[];
+}
+
+/**
+ * Mark pending/contacted requests with no activity for getRequestExpiryDays() as EXPIRED
+ *
+ * With dryRun, nothing is saved; the summary lists what would expire.
+ */
+export const expireStaleRequests = async (
+  { dryRun = false }: { dryRun?: boolean } = {}
+): Promise<RequestExpirySummary> => {
+  const expiryDays = getRequestExpiryDays();
+  const now = new Date();
+
+  const staleFilter = {
+    status: { $in: EXPIRABLE_REQUEST_STATUSES },
+    updatedAt: { $lte: addDays(now, -expiryDays) },
+  };
+
+  const stale = await WebsiteRequest.find(staleFilter).select('projectName status updatedAt internalNotes');
+
+  const requests: ExpiredRequest[] = stale.map((request) => ({
+    requestId: String(request._id),
+    projectName: request.projectName,
+    from: request.status,
+    lastActivityAt: request.updatedAt,
+  }));
+
+  if (!dryRun) {
+    for (const request of stale) {
+      const note = `Expired automatically after ${expiryDays} days without activity (${now.toISOString()})`;
+
+      // Re-check the filter so a request touched since the lookup is left alone
+      await WebsiteRequest.updateOne(
+        { _id: request._id, ...staleFilter },
+        {
+          $set: {
+            status: RequestStatus.EXPIRED,
+            internalNotes: request.internalNotes ? `${request.internalNotes}\n${note}` : note,
+          },
+        }
+      );
+    }
+  }
+
+  console.log(`⌛ Request expiry${dryRun ? ' (dry run)' : ''}: ${requests.length} stale request(s) after ${expiryDays} days`);
+
+  return {
+    dryRun,
+    expiryDays,
+    expired: requests.length,
+    requests,
+  };
+};
\ No newline at end of file
@@ -1,110 +1,128 @@
 // middleware/adminAuth.ts
 import { Request, Response, NextFunction } from 'express';
-import crypto from 'crypto';
+import AuditLog, { AuditEntityType } from '../models/AuditLog';
+import User from '../models/User';
+import WebsiteRequest from '../models/WebsiteRequest';
+import Website from '../models/Website';
+import SupportRequest from '../models/SupportRequest';
+import Invoice from '../models/Invoice';
+import Plan from '../models/Plan';
+import Coupon from '../models/Coupon';
+import EmailOutbox from '../models/EmailOutbox';
+import EmailTemplate from '../models/EmailTemplate';
+import Admin, { AdminRole } from '../models/Admin';
+import AdminSession from '../models/AdminSession';
+import LedgerEntry from '../models/LedgerEntry';
+import BillingPolicy, { BillingPolicyScope } from '../models/BillingPolicy';
+import PlanChange from '../models/PlanChange';
+import JobRun from '../models/JobRun';
+import { BILLING_STATUS_JOB } from '../jobs/billingCron';
+import { AdminRequest } from '../types';
+import { diffDocuments } from '../utils/auditUtils';
+import { authenticateAdmin, findActiveSession } from '../utils/adminSessionUtils';
 
 /**
- * HTTP Basic Authentication middleware for admin routes
+ * Admin authentication middleware for admin routes
  * 
  * Security features:
- * - Constant-time comparison to prevent timing attacks
+ * - Per-admin accounts with scrypt-hashed passwords and roles
+ * - Expiring, revocable session tokens (Authorization: Bearer <token>)
+ * - HTTP Basic as an optional fallback for scripts (ADMIN_BASIC_AUTH=false disables it)
+ * - Failed-attempt lockout per username and IP
  * - Proper WWW-Authenticate header for browser prompts
- * - Environment variable validation
  * - Clear error messages
  * 
- * Setup in .env:
+ * Setup in .env (only used to create the first OWNER account; checked at startup in server.ts):
  * ADMIN_USERNAME=your_admin_username
  * ADMIN_PASSWORD=your_strong_password
  */
 
-// Validate admin credentials on startup
-const validateAdminCredentials = (): void => {
-  if (!process.env.ADMIN_USERNAME || !process.env.ADMIN_PASSWORD) {
-    console.error('⚠️  ADMIN_USERNAME and ADMIN_PASSWORD must be set in .env');
-    process.exit(1);
-  }
-  
-  if (process.env.ADMIN_PASSWORD.length < 12) {
-    console.error('⚠️  ADMIN_PASSWORD must be at least 12 characters');
-    process.exit(1);
-  }
-  
-  console.log('Admin credentials validated');
-};
-
-// Call validation on module load
-validateAdminCredentials();
+const isBasicAuthEnabled = (): boolean => process.env.ADMIN_BASIC_AUTH !== 'false';
 
-/**
- * Constant-time string comparison to prevent timing attacks
- */
-const secureCompare = (a: string, b: string): boolean => {
-  if (a.length !== b.length) {
-    return false;
+const sendAuthRequired = (res: Response, error: string, statusCode: number = 401): void => {
+  if (isBasicAuthEnabled()) {
+    res.setHeader('WWW-Authenticate', 'Basic realm="Admin Area", charset="UTF-8"');
   }
-  
-  return crypto.timingSafeEqual(
-    Buffer.from(a, 'utf8'),
-    Buffer.from(b, 'utf8')
-  );
+  res.status(statusCode).json({
+    success: false,
+    error,
+  });
 };
 
 /**
  * Admin authentication middleware
  */
-export const requireAdmin = (
+export const requireAdmin = async (
   req: Request,
   res: Response,
   next: NextFunction
-): void => {
+): Promise<void> => {
   try {
     const authHeader = req.headers.authorization;
     
-    // Check if Authorization header exists
-    if (!authHeader || !authHeader.startsWith('Basic ')) {
-      res.setHeader('WWW-Authenticate', 'Basic realm="Admin Area", charset="UTF-8"');
-      res.status(401).json({
-        success: false,
-        error: 'Authentication required',
-      });
+    // Session token (admin dashboard)
+    if (authHeader && authHeader.startsWith('Bearer ')) {
+      const token = authHeader.split(' ')[1];
+      const result = token ? await findActiveSession(token) : null;
+      
+      if (!result) {
+        sendAuthRequired(res, 'Invalid or expired session');
+        return;
+      }
+      
+      (req as AdminRequest).admin = {
+        id: result.admin._id.toString(),
+        username: result.admin.username,
+        role: result.admin.role,
+        sessionId: result.session._id.toString(),
+        authenticatedAt: new Date(),
+      };
+      
+      return next();
+    }
+    
+    // Check if Basic Authorization header exists
+    if (!authHeader || !authHeader.startsWith('Basic ') || !isBasicAuthEnabled()) {
+      sendAuthRequired(res, 'Authentication required');
       return;
     }
     
     // Extract and decode credentials
     const base64Credentials = authHeader.split(' ')[1];
     const credentials = Buffer.from(base64Credentials, 'base64').toString('utf8');
-    const [username, password] = credentials.split(':');
+    const separatorIndex = credentials.indexOf(':');
+    const username = separatorIndex >= 0 ? credentials.slice(0, separatorIndex) : '';
+    const password = separatorIndex >= 0 ? credentials.slice(separatorIndex + 1) : '';
     
     // Validate credentials exist
     if (!username || !password) {
-      res.setHeader('WWW-Authenticate', 'Basic realm="Admin Area", charset="UTF-8"');
-      res.status(401).json({
-        success: false,
-        error: 'Invalid credentials format',
-      });
+      sendAuthRequired(res, 'Invalid credentials format');
       return;
     }
     
-    // Get admin credentials from environment
-    const adminUsername = process.env.ADMIN_USERNAME!;
-    const adminPassword = process.env.ADMIN_PASSWORD!;
+    const { admin, lockedUntil } = await authenticateAdmin(username, password, req.ip);
     
-    // Secure comparison to prevent timing attacks
-    const usernameMatch = secureCompare(username, adminUsername);
-    const passwordMatch = secureCompare(password, adminPassword);
-    
-    if (!usernameMatch || !passwordMatch) {
-      res.setHeader('WWW-Authenticate', 'Basic realm="Admin Area", charset="UTF-8"');
-      res.status(403).json({
+    if (lockedUntil) {
+      res.setHeader('Retry-After', Math.ceil((lockedUntil.getTime() - Date.now()) / 1000).toString());
+      res.status(429).json({
         success: false,
-        error: 'Invalid credentials',
+        error: 'Too many failed login attempts. Please try again later.',
+        retryAfter: lockedUntil,
       });
       return;
     }
     
+    if (!admin) {
+      sendAuthRequired(res, 'Invalid credentials', 403);
+      return;
+    }
+    
     // Authentication successful
-    // Add admin info to request for logging
-    (req as any).admin = {
-      username: adminUsername,
+    // Add admin info to request for logging and role checks
+    (req as AdminRequest).admin = {
+      id: admin._id.toString(),
+      username: admin.username,
+      role: admin.role,
       authenticatedAt: new Date(),
     };
     
@@ -118,15 +136,235 @@ export const requireAdmin = (
   }
 };
 
+/**
+ * Role check middleware factory (OWNER is always allowed)
+ * @param roles - Roles allowed to access the route
+ */
+export const requireRole = (...roles: AdminRole[]) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const admin = (req as AdminRequest).admin;
+
+    if (!admin) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+      });
+      return;
+    }
+
+    if (admin.role !== AdminRole.OWNER && !roles.includes(admin.role)) {
+      res.status(403).json({
+        success: false,
+        error: `This action requires one of the following roles: ${[AdminRole.OWNER, ...roles].join(', ')}`,
+      });
+      return;
+    }
+
+    next();
+  };
+};
+
+// Mutating methods that produce an audit log entry
+const AUDITED_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+const isObjectId = (value: string): boolean => /^[a-f\d]{24}$/i.test(value);
+
+/**
+ * Audited resources, keyed by the first path segment under /api/admin
+ */
+const AUDITED_ENTITIES: Record<string, {
+  type: AuditEntityType;
+  load: (id: string) => Promise<any>;
+}> = {
+  users: {
+    type: AuditEntityType.USER,
+    // Admin user routes accept a MongoDB _id, clerkId or googleId
+    load: (id) => User.findOne({
+      $or: [
+        ...(isObjectId(id) ? [{ _id: id }] : []),
+        { clerkId: id },
+        { googleId: id },
+      ],
+    }).lean(),
+  },
+  requests: {
+    type: AuditEntityType.REQUEST,
+    load: (id) => WebsiteRequest.findById(id).lean(),
+  },
+  websites: {
+    type: AuditEntityType.WEBSITE,
+    load: (id) => Website.findById(id).lean(),
+  },
+  support: {
+    type: AuditEntityType.SUPPORT,
+    load: (id) => SupportRequest.findById(id).lean(),
+  },
+  invoices: {
+    type: AuditEntityType.INVOICE,
+    load: (id) => Invoice.findById(id).lean(),
+  },
+  plans: {
+    type: AuditEntityType.PLAN,
+    load: (id) => Plan.findById(id).lean(),
+  },
+  coupons: {
+    type: AuditEntityType.COUPON,
+    load: (id) => Coupon.findById(id).lean(),
+  },
+  emails: {
+    type: AuditEntityType.EMAIL,
+    // Delivery state only; bodies and attachments would bloat the diff
+    load: (id) => EmailOutbox.findById(id).select('-html -attachments').lean(),
+  },
+  'email-templates': {
+    type: AuditEntityType.EMAIL_TEMPLATE,
+    // Templates are addressed by their event name
+    load: (id) => EmailTemplate.findOne({ event: id }).lean(),
+  },
+  admins: {
+    type: AuditEntityType.ADMIN,
+    // passwordHash is excluded by the schema (select: false)
+    load: (id) => Admin.findById(id).lean(),
+  },
+};
+
+interface AuditTarget {
+  type: AuditEntityType;
+  id?: string;
+  load?: () => Promise<any>;
+  // Record the loaded document's _id rather than the id from the URL
+  useDocumentId?: boolean;
+}
+
+// Latest run of a job, so a manual run shows up as the change it caused
+const loadLatestJobRun = (jobName: string) => JobRun.findOne({ jobName })
+  .sort({ startedAt: -1 })
+  .select('jobName trigger dryRun status summary error startedAt finishedAt')
+  .lean();
+
+/**
+ * Resolve what a mutating admin route changes (path segments are relative to /api/admin)
+ *
+ * Routes whose changes live outside the document named by the first segment
+ * (ledger entries, billing policies, job runs, sessions) are resolved here;
+ * everything else falls back to AUDITED_ENTITIES.
+ */
+const resolveAuditTarget = (segments: string[], admin?: AdminRequest['admin']): AuditTarget | null => {
+  const [resource, id, action] = segments;
+
+  if (resource === 'users' && id && action === 'ledger') {
+    return {
+      type: AuditEntityType.LEDGER,
+      id,
+      load: async () => {
+        const user = await AUDITED_ENTITIES.users.load(id);
+        const userId = user && (user.clerkId || user.googleId || String(user._id));
+
+        if (!userId) {
+          return null;
+        }
+
+        const [entryCount, latestEntry] = await Promise.all([
+          LedgerEntry.countDocuments({ userId }),
+          LedgerEntry.findOne({ userId }).sort({ createdAt: -1 }).lean(),
+        ]);
+        return { userId, entryCount, latestEntry };
+      },
+    };
+  }
+
+  if (resource === 'billing' && id === 'policies') {
+    const plan = action === 'plans' ? segments[3] : undefined;
+
+    return {
+      type: AuditEntityType.BILLING_POLICY,
+      id: plan || 'global',
+      load: () => BillingPolicy.findOne(
+        plan ? { scope: BillingPolicyScope.PLAN, plan } : { scope: BillingPolicyScope.GLOBAL }
+      ).lean(),
+    };
+  }
+
+  if (resource === 'billing' && id === 'plan-changes' && action && isObjectId(action)) {
+    return {
+      type: AuditEntityType.PLAN_CHANGE,
+      id: action,
+      load: () => PlanChange.findById(action).lean(),
+    };
+  }
+
+  if (resource === 'billing' && id === 'check') {
+    return {
+      type: AuditEntityType.JOB,
+      id: BILLING_STATUS_JOB,
+      load: () => loadLatestJobRun(BILLING_STATUS_JOB),
+    };
+  }
+
+  if (resource === 'jobs' && id && action === 'run') {
+    return {
+      type: AuditEntityType.JOB,
+      id,
+      load: () => loadLatestJobRun(id),
+    };
+  }
+
+  if (resource === 'auth') {
+    if (id === 'logout' && admin?.sessionId) {
+      const sessionId = admin.sessionId;
+      return {
+        type: AuditEntityType.SESSION,
+        id: sessionId,
+        load: () => AdminSession.findById(sessionId).lean(),
+      };
+    }
+
+    if (id === 'logout-all' && admin) {
+      return {
+        type: AuditEntityType.SESSION,
+        id: admin.id,
+        load: async () => ({
+          activeSessions: await AdminSession.countDocuments({ adminId: admin.id, revokedAt: null }),
+        }),
+      };
+    }
+
+    if (id === 'sessions' && action && isObjectId(action)) {
+      return {
+        type: AuditEntityType.SESSION,
+        id: action,
+        load: () => AdminSession.findById(action).lean(),
+      };
+    }
+
+    return { type: AuditEntityType.SESSION, id: admin?.id };
+  }
+
+  const entity = AUDITED_ENTITIES[resource];
+
+  if (!entity) {
+    return null;
+  }
+
+  const isTracked = !!id && (resource === 'users' || resource === 'email-templates' || isObjectId(id));
+
+  return isTracked
+    ? { type: entity.type, id, load: () => entity.load(id), useDocumentId: true }
+    : { type: entity.type };
+};
+
 /**
  * Middleware to log admin actions for audit trail
+ *
+ * Snapshots the target entity before the handler runs and persists an
+ * AuditLog entry with the field-level diff once a mutating request succeeds.
  */
-export const logAdminAction = (
+export const logAdminAction = async (
   req: Request,
   res: Response,
   next: NextFunction
-): void => {
-  const admin = (req as any).admin;
+): Promise<void> => {
+  const admin = (req as AdminRequest).admin;
   const { method, originalUrl, body } = req;
   
   console.log('Admin Action:', {
@@ -136,9 +374,52 @@ export const logAdminAction = (
     timestamp: new Date().toISOString(),
     // Don't log sensitive data
     bodyPreview: method === 'POST' || method === 'PATCH' 
-      ? Object.keys(body).join(', ') 
+      ? Object.keys(body || {}).join(', ') 
       : undefined,
   });
+
+  if (!AUDITED_METHODS.includes(method)) {
+    return next();
+  }
+
+  // Also mounted on /api/admin/auth, so resolve against the full path
+  const segments = `${req.baseUrl}${req.path}`.replace(/^\/api\/admin/, '').split('/').filter(Boolean);
+  const target = resolveAuditTarget(segments, admin);
+
+  let before: any = null;
+  if (target?.load) {
+    try {
+      before = await target.load();
+    } catch (error) {
+      console.error('Failed to snapshot entity for audit log:', error);
+    }
+  }
+
+  res.on('finish', async () => {
+    // Only successful mutations are recorded
+    if (res.statusCode >= 400) {
+      return;
+    }
+
+    try {
+      const after = target?.load ? await target.load() : null;
+      const entityId = target?.useDocumentId
+        ? String(before?._id || after?._id || target.id)
+        : target?.id;
+
+      await AuditLog.create({
+        admin: admin?.username || 'unknown',
+        method,
+        route: originalUrl,
+        statusCode: res.statusCode,
+        entityType: target?.type || AuditEntityType.SYSTEM,
+        entityId,
+        changes: target?.load ? diffDocuments(before, after) : [],
+      });
+    } catch (error) {
+      console.error('Failed to write audit log:', error);
+    }
+  });
   
   next();
 };
\ No newline at end of file
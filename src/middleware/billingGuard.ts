@@ -36,7 +36,8 @@ export const checkBillingStatus = async (
       res.status(402).json({
         success: false,
         error: 'Payment Required',
-        message: 'This website has been suspended due to non-payment. Please contact support to resolve billing issues.',
+        message: 'This website has been suspended due to non-payment. Pay the outstanding balance to restore access.',
+        checkoutUrl: `/api/users/websites/${website._id}/checkout`,
         billingStatus: website.billing.status,
         websiteId: website._id,
         websiteName: website.name,
@@ -95,6 +96,7 @@ export const strictBillingCheck = async (
         message: website.billing.status === BillingStatus.SUSPENDED
           ? 'This website has been suspended due to non-payment.'
           : 'Payment is overdue. Please settle your account to continue.',
+        checkoutUrl: `/api/users/websites/${website._id}/checkout`,
         billingStatus: website.billing.status,
         websiteId: website._id,
         websiteName: website.name,
@@ -0,0 +1,83 @@
+// middleware/jobAuth.ts
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+
+/**
+ * Authentication for external job triggers (e.g. Vercel Cron)
+ *
+ * Accepts either:
+ * - Authorization: Bearer <secret> (what Vercel Cron sends with CRON_SECRET)
+ * - X-Job-Timestamp + X-Job-Signature: hex HMAC-SHA256 of "<timestamp>.<jobName>"
+ *   keyed with the secret; the timestamp (unix seconds) must be within 5 minutes
+ *
+ * Setup in .env:
+ * JOB_TRIGGER_SECRET=long_random_string (falls back to CRON_SECRET)
+ */
+
+// Signed requests older than this are rejected to limit replays
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+const getJobTriggerSecret = (): string | undefined => {
+  return process.env.JOB_TRIGGER_SECRET || process.env.CRON_SECRET;
+};
+
+const safeEqual = (a: string, b: string): boolean => {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+};
+
+/**
+ * Compute the X-Job-Signature value for a job trigger
+ */
+export const signJobTrigger = (
+  jobName: string,
+  timestamp: number,
+  secret: string = getJobTriggerSecret() || ''
+): string => {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${jobName}`).digest('hex');
+};
+
+const isValidSignature = (req: Request, secret: string): boolean => {
+  const timestamp = Number(req.headers['x-job-timestamp']);
+  const signature = req.headers['x-job-signature'];
+
+  if (!Number.isFinite(timestamp) || typeof signature !== 'string') {
+    return false;
+  }
+
+  if (Math.abs(Date.now() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  return safeEqual(signature, signJobTrigger(req.params.jobName, timestamp, secret));
+};
+
+export const requireJobAuth = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const secret = getJobTriggerSecret();
+
+  if (!secret) {
+    res.status(503).json({
+      success: false,
+      error: 'Job triggers are not configured',
+    });
+    return;
+  }
+
+  const authHeader = req.headers.authorization;
+  const bearerValid = !!authHeader && safeEqual(authHeader, `Bearer ${secret}`);
+
+  if (!bearerValid && !isValidSignature(req, secret)) {
+    res.status(401).json({
+      success: false,
+      error: 'Invalid job trigger credentials',
+    });
+    return;
+  }
+
+  next();
+};
\ No newline at end of file
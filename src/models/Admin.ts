@@ -0,0 +1,70 @@
+// models/Admin.ts
+import mongoose, { Document, Schema } from 'mongoose';
+
+export enum AdminRole {
+  OWNER = 'OWNER',
+  PROJECT_MANAGER = 'PROJECT_MANAGER',
+  BILLING = 'BILLING',
+  SUPPORT_AGENT = 'SUPPORT_AGENT',
+}
+
+export interface IAdmin extends Document {
+  username: string;
+  name?: string;
+  email?: string;
+  passwordHash: string;
+  role: AdminRole;
+  isActive: boolean;
+  lastLoginAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const adminSchema = new Schema<IAdmin>(
+  {
+    username: {
+      type: String,
+      required: [true, 'Username is required'],
+      unique: true,
+      lowercase: true,
+      trim: true,
+      match: [/^[a-z0-9._-]{3,32}$/, 'Username must be 3-32 characters (letters, numbers, . _ -)'],
+    },
+    name: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'Name cannot exceed 100 characters'],
+    },
+    email: {
+      type: String,
+      lowercase: true,
+      trim: true,
+      match: [/^\S+@\S+\.\S+$/, 'Please provide a valid email'],
+    },
+    passwordHash: {
+      type: String,
+      required: true,
+      select: false,
+    },
+    role: {
+      type: String,
+      enum: Object.values(AdminRole),
+      required: [true, 'Role is required'],
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    lastLoginAt: Date,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for efficient queries
+adminSchema.index({ role: 1 });
+
+const Admin = mongoose.model<IAdmin>('Admin', adminSchema);
+
+export default Admin;
\ No newline at end of file
@@ -0,0 +1,50 @@
+// models/AdminSession.ts
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IAdminSession extends Document {
+  adminId: mongoose.Types.ObjectId;
+  // SHA-256 of the opaque bearer token (the token itself is never stored)
+  tokenHash: string;
+  ip?: string;
+  userAgent?: string;
+  expiresAt: Date;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const adminSessionSchema = new Schema<IAdminSession>(
+  {
+    adminId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Admin',
+      required: true,
+      index: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+      select: false,
+    },
+    ip: String,
+    userAgent: String,
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    lastUsedAt: Date,
+    revokedAt: Date,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Let MongoDB remove expired sessions automatically
+adminSessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const AdminSession = mongoose.model<IAdminSession>('AdminSession', adminSessionSchema);
+
+export default AdminSession;
\ No newline at end of file
@@ -0,0 +1,96 @@
+// models/AuditLog.ts
+import mongoose, { Document, Schema } from 'mongoose';
+
+export enum AuditEntityType {
+  USER = 'USER',
+  REQUEST = 'REQUEST',
+  WEBSITE = 'WEBSITE',
+  SUPPORT = 'SUPPORT',
+  ADMIN = 'ADMIN',
+  INVOICE = 'INVOICE',
+  PLAN = 'PLAN',
+  COUPON = 'COUPON',
+  EMAIL = 'EMAIL',
+  EMAIL_TEMPLATE = 'EMAIL_TEMPLATE',
+  LEDGER = 'LEDGER',
+  BILLING_POLICY = 'BILLING_POLICY',
+  PLAN_CHANGE = 'PLAN_CHANGE',
+  JOB = 'JOB',
+  SESSION = 'SESSION',
+  SYSTEM = 'SYSTEM',
+}
+
+export interface IAuditChange {
+  field: string;
+  before?: any;
+  after?: any;
+}
+
+export interface IAuditLog extends Document {
+  admin: string;
+  method: string;
+  route: string;
+  statusCode: number;
+
+  // Target entity
+  entityType: AuditEntityType;
+  entityId?: string;
+
+  // Field-level diff (before/after)
+  changes: IAuditChange[];
+
+  createdAt: Date;
+}
+
+const auditLogSchema = new Schema<IAuditLog>(
+  {
+    admin: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    method: {
+      type: String,
+      required: true,
+    },
+    route: {
+      type: String,
+      required: true,
+    },
+    statusCode: {
+      type: Number,
+      required: true,
+    },
+    entityType: {
+      type: String,
+      enum: Object.values(AuditEntityType),
+      required: true,
+    },
+    entityId: {
+      type: String,
+    },
+    changes: [
+      {
+        field: {
+          type: String,
+          required: true,
+        },
+        before: Schema.Types.Mixed,
+        after: Schema.Types.Mixed,
+        _id: false,
+      },
+    ],
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+// Indexes for efficient queries
+auditLogSchema.index({ entityType: 1, entityId: 1, createdAt: -1 });
+auditLogSchema.index({ admin: 1, createdAt: -1 });
+auditLogSchema.index({ createdAt: -1 });
+
+const AuditLog = mongoose.model<IAuditLog>('AuditLog', auditLogSchema);
+
+export default AuditLog;
\ No newline at end of file
@@ -0,0 +1,91 @@
+// models/BillingPolicy.ts
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Reminders can be scheduled at most this many days before the due date
+export const MAX_REMINDER_OFFSET_DAYS = 60;
+
+export enum BillingPolicyScope {
+  GLOBAL = 'GLOBAL',
+  PLAN = 'PLAN',
+}
+
+export enum ReinstatementDueDateBasis {
+  PAYMENT_DATE = 'PAYMENT_DATE', // Next cycle starts when the payment is made
+  PREVIOUS_DUE_DATE = 'PREVIOUS_DUE_DATE', // Keep the original billing anniversary
+}
+
+export interface IReinstatementRules {
+  requireFullBalance?: boolean;
+  dueDateBasis?: ReinstatementDueDateBasis;
+}
+
+/**
+ * The GLOBAL policy holds the defaults; PLAN policies only set the fields they override
+ */
+export interface IBillingPolicy extends Document {
+  scope: BillingPolicyScope;
+  plan?: string;
+  graceDays?: number;
+  overdueToSuspendDays?: number;
+  reminderOffsets?: number[];
+  reinstatement?: IReinstatementRules;
+  updatedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const billingPolicySchema = new Schema<IBillingPolicy>(
+  {
+    scope: {
+      type: String,
+      enum: Object.values(BillingPolicyScope),
+      required: true,
+    },
+    plan: {
+      type: String,
+      lowercase: true,
+      trim: true,
+      required: function (this: IBillingPolicy) {
+        return this.scope === BillingPolicyScope.PLAN;
+      },
+    },
+    graceDays: {
+      type: Number,
+      min: [0, 'Grace days cannot be negative'],
+      max: [90, 'Grace days cannot exceed 90'],
+    },
+    overdueToSuspendDays: {
+      type: Number,
+      min: [0, 'Days until suspension cannot be negative'],
+      max: [365, 'Days until suspension cannot exceed 365'],
+    },
+    reminderOffsets: {
+      type: [Number],
+      default: undefined,
+      validate: {
+        validator: (offsets: number[]) => offsets.every(
+          (days) => Number.isInteger(days) && days > 0 && days <= MAX_REMINDER_OFFSET_DAYS
+        ),
+        message: `Reminder offsets must be whole days between 1 and ${MAX_REMINDER_OFFSET_DAYS}`,
+      },
+    },
+    reinstatement: {
+      requireFullBalance: Boolean,
+      dueDateBasis: {
+        type: String,
+        enum: Object.values(ReinstatementDueDateBasis),
+      },
+    },
+    updatedBy: String,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One global policy and at most one override per plan
+billingPolicySchema.index({ scope: 1, plan: 1 }, { unique: true });
+
+const BillingPolicy = mongoose.model<IBillingPolicy>('BillingPolicy', billingPolicySchema);
+
+export default BillingPolicy;
\ No newline at end of file
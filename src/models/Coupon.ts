@@ -0,0 +1,131 @@
+// models/Coupon.ts
+import mongoose, { Document, Schema } from 'mongoose';
+
+export enum CouponDiscountType {
+  PERCENT = 'PERCENT',
+  FIXED = 'FIXED', // Fixed amount off each discounted invoice
+}
+
+export enum CouponDuration {
+  ONCE = 'ONCE', // First invoice only
+  REPEATING = 'REPEATING', // durationCycles invoices
+  FOREVER = 'FOREVER',
+}
+
+export enum CouponStatus {
+  ACTIVE = 'ACTIVE',
+  DISABLED = 'DISABLED', // No new redemptions; existing discounts keep running
+}
+
+export interface ICoupon extends Document {
+  code: string;
+  description?: string;
+  discountType: CouponDiscountType;
+  amount: number; // Percent (0-100) or fixed amount in minor units of currency
+  currency?: string; // Required for FIXED coupons
+  duration: CouponDuration;
+  durationCycles?: number;
+  plans: string[]; // Plan slugs the coupon is limited to (empty = all plans)
+  maxRedemptions?: number;
+  redemptionCount: number;
+  expiresAt?: Date;
+  status: CouponStatus;
+  createdBy?: string;
+  updatedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const couponSchema = new Schema<ICoupon>(
+  {
+    code: {
+      type: String,
+      required: [true, 'Coupon code is required'],
+      uppercase: true,
+      trim: true,
+      match: [/^[A-Z0-9_-]+$/, 'Code may only contain letters, numbers, dashes and underscores'],
+      maxlength: [40, 'Code cannot exceed 40 characters'],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [200, 'Description cannot exceed 200 characters'],
+    },
+    discountType: {
+      type: String,
+      enum: Object.values(CouponDiscountType),
+      required: true,
+    },
+    amount: {
+      type: Number,
+      required: [true, 'Discount amount is required'],
+      min: [0, 'Discount cannot be negative'],
+      validate: {
+        validator: function (this: ICoupon, value: number) {
+          return this.discountType === CouponDiscountType.PERCENT
+            ? value <= 100
+            : Number.isInteger(value);
+        },
+        message: 'Percent discounts cannot exceed 100; fixed discounts must be in whole minor units',
+      },
+    },
+    currency: {
+      type: String,
+      uppercase: true,
+      trim: true,
+      match: [/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO code'],
+      required: [
+        function (this: ICoupon) {
+          return this.discountType === CouponDiscountType.FIXED;
+        },
+        'Currency is required for fixed discounts',
+      ],
+    },
+    duration: {
+      type: String,
+      enum: Object.values(CouponDuration),
+      default: CouponDuration.ONCE,
+      required: true,
+    },
+    durationCycles: {
+      type: Number,
+      min: [1, 'Duration must be at least one cycle'],
+      required: function (this: ICoupon) {
+        return this.duration === CouponDuration.REPEATING;
+      },
+    },
+    plans: {
+      type: [String],
+      default: [],
+      set: (plans: string[]) => plans.map((plan) => plan.toLowerCase().trim()),
+    },
+    maxRedemptions: {
+      type: Number,
+      min: [1, 'Max redemptions must be at least 1'],
+    },
+    redemptionCount: {
+      type: Number,
+      default: 0,
+    },
+    expiresAt: Date,
+    status: {
+      type: String,
+      enum: Object.values(CouponStatus),
+      default: CouponStatus.ACTIVE,
+      required: true,
+    },
+    createdBy: String,
+    updatedBy: String,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for efficient queries
+couponSchema.index({ code: 1 }, { unique: true });
+couponSchema.index({ status: 1, expiresAt: 1 });
+
+const Coupon = mongoose.model<ICoupon>('Coupon', couponSchema);
+
+export default Coupon;
\ No newline at end of file
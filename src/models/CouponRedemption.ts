@@ -0,0 +1,57 @@
+// models/CouponRedemption.ts
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ICouponRedemption extends Document {
+  couponId: mongoose.Types.ObjectId;
+  code: string;
+  userId: string;
+  requestId?: mongoose.Types.ObjectId; // Redeemed at request submission
+  websiteId?: mongoose.Types.ObjectId; // Set once the discount is attached to billing
+  redeemedBy?: string; // Admin username when redeemed via billing update
+  redeemedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const couponRedemptionSchema = new Schema<ICouponRedemption>(
+  {
+    couponId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Coupon',
+      required: true,
+    },
+    code: {
+      type: String,
+      required: true,
+    },
+    userId: {
+      type: String,
+      required: true,
+    },
+    requestId: {
+      type: Schema.Types.ObjectId,
+      ref: 'WebsiteRequest',
+    },
+    websiteId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Website',
+    },
+    redeemedBy: String,
+    redeemedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for efficient queries
+couponRedemptionSchema.index({ couponId: 1, redeemedAt: -1 });
+couponRedemptionSchema.index({ requestId: 1 });
+couponRedemptionSchema.index({ websiteId: 1 });
+
+const CouponRedemption = mongoose.model<ICouponRedemption>('CouponRedemption', couponRedemptionSchema);
+
+export default CouponRedemption;
\ No newline at end of file
@@ -0,0 +1,127 @@
+// models/EmailOutbox.ts
+import mongoose, { Document, Schema } from 'mongoose';
+
+export enum EmailEvent {
+  REQUEST_RECEIVED = 'REQUEST_RECEIVED',
+  REQUEST_ADMIN_NOTIFICATION = 'REQUEST_ADMIN_NOTIFICATION',
+  ADMIN_DIGEST = 'ADMIN_DIGEST',
+  REQUEST_APPROVED = 'REQUEST_APPROVED',
+  BILLING_ACTIVATED = 'BILLING_ACTIVATED',
+  PAYMENT_CONFIRMATION = 'PAYMENT_CONFIRMATION',
+  PAYMENT_REMINDER = 'PAYMENT_REMINDER',
+  BILLING_SUSPENDED = 'BILLING_SUSPENDED',
+  BILLING_OVERDUE = 'BILLING_OVERDUE',
+  SUPPORT_ADMIN_NOTIFICATION = 'SUPPORT_ADMIN_NOTIFICATION',
+  SUPPORT_RECEIVED = 'SUPPORT_RECEIVED',
+  SUPPORT_RESOLVED = 'SUPPORT_RESOLVED',
+}
+
+export enum EmailOutboxStatus {
+  PENDING = 'PENDING', // Waiting for its first or next attempt
+  SENDING = 'SENDING', // Claimed by a worker
+  SENT = 'SENT',
+  DEAD = 'DEAD', // Gave up after maxAttempts; can be resent by an admin
+}
+
+export interface IEmailAttachment {
+  filename: string;
+  content: Buffer;
+}
+
+export interface IEmailOutbox extends Document {
+  event: EmailEvent;
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+  headers?: Record<string, string>; // Extra headers, e.g. List-Unsubscribe
+  attachments?: IEmailAttachment[];
+  status: EmailOutboxStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: Date;
+  lockedUntil?: Date; // A SENDING email past this is reclaimed (the worker died)
+  lastError?: string;
+  providerMessageId?: string;
+  sentAt?: Date;
+  resentBy?: string; // Admin username of the last manual resend
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const emailOutboxSchema = new Schema<IEmailOutbox>(
+  {
+    event: {
+      type: String,
+      enum: Object.values(EmailEvent),
+      required: true,
+    },
+    from: {
+      type: String,
+      required: true,
+    },
+    to: {
+      type: String,
+      required: true,
+    },
+    subject: {
+      type: String,
+      required: true,
+    },
+    html: {
+      type: String,
+      required: true,
+    },
+    text: String,
+    headers: Schema.Types.Mixed,
+    attachments: [
+      {
+        filename: {
+          type: String,
+          required: true,
+        },
+        content: {
+          type: Buffer,
+          required: true,
+        },
+        _id: false,
+      },
+    ],
+    status: {
+      type: String,
+      enum: Object.values(EmailOutboxStatus),
+      default: EmailOutboxStatus.PENDING,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    maxAttempts: {
+      type: Number,
+      default: 8,
+      min: 1,
+    },
+    nextAttemptAt: {
+      type: Date,
+      default: Date.now,
+    },
+    lockedUntil: Date,
+    lastError: String,
+    providerMessageId: String,
+    sentAt: Date,
+    resentBy: String,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for efficient queries
+emailOutboxSchema.index({ status: 1, nextAttemptAt: 1 });
+emailOutboxSchema.index({ event: 1, createdAt: -1 });
+emailOutboxSchema.index({ to: 1, createdAt: -1 });
+
+const EmailOutbox = mongoose.model<IEmailOutbox>('EmailOutbox', emailOutboxSchema);
+
+export default EmailOutbox;
\ No newline at end of file
@@ -0,0 +1,51 @@
+// models/EmailTemplate.ts
+import mongoose, { Document, Schema } from 'mongoose';
+import { EmailEvent } from './EmailOutbox';
+
+export interface IEmailTemplate extends Document {
+  event: EmailEvent;
+  subject: string; // Mustache-style template, rendered without HTML escaping
+  html: string;
+  text?: string; // Plain-text body; empty means it is generated from the HTML
+  customized: boolean; // Edited by an admin; seeding leaves it alone
+  updatedBy?: string; // Admin username of the last edit or revert
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const emailTemplateSchema = new Schema<IEmailTemplate>(
+  {
+    event: {
+      type: String,
+      enum: Object.values(EmailEvent),
+      required: true,
+      unique: true,
+    },
+    subject: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 300,
+    },
+    html: {
+      type: String,
+      required: true,
+    },
+    text: {
+      type: String,
+      default: '',
+    },
+    customized: {
+      type: Boolean,
+      default: false,
+    },
+    updatedBy: String,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const EmailTemplate = mongoose.model<IEmailTemplate>('EmailTemplate', emailTemplateSchema);
+
+export default EmailTemplate;
\ No newline at end of file
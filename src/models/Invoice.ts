@@ -0,0 +1,193 @@
+// models/Invoice.ts
+import mongoose, { Document, Schema } from 'mongoose';
+
+export enum InvoiceStatus {
+  DRAFT = 'DRAFT',
+  OPEN = 'OPEN',
+  PAID = 'PAID',
+  VOID = 'VOID',
+}
+
+export interface IInvoiceLineItem {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+}
+
+export interface IInvoice extends Document {
+  number: string;
+  websiteId: mongoose.Types.ObjectId;
+  userId: string;
+
+  // Amounts, in minor units (e.g. cents) of currency
+  currency: string;
+  lineItems: IInvoiceLineItem[];
+  subtotal: number;
+  discount: number;
+  taxRate: number;
+  tax: number;
+  total: number;
+  amountPaid: number;
+  couponCode?: string; // Coupon behind the discount, if any
+
+  // Billing period covered by this invoice
+  periodStart?: Date;
+  periodEnd?: Date;
+
+  // Status tracking
+  status: InvoiceStatus;
+  issuedAt?: Date;
+  dueAt?: Date;
+  paidAt?: Date;
+  voidedAt?: Date;
+  voided: boolean;
+
+  notes?: string;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const invoiceSchema = new Schema<IInvoice>(
+  {
+    number: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    websiteId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Website',
+      required: true,
+      index: true,
+    },
+    userId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    currency: {
+      type: String,
+      required: true,
+      uppercase: true,
+      trim: true,
+      match: [/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO code'],
+    },
+    lineItems: [
+      {
+        description: {
+          type: String,
+          required: true,
+          trim: true,
+        },
+        quantity: {
+          type: Number,
+          required: true,
+          default: 1,
+        },
+        unitPrice: {
+          type: Number,
+          required: true,
+        },
+        amount: {
+          type: Number,
+          required: true,
+        },
+        _id: false,
+      },
+    ],
+    subtotal: {
+      type: Number,
+      required: true,
+      default: 0,
+    },
+    discount: {
+      type: Number,
+      min: 0,
+      default: 0,
+    },
+    taxRate: {
+      type: Number,
+      min: 0,
+      default: 0,
+    },
+    tax: {
+      type: Number,
+      default: 0,
+    },
+    total: {
+      type: Number,
+      required: true,
+      default: 0,
+    },
+    amountPaid: {
+      type: Number,
+      default: 0,
+    },
+    couponCode: String,
+    periodStart: Date,
+    periodEnd: Date,
+    status: {
+      type: String,
+      enum: Object.values(InvoiceStatus),
+      default: InvoiceStatus.DRAFT,
+      required: true,
+    },
+    issuedAt: Date,
+    dueAt: Date,
+    paidAt: Date,
+    voidedAt: Date,
+    // Mirrors status === VOID so the per-period index can filter on equality
+    voided: {
+      type: Boolean,
+      default: false,
+    },
+    notes: {
+      type: String,
+      trim: true,
+      maxlength: [2000, 'Notes cannot exceed 2000 characters'],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for efficient queries
+invoiceSchema.index({ websiteId: 1, createdAt: -1 });
+invoiceSchema.index({ userId: 1, createdAt: -1 });
+invoiceSchema.index({ status: 1, dueAt: 1 });
+// One live invoice per billing period (voided ones can be reissued)
+invoiceSchema.index(
+  { websiteId: 1, periodStart: 1 },
+  {
+    unique: true,
+    partialFilterExpression: {
+      periodStart: { $exists: true },
+      voided: false,
+    },
+  }
+);
+
+// Keep the voided flag in step with the status
+invoiceSchema.pre('save', function(next) {
+  this.voided = this.status === InvoiceStatus.VOID;
+  next();
+});
+
+// Virtual to populate website details
+invoiceSchema.virtual('website', {
+  ref: 'Website',
+  localField: 'websiteId',
+  foreignField: '_id',
+  justOne: true,
+});
+
+// Ensure virtuals are included
+invoiceSchema.set('toJSON', { virtuals: true });
+invoiceSchema.set('toObject', { virtuals: true });
+
+const Invoice = mongoose.model<IInvoice>('Invoice', invoiceSchema);
+
+export default Invoice;
\ No newline at end of file
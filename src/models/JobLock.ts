@@ -0,0 +1,32 @@
+// models/JobLock.ts
+import mongoose, { Schema } from 'mongoose';
+
+export interface IJobLock {
+  _id: string; // Job name
+  owner: string;
+  lockedUntil: Date;
+  acquiredAt: Date;
+}
+
+const jobLockSchema = new Schema<IJobLock>({
+  _id: {
+    type: String,
+    required: true,
+  },
+  owner: {
+    type: String,
+    required: true,
+  },
+  lockedUntil: {
+    type: Date,
+    required: true,
+  },
+  acquiredAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+const JobLock = mongoose.model<IJobLock>('JobLock', jobLockSchema);
+
+export default JobLock;
\ No newline at end of file
@@ -0,0 +1,79 @@
+// models/JobRun.ts
+import mongoose, { Document, Schema } from 'mongoose';
+
+export enum JobRunStatus {
+  RUNNING = 'RUNNING',
+  SUCCEEDED = 'SUCCEEDED',
+  FAILED = 'FAILED',
+  SKIPPED = 'SKIPPED', // Another run held the lock
+}
+
+export enum JobTrigger {
+  SCHEDULE = 'SCHEDULE',
+  CATCH_UP = 'CATCH_UP',
+  MANUAL = 'MANUAL',
+  EXTERNAL = 'EXTERNAL',
+}
+
+export interface IJobRun extends Document {
+  jobName: string;
+  status: JobRunStatus;
+  trigger: JobTrigger;
+  dryRun: boolean;
+  triggeredBy?: string;
+  startedAt: Date;
+  finishedAt?: Date;
+  durationMs?: number;
+  summary?: Record<string, any>;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const jobRunSchema = new Schema<IJobRun>(
+  {
+    jobName: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: Object.values(JobRunStatus),
+      default: JobRunStatus.RUNNING,
+      required: true,
+    },
+    trigger: {
+      type: String,
+      enum: Object.values(JobTrigger),
+      required: true,
+    },
+    dryRun: {
+      type: Boolean,
+      default: false,
+    },
+    triggeredBy: String,
+    startedAt: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+    finishedAt: Date,
+    durationMs: Number,
+    summary: Schema.Types.Mixed,
+    error: String,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for efficient queries
+jobRunSchema.index({ jobName: 1, startedAt: -1 });
+jobRunSchema.index({ status: 1, startedAt: -1 });
+
+// Keep 90 days of run history (the email outbox alone records a run every 5 minutes)
+jobRunSchema.index({ createdAt: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 });
+
+const JobRun = mongoose.model<IJobRun>('JobRun', jobRunSchema);
+
+export default JobRun;
\ No newline at end of file
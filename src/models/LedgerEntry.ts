@@ -0,0 +1,91 @@
+// models/LedgerEntry.ts
+import mongoose, { Document, Schema } from 'mongoose';
+
+export enum LedgerEntryType {
+  CREDIT = 'CREDIT', // Adds to the client's account credit
+  DEBIT = 'DEBIT', // Uses up or removes account credit
+}
+
+export enum LedgerEntrySource {
+  OVERPAYMENT = 'OVERPAYMENT', // Part of a payment left after settling and prepaying cycles
+  GOODWILL = 'GOODWILL', // Credit granted by an admin
+  ADJUSTMENT = 'ADJUSTMENT', // Manual correction by an admin
+  INVOICE = 'INVOICE', // Credit applied to an invoice
+  REFUND = 'REFUND', // Unused overpayment credit taken back by a refund
+}
+
+export interface ILedgerEntry extends Document {
+  userId: string;
+  websiteId?: mongoose.Types.ObjectId;
+  type: LedgerEntryType;
+  source: LedgerEntrySource;
+  amount: number; // Minor units of currency, always positive
+  currency: string;
+  description: string;
+  invoiceId?: mongoose.Types.ObjectId; // Invoice the credit was applied to
+  paymentId?: mongoose.Types.ObjectId; // Payment history entry that created (or refunded) the credit
+  createdBy?: string; // Admin username for manual entries
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ledgerEntrySchema = new Schema<ILedgerEntry>(
+  {
+    userId: {
+      type: String,
+      required: true,
+    },
+    websiteId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Website',
+    },
+    type: {
+      type: String,
+      enum: Object.values(LedgerEntryType),
+      required: true,
+    },
+    source: {
+      type: String,
+      enum: Object.values(LedgerEntrySource),
+      required: true,
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 1,
+      validate: {
+        validator: Number.isInteger,
+        message: 'Amount must be in whole minor units (e.g. cents)',
+      },
+    },
+    currency: {
+      type: String,
+      required: true,
+      uppercase: true,
+      trim: true,
+    },
+    description: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    invoiceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Invoice',
+    },
+    paymentId: Schema.Types.ObjectId,
+    createdBy: String,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for efficient queries
+ledgerEntrySchema.index({ userId: 1, currency: 1, createdAt: -1 });
+ledgerEntrySchema.index({ paymentId: 1 });
+ledgerEntrySchema.index({ websiteId: 1 });
+
+const LedgerEntry = mongoose.model<ILedgerEntry>('LedgerEntry', ledgerEntrySchema);
+
+export default LedgerEntry;
\ No newline at end of file
@@ -0,0 +1,39 @@
+// models/LoginAttempt.ts
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ILoginAttempt extends Document {
+  // "username:<name>" or "ip:<address>"
+  key: string;
+  failures: number;
+  lockedUntil?: Date;
+  expiresAt: Date;
+}
+
+const loginAttemptSchema = new Schema<ILoginAttempt>(
+  {
+    key: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    failures: {
+      type: Number,
+      default: 0,
+    },
+    lockedUntil: Date,
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Let MongoDB remove stale counters automatically
+loginAttemptSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const LoginAttempt = mongoose.model<ILoginAttempt>('LoginAttempt', loginAttemptSchema);
+
+export default LoginAttempt;
\ No newline at end of file
@@ -0,0 +1,90 @@
+// models/PaymentEvent.ts
+import mongoose, { Document, Schema } from 'mongoose';
+import { PaymentEventType } from '../utils/paymentProvider';
+
+export enum PaymentEventStatus {
+  PROCESSING = 'PROCESSING',
+  PROCESSED = 'PROCESSED',
+  DUPLICATE = 'DUPLICATE',
+  IGNORED = 'IGNORED',
+  FAILED = 'FAILED',
+}
+
+export interface IPaymentEvent extends Document {
+  provider: string;
+  eventId: string;
+  type: string;
+  transactionId?: string;
+  amount?: number;
+  currency?: string;
+  websiteId?: mongoose.Types.ObjectId;
+  invoiceId?: mongoose.Types.ObjectId;
+  status: PaymentEventStatus;
+  error?: string;
+  processedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const paymentEventSchema = new Schema<IPaymentEvent>(
+  {
+    provider: {
+      type: String,
+      required: true,
+    },
+    eventId: {
+      type: String,
+      required: true,
+    },
+    type: {
+      type: String,
+      required: true,
+    },
+    transactionId: String,
+    amount: Number,
+    currency: String,
+    websiteId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Website',
+    },
+    invoiceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Invoice',
+    },
+    status: {
+      type: String,
+      enum: Object.values(PaymentEventStatus),
+      default: PaymentEventStatus.PROCESSING,
+      required: true,
+    },
+    error: String,
+    processedAt: Date,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Each provider event is applied at most once
+paymentEventSchema.index({ provider: 1, eventId: 1 }, { unique: true });
+
+// ...and each payment once, even when several events report it (e.g. a completed
+// checkout and its payment intent share the transactionId)
+paymentEventSchema.index(
+  { provider: 1, transactionId: 1 },
+  {
+    unique: true,
+    partialFilterExpression: {
+      type: PaymentEventType.PAYMENT_SUCCEEDED,
+      transactionId: { $exists: true },
+    },
+  }
+);
+
+// Indexes for efficient queries
+paymentEventSchema.index({ transactionId: 1 });
+paymentEventSchema.index({ websiteId: 1, createdAt: -1 });
+
+const PaymentEvent = mongoose.model<IPaymentEvent>('PaymentEvent', paymentEventSchema);
+
+export default PaymentEvent;
\ No newline at end of file
@@ -0,0 +1,110 @@
+// models/Plan.ts
+import mongoose, { Document, Schema } from 'mongoose';
+
+export enum PlanStatus {
+  ACTIVE = 'ACTIVE',
+  ARCHIVED = 'ARCHIVED', // Kept for existing websites, not offered to new clients
+}
+
+export type PlanBillingCycle = 'monthly' | 'quarterly' | 'yearly';
+
+export const PLAN_BILLING_CYCLES: PlanBillingCycle[] = ['monthly', 'quarterly', 'yearly'];
+
+// Prices are in minor units (e.g. cents) of the plan's currency
+export interface IPlanPrices {
+  monthly?: number;
+  quarterly?: number;
+  yearly?: number;
+}
+
+export interface IPlan extends Document {
+  slug: string;
+  name: string;
+  description?: string;
+  currency: string; // Fixed once created; websites keep the currency they were billed in
+  prices: IPlanPrices;
+  includedPages?: number;
+  features: string[];
+  status: PlanStatus;
+  sortOrder: number;
+  archivedAt?: Date;
+  updatedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const priceField = {
+  type: Number,
+  min: [0, 'Price cannot be negative'],
+  validate: {
+    validator: Number.isInteger,
+    message: 'Prices must be in whole minor units (e.g. cents)',
+  },
+};
+
+const planSchema = new Schema<IPlan>(
+  {
+    slug: {
+      type: String,
+      required: [true, 'Plan slug is required'],
+      lowercase: true,
+      trim: true,
+      match: [/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Slug may only contain lowercase letters, numbers and dashes'],
+      maxlength: [50, 'Slug cannot exceed 50 characters'],
+    },
+    name: {
+      type: String,
+      required: [true, 'Plan name is required'],
+      trim: true,
+      maxlength: [100, 'Plan name cannot exceed 100 characters'],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Description cannot exceed 500 characters'],
+    },
+    currency: {
+      type: String,
+      required: [true, 'Plan currency is required'],
+      uppercase: true,
+      trim: true,
+      match: [/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO code'],
+    },
+    prices: {
+      monthly: priceField,
+      quarterly: priceField,
+      yearly: priceField,
+    },
+    includedPages: {
+      type: Number,
+      min: [0, 'Included pages cannot be negative'],
+    },
+    features: {
+      type: [String],
+      default: [],
+    },
+    status: {
+      type: String,
+      enum: Object.values(PlanStatus),
+      default: PlanStatus.ACTIVE,
+      required: true,
+    },
+    sortOrder: {
+      type: Number,
+      default: 0,
+    },
+    archivedAt: Date,
+    updatedBy: String,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for efficient queries
+planSchema.index({ slug: 1 }, { unique: true });
+planSchema.index({ status: 1, sortOrder: 1 });
+
+const Plan = mongoose.model<IPlan>('Plan', planSchema);
+
+export default Plan;
\ No newline at end of file
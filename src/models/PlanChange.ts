@@ -0,0 +1,138 @@
+// models/PlanChange.ts
+import mongoose, { Document, Schema } from 'mongoose';
+import { PLAN_BILLING_CYCLES, PlanBillingCycle } from './Plan';
+
+export enum PlanChangeTiming {
+  IMMEDIATE = 'IMMEDIATE', // Prorated against the current paid period
+  NEXT_CYCLE = 'NEXT_CYCLE', // Takes effect at the next due date, no proration
+}
+
+export enum PlanChangeStatus {
+  REQUESTED = 'REQUESTED', // Client request awaiting an admin decision
+  SCHEDULED = 'SCHEDULED', // Approved, waiting for the next cycle boundary
+  APPLIED = 'APPLIED',
+  REJECTED = 'REJECTED',
+  CANCELLED = 'CANCELLED',
+}
+
+export enum PlanChangeSource {
+  ADMIN = 'ADMIN',
+  CLIENT = 'CLIENT',
+}
+
+export interface IPlanChange extends Document {
+  websiteId: mongoose.Types.ObjectId;
+  userId: string;
+  source: PlanChangeSource;
+  timing: PlanChangeTiming;
+  status: PlanChangeStatus;
+
+  // Plan and pricing (minor units of currency) before and after the change
+  currency: string;
+  fromPlan?: string;
+  fromPrice?: number;
+  fromCycle: PlanBillingCycle;
+  toPlan: string;
+  toPrice: number;
+  toCycle: PlanBillingCycle;
+
+  // Proration (positive = charge, negative = credit), added to invoiceId
+  adjustment: number;
+  remainingDays?: number;
+  invoiceId?: mongoose.Types.ObjectId;
+
+  effectiveAt?: Date;
+  appliedAt?: Date;
+  requestedBy?: string;
+  decidedBy?: string;
+  note?: string;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const planChangeSchema = new Schema<IPlanChange>(
+  {
+    websiteId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Website',
+      required: true,
+    },
+    userId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    source: {
+      type: String,
+      enum: Object.values(PlanChangeSource),
+      required: true,
+    },
+    timing: {
+      type: String,
+      enum: Object.values(PlanChangeTiming),
+      default: PlanChangeTiming.IMMEDIATE,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: Object.values(PlanChangeStatus),
+      required: true,
+    },
+    currency: {
+      type: String,
+      required: true,
+      uppercase: true,
+    },
+    fromPlan: String,
+    fromPrice: Number,
+    fromCycle: {
+      type: String,
+      enum: PLAN_BILLING_CYCLES,
+      required: true,
+    },
+    toPlan: {
+      type: String,
+      required: true,
+    },
+    toPrice: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    toCycle: {
+      type: String,
+      enum: PLAN_BILLING_CYCLES,
+      required: true,
+    },
+    adjustment: {
+      type: Number,
+      default: 0,
+    },
+    remainingDays: Number,
+    invoiceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Invoice',
+    },
+    effectiveAt: Date,
+    appliedAt: Date,
+    requestedBy: String,
+    decidedBy: String,
+    note: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Note cannot exceed 500 characters'],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for efficient queries
+planChangeSchema.index({ websiteId: 1, createdAt: -1 });
+planChangeSchema.index({ status: 1, effectiveAt: 1 });
+
+const PlanChange = mongoose.model<IPlanChange>('PlanChange', planChangeSchema);
+
+export default PlanChange;
\ No newline at end of file
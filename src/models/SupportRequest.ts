@@ -20,6 +20,25 @@ export enum SupportPriority {
   HIGH = 'HIGH',
 }
 
+export enum MessageAuthorRole {
+  CLIENT = 'CLIENT',
+  ADMIN = 'ADMIN',
+}
+
+export enum MessageVisibility {
+  PUBLIC = 'PUBLIC',
+  INTERNAL = 'INTERNAL',
+}
+
+export interface ISupportMessage {
+  _id?: mongoose.Types.ObjectId;
+  authorRole: MessageAuthorRole;
+  authorId: string;
+  body: string;
+  visibility: MessageVisibility;
+  createdAt: Date;
+}
+
 export interface ISupportRequest extends Document {
   userId: string;
   websiteId: mongoose.Types.ObjectId;
@@ -29,6 +48,9 @@ export interface ISupportRequest extends Document {
   subject: string;
   message: string;
   
+  // Conversation thread (client + admin replies)
+  messages: ISupportMessage[];
+  
   // Status tracking
   status: SupportStatus;
   priority?: SupportPriority;
@@ -43,6 +65,36 @@ export interface ISupportRequest extends Document {
   resolvedAt?: Date;
 }
 
+const supportMessageSchema = new Schema<ISupportMessage>({
+  authorRole: {
+    type: String,
+    enum: Object.values(MessageAuthorRole),
+    required: true,
+  },
+  authorId: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  body: {
+    type: String,
+    required: [true, 'Message is required'],
+    trim: true,
+    maxlength: [3000, 'Message cannot exceed 3000 characters'],
+  },
+  visibility: {
+    type: String,
+    enum: Object.values(MessageVisibility),
+    default: MessageVisibility.PUBLIC,
+    required: true,
+  },
+  createdAt: {
+    type: Date,
+    required: true,
+    default: Date.now,
+  },
+});
+
 const supportRequestSchema = new Schema<ISupportRequest>(
   {
     userId: {
@@ -73,6 +125,10 @@ const supportRequestSchema = new Schema<ISupportRequest>(
       trim: true,
       maxlength: [3000, 'Message cannot exceed 3000 characters'],
     },
+    messages: {
+      type: [supportMessageSchema],
+      default: [],
+    },
     status: {
       type: String,
       enum: Object.values(SupportStatus),
@@ -116,11 +172,14 @@ supportRequestSchema.index(
   }
 );
 
-// Update resolvedAt timestamp when status changes to RESOLVED
+// Update resolvedAt timestamp when status changes to RESOLVED (and clear it on reopen)
 supportRequestSchema.pre('save', function(next) {
   if (this.isModified('status') && this.status === SupportStatus.RESOLVED && !this.resolvedAt) {
     this.resolvedAt = new Date();
   }
+  if (this.isModified('status') && this.status !== SupportStatus.RESOLVED && this.resolvedAt) {
+    this.resolvedAt = undefined;
+  }
   next();
 });
 
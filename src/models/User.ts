@@ -1,6 +1,11 @@
 // models/User.ts
 import mongoose, { Document, Schema } from 'mongoose';
 
+// Opt-outs for non-critical email; billing and security notices are always sent
+export interface INotificationPreferences {
+  paymentReminders: boolean; // Reminders before a payment is due
+}
+
 export interface IUser extends Document {
   clerkId?: string;
   googleId?: string;
@@ -9,6 +14,7 @@ export interface IUser extends Document {
   lastName?: string;
   imageUrl?: string;
   authProvider: 'clerk' | 'google' | 'email';
+  notificationPreferences: INotificationPreferences;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -48,6 +54,12 @@ const userSchema = new Schema<IUser>(
       enum: ['clerk', 'google', 'email'],
       default: 'email',
     },
+    notificationPreferences: {
+      paymentReminders: {
+        type: Boolean,
+        default: true,
+      },
+    },
   },
   {
     timestamps: true,
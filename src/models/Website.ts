@@ -1,5 +1,6 @@
 // models/Website.ts
 import mongoose, { Document, Schema } from 'mongoose';
+import { CouponDiscountType, CouponDuration } from './Coupon';
 
 export enum WebsiteStatus {
   CREATED = 'CREATED',
@@ -17,24 +18,69 @@ export enum BillingStatus {
   SUSPENDED = 'SUSPENDED',
 }
 
+export enum PaymentEntryType {
+  PAYMENT = 'PAYMENT',
+  REFUND = 'REFUND', // Negative amount, linked to the payment it reverses
+}
+
+export interface IPaymentEntry {
+  _id?: mongoose.Types.ObjectId;
+  type: PaymentEntryType;
+  amount: number; // Minor units; negative for refunds
+  currency?: string;
+  date: Date;
+  method?: string;
+  transactionId?: string;
+  invoiceId?: mongoose.Types.ObjectId;
+  // How the amount was spread over invoices (older entries only have invoiceId)
+  allocations?: Array<{
+    invoiceId: mongoose.Types.ObjectId;
+    amount: number;
+  }>;
+  refundOf?: mongoose.Types.ObjectId;
+  reason?: string;
+  recordedBy?: string;
+}
+
 export interface IBilling {
   status: BillingStatus;
   plan?: string;
-  price?: number;
+  price?: number; // Minor units (e.g. cents) of currency
+  currency?: string; // ISO 4217 code; fixed once billing is activated
   billingCycle: 'monthly' | 'quarterly' | 'yearly';
   activatedAt?: Date;
   dueAt?: Date;
   lastPaymentAt?: Date;
   graceEndsAt?: Date;
   suspendedAt?: Date;
-  paymentHistory?: Array<{
-    amount: number;
-    date: Date;
-    method?: string;
-    transactionId?: string;
+  paymentHistory?: IPaymentEntry[];
+  // Coupon terms at redemption time; cyclesRemaining is unset for FOREVER
+  coupon?: {
+    couponId: mongoose.Types.ObjectId;
+    code: string;
+    discountType: CouponDiscountType;
+    amount: number; // Percent, or minor units for FIXED
+    currency?: string;
+    duration: CouponDuration;
+    cyclesRemaining?: number;
+    appliedAt: Date;
+  };
+  // Pre-due reminders already sent, keyed by due date and offset
+  remindersSent?: Array<{
+    dueAt: Date;
+    offsetDays: number;
+    sentAt: Date;
   }>;
 }
 
+export interface IStatusHistoryEntry {
+  from: WebsiteStatus;
+  to: WebsiteStatus;
+  admin?: string;
+  notes?: string;
+  changedAt: Date;
+}
+
 export interface IWebsite extends Document {
   userId: string;
   requestId: mongoose.Types.ObjectId;
@@ -46,6 +92,7 @@ export interface IWebsite extends Document {
   
   // Status tracking
   status: WebsiteStatus;
+  statusHistory?: IStatusHistoryEntry[];
   assignedAdmin?: string;
   
   // Technical details
@@ -95,6 +142,16 @@ const billingSchema = new Schema<IBilling>({
   price: {
     type: Number,
     min: 0,
+    validate: {
+      validator: Number.isInteger,
+      message: 'Price must be in whole minor units (e.g. cents)',
+    },
+  },
+  currency: {
+    type: String,
+    uppercase: true,
+    trim: true,
+    match: [/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO code'],
   },
   billingCycle: {
     type: String,
@@ -108,9 +165,23 @@ const billingSchema = new Schema<IBilling>({
   suspendedAt: Date,
   paymentHistory: [
     {
+      type: {
+        type: String,
+        enum: Object.values(PaymentEntryType),
+        default: PaymentEntryType.PAYMENT,
+        required: true,
+      },
       amount: {
         type: Number,
         required: true,
+        validate: {
+          validator: Number.isInteger,
+          message: 'Payment amount must be in whole minor units (e.g. cents)',
+        },
+      },
+      currency: {
+        type: String,
+        uppercase: true,
       },
       date: {
         type: Date,
@@ -119,6 +190,81 @@ const billingSchema = new Schema<IBilling>({
       },
       method: String,
       transactionId: String,
+      invoiceId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Invoice',
+      },
+      allocations: [
+        {
+          invoiceId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Invoice',
+            required: true,
+          },
+          amount: {
+            type: Number,
+            required: true,
+          },
+          _id: false,
+        },
+      ],
+      refundOf: Schema.Types.ObjectId,
+      reason: {
+        type: String,
+        trim: true,
+        maxlength: [500, 'Reason cannot exceed 500 characters'],
+      },
+      recordedBy: String,
+    },
+  ],
+  coupon: {
+    type: new Schema({
+      couponId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Coupon',
+        required: true,
+      },
+      code: {
+        type: String,
+        required: true,
+      },
+      discountType: {
+        type: String,
+        enum: Object.values(CouponDiscountType),
+        required: true,
+      },
+      amount: {
+        type: Number,
+        required: true,
+      },
+      currency: String,
+      duration: {
+        type: String,
+        enum: Object.values(CouponDuration),
+        required: true,
+      },
+      cyclesRemaining: Number,
+      appliedAt: {
+        type: Date,
+        default: Date.now,
+      },
+    }, { _id: false }),
+  },
+  remindersSent: [
+    {
+      dueAt: {
+        type: Date,
+        required: true,
+      },
+      offsetDays: {
+        type: Number,
+        required: true,
+      },
+      sentAt: {
+        type: Date,
+        default: Date.now,
+      },
+      _id: false,
     },
   ],
 }, { _id: false });
@@ -157,6 +303,30 @@ const websiteSchema = new Schema<IWebsite>(
       default: WebsiteStatus.CREATED,
       required: true,
     },
+    statusHistory: [
+      {
+        from: {
+          type: String,
+          enum: Object.values(WebsiteStatus),
+          required: true,
+        },
+        to: {
+          type: String,
+          enum: Object.values(WebsiteStatus),
+          required: true,
+        },
+        admin: String,
+        notes: {
+          type: String,
+          trim: true,
+        },
+        changedAt: {
+          type: Date,
+          required: true,
+          default: Date.now,
+        },
+      },
+    ],
     assignedAdmin: {
       type: String,
       trim: true,
@@ -7,6 +7,7 @@ export enum RequestStatus {
   CONTACTED = 'CONTACTED',
   APPROVED = 'APPROVED',
   REJECTED = 'REJECTED',
+  EXPIRED = 'EXPIRED', // Closed automatically after a period without activity
 }
 
 export enum ProjectType {
@@ -37,6 +38,7 @@ export interface IWebsiteRequest extends Document {
   referenceLinks: string[];
   recommendedTemplate?: string;
   selectedPlan?: string;
+  couponCode?: string;
   
   // Status management
   status: RequestStatus;
@@ -124,6 +126,11 @@ const websiteRequestSchema = new Schema<IWebsiteRequest>(
       type: String,
       trim: true,
     },
+    couponCode: {
+      type: String,
+      uppercase: true,
+      trim: true,
+    },
     status: {
       type: String,
       enum: Object.values(RequestStatus),
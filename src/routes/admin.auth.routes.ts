@@ -0,0 +1,58 @@
+// routes/admin.auth.routes.ts
+import express from 'express';
+import { logAdminAction, requireAdmin } from '../middleware/adminAuth';
+import {
+  login,
+  logout,
+  logoutAll,
+  getCurrentAdmin,
+  getSessions,
+  revokeSession,
+} from '../controllers/admin.auth.controller';
+
+const router = express.Router();
+
+/**
+ * @route   POST /api/admin/auth/login
+ * @desc    Log in and get a session token
+ * @access  Public
+ * @body    { username: string, password: string }
+ */
+router.post('/login', login);
+
+/**
+ * @route   POST /api/admin/auth/logout
+ * @desc    Revoke the current session token
+ * @access  Private (Admin)
+ */
+router.post('/logout', requireAdmin, logAdminAction, logout);
+
+/**
+ * @route   POST /api/admin/auth/logout-all
+ * @desc    Revoke all sessions of the current admin
+ * @access  Private (Admin)
+ */
+router.post('/logout-all', requireAdmin, logAdminAction, logoutAll);
+
+/**
+ * @route   GET /api/admin/auth/me
+ * @desc    Get the current admin
+ * @access  Private (Admin)
+ */
+router.get('/me', requireAdmin, getCurrentAdmin);
+
+/**
+ * @route   GET /api/admin/auth/sessions
+ * @desc    List active sessions of the current admin
+ * @access  Private (Admin)
+ */
+router.get('/sessions', requireAdmin, getSessions);
+
+/**
+ * @route   DELETE /api/admin/auth/sessions/:id
+ * @desc    Revoke a session (owners can revoke any admin's session)
+ * @access  Private (Admin)
+ */
+router.delete('/sessions/:id', requireAdmin, logAdminAction, revokeSession);
+
+export default router;
\ No newline at end of file
@@ -1,6 +1,7 @@
 // routes/admin.routes.ts
 import express from 'express';
-import { requireAdmin, logAdminAction } from '../middleware/adminAuth';
+import { requireAdmin, requireRole, logAdminAction } from '../middleware/adminAuth';
+import { AdminRole } from '../models/Admin';
 
 // Request controllers
 import {
@@ -20,7 +21,9 @@ import {
   updateWebsite,
   updateWebsiteStatus,
   updateBilling,
+  changeWebsitePlan,
   recordPayment,
+  refundPayment,
   addMilestone,
   updateMilestone,
   assignAdmin,
@@ -34,6 +37,8 @@ import {
   updateUser,
   getUserRequests,
   getUserWebsites,
+  getUserLedger,
+  addUserLedgerEntry,
   deleteUser,
   getUserStats,
 } from '../controllers/admin.user.controller';
@@ -46,14 +51,133 @@ import {
   assignAdminToSupport,
   setSupportPriority,
   getSupportStats,
+  addAdminSupportMessage,
 } from '../controllers/admin.support.controller';
 
+// Audit controllers
+import {
+  getAuditLogs,
+  getEntityAuditLogs,
+} from '../controllers/admin.audit.controller';
+import { AuditEntityType } from '../models/AuditLog';
+
+// Invoice controllers
+import {
+  getAllInvoices,
+  getInvoiceDetails,
+  getWebsiteInvoices,
+  createWebsiteInvoice,
+  issueInvoice,
+  voidInvoice,
+  downloadInvoice,
+} from '../controllers/admin.invoice.controller';
+
+// Billing policy controllers
+import {
+  getBillingPolicies,
+  getEffectiveBillingPolicy,
+  updateGlobalBillingPolicy,
+  upsertPlanBillingPolicy,
+  deletePlanBillingPolicy,
+  getUpcomingReminders,
+  previewReminderEmail,
+  getPlanChanges,
+  approvePlanChange,
+  cancelPlanChange,
+  getPaymentEvents,
+  getBillingAnalytics,
+} from '../controllers/admin.billing.controller';
+
+// Plan catalog controllers
+import {
+  getAllPlans,
+  getPlanById,
+  createPlan,
+  updatePlan,
+  archivePlan,
+} from '../controllers/admin.plan.controller';
+
+// Coupon controllers
+import {
+  getAllCoupons,
+  getCouponById,
+  createCoupon,
+  updateCoupon,
+  disableCoupon,
+} from '../controllers/admin.coupon.controller';
+
+// Job controllers
+import {
+  getJobs,
+  getJobRuns,
+  runJobNow,
+  runBillingCheck,
+} from '../controllers/admin.job.controller';
+
+// Email outbox controllers
+import {
+  getEmails,
+  getEmailDetails,
+  resendOutboxEmail,
+  getEmailTemplates,
+  getEmailTemplateDetails,
+  updateEmailTemplate,
+  previewEmailTemplate,
+  revertEmailTemplate,
+} from '../controllers/admin.email.controller';
+
+// Admin account controllers
+import {
+  getAllAdmins,
+  createAdmin,
+  updateAdmin,
+  deleteAdmin,
+} from '../controllers/admin.account.controller';
+
 const router = express.Router();
 
+const { PROJECT_MANAGER, BILLING, SUPPORT_AGENT } = AdminRole;
+
 // Apply admin authentication to all routes
+// Every admin can read; mutations are restricted per route with requireRole (OWNER always passes)
 router.use(requireAdmin);
 router.use(logAdminAction);
 
+// ============================================
+// ADMIN ACCOUNT ROUTES
+// ============================================
+
+/**
+ * @route   GET /api/admin/admins
+ * @desc    Get all admin accounts
+ * @access  Private (Owner)
+ * @query   role, isActive
+ */
+router.get('/admins', requireRole(), getAllAdmins);
+
+/**
+ * @route   POST /api/admin/admins
+ * @desc    Create admin account
+ * @access  Private (Owner)
+ * @body    { username, password, role, name?, email? }
+ */
+router.post('/admins', requireRole(), createAdmin);
+
+/**
+ * @route   PATCH /api/admin/admins/:id
+ * @desc    Update admin account
+ * @access  Private (Owner)
+ * @body    { name?, email?, role?, isActive?, password? }
+ */
+router.patch('/admins/:id', requireRole(), updateAdmin);
+
+/**
+ * @route   DELETE /api/admin/admins/:id
+ * @desc    Delete admin account
+ * @access  Private (Owner)
+ */
+router.delete('/admins/:id', requireRole(), deleteAdmin);
+
 // ============================================
 // USER ROUTES
 // ============================================
@@ -83,17 +207,17 @@ router.get('/users/:id', getUserDetails);
 /**
  * @route   PATCH /api/admin/users/:id
  * @desc    Update user information
- * @access  Private (Admin)
+ * @access  Private (Owner, Project Manager, Support Agent)
  * @body    { email?, firstName?, lastName?, imageUrl? }
  */
-router.patch('/users/:id', updateUser);
+router.patch('/users/:id', requireRole(PROJECT_MANAGER, SUPPORT_AGENT), updateUser);
 
 /**
  * @route   DELETE /api/admin/users/:id
  * @desc    Delete user
- * @access  Private (Admin)
+ * @access  Private (Owner)
  */
-router.delete('/users/:id', deleteUser);
+router.delete('/users/:id', requireRole(), deleteUser);
 
 /**
  * @route   GET /api/admin/users/:id/requests
@@ -111,6 +235,22 @@ router.get('/users/:id/requests', getUserRequests);
  */
 router.get('/users/:id/websites', getUserWebsites);
 
+/**
+ * @route   GET /api/admin/users/:id/ledger
+ * @desc    Get a user's account balance per currency and credit ledger
+ * @access  Private (Admin)
+ * @query   currency, page, limit
+ */
+router.get('/users/:id/ledger', getUserLedger);
+
+/**
+ * @route   POST /api/admin/users/:id/ledger
+ * @desc    Grant account credit or correct a user's balance (credit is applied to unpaid invoices)
+ * @access  Private (Owner, Billing)
+ * @body    { type: CREDIT | DEBIT, amount: number (minor units), currency: string, description: string, source?: GOODWILL | ADJUSTMENT, websiteId?: string }
+ */
+router.post('/users/:id/ledger', requireRole(BILLING), addUserLedgerEntry);
+
 // ============================================
 // REQUEST ROUTES
 // ============================================
@@ -140,34 +280,42 @@ router.get('/requests/:id', getRequestDetails);
 /**
  * @route   PATCH /api/admin/requests/:id/status
  * @desc    Update request status
- * @access  Private (Admin)
+ * @access  Private (Owner, Project Manager)
  * @body    { status: RequestStatus, internalNotes?: string }
  */
-router.patch('/requests/:id/status', updateRequestStatus);
+router.patch('/requests/:id/status', requireRole(PROJECT_MANAGER), updateRequestStatus);
 
 /**
  * @route   PATCH /api/admin/requests/:id/notes
  * @desc    Add/update internal notes
- * @access  Private (Admin)
+ * @access  Private (Owner, Project Manager)
  * @body    { internalNotes: string }
  */
-router.patch('/requests/:id/notes', addInternalNotes);
+router.patch('/requests/:id/notes', requireRole(PROJECT_MANAGER), addInternalNotes);
 
 /**
  * @route   POST /api/admin/requests/:id/approve
  * @desc    Approve request and create website
- * @access  Private (Admin)
+ * @access  Private (Owner, Project Manager)
  * @body    { assignedAdmin?: string, initialNotes?: string }
  */
-router.post('/requests/:id/approve', approveRequest);
+router.post('/requests/:id/approve', requireRole(PROJECT_MANAGER), approveRequest);
 
 /**
  * @route   POST /api/admin/requests/:id/reject
  * @desc    Reject request
- * @access  Private (Admin)
+ * @access  Private (Owner, Project Manager)
  * @body    { reason: string }
  */
-router.post('/requests/:id/reject', rejectRequest);
+router.post('/requests/:id/reject', requireRole(PROJECT_MANAGER), rejectRequest);
+
+/**
+ * @route   GET /api/admin/requests/:id/audit
+ * @desc    Get audit history for a request
+ * @access  Private (Admin)
+ * @query   page, limit
+ */
+router.get('/requests/:id/audit', getEntityAuditLogs(AuditEntityType.REQUEST));
 
 // ============================================
 // WEBSITE ROUTES
@@ -198,58 +346,418 @@ router.get('/websites/:id', getWebsiteDetails);
 /**
  * @route   PATCH /api/admin/websites/:id
  * @desc    Update website (bulk update)
- * @access  Private (Admin)
- * @body    { name?, description?, status?, assignedAdmin?, domain?, etc. }
+ * @access  Private (Owner, Project Manager)
+ * @body    { name?, description?, status?, notes?, assignedAdmin?, domain?, etc. } (notes are recorded with a status change)
  */
-router.patch('/websites/:id', updateWebsite);
+router.patch('/websites/:id', requireRole(PROJECT_MANAGER), updateWebsite);
 
 /**
  * @route   PATCH /api/admin/websites/:id/status
- * @desc    Update website status specifically
- * @access  Private (Admin)
- * @body    { status: WebsiteStatus, notes?: string }
+ * @desc    Update website status (validated against the transition table, 409 if illegal)
+ * @access  Private (Owner, Project Manager)
+ * @body    { status: WebsiteStatus, notes?: string, billingPlan?, billingCycle? } (price comes from the plan catalog)
  */
-router.patch('/websites/:id/status', updateWebsiteStatus);
+router.patch('/websites/:id/status', requireRole(PROJECT_MANAGER), updateWebsiteStatus);
 
 /**
  * @route   PATCH /api/admin/websites/:id/billing
- * @desc    Update billing information
- * @access  Private (Admin)
- * @body    { plan?, price?, billingCycle?, status? }
+ * @desc    Update billing information (price is resolved from the plan catalog)
+ * @access  Private (Owner, Billing)
+ * @body    { plan?, billingCycle?, status?, couponCode? (null removes the discount) }
+ */
+router.patch('/websites/:id/billing', requireRole(BILLING), updateBilling);
+
+/**
+ * @route   POST /api/admin/websites/:id/billing/change-plan
+ * @desc    Change plan now (prorated onto the next invoice) or at the next cycle boundary
+ * @access  Private (Owner, Billing)
+ * @body    { plan, billingCycle?, timing?: IMMEDIATE | NEXT_CYCLE, note?, dryRun? }
  */
-router.patch('/websites/:id/billing', updateBilling);
+router.post('/websites/:id/billing/change-plan', requireRole(BILLING), changeWebsitePlan);
 
 /**
  * @route   POST /api/admin/websites/:id/payment
- * @desc    Record a payment for website
+ * @desc    Record a payment for website (beyond what is owed prepays whole cycles, then becomes account credit)
+ * @access  Private (Owner, Billing)
+ * @body    { amount: number (minor units, e.g. cents), currency?: string, method?: string, transactionId?: string, invoiceId?: string }
+ */
+router.post('/websites/:id/payment', requireRole(BILLING), recordPayment);
+
+/**
+ * @route   POST /api/admin/websites/:id/payments/:paymentId/refund
+ * @desc    Refund all or part of a recorded payment (takes back its unused credit, reopens invoices it no longer covers)
+ * @access  Private (Owner, Billing)
+ * @body    { amount?: number (minor units, default: all not yet refunded), reason: string, transactionId?: string }
+ */
+router.post('/websites/:id/payments/:paymentId/refund', requireRole(BILLING), refundPayment);
+
+/**
+ * @route   GET /api/admin/websites/:id/invoices
+ * @desc    Get invoices of a website
+ * @access  Private (Admin)
+ * @query   status
+ */
+router.get('/websites/:id/invoices', getWebsiteInvoices);
+
+/**
+ * @route   GET /api/admin/websites/:id/invoices/:invoiceId.pdf
+ * @desc    Download invoice/receipt as PDF (use .html for the HTML version)
  * @access  Private (Admin)
- * @body    { amount: number, method?: string, transactionId?: string }
  */
-router.post('/websites/:id/payment', recordPayment);
+router.get('/websites/:id/invoices/:invoiceId.:format(pdf|html)', downloadInvoice);
+
+/**
+ * @route   POST /api/admin/websites/:id/invoices
+ * @desc    Create a draft invoice for a billing period
+ * @access  Private (Owner, Billing)
+ * @body    { periodStart?: Date, dueAt?: Date, discount?: number (minor units), taxRate?: number, notes?: string }
+ */
+router.post('/websites/:id/invoices', requireRole(BILLING), createWebsiteInvoice);
 
 /**
  * @route   PATCH /api/admin/websites/:id/assign
  * @desc    Assign admin to website
- * @access  Private (Admin)
+ * @access  Private (Owner, Project Manager)
  * @body    { assignedAdmin: string }
  */
-router.patch('/websites/:id/assign', assignAdmin);
+router.patch('/websites/:id/assign', requireRole(PROJECT_MANAGER), assignAdmin);
 
 /**
  * @route   POST /api/admin/websites/:id/milestones
  * @desc    Add milestone to website
- * @access  Private (Admin)
+ * @access  Private (Owner, Project Manager)
  * @body    { title: string, completed?: boolean }
  */
-router.post('/websites/:id/milestones', addMilestone);
+router.post('/websites/:id/milestones', requireRole(PROJECT_MANAGER), addMilestone);
 
 /**
  * @route   PATCH /api/admin/websites/:id/milestones/:milestoneIndex
  * @desc    Update milestone
- * @access  Private (Admin)
+ * @access  Private (Owner, Project Manager)
  * @body    { title?: string, completed?: boolean }
  */
-router.patch('/websites/:id/milestones/:milestoneIndex', updateMilestone);
+router.patch('/websites/:id/milestones/:milestoneIndex', requireRole(PROJECT_MANAGER), updateMilestone);
+
+/**
+ * @route   GET /api/admin/websites/:id/audit
+ * @desc    Get audit history for a website
+ * @access  Private (Admin)
+ * @query   page, limit
+ */
+router.get('/websites/:id/audit', getEntityAuditLogs(AuditEntityType.WEBSITE));
+
+// ============================================
+// INVOICE ROUTES
+// ============================================
+
+/**
+ * @route   GET /api/admin/invoices
+ * @desc    Get all invoices with filtering/pagination
+ * @access  Private (Admin)
+ * @query   status, websiteId, userId, page, limit
+ */
+router.get('/invoices', getAllInvoices);
+
+/**
+ * @route   GET /api/admin/invoices/:invoiceId
+ * @desc    Get single invoice
+ * @access  Private (Admin)
+ */
+router.get('/invoices/:invoiceId', getInvoiceDetails);
+
+/**
+ * @route   POST /api/admin/invoices/:invoiceId/issue
+ * @desc    Issue a draft invoice
+ * @access  Private (Owner, Billing)
+ */
+router.post('/invoices/:invoiceId/issue', requireRole(BILLING), issueInvoice);
+
+/**
+ * @route   POST /api/admin/invoices/:invoiceId/void
+ * @desc    Void an unpaid invoice
+ * @access  Private (Owner, Billing)
+ * @body    { reason?: string }
+ */
+router.post('/invoices/:invoiceId/void', requireRole(BILLING), voidInvoice);
+
+// ============================================
+// PLAN ROUTES
+// ============================================
+
+/**
+ * @route   GET /api/admin/plans
+ * @desc    Get all catalog plans with the number of websites on each
+ * @access  Private (Admin)
+ * @query   status (ACTIVE | ARCHIVED)
+ */
+router.get('/plans', getAllPlans);
+
+/**
+ * @route   GET /api/admin/plans/:id
+ * @desc    Get a catalog plan
+ * @access  Private (Admin)
+ */
+router.get('/plans/:id', getPlanById);
+
+/**
+ * @route   POST /api/admin/plans
+ * @desc    Create a catalog plan
+ * @access  Private (Owner, Billing)
+ * @body    { slug, name, description?, currency? (default BILLING_CURRENCY), prices: { monthly?, quarterly?, yearly? } (minor units), includedPages?, features?, status?, sortOrder? }
+ */
+router.post('/plans', requireRole(BILLING), createPlan);
+
+/**
+ * @route   PATCH /api/admin/plans/:id
+ * @desc    Update a catalog plan (slug cannot change)
+ * @access  Private (Owner, Billing)
+ * @body    { name?, description?, prices?, includedPages?, features?, status?, sortOrder? } (slug and currency cannot change)
+ */
+router.patch('/plans/:id', requireRole(BILLING), updatePlan);
+
+/**
+ * @route   DELETE /api/admin/plans/:id
+ * @desc    Archive a catalog plan (existing websites keep it)
+ * @access  Private (Owner, Billing)
+ */
+router.delete('/plans/:id', requireRole(BILLING), archivePlan);
+
+// ============================================
+// COUPON ROUTES
+// ============================================
+
+/**
+ * @route   GET /api/admin/coupons
+ * @desc    Get all coupons
+ * @access  Private (Admin)
+ * @query   status (ACTIVE | DISABLED), search, page, limit
+ */
+router.get('/coupons', getAllCoupons);
+
+/**
+ * @route   GET /api/admin/coupons/:id
+ * @desc    Get a coupon with its redemptions
+ * @access  Private (Admin)
+ */
+router.get('/coupons/:id', getCouponById);
+
+/**
+ * @route   POST /api/admin/coupons
+ * @desc    Create a coupon
+ * @access  Private (Owner, Billing)
+ * @body    { code, discountType: PERCENT | FIXED, amount (percent, or minor units for FIXED), currency? (required for FIXED), duration?: ONCE | REPEATING | FOREVER, durationCycles?, plans?, maxRedemptions?, expiresAt?, description? }
+ */
+router.post('/coupons', requireRole(BILLING), createCoupon);
+
+/**
+ * @route   PATCH /api/admin/coupons/:id
+ * @desc    Update a coupon (code cannot change)
+ * @access  Private (Owner, Billing)
+ */
+router.patch('/coupons/:id', requireRole(BILLING), updateCoupon);
+
+/**
+ * @route   DELETE /api/admin/coupons/:id
+ * @desc    Disable a coupon (existing discounts keep running)
+ * @access  Private (Owner, Billing)
+ */
+router.delete('/coupons/:id', requireRole(BILLING), disableCoupon);
+
+// ============================================
+// BILLING ROUTES
+// ============================================
+
+/**
+ * @route   GET /api/admin/billing/policies
+ * @desc    Get the global billing policy, plan overrides and built-in defaults
+ * @access  Private (Admin)
+ */
+router.get('/billing/policies', getBillingPolicies);
+
+/**
+ * @route   GET /api/admin/billing/policies/effective
+ * @desc    Get the effective billing policy for a plan
+ * @access  Private (Admin)
+ * @query   plan
+ */
+router.get('/billing/policies/effective', getEffectiveBillingPolicy);
+
+/**
+ * @route   PUT /api/admin/billing/policies/global
+ * @desc    Update the global billing policy
+ * @access  Private (Owner, Billing)
+ * @body    { graceDays?, overdueToSuspendDays?, reminderOffsets?: number[], reinstatement?: { requireFullBalance?, dueDateBasis? } }
+ */
+router.put('/billing/policies/global', requireRole(BILLING), updateGlobalBillingPolicy);
+
+/**
+ * @route   PUT /api/admin/billing/policies/plans/:plan
+ * @desc    Create or update billing policy overrides for a plan (null clears a field)
+ * @access  Private (Owner, Billing)
+ * @body    { graceDays?, overdueToSuspendDays?, reminderOffsets?: number[], reinstatement?: { requireFullBalance?, dueDateBasis? } }
+ */
+router.put('/billing/policies/plans/:plan', requireRole(BILLING), upsertPlanBillingPolicy);
+
+/**
+ * @route   DELETE /api/admin/billing/policies/plans/:plan
+ * @desc    Remove a plan's billing policy overrides
+ * @access  Private (Owner, Billing)
+ */
+router.delete('/billing/policies/plans/:plan', requireRole(BILLING), deletePlanBillingPolicy);
+
+/**
+ * @route   GET /api/admin/billing/analytics
+ * @desc    MRR/ARR, collected revenue per period, receivables, churn and revenue per plan (per currency, minor units)
+ * @access  Private (Admin)
+ * @query   from?, to? (default: last 12 months), groupBy? (day | week | month | quarter | year), currency?
+ */
+router.get('/billing/analytics', getBillingAnalytics);
+
+/**
+ * @route   GET /api/admin/billing/plan-changes
+ * @desc    Get plan changes (client requests, scheduled and applied changes)
+ * @access  Private (Admin)
+ * @query   status, source, websiteId, page, limit
+ */
+router.get('/billing/plan-changes', getPlanChanges);
+
+/**
+ * @route   POST /api/admin/billing/plan-changes/:id/approve
+ * @desc    Approve a client's plan change request
+ * @access  Private (Owner, Billing)
+ */
+router.post('/billing/plan-changes/:id/approve', requireRole(BILLING), approvePlanChange);
+
+/**
+ * @route   POST /api/admin/billing/plan-changes/:id/cancel
+ * @desc    Reject a plan change request or cancel a scheduled change
+ * @access  Private (Owner, Billing)
+ * @body    { reason? }
+ */
+router.post('/billing/plan-changes/:id/cancel', requireRole(BILLING), cancelPlanChange);
+
+/**
+ * @route   GET /api/admin/billing/payment-events
+ * @desc    Get payment webhook events (failed ones are retried by the provider)
+ * @access  Private (Admin)
+ * @query   status, websiteId, page, limit
+ */
+router.get('/billing/payment-events', getPaymentEvents);
+
+/**
+ * @route   GET /api/admin/billing/reminders/upcoming
+ * @desc    Preview payment reminders due now or scheduled within the next days
+ * @access  Private (Admin)
+ * @query   days (default 7, max 60)
+ */
+router.get('/billing/reminders/upcoming', getUpcomingReminders);
+
+/**
+ * @route   GET /api/admin/billing/reminders/preview/:id
+ * @desc    Render the payment reminder email for a website
+ * @access  Private (Admin)
+ * @query   days?, format? ("html" returns the rendered email)
+ */
+router.get('/billing/reminders/preview/:id', previewReminderEmail);
+
+/**
+ * @route   POST /api/admin/billing/check
+ * @desc    Run the billing status update and payment reminders now
+ * @access  Private (Owner, Billing)
+ * @query   dryRun? ("true" reports what would change without saving or emailing)
+ */
+router.post('/billing/check', requireRole(BILLING), runBillingCheck);
+
+// ============================================
+// JOB ROUTES
+// ============================================
+
+/**
+ * @route   GET /api/admin/jobs
+ * @desc    List registered jobs and their suggested schedules
+ * @access  Private (Admin)
+ */
+router.get('/jobs', getJobs);
+
+/**
+ * @route   GET /api/admin/jobs/runs
+ * @desc    Get scheduled job run history
+ * @access  Private (Admin)
+ * @query   jobName, status, trigger, dryRun, page, limit
+ */
+router.get('/jobs/runs', getJobRuns);
+
+/**
+ * @route   POST /api/admin/jobs/:jobName/run
+ * @desc    Run a registered job now
+ * @access  Private (Owner, Billing)
+ * @query   dryRun? ("true" reports what would change without saving or emailing)
+ */
+router.post('/jobs/:jobName/run', requireRole(BILLING), runJobNow);
+
+// ============================================
+// EMAIL ROUTES
+// ============================================
+
+/**
+ * @route   GET /api/admin/emails
+ * @desc    Get queued, sent and failed emails (without bodies)
+ * @access  Private (Admin)
+ * @query   status (PENDING | SENDING | SENT | DEAD), event, to, failed ("true": dead or retrying), page, limit
+ */
+router.get('/emails', getEmails);
+
+/**
+ * @route   GET /api/admin/emails/:id
+ * @desc    Get a queued email with its HTML and text bodies
+ * @access  Private (Admin)
+ */
+router.get('/emails/:id', getEmailDetails);
+
+/**
+ * @route   POST /api/admin/emails/:id/resend
+ * @desc    Resend a dead or sent email now (resets its attempts; retried by the outbox if it fails)
+ * @access  Private (Owner, Project Manager, Billing, Support Agent)
+ */
+router.post('/emails/:id/resend', requireRole(PROJECT_MANAGER, BILLING, SUPPORT_AGENT), resendOutboxEmail);
+
+/**
+ * @route   GET /api/admin/email-templates
+ * @desc    Get all email templates (event, description, subject, customized)
+ * @access  Private (Admin)
+ */
+router.get('/email-templates', getEmailTemplates);
+
+/**
+ * @route   GET /api/admin/email-templates/:event
+ * @desc    Get an email template with its default and available variables
+ * @access  Private (Admin)
+ */
+router.get('/email-templates/:event', getEmailTemplateDetails);
+
+/**
+ * @route   PATCH /api/admin/email-templates/:event
+ * @desc    Edit an email template ({{name}}, {{#name}}...{{/name}} and {{^name}}...{{/name}} syntax)
+ * @access  Private (Owner, Project Manager)
+ * @body    subject, html, text (empty text: generated from the rendered HTML)
+ */
+router.patch('/email-templates/:event', requireRole(PROJECT_MANAGER), updateEmailTemplate);
+
+/**
+ * @route   POST /api/admin/email-templates/:event/preview
+ * @desc    Render a template against a website and its request (latest website by default)
+ * @access  Private (Admin)
+ * @body    websiteId, requestId, subject, html, text (unsaved edits to preview)
+ * @query   format ("html": return the rendered HTML page)
+ */
+router.post('/email-templates/:event/preview', previewEmailTemplate);
+
+/**
+ * @route   POST /api/admin/email-templates/:event/revert
+ * @desc    Revert an email template to its default
+ * @access  Private (Owner, Project Manager)
+ */
+router.post('/email-templates/:event/revert', requireRole(PROJECT_MANAGER), revertEmailTemplate);
 
 // ============================================
 // SUPPORT ROUTES
@@ -280,18 +788,18 @@ router.get('/support/:id', getSupportRequestDetails);
 /**
  * @route   PATCH /api/admin/support/:id
  * @desc    Update support request (bulk update)
- * @access  Private (Admin)
+ * @access  Private (Owner, Support Agent, Project Manager)
  * @body    { status?, priority?, assignedAdmin?, internalNotes? }
  */
-router.patch('/support/:id', updateSupportRequest);
+router.patch('/support/:id', requireRole(SUPPORT_AGENT, PROJECT_MANAGER), updateSupportRequest);
 
 /**
  * @route   PATCH /api/admin/support/:id/status
  * @desc    Update support request status
- * @access  Private (Admin)
+ * @access  Private (Owner, Support Agent, Project Manager)
  * @body    { status: SupportStatus, internalNotes?: string }
  */
-router.patch('/support/:id/status', updateSupportRequestStatus);
+router.patch('/support/:id/status', requireRole(SUPPORT_AGENT, PROJECT_MANAGER), updateSupportRequestStatus);
 
 /**
  * @route   PATCH /api/admin/support/:id/notes
@@ -301,20 +809,48 @@ router.patch('/support/:id/status', updateSupportRequestStatus);
  */
 // router.patch('/support/:id/notes', addInternalNotes);
 
+/**
+ * @route   POST /api/admin/support/:id/messages
+ * @desc    Add reply or internal note to support request thread
+ * @access  Private (Owner, Support Agent, Project Manager)
+ * @body    { body: string, visibility?: "PUBLIC" | "INTERNAL" }
+ */
+router.post('/support/:id/messages', requireRole(SUPPORT_AGENT, PROJECT_MANAGER), addAdminSupportMessage);
+
 /**
  * @route   PATCH /api/admin/support/:id/assign
  * @desc    Assign admin to support request
- * @access  Private (Admin)
+ * @access  Private (Owner, Support Agent, Project Manager)
  * @body    { assignedAdmin: string }
  */
-router.patch('/support/:id/assign', assignAdminToSupport);
+router.patch('/support/:id/assign', requireRole(SUPPORT_AGENT, PROJECT_MANAGER), assignAdminToSupport);
 
 /**
  * @route   PATCH /api/admin/support/:id/priority
  * @desc    Set priority for support request
- * @access  Private (Admin)
+ * @access  Private (Owner, Support Agent, Project Manager)
  * @body    { priority: "LOW" | "MEDIUM" | "HIGH" }
  */
-router.patch('/support/:id/priority', setSupportPriority);
+router.patch('/support/:id/priority', requireRole(SUPPORT_AGENT, PROJECT_MANAGER), setSupportPriority);
+
+/**
+ * @route   GET /api/admin/support/:id/audit
+ * @desc    Get audit history for a support request
+ * @access  Private (Admin)
+ * @query   page, limit
+ */
+router.get('/support/:id/audit', getEntityAuditLogs(AuditEntityType.SUPPORT));
+
+// ============================================
+// AUDIT ROUTES
+// ============================================
+
+/**
+ * @route   GET /api/admin/audit
+ * @desc    Get audit log entries with filtering/pagination
+ * @access  Private (Owner)
+ * @query   entityType, entityId, admin, from, to, page, limit
+ */
+router.get('/audit', requireRole(), getAuditLogs);
 
 export default router;
\ No newline at end of file
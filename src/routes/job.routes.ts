@@ -0,0 +1,17 @@
+// routes/job.routes.ts
+import express from 'express';
+import { requireJobAuth } from '../middleware/jobAuth';
+import { runScheduledJob } from '../controllers/job.controller';
+
+const router = express.Router();
+
+/**
+ * @route   GET|POST /api/jobs/:jobName/run
+ * @desc    Run a registered job (billing-status-update, payment-reminders, request-expiry, admin-digest, email-outbox)
+ * @access  Bearer JOB_TRIGGER_SECRET/CRON_SECRET or X-Job-Signature
+ * @query   dryRun? ("true" reports what would change without saving or emailing)
+ */
+router.get('/:jobName/run', requireJobAuth, runScheduledJob);
+router.post('/:jobName/run', requireJobAuth, runScheduledJob);
+
+export default router;
\ No newline at end of file
@@ -0,0 +1,23 @@
+// routes/notification.routes.ts
+import express from 'express';
+import { showUnsubscribePage, unsubscribe } from '../controllers/notification.controller';
+
+const router = express.Router();
+
+/**
+ * @route   GET /api/notifications/unsubscribe
+ * @desc    Confirmation page for the unsubscribe link in optional emails (does not unsubscribe by itself)
+ * @access  Public (signed token)
+ * @query   token
+ */
+router.get('/unsubscribe', showUnsubscribePage);
+
+/**
+ * @route   POST /api/notifications/unsubscribe
+ * @desc    One-click unsubscribe (List-Unsubscribe-Post from mail clients, or the confirmation page)
+ * @access  Public (signed token)
+ * @query   token
+ */
+router.post('/unsubscribe', unsubscribe);
+
+export default router;
\ No newline at end of file
@@ -0,0 +1,14 @@
+// routes/plan.routes.ts
+import express from 'express';
+import { getActivePlans } from '../controllers/plan.controller';
+
+const router = express.Router();
+
+/**
+ * @route   GET /api/plans
+ * @desc    Get the plans currently offered (slug, name, currency, prices per cycle in minor units, pages, features)
+ * @access  Public
+ */
+router.get('/', getActivePlans);
+
+export default router;
\ No newline at end of file
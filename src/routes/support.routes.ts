@@ -6,6 +6,7 @@ import {
   getUserSupportRequests,
   getSupportRequestById,
   getSupportRequestsByWebsite,
+  addSupportMessage,
 } from '../controllers/support.controller';
 import { supportRequestLimiter } from '../middleware/rateLimiter';
 
@@ -44,4 +45,12 @@ router.get('/website/:websiteId', getSupportRequestsByWebsite);
  */
 router.get('/:id', getSupportRequestById);
 
+/**
+ * @route   POST /api/support/:id/messages
+ * @desc    Reply to support request (reopens RESOLVED requests)
+ * @access  Private (User)
+ * @body    { body }
+ */
+router.post('/:id/messages', addSupportMessage);
+
 export default router;
\ No newline at end of file
@@ -7,6 +7,21 @@ import {
   getUserWebsiteById,
   getUserWebsitesByPlan  // Add this import
 } from '../controllers/user.controller';
+import {
+  getWebsiteInvoices,
+  getWebsiteInvoiceById,
+  downloadWebsiteInvoice,
+} from '../controllers/invoice.controller';
+import {
+  createWebsiteCheckout,
+  requestPlanChange,
+  getWebsitePlanChanges,
+  getBillingBalance,
+} from '../controllers/billing.controller';
+import {
+  getNotificationPreferences,
+  updateNotificationPreferences,
+} from '../controllers/notification.controller';
 import { requireAuth } from '../middleware/auth';
 
 const router = Router();
@@ -17,6 +32,15 @@ router.use(requireAuth);
 // Update current user's profile
 router.patch('/profile', updateUserProfile);
 
+// Get email notification preferences (optional emails only; billing notices are always sent)
+router.get('/notifications', getNotificationPreferences);
+
+// Turn optional email notifications on or off (body: paymentReminders)
+router.patch('/notifications', updateNotificationPreferences);
+
+// Get account credit and outstanding balance per currency, with recent ledger entries
+router.get('/billing/balance', getBillingBalance);
+
 // Get user's websites filtered by plan
 router.get('/websites/plan', getUserWebsitesByPlan);
 
@@ -26,6 +50,24 @@ router.get('/websites', getUserWebsites);
 // Get single website details
 router.get('/websites/:id', getUserWebsiteById);
 
+// Pay the outstanding balance of a website
+router.post('/websites/:id/checkout', createWebsiteCheckout);
+
+// Request a plan change (body: plan, billingCycle?, timing?: IMMEDIATE | NEXT_CYCLE, note?)
+router.post('/websites/:id/billing/change-plan', requestPlanChange);
+
+// Get plan changes of a website
+router.get('/websites/:id/billing/plan-changes', getWebsitePlanChanges);
+
+// Get invoices of a website
+router.get('/websites/:id/invoices', getWebsiteInvoices);
+
+// Download invoice/receipt as PDF (or HTML); must precede the plain :invoiceId route
+router.get('/websites/:id/invoices/:invoiceId.:format(pdf|html)', downloadWebsiteInvoice);
+
+// Get single invoice of a website
+router.get('/websites/:id/invoices/:invoiceId', getWebsiteInvoiceById);
+
 // Get user by ID
 router.get('/:id', getUserById);
 
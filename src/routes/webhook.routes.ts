@@ -0,0 +1,17 @@
+// routes/webhook.routes.ts
+import express from 'express';
+import { handlePaymentWebhook } from '../controllers/webhook.controller';
+
+const router = express.Router();
+
+// Signatures are computed over the exact request bytes, so keep the body raw
+router.use(express.raw({ type: '*/*', limit: '1mb' }));
+
+/**
+ * @route   POST /api/webhooks/payments
+ * @desc    Apply payment_succeeded / payment_failed events from the payment provider
+ * @access  Public (provider signature required)
+ */
+router.post('/payments', handlePaymentWebhook);
+
+export default router;
\ No newline at end of file
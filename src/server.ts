@@ -8,30 +8,55 @@ import 'express-async-errors';
 
 // Import configurations
 import connectDatabase from './config/database';
+import { ensureBootstrapOwner } from './utils/adminUtils';
+import { isStrongPassword } from './utils/passwordUtils';
+import { migrateAmountsToMinorUnits } from './utils/currencyMigration';
+import { backfillInvoiceVoidedFlags } from './utils/invoiceUtils';
+import { getEmailTransportName } from './utils/emailTransport';
+import { seedEmailTemplates } from './utils/emailTemplateUtils';
 
 // Import routes
 import authRoutes from './routes/auth.routes';
 import userRoutes from './routes/user.routes';
 import requestRoutes from './routes/request.routes';
 import supportRoutes from './routes/support.routes';
+import adminAuthRoutes from './routes/admin.auth.routes';
 import adminRoutes from './routes/admin.routes';
+import webhookRoutes from './routes/webhook.routes';
+import jobRoutes from './routes/job.routes';
+import notificationRoutes from './routes/notification.routes';
+import planRoutes from './routes/plan.routes';
 
 // Import middleware
 import { errorHandler, notFound } from './middleware/errorHandler';
 
 // 🔥 Import billing cron job
-import { startBillingCron, startHourlyBillingCheck } from './jobs/billingCron';
+import { startBillingCron, startHourlyBillingCheck, runMissedBillingJobs } from './jobs/billingCron';
+import { startMaintenanceCron } from './jobs/jobRegistry';
 
 // Load environment variables
 dotenv.config();
 
-// Validate required environment variables
+// Validate required environment variables (the email transport's and payment provider's settings
+// depend on EMAIL_TRANSPORT and PAYMENT_PROVIDER; unsubscribe links need the public API URL and
+// their own signing key in production)
+const emailTransportEnvVars: Record<string, string[]> = {
+  resend: ['RESEND_API_KEY'],
+  smtp: ['SMTP_HOST'],
+};
+
+const paymentProviderEnvVars: Record<string, string[]> = {
+  stripe: ['STRIPE_SECRET_KEY', 'STRIPE_WEBHOOK_SECRET'],
+  fake: ['PAYMENT_WEBHOOK_SECRET'],
+};
+
 const requiredEnvVars = [
   'MONGODB_URI',
   'CLERK_SECRET_KEY',
-  'RESEND_API_KEY',
-  'ADMIN_USERNAME',
-  'ADMIN_PASSWORD',
+  'PAYMENT_PROVIDER',
+  ...(emailTransportEnvVars[getEmailTransportName()] || []),
+  ...(paymentProviderEnvVars[process.env.PAYMENT_PROVIDER || ''] || []),
+  ...(process.env.NODE_ENV === 'production' ? ['API_URL', 'UNSUBSCRIBE_SECRET'] : []),
 ];
 
 const missingEnvVars = requiredEnvVars.filter(
@@ -46,16 +71,50 @@ if (missingEnvVars.length > 0) {
   process.exit(1);
 }
 
+// The payment provider has no default; fake payments are for local development only
+if (!paymentProviderEnvVars[process.env.PAYMENT_PROVIDER || '']
+  || (process.env.PAYMENT_PROVIDER === 'fake' && process.env.NODE_ENV === 'production')) {
+  console.error('❌ PAYMENT_PROVIDER must be "stripe" (or "fake" outside production)');
+  process.exit(1);
+}
+
+// Bootstrap admin credentials are optional, but must be strong when set
+if (process.env.ADMIN_USERNAME && process.env.ADMIN_PASSWORD && !isStrongPassword(process.env.ADMIN_PASSWORD)) {
+  console.error('⚠️  ADMIN_PASSWORD must be at least 12 characters');
+  process.exit(1);
+}
+
 // Create Express app
 const app: Application = express();
 
-// Connect to database
-connectDatabase();
+// 🔥 PHASE 3: Billing automation runs in-process unless serverless
+const billingCronEnabled = process.env.NODE_ENV !== 'production' || !process.env.VERCEL;
+
+// Connect to database, then create the first owner account if needed,
+// convert amounts stored before multi-currency billing to minor units,
+// flag invoices stored before the voided field existed,
+// store the built-in email templates and catch up on a daily billing run
+// missed while the server was down
+connectDatabase()
+  .then(ensureBootstrapOwner)
+  .then(migrateAmountsToMinorUnits)
+  .then(backfillInvoiceVoidedFlags)
+  .then(seedEmailTemplates)
+  .then(() => {
+    if (billingCronEnabled) {
+      return runMissedBillingJobs();
+    }
+  })
+  .catch((error) => {
+    console.error('❌ Startup tasks failed:', error);
+  });
 
-// 🔥 PHASE 3: Start billing automation
-if (process.env.NODE_ENV !== 'production' || !process.env.VERCEL) {
+if (billingCronEnabled) {
   // Start daily billing check (runs at 2 AM)
   startBillingCron();
+
+  // Request expiry, admin digest and email outbox
+  startMaintenanceCron();
   
   // Optional: Start hourly check for more frequent updates
   // startHourlyBillingCheck();
@@ -63,9 +122,16 @@ if (process.env.NODE_ENV !== 'production' || !process.env.VERCEL) {
   console.log('✅ Billing automation initialized');
 }
 
+// Use the client IP from the proxy (Vercel) for admin login lockout
+app.set('trust proxy', 1);
+
 // Security middleware
 app.use(helmet());
 
+// Unsubscribe links are opened from mail clients and their confirmation form posts
+// from the API's own origin, so they are mounted before CORS (they only take a signed token)
+app.use('/api/notifications', notificationRoutes);
+
 // CORS configuration
 const allowedOrigins = [
   process.env.FRONTEND_URL,
@@ -87,6 +153,9 @@ app.use(
   })
 );
 
+// Webhooks need the raw body for signature checks, so mount them before the body parsers
+app.use('/api/webhooks', webhookRoutes);
+
 // Body parser middleware
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
@@ -104,7 +173,10 @@ app.get('/health', (req, res) => {
     timestamp: new Date().toISOString(),
     environment: process.env.NODE_ENV,
     billing: {
-      cronActive: process.env.NODE_ENV !== 'production' || !process.env.VERCEL,
+      cronActive: billingCronEnabled,
+    },
+    email: {
+      transport: getEmailTransportName(),
     },
   });
 });
@@ -114,25 +186,10 @@ app.use('/api/auth', authRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/requests', requestRoutes);
 app.use('/api/support', supportRoutes);
+app.use('/api/plans', planRoutes);
+app.use('/api/admin/auth', adminAuthRoutes);
 app.use('/api/admin', adminRoutes);
-
-// 🔥 Manual billing check endpoint (for testing/manual trigger)
-app.post('/api/admin/billing/check', async (req, res) => {
-  try {
-    const { updateBillingStatuses } = require('./jobs/billingCron');
-    await updateBillingStatuses();
-    res.status(200).json({
-      success: true,
-      message: 'Billing status check completed',
-    });
-  } catch (error) {
-    console.error('Manual billing check failed:', error);
-    res.status(500).json({
-      success: false,
-      error: 'Failed to run billing check',
-    });
-  }
-});
+app.use('/api/jobs', jobRoutes);
 
 // 404 handler
 app.use(notFound);
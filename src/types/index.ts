@@ -1,5 +1,6 @@
 // types/index.ts
 import { Request } from 'express';
+import { AdminRole } from '../models/Admin';
 
 export interface AuthRequest extends Request {
   auth?: {
@@ -10,7 +11,10 @@ export interface AuthRequest extends Request {
 
 export interface AdminRequest extends Request {
   admin?: {
+    id: string;
     username: string;
+    role: AdminRole;
+    sessionId?: string;
     authenticatedAt: Date;
   };
 }
@@ -47,6 +51,7 @@ export interface CreateWebsiteRequestDTO {
   referenceLinks?: string[];
   recommendedTemplate?: string;
   selectedPlan?: string;
+  couponCode?: string;
 }
 
 export interface UpdateWebsiteRequestDTO {
@@ -65,7 +70,7 @@ export interface UpdateWebsiteRequestDTO {
 
 // Admin DTOs - Request Management
 export interface UpdateRequestStatusDTO {
-  status: 'PENDING' | 'IN_REVIEW' | 'CONTACTED' | 'APPROVED' | 'REJECTED';
+  status: 'PENDING' | 'IN_REVIEW' | 'CONTACTED' | 'APPROVED' | 'REJECTED' | 'EXPIRED';
   internalNotes?: string;
 }
 
@@ -96,11 +101,17 @@ export interface UpdateWebsiteDTO {
     completed: boolean;
     completedAt?: Date;
   }>;
+  // Only used when status transitions to DEPLOYED
+  billingPlan?: string; // Catalog plan slug; price comes from the catalog
+  billingCycle?: 'monthly' | 'quarterly' | 'yearly';
 }
 
 export interface UpdateWebsiteStatusDTO {
   status: 'CREATED' | 'IN_PROGRESS' | 'REVIEW' | 'COMPLETED' | 'DEPLOYED' | 'CANCELLED';
   notes?: string;
+  // Only used when status transitions to DEPLOYED
+  billingPlan?: string; // Catalog plan slug; price comes from the catalog
+  billingCycle?: 'monthly' | 'quarterly' | 'yearly';
 }
 
 export interface AddMilestoneDTO {
@@ -0,0 +1,187 @@
+// utils/__tests__/emailService.test.ts
+import { IWebsiteRequest } from '../../models/WebsiteRequest';
+import { IWebsite } from '../../models/Website';
+import { ISupportRequest } from '../../models/SupportRequest';
+import { IInvoice, InvoiceStatus } from '../../models/Invoice';
+import { OutboxEmail, enqueueEmail } from '../emailOutboxUtils';
+import {
+  sendAdminDigestEmail,
+  sendAdminNotificationEmail,
+  sendBillingActivatedEmail,
+  sendBillingOverdueEmail,
+  sendBillingSuspensionEmail,
+  sendClientApprovalEmail,
+  sendPaymentConfirmationEmail,
+  sendPaymentReminderEmail,
+  sendRequestNotificationEmail,
+  sendSupportRequestAdminEmail,
+  sendSupportRequestUserEmail,
+  sendSupportResolvedEmail,
+} from '../emailService';
+
+// Queue nothing; the rendered email is read from the mock
+jest.mock('../emailOutboxUtils', () => ({
+  enqueueEmail: jest.fn(async (email) => email),
+}));
+
+// No stored templates, so the built-in defaults render
+jest.mock('../../models/EmailTemplate', () => ({
+  __esModule: true,
+  default: { findOne: jest.fn(() => ({ lean: async () => null })) },
+}));
+
+// Clients have no saved preferences, so reminders are enabled
+jest.mock('../../models/User', () => ({
+  __esModule: true,
+  default: { findOne: jest.fn(() => ({ select: () => ({ lean: async () => null }) })) },
+}));
+
+const HOSTILE = {
+  projectName: '<script>alert("projectName")</script>',
+  description: '<img src=x onerror=alert("description")>',
+  contactName: '"><svg onload=alert("contactName")>',
+  subject: '<iframe src="javascript:alert(\'subject\')"></iframe>',
+  message: '</div><a href="javascript:alert(\'message\')">click</a>',
+  deploymentUrl: 'javascript:alert("deploymentUrl")',
+  referenceLinks: [
+    'javascript:alert("referenceLink")',
+    'data:text/html,<script>alert("referenceLink")</script>',
+    'https://example.com/inspiration',
+  ],
+};
+
+const request = {
+  _id: 'request-1',
+  userId: 'user_1',
+  projectName: HOSTILE.projectName,
+  projectType: 'business',
+  description: HOSTILE.description,
+  contactName: HOSTILE.contactName,
+  contactEmail: 'client@example.com',
+  contactPhone: '+1 (555) 010-0000',
+  features: ['<b onmouseover=alert("feature")>Blog</b>'],
+  referenceLinks: HOSTILE.referenceLinks,
+  status: 'PENDING',
+  createdAt: new Date(),
+  editableUntil: new Date(),
+} as unknown as IWebsiteRequest;
+
+const website = {
+  _id: 'website-1',
+  name: HOSTILE.projectName,
+  status: 'DEPLOYED',
+  deploymentUrl: HOSTILE.deploymentUrl,
+  billing: {
+    plan: 'basic',
+    price: 4900,
+    currency: 'USD',
+    billingCycle: 'monthly',
+    dueAt: new Date(),
+    graceEndsAt: new Date(),
+  },
+} as unknown as IWebsite;
+
+const supportRequest = {
+  _id: 'support-1',
+  userId: 'user_1',
+  category: 'GENERAL',
+  subject: HOSTILE.subject,
+  message: HOSTILE.message,
+  status: 'OPEN',
+  createdAt: new Date(),
+} as unknown as ISupportRequest;
+
+const invoice = {
+  number: 'INV-0001',
+  status: InvoiceStatus.PAID,
+  total: 4900,
+  amountPaid: 4900,
+  currency: 'USD',
+} as unknown as IInvoice;
+
+const SENDERS: [string, () => Promise<unknown>][] = [
+  ['sendRequestNotificationEmail', () => sendRequestNotificationEmail(request)],
+  ['sendAdminNotificationEmail', () => sendAdminNotificationEmail(request)],
+  ['sendAdminDigestEmail', () => sendAdminDigestEmail({
+    since: new Date(),
+    newRequests: [request],
+    pendingRequests: 1,
+    expiredRequests: 0,
+    openSupportRequests: 1,
+    overdueWebsites: 0,
+    suspendedWebsites: 0,
+    dueSoonWebsites: 1,
+  })],
+  ['sendClientApprovalEmail', () => sendClientApprovalEmail(request, website)],
+  ['sendBillingActivatedEmail', () => sendBillingActivatedEmail(request, website)],
+  ['sendPaymentConfirmationEmail', () => sendPaymentConfirmationEmail(request, website, invoice, 4900, Buffer.from(''))],
+  ['sendPaymentReminderEmail', () => sendPaymentReminderEmail(request, website, 3)],
+  ['sendBillingSuspensionEmail', () => sendBillingSuspensionEmail(request, website)],
+  ['sendBillingOverdueEmail', () => sendBillingOverdueEmail(request, website)],
+  ['sendSupportRequestAdminEmail', () => sendSupportRequestAdminEmail(supportRequest, website, request)],
+  ['sendSupportRequestUserEmail', () => sendSupportRequestUserEmail(supportRequest, website, request)],
+  ['sendSupportResolvedEmail', () => sendSupportResolvedEmail(supportRequest, website, request)],
+];
+
+const enqueueEmailMock = enqueueEmail as jest.MockedFunction<typeof enqueueEmail>;
+
+const renderQueuedEmail = async (send: () => Promise<unknown>): Promise<OutboxEmail> => {
+  enqueueEmailMock.mockClear();
+  await send();
+
+  expect(enqueueEmailMock).toHaveBeenCalledTimes(1);
+  return enqueueEmailMock.mock.calls[0][0];
+};
+
+describe('email senders with hostile input', () => {
+  beforeAll(() => {
+    process.env.ADMIN_EMAIL = 'admin@example.com';
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it.each(SENDERS)('%s escapes user input in the HTML body', async (_name, send) => {
+    const { html } = await renderQueuedEmail(send);
+
+    expect(html).not.toMatch(/<(script|img|svg|iframe)\b/i);
+    expect(html).not.toMatch(/<b\b/i);
+    expect(html).not.toMatch(/\son\w+\s*=/i);
+
+    for (const value of [HOSTILE.projectName, HOSTILE.description, HOSTILE.contactName, HOSTILE.subject, HOSTILE.message]) {
+      expect(html).not.toContain(value);
+    }
+  });
+
+  it.each(SENDERS)('%s only links to http(s), mailto: and tel: URLs', async (_name, send) => {
+    const { html } = await renderQueuedEmail(send);
+    const hrefs = Array.from(html.matchAll(/\bhref\s*=\s*"([^"]*)"/gi), (match) => match[1]);
+
+    for (const href of hrefs) {
+      expect(href).toMatch(/^(https?:|mailto:|tel:)/i);
+    }
+    expect(html).not.toMatch(/href\s*=\s*["']?\s*(javascript|data):/i);
+  });
+
+  it('shows unsafe reference links as text and links the safe one', async () => {
+    const { html } = await renderQueuedEmail(() => sendAdminNotificationEmail(request));
+
+    expect(html).toContain('href="https://example.com/inspiration"');
+    expect(html).toContain('javascript:alert(&quot;referenceLink&quot;)');
+    expect(html).toContain('data:text/html,&lt;script&gt;alert(&quot;referenceLink&quot;)&lt;/script&gt;');
+  });
+
+  it('escapes the project name where it is shown', async () => {
+    const { html } = await renderQueuedEmail(() => sendRequestNotificationEmail(request));
+
+    expect(html).toContain('&lt;script&gt;alert(&quot;projectName&quot;)&lt;/script&gt;');
+  });
+
+  it('does not link a javascript: deployment URL', async () => {
+    const { html } = await renderQueuedEmail(() => sendBillingActivatedEmail(request, website));
+
+    expect(html).not.toContain('deploymentUrl');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,159 @@
+// utils/__tests__/ledgerUtils.test.ts
+import LedgerEntry, { LedgerEntryType } from '../../models/LedgerEntry';
+import Invoice, { IInvoice, InvoiceStatus } from '../../models/Invoice';
+import { BillingStatus, IWebsite } from '../../models/Website';
+import { acquireJobLock } from '../../jobs/jobRunner';
+import { getOutstandingBalance } from '../invoiceUtils';
+import { applyAccountCredit } from '../ledgerUtils';
+
+// Locks are held in memory, as JobLock would hold them across instances
+const mockLocks = new Set<string>();
+
+jest.mock('../../jobs/jobRunner', () => ({
+  acquireJobLock: jest.fn(async (name: string) => {
+    if (mockLocks.has(name)) {
+      return null;
+    }
+    mockLocks.add(name);
+    return 'owner';
+  }),
+  releaseJobLock: jest.fn(async (name: string) => {
+    mockLocks.delete(name);
+  }),
+}));
+
+jest.mock('../../models/LedgerEntry', () => ({
+  ...jest.requireActual('../../models/LedgerEntry'),
+  __esModule: true,
+  default: { aggregate: jest.fn(), create: jest.fn() },
+}));
+
+jest.mock('../../models/Invoice', () => ({
+  ...jest.requireActual('../../models/Invoice'),
+  __esModule: true,
+  default: { find: jest.fn(), exists: jest.fn() },
+}));
+
+jest.mock('../invoiceUtils', () => ({
+  ...jest.requireActual('../invoiceUtils'),
+  getOutstandingBalance: jest.fn(),
+  generateCycleInvoice: jest.fn(),
+}));
+
+const ledgerMock = LedgerEntry as unknown as { aggregate: jest.Mock; create: jest.Mock };
+const invoiceMock = Invoice as unknown as { find: jest.Mock; exists: jest.Mock };
+const outstandingMock = getOutstandingBalance as jest.MockedFunction<typeof getOutstandingBalance>;
+
+// Ledger entries recorded so far; the credit balance is derived from them like the aggregate does
+let entries: { type: LedgerEntryType; amount: number }[] = [];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const makeInvoice = (number: string, total: number, dueAt: Date): IInvoice => ({
+  _id: `invoice-${number}`,
+  number,
+  total,
+  amountPaid: 0,
+  currency: 'USD',
+  status: InvoiceStatus.OPEN,
+  dueAt,
+  periodStart: dueAt,
+  save: jest.fn(),
+} as unknown as IInvoice);
+
+const makeWebsite = (id: string, status: BillingStatus, dueAt: Date): IWebsite => ({
+  _id: id,
+  userId: 'user_1',
+  name: `Website ${id}`,
+  billing: { status, dueAt, currency: 'USD', billingCycle: 'monthly', price: 4900 },
+  save: jest.fn(),
+} as unknown as IWebsite);
+
+const useOpenInvoices = (byWebsite: Record<string, IInvoice[]>) => {
+  invoiceMock.find.mockImplementation((query: { websiteId: string }) => ({
+    sort: async () => (byWebsite[query.websiteId] || []).filter((invoice) => invoice.status === InvoiceStatus.OPEN),
+  }));
+};
+
+describe('applyAccountCredit', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockLocks.clear();
+    entries = [{ type: LedgerEntryType.CREDIT, amount: 6000 }];
+
+    ledgerMock.aggregate.mockImplementation(async () => [{
+      credit: entries.reduce((sum, entry) => sum + (entry.type === LedgerEntryType.CREDIT ? entry.amount : -entry.amount), 0),
+    }]);
+    ledgerMock.create.mockImplementation(async (entry) => {
+      entries.push(entry);
+      return entry;
+    });
+    invoiceMock.exists.mockResolvedValue(null);
+    outstandingMock.mockResolvedValue(1);
+  });
+
+  it('spends credit on open invoices oldest first and records each amount as a debit', async () => {
+    const website = makeWebsite('website-1', BillingStatus.OVERDUE, new Date(Date.now() - 40 * DAY_MS));
+    const older = makeInvoice('INV-0001', 4900, new Date(Date.now() - 40 * DAY_MS));
+    const newer = makeInvoice('INV-0002', 4900, new Date(Date.now() - 10 * DAY_MS));
+    useOpenInvoices({ 'website-1': [older, newer] });
+
+    const applied = await applyAccountCredit(website);
+
+    expect(applied).toBe(6000);
+    expect(older.status).toBe(InvoiceStatus.PAID);
+    expect(newer.status).toBe(InvoiceStatus.OPEN);
+    expect(newer.amountPaid).toBe(1100);
+    expect(ledgerMock.create.mock.calls.map(([entry]) => [entry.type, entry.amount, entry.invoiceId])).toEqual([
+      [LedgerEntryType.DEBIT, 4900, 'invoice-INV-0001'],
+      [LedgerEntryType.DEBIT, 1100, 'invoice-INV-0002'],
+    ]);
+    expect(website.billing.status).toBe(BillingStatus.OVERDUE);
+  });
+
+  it('rolls the due date over the period it paid and reactivates billing once nothing is owed', async () => {
+    const dueAt = new Date(Date.now() - DAY_MS);
+    const website = makeWebsite('website-1', BillingStatus.OVERDUE, dueAt);
+    useOpenInvoices({ 'website-1': [makeInvoice('INV-0001', 4900, dueAt)] });
+    invoiceMock.exists.mockResolvedValueOnce({ _id: 'invoice-INV-0001' });
+    outstandingMock.mockResolvedValue(0);
+
+    const applied = await applyAccountCredit(website);
+
+    expect(applied).toBe(4900);
+    expect(website.billing.dueAt!.getTime()).toBeGreaterThan(Date.now());
+    expect(website.billing.status).toBe(BillingStatus.ACTIVE);
+    expect(website.save).toHaveBeenCalled();
+  });
+
+  it('never spends the same credit twice when called concurrently', async () => {
+    entries = [{ type: LedgerEntryType.CREDIT, amount: 4900 }];
+    const dueAt = new Date(Date.now() - 10 * DAY_MS);
+    useOpenInvoices({
+      'website-1': [makeInvoice('INV-0001', 4900, dueAt)],
+      'website-2': [makeInvoice('INV-0002', 4900, dueAt)],
+    });
+
+    const applied = await Promise.all([
+      applyAccountCredit(makeWebsite('website-1', BillingStatus.OVERDUE, dueAt)),
+      applyAccountCredit(makeWebsite('website-2', BillingStatus.OVERDUE, dueAt)),
+    ]);
+
+    expect(applied[0] + applied[1]).toBe(4900);
+    const debited = entries
+      .filter((entry) => entry.type === LedgerEntryType.DEBIT)
+      .reduce((sum, entry) => sum + entry.amount, 0);
+    expect(debited).toBe(4900);
+  });
+
+  it('leaves the credit alone while another spend holds the lock', async () => {
+    mockLocks.add('account-credit:user_1');
+    useOpenInvoices({ 'website-1': [makeInvoice('INV-0001', 4900, new Date())] });
+
+    const applied = await applyAccountCredit(makeWebsite('website-1', BillingStatus.OVERDUE, new Date()));
+
+    expect(applied).toBe(0);
+    expect(acquireJobLock).toHaveBeenCalledWith('account-credit:user_1', expect.any(Number));
+    expect(ledgerMock.create).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,179 @@
+// utils/__tests__/paymentUtils.test.ts
+import Invoice, { IInvoice, InvoiceStatus } from '../../models/Invoice';
+import { BillingStatus, IWebsite } from '../../models/Website';
+import { ReinstatementDueDateBasis } from '../../models/BillingPolicy';
+import { DEFAULT_BILLING_POLICY, getBillingPolicy, ResolvedBillingPolicy } from '../billingPolicyUtils';
+import { calculateNextDueDate } from '../billingUtils';
+import { generateCycleInvoice, getInvoiceBalance, getOutstandingBalance } from '../invoiceUtils';
+import { sendPaymentConfirmationEmail } from '../emailService';
+import { recordWebsitePayment } from '../paymentUtils';
+
+jest.mock('../../models/Website', () => ({
+  ...jest.requireActual('../../models/Website'),
+  __esModule: true,
+  default: { exists: jest.fn(async () => null) },
+}));
+
+jest.mock('../../models/WebsiteRequest', () => ({
+  __esModule: true,
+  default: { findById: jest.fn(async () => ({ contactEmail: 'client@example.com' })) },
+}));
+
+jest.mock('../../models/Invoice', () => ({
+  ...jest.requireActual('../../models/Invoice'),
+  __esModule: true,
+  default: { find: jest.fn(), exists: jest.fn(async () => null) },
+}));
+
+jest.mock('../billingPolicyUtils', () => ({
+  ...jest.requireActual('../billingPolicyUtils'),
+  getBillingPolicy: jest.fn(),
+}));
+
+jest.mock('../invoiceUtils', () => ({
+  ...jest.requireActual('../invoiceUtils'),
+  generateCycleInvoice: jest.fn(),
+  getOutstandingBalance: jest.fn(),
+}));
+
+jest.mock('../invoiceRenderer', () => ({
+  renderInvoicePdf: jest.fn(() => Buffer.from('')),
+}));
+
+jest.mock('../emailService', () => ({
+  sendPaymentConfirmationEmail: jest.fn(),
+}));
+
+// No replica set here: run the transaction's work directly
+jest.mock('../emailOutboxUtils', () => ({
+  withEmailTransaction: jest.fn(async (work) => work('session')),
+}));
+
+jest.mock('../ledgerUtils', () => ({
+  addLedgerEntry: jest.fn(),
+  getCreditBalance: jest.fn(),
+  getUnusedPaymentCredit: jest.fn(),
+}));
+
+const invoiceMock = Invoice as unknown as { find: jest.Mock };
+const policyMock = getBillingPolicy as jest.MockedFunction<typeof getBillingPolicy>;
+const outstandingMock = getOutstandingBalance as jest.MockedFunction<typeof getOutstandingBalance>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PRICE = 4900;
+
+const makeInvoice = (number: string, dueAt: Date): IInvoice => ({
+  _id: `invoice-${number}`,
+  number,
+  total: PRICE,
+  amountPaid: 0,
+  currency: 'USD',
+  status: InvoiceStatus.OPEN,
+  dueAt,
+  save: jest.fn(),
+} as unknown as IInvoice);
+
+const makeWebsite = (dueAt: Date): IWebsite => ({
+  _id: 'website-1',
+  userId: 'user_1',
+  requestId: 'request-1',
+  name: 'Website',
+  billing: {
+    status: BillingStatus.SUSPENDED,
+    suspendedAt: new Date(),
+    dueAt,
+    plan: 'basic',
+    price: PRICE,
+    currency: 'USD',
+    billingCycle: 'monthly',
+    paymentHistory: [],
+  },
+  save: jest.fn(),
+} as unknown as IWebsite);
+
+const usePolicy = (reinstatement: Partial<ResolvedBillingPolicy['reinstatement']>) => {
+  policyMock.mockResolvedValue({
+    ...DEFAULT_BILLING_POLICY,
+    reinstatement: { ...DEFAULT_BILLING_POLICY.reinstatement, ...reinstatement },
+  });
+};
+
+describe('recordWebsitePayment with partial payments', () => {
+  const dueAt = new Date(Date.now() - 60 * DAY_MS);
+  let invoices: IInvoice[];
+  let website: IWebsite;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    invoices = [
+      makeInvoice('INV-0001', dueAt),
+      makeInvoice('INV-0002', calculateNextDueDate(dueAt, 'monthly')),
+      makeInvoice('INV-0003', calculateNextDueDate(calculateNextDueDate(dueAt, 'monthly'), 'monthly')),
+    ];
+    website = makeWebsite(dueAt);
+
+    invoiceMock.find.mockReturnValue({ sort: async () => invoices });
+    outstandingMock.mockImplementation(async () => invoices
+      .filter((invoice) => invoice.status === InvoiceStatus.OPEN)
+      .reduce((sum, invoice) => sum + getInvoiceBalance(invoice), 0));
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('keeps the website suspended until the full balance is paid by default', async () => {
+    usePolicy({});
+
+    const result = await recordWebsitePayment(website, { amount: PRICE, method: 'card', transactionId: 'txn_1' });
+
+    expect(result.success).toBe(true);
+    expect(invoices.map((invoice) => invoice.status)).toEqual([
+      InvoiceStatus.PAID,
+      InvoiceStatus.OPEN,
+      InvoiceStatus.OPEN,
+    ]);
+    expect(website.billing.status).toBe(BillingStatus.SUSPENDED);
+    expect(website.billing.dueAt).toEqual(dueAt);
+    expect(website.billing.paymentHistory).toHaveLength(1);
+    expect(website.billing.paymentHistory![0].allocations).toEqual([{ invoiceId: 'invoice-INV-0001', amount: PRICE }]);
+    expect(generateCycleInvoice).not.toHaveBeenCalled();
+    expect(sendPaymentConfirmationEmail).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not reinstate on a payment that leaves the oldest invoice open', async () => {
+    usePolicy({ requireFullBalance: false });
+
+    await recordWebsitePayment(website, { amount: 2000, method: 'card', transactionId: 'txn_1' });
+
+    expect(invoices[0].status).toBe(InvoiceStatus.OPEN);
+    expect(invoices[0].amountPaid).toBe(2000);
+    expect(website.billing.status).toBe(BillingStatus.SUSPENDED);
+    expect(website.billing.dueAt).toEqual(dueAt);
+  });
+
+  it('moves the due date forward only by the cycles a partial payment settled', async () => {
+    usePolicy({ requireFullBalance: false, dueDateBasis: ReinstatementDueDateBasis.PREVIOUS_DUE_DATE });
+
+    await recordWebsitePayment(website, { amount: PRICE + 1000, method: 'card', transactionId: 'txn_1' });
+
+    expect(invoices[0].status).toBe(InvoiceStatus.PAID);
+    expect(invoices[1].amountPaid).toBe(1000);
+    expect(website.billing.status).toBe(BillingStatus.ACTIVE);
+    expect(website.billing.dueAt).toEqual(calculateNextDueDate(dueAt, 'monthly'));
+  });
+
+  it('reinstates and starts a new cycle once everything owed is paid', async () => {
+    usePolicy({});
+    const before = Date.now();
+
+    await recordWebsitePayment(website, { amount: 3 * PRICE, method: 'card', transactionId: 'txn_1' });
+
+    expect(invoices.every((invoice) => invoice.status === InvoiceStatus.PAID)).toBe(true);
+    expect(website.billing.status).toBe(BillingStatus.ACTIVE);
+    expect(website.billing.suspendedAt).toBeUndefined();
+    expect(website.billing.dueAt!.getTime()).toBeGreaterThanOrEqual(calculateNextDueDate(new Date(before), 'monthly').getTime());
+  });
+});
\ No newline at end of file
@@ -0,0 +1,194 @@
+// utils/adminSessionUtils.ts
+import crypto from 'crypto';
+import Admin, { IAdmin } from '../models/Admin';
+import AdminSession, { IAdminSession } from '../models/AdminSession';
+import LoginAttempt from '../models/LoginAttempt';
+import { hashPassword, verifyPassword } from './passwordUtils';
+
+// Lockout policy
+const MAX_FAILED_ATTEMPTS = 5;
+const FAILURE_WINDOW_MS = 15 * 60 * 1000; // Failures are counted over 15 minutes
+const LOCKOUT_DURATION_MS = 15 * 60 * 1000; // 15 minute lockout
+
+/**
+ * Session lifetime (ADMIN_SESSION_TTL_HOURS, default 12 hours)
+ */
+const getSessionTtlMs = (): number => {
+  const hours = Number(process.env.ADMIN_SESSION_TTL_HOURS) || 12;
+  return hours * 60 * 60 * 1000;
+};
+
+/**
+ * Hash a bearer token for storage/lookup
+ */
+export const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+// Verified against when the username is unknown so response time doesn't leak account existence
+let dummyPasswordHash: Promise<string> | null = null;
+const getDummyPasswordHash = (): Promise<string> => {
+  if (!dummyPasswordHash) {
+    dummyPasswordHash = hashPassword(crypto.randomBytes(16).toString('hex'));
+  }
+  return dummyPasswordHash;
+};
+
+const getLockoutKeys = (username: string, ip?: string): string[] => {
+  const keys = [`username:${username.toLowerCase().trim()}`];
+  if (ip) {
+    keys.push(`ip:${ip}`);
+  }
+  return keys;
+};
+
+/**
+ * Get the time until which a username or IP is locked out (if any)
+ */
+export const getLockedUntil = async (
+  username: string,
+  ip?: string
+): Promise<Date | null> => {
+  const attempt = await LoginAttempt.findOne({
+    key: { $in: getLockoutKeys(username, ip) },
+    lockedUntil: { $gt: new Date() },
+  }).sort({ lockedUntil: -1 });
+
+  return attempt?.lockedUntil || null;
+};
+
+/**
+ * Count a failed login against both the username and the IP
+ *
+ * The counter is incremented atomically, so parallel attempts can't overwrite
+ * each other's failures and slip past the limit.
+ */
+export const recordFailedLogin = async (username: string, ip?: string): Promise<void> => {
+  const now = new Date();
+
+  for (const key of getLockoutKeys(username, ip)) {
+    // Start a new window if the previous one has lapsed (the TTL index may not have run yet)
+    await LoginAttempt.deleteOne({ key, expiresAt: { $lt: now } });
+
+    const countFailure = () => LoginAttempt.findOneAndUpdate(
+      { key },
+      {
+        $inc: { failures: 1 },
+        $set: { expiresAt: new Date(now.getTime() + FAILURE_WINDOW_MS) },
+      },
+      { new: true, upsert: true }
+    );
+
+    // Parallel first failures can race to insert the counter; the loser retries as an update
+    const attempt = await countFailure().catch((error) => {
+      if (error.code === 11000) {
+        return countFailure();
+      }
+      throw error;
+    });
+
+    if (attempt.failures >= MAX_FAILED_ATTEMPTS) {
+      const lockedUntil = new Date(now.getTime() + LOCKOUT_DURATION_MS);
+      await LoginAttempt.updateOne({ key }, { $set: { lockedUntil, expiresAt: lockedUntil } });
+      console.warn(`⚠️  Admin login locked for ${key} until ${lockedUntil.toISOString()}`);
+    }
+  }
+};
+
+/**
+ * Reset the failure counter for a username after a successful login
+ */
+export const clearFailedLogins = async (username: string): Promise<void> => {
+  await LoginAttempt.deleteOne({ key: `username:${username.toLowerCase().trim()}` });
+};
+
+/**
+ * Verify admin credentials with lockout enforcement
+ */
+export const authenticateAdmin = async (
+  username: string,
+  password: string,
+  ip?: string
+): Promise<
+  | { admin: IAdmin; lockedUntil?: undefined }
+  | { admin: null; lockedUntil?: Date }
+> => {
+  const lockedUntil = await getLockedUntil(username, ip);
+
+  if (lockedUntil) {
+    return { admin: null, lockedUntil };
+  }
+
+  const admin = await Admin.findOne({
+    username: username.toLowerCase().trim(),
+    isActive: true,
+  }).select('+passwordHash');
+
+  const passwordMatch = await verifyPassword(
+    password,
+    admin ? admin.passwordHash : await getDummyPasswordHash()
+  );
+
+  if (!admin || !passwordMatch) {
+    await recordFailedLogin(username, ip);
+    return { admin: null };
+  }
+
+  await clearFailedLogins(username);
+
+  return { admin };
+};
+
+/**
+ * Issue a new opaque session token for an admin
+ */
+export const createAdminSession = async (
+  admin: IAdmin,
+  ip?: string,
+  userAgent?: string
+): Promise<{ token: string; session: IAdminSession }> => {
+  const token = crypto.randomBytes(32).toString('base64url');
+
+  const session = await AdminSession.create({
+    adminId: admin._id,
+    tokenHash: hashToken(token),
+    ip,
+    userAgent,
+    expiresAt: new Date(Date.now() + getSessionTtlMs()),
+  });
+
+  admin.lastLoginAt = new Date();
+  await admin.save();
+
+  return { token, session };
+};
+
+/**
+ * Resolve a bearer token to its active session and admin
+ */
+export const findActiveSession = async (
+  token: string
+): Promise<{ session: IAdminSession; admin: IAdmin } | null> => {
+  const now = new Date();
+
+  const session = await AdminSession.findOne({
+    tokenHash: hashToken(token),
+    revokedAt: null,
+    expiresAt: { $gt: now },
+  });
+
+  if (!session) {
+    return null;
+  }
+
+  const admin = await Admin.findOne({ _id: session.adminId, isActive: true });
+
+  if (!admin) {
+    return null;
+  }
+
+  session.lastUsedAt = now;
+  await session.save();
+
+  return { session, admin };
+};
\ No newline at end of file
@@ -0,0 +1,52 @@
+// utils/adminUtils.ts
+import Admin, { AdminRole } from '../models/Admin';
+import { hashPassword, isStrongPassword } from './passwordUtils';
+
+/**
+ * Check that an assignedAdmin value refers to an active admin account
+ */
+export const isActiveAdminUsername = async (username: unknown): Promise<boolean> => {
+  if (!username || typeof username !== 'string') {
+    return false;
+  }
+
+  const admin = await Admin.exists({
+    username: username.toLowerCase().trim(),
+    isActive: true,
+  });
+
+  return !!admin;
+};
+
+/**
+ * Create the first OWNER account from ADMIN_USERNAME/ADMIN_PASSWORD
+ * when the admin collection is empty
+ */
+export const ensureBootstrapOwner = async (): Promise<void> => {
+  try {
+    const adminCount = await Admin.countDocuments();
+
+    if (adminCount > 0) {
+      return;
+    }
+
+    const username = process.env.ADMIN_USERNAME;
+    const password = process.env.ADMIN_PASSWORD;
+
+    if (!username || !isStrongPassword(password)) {
+      console.warn('⚠️  No admin accounts exist and ADMIN_USERNAME/ADMIN_PASSWORD are not set (password must be at least 12 characters)');
+      return;
+    }
+
+    await Admin.create({
+      username,
+      name: 'Owner',
+      passwordHash: await hashPassword(password!),
+      role: AdminRole.OWNER,
+    });
+
+    console.log(`✅ Bootstrap owner account "${username.toLowerCase()}" created`);
+  } catch (error) {
+    console.error('❌ Failed to create bootstrap owner account:', error);
+  }
+};
\ No newline at end of file
@@ -0,0 +1,70 @@
+// utils/auditUtils.ts
+import { IAuditChange } from '../models/AuditLog';
+
+// Bookkeeping fields that change on every save and carry no audit value
+const IGNORED_FIELDS = ['__v', 'updatedAt', 'id'];
+
+const isPlainObject = (value: any): boolean => {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    !(value instanceof Date) &&
+    value.constructor?.name !== 'ObjectId'
+  );
+};
+
+/**
+ * Flatten a document into dot-notation paths (arrays are compared as a whole)
+ */
+export const flattenDocument = (
+  doc: Record<string, any> | null | undefined,
+  prefix: string = ''
+): Record<string, any> => {
+  const result: Record<string, any> = {};
+
+  if (!doc) {
+    return result;
+  }
+
+  Object.keys(doc).forEach(key => {
+    if (!prefix && IGNORED_FIELDS.includes(key)) {
+      return;
+    }
+
+    const path = prefix ? `${prefix}.${key}` : key;
+    const value = doc[key];
+
+    if (isPlainObject(value)) {
+      Object.assign(result, flattenDocument(value, path));
+    } else {
+      result[path] = value;
+    }
+  });
+
+  return result;
+};
+
+/**
+ * Compute the changed fields between two snapshots of the same entity
+ */
+export const diffDocuments = (
+  before: Record<string, any> | null | undefined,
+  after: Record<string, any> | null | undefined
+): IAuditChange[] => {
+  const flatBefore = flattenDocument(before);
+  const flatAfter = flattenDocument(after);
+  const fields = new Set([...Object.keys(flatBefore), ...Object.keys(flatAfter)]);
+  const changes: IAuditChange[] = [];
+
+  fields.forEach(field => {
+    const beforeValue = flatBefore[field];
+    const afterValue = flatAfter[field];
+
+    if (JSON.stringify(beforeValue) !== JSON.stringify(afterValue)) {
+      changes.push({ field, before: beforeValue, after: afterValue });
+    }
+  });
+
+  return changes;
+};
\ No newline at end of file
@@ -0,0 +1,322 @@
+// utils/billingAnalyticsUtils.ts
+import Website, { BillingStatus, PaymentEntryType, WebsiteStatus } from '../models/Website';
+import Invoice, { InvoiceStatus } from '../models/Invoice';
+import { addMonths } from './billingUtils';
+import { getDefaultCurrency, normalizeCurrency } from './currencyUtils';
+
+export type AnalyticsGroupBy = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+export const ANALYTICS_GROUP_BY: AnalyticsGroupBy[] = ['day', 'week', 'month', 'quarter', 'year'];
+
+export interface AnalyticsOptions {
+  from: Date;
+  to: Date;
+  groupBy: AnalyticsGroupBy;
+  currency?: string;
+}
+
+export type ParseAnalyticsResult =
+  | { success: true; options: AnalyticsOptions }
+  | { success: false; statusCode: number; error: string };
+
+// Billing statuses that count as a live subscription for MRR (PENDING is still in its grace period)
+const SUBSCRIBED_BILLING_STATUSES = [BillingStatus.ACTIVE, BillingStatus.OVERDUE];
+
+/**
+ * Aggregation expression for a website's price normalized to one month (minor units)
+ */
+const monthlyPriceExpression = {
+  $divide: [
+    '$billing.price',
+    {
+      $switch: {
+        branches: [
+          { case: { $eq: ['$billing.billingCycle', 'quarterly'] }, then: 3 },
+          { case: { $eq: ['$billing.billingCycle', 'yearly'] }, then: 12 },
+        ],
+        default: 1,
+      },
+    },
+  ],
+};
+
+// Websites priced before currencies existed are in the default currency
+const currencyExpression = (field: string) => ({ $ifNull: [field, getDefaultCurrency()] });
+
+/**
+ * Read from/to/groupBy/currency query parameters (default: the last 12 months by month)
+ */
+export const parseAnalyticsQuery = (query: Record<string, unknown>): ParseAnalyticsResult => {
+  const to = query.to ? new Date(String(query.to)) : new Date();
+  const from = query.from ? new Date(String(query.from)) : addMonths(to, -12);
+  const groupBy = (query.groupBy ? String(query.groupBy) : 'month') as AnalyticsGroupBy;
+
+  if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+    return { success: false, statusCode: 400, error: 'Invalid from/to date' };
+  }
+
+  if (from > to) {
+    return { success: false, statusCode: 400, error: 'from must be before to' };
+  }
+
+  if (!ANALYTICS_GROUP_BY.includes(groupBy)) {
+    return {
+      success: false,
+      statusCode: 400,
+      error: `groupBy must be one of: ${ANALYTICS_GROUP_BY.join(', ')}`,
+    };
+  }
+
+  return {
+    success: true,
+    options: {
+      from,
+      to,
+      groupBy,
+      currency: query.currency ? normalizeCurrency(String(query.currency)) : undefined,
+    },
+  };
+};
+
+/**
+ * Current MRR and ARR per currency from live subscriptions
+ */
+export const getRecurringRevenue = async ({ currency }: AnalyticsOptions) => {
+  return Website.aggregate([
+    {
+      $match: {
+        status: { $ne: WebsiteStatus.CANCELLED },
+        'billing.status': { $in: SUBSCRIBED_BILLING_STATUSES },
+        'billing.price': { $gt: 0 },
+      },
+    },
+    {
+      $group: {
+        _id: currencyExpression('$billing.currency'),
+        mrr: { $sum: monthlyPriceExpression },
+        subscriptions: { $sum: 1 },
+      },
+    },
+    ...(currency ? [{ $match: { _id: currency } }] : []),
+    {
+      $project: {
+        _id: 0,
+        currency: '$_id',
+        mrr: { $round: ['$mrr', 0] },
+        arr: { $round: [{ $multiply: ['$mrr', 12] }, 0] },
+        subscriptions: 1,
+      },
+    },
+    { $sort: { currency: 1 } },
+  ]);
+};
+
+const isRefundExpression = { $eq: ['$billing.paymentHistory.type', PaymentEntryType.REFUND] };
+
+/**
+ * Payments collected in the range, per period and currency (amount is net of refunds)
+ */
+export const getCollectedRevenue = async ({ from, to, groupBy, currency }: AnalyticsOptions) => {
+  return Website.aggregate([
+    { $match: { 'billing.paymentHistory.date': { $gte: from, $lte: to } } },
+    { $unwind: '$billing.paymentHistory' },
+    { $match: { 'billing.paymentHistory.date': { $gte: from, $lte: to } } },
+    {
+      $group: {
+        _id: {
+          period: { $dateTrunc: { date: '$billing.paymentHistory.date', unit: groupBy } },
+          currency: currencyExpression('$billing.paymentHistory.currency'),
+        },
+        amount: { $sum: '$billing.paymentHistory.amount' },
+        payments: { $sum: { $cond: [isRefundExpression, 0, 1] } },
+        refunded: {
+          $sum: { $cond: [isRefundExpression, { $multiply: ['$billing.paymentHistory.amount', -1] }, 0] },
+        },
+      },
+    },
+    ...(currency ? [{ $match: { '_id.currency': currency } }] : []),
+    {
+      $project: {
+        _id: 0,
+        period: '$_id.period',
+        currency: '$_id.currency',
+        amount: 1,
+        payments: 1,
+        refunded: 1,
+      },
+    },
+    { $sort: { period: 1, currency: 1 } },
+  ]);
+};
+
+/**
+ * Unpaid balance on open invoices per currency, and how much of it is past due
+ */
+export const getOutstandingReceivables = async ({ currency }: AnalyticsOptions, now: Date = new Date()) => {
+  return Invoice.aggregate([
+    {
+      $match: {
+        status: InvoiceStatus.OPEN,
+        ...(currency ? { currency } : {}),
+      },
+    },
+    {
+      $project: {
+        currency: 1,
+        balance: { $max: [{ $subtract: ['$total', '$amountPaid'] }, 0] },
+        overdue: { $lt: ['$dueAt', now] },
+      },
+    },
+    {
+      $group: {
+        _id: '$currency',
+        amount: { $sum: '$balance' },
+        invoices: { $sum: 1 },
+        overdueAmount: { $sum: { $cond: ['$overdue', '$balance', 0] } },
+        overdueInvoices: { $sum: { $cond: ['$overdue', 1, 0] } },
+      },
+    },
+    {
+      $project: {
+        _id: 0,
+        currency: '$_id',
+        amount: 1,
+        invoices: 1,
+        overdueAmount: 1,
+        overdueInvoices: 1,
+      },
+    },
+    { $sort: { currency: 1 } },
+  ]);
+};
+
+/**
+ * Websites lost in the range: suspended for non-payment or cancelled, with the MRR they carried
+ *
+ * The rate is churned / (live subscriptions now + churned).
+ */
+export const getChurn = async ({ from, to, currency }: AnalyticsOptions) => {
+  const [churned, subscriptions] = await Promise.all([
+    Website.aggregate([
+      {
+        $match: {
+          $or: [
+            {
+              status: WebsiteStatus.CANCELLED,
+              statusHistory: {
+                $elemMatch: { to: WebsiteStatus.CANCELLED, changedAt: { $gte: from, $lte: to } },
+              },
+            },
+            {
+              status: { $ne: WebsiteStatus.CANCELLED },
+              'billing.status': BillingStatus.SUSPENDED,
+              'billing.suspendedAt': { $gte: from, $lte: to },
+            },
+          ],
+          ...(currency ? { 'billing.currency': currency } : {}),
+        },
+      },
+      {
+        $group: {
+          _id: {
+            reason: { $cond: [{ $eq: ['$status', WebsiteStatus.CANCELLED] }, 'cancelled', 'suspended'] },
+            currency: currencyExpression('$billing.currency'),
+          },
+          websites: { $sum: 1 },
+          lostMrr: { $sum: { $ifNull: [monthlyPriceExpression, 0] } },
+        },
+      },
+    ]),
+    Website.countDocuments({
+      status: { $ne: WebsiteStatus.CANCELLED },
+      'billing.status': { $in: SUBSCRIBED_BILLING_STATUSES },
+      'billing.price': { $gt: 0 },
+      ...(currency ? { 'billing.currency': currency } : {}),
+    }),
+  ]);
+
+  const suspended = churned
+    .filter((group) => group._id.reason === 'suspended')
+    .reduce((sum, group) => sum + group.websites, 0);
+  const cancelled = churned
+    .filter((group) => group._id.reason === 'cancelled')
+    .reduce((sum, group) => sum + group.websites, 0);
+
+  const lostMrr: Record<string, number> = {};
+  churned.forEach((group) => {
+    lostMrr[group._id.currency] = Math.round((lostMrr[group._id.currency] || 0) + group.lostMrr);
+  });
+
+  const total = suspended + cancelled;
+
+  return {
+    suspended,
+    cancelled,
+    total,
+    rate: total > 0 ? Math.round((total / (subscriptions + total)) * 10000) / 10000 : 0,
+    lostMrr: Object.entries(lostMrr).map(([code, amount]) => ({ currency: code, amount })),
+  };
+};
+
+/**
+ * Current MRR and revenue collected in the range per plan and currency
+ *
+ * Payments are attributed to the plan the website is on now.
+ */
+export const getRevenueByPlan = async ({ from, to, currency }: AnalyticsOptions) => {
+  return Website.aggregate([
+    {
+      $match: {
+        'billing.plan': { $exists: true, $ne: null },
+        ...(currency ? { 'billing.currency': currency } : {}),
+      },
+    },
+    {
+      $project: {
+        plan: '$billing.plan',
+        currency: currencyExpression('$billing.currency'),
+        subscribed: {
+          $and: [
+            { $ne: ['$status', WebsiteStatus.CANCELLED] },
+            { $in: ['$billing.status', SUBSCRIBED_BILLING_STATUSES] },
+            { $gt: ['$billing.price', 0] },
+          ],
+        },
+        monthlyPrice: { $ifNull: [monthlyPriceExpression, 0] },
+        payments: {
+          $filter: {
+            input: { $ifNull: ['$billing.paymentHistory', []] },
+            as: 'payment',
+            cond: {
+              $and: [
+                { $gte: ['$$payment.date', from] },
+                { $lte: ['$$payment.date', to] },
+              ],
+            },
+          },
+        },
+      },
+    },
+    {
+      $group: {
+        _id: { plan: '$plan', currency: '$currency' },
+        mrr: { $sum: { $cond: ['$subscribed', '$monthlyPrice', 0] } },
+        subscriptions: { $sum: { $cond: ['$subscribed', 1, 0] } },
+        collected: { $sum: { $sum: '$payments.amount' } },
+        payments: { $sum: { $size: '$payments' } },
+      },
+    },
+    {
+      $project: {
+        _id: 0,
+        plan: '$_id.plan',
+        currency: '$_id.currency',
+        mrr: { $round: ['$mrr', 0] },
+        subscriptions: 1,
+        collected: 1,
+        payments: 1,
+      },
+    },
+    { $sort: { currency: 1, mrr: -1 } },
+  ]);
+};
\ No newline at end of file
@@ -0,0 +1,92 @@
+// utils/billingPolicyUtils.ts
+import BillingPolicy, {
+  BillingPolicyScope,
+  IBillingPolicy,
+  ReinstatementDueDateBasis,
+} from '../models/BillingPolicy';
+
+export interface ResolvedBillingPolicy {
+  graceDays: number;
+  overdueToSuspendDays: number;
+  reminderOffsets: number[];
+  reinstatement: {
+    requireFullBalance: boolean;
+    dueDateBasis: ReinstatementDueDateBasis;
+  };
+}
+
+type PolicySettingField = 'graceDays' | 'overdueToSuspendDays' | 'reminderOffsets' | 'reinstatement';
+
+/**
+ * Built-in defaults, used until a GLOBAL policy is saved
+ */
+export const DEFAULT_BILLING_POLICY: ResolvedBillingPolicy = {
+  graceDays: 5,
+  overdueToSuspendDays: 7,
+  reminderOffsets: [7, 3, 1],
+  reinstatement: {
+    requireFullBalance: true,
+    dueDateBasis: ReinstatementDueDateBasis.PAYMENT_DATE,
+  },
+};
+
+/**
+ * Overlay the fields a policy document sets on top of a resolved policy
+ */
+const mergePolicy = (
+  base: ResolvedBillingPolicy,
+  policy?: Partial<Pick<IBillingPolicy, PolicySettingField>> | null
+): ResolvedBillingPolicy => {
+  if (!policy) {
+    return base;
+  }
+
+  return {
+    graceDays: policy.graceDays ?? base.graceDays,
+    overdueToSuspendDays: policy.overdueToSuspendDays ?? base.overdueToSuspendDays,
+    reminderOffsets: policy.reminderOffsets?.length
+      ? [...policy.reminderOffsets].sort((a, b) => b - a)
+      : base.reminderOffsets,
+    reinstatement: {
+      requireFullBalance: policy.reinstatement?.requireFullBalance ?? base.reinstatement.requireFullBalance,
+      dueDateBasis: policy.reinstatement?.dueDateBasis ?? base.reinstatement.dueDateBasis,
+    },
+  };
+};
+
+/**
+ * Load all policies once and return a resolver by plan (for batch jobs)
+ */
+export const loadBillingPolicyResolver = async (): Promise<(plan?: string) => ResolvedBillingPolicy> => {
+  const policies = await BillingPolicy.find().lean();
+
+  const globalPolicy = mergePolicy(
+    DEFAULT_BILLING_POLICY,
+    policies.find((policy) => policy.scope === BillingPolicyScope.GLOBAL)
+  );
+
+  const planPolicies = new Map(
+    policies
+      .filter((policy) => policy.scope === BillingPolicyScope.PLAN && policy.plan)
+      .map((policy) => [policy.plan!, mergePolicy(globalPolicy, policy)])
+  );
+
+  return (plan?: string) => {
+    const key = plan?.toLowerCase().trim();
+    return (key && planPolicies.get(key)) || globalPolicy;
+  };
+};
+
+/**
+ * Get the effective billing policy for a plan (global policy with plan overrides)
+ */
+export const getBillingPolicy = async (plan?: string): Promise<ResolvedBillingPolicy> => {
+  const key = plan?.toLowerCase().trim();
+
+  const [globalPolicy, planPolicy] = await Promise.all([
+    BillingPolicy.findOne({ scope: BillingPolicyScope.GLOBAL }).lean(),
+    key ? BillingPolicy.findOne({ scope: BillingPolicyScope.PLAN, plan: key }).lean() : null,
+  ]);
+
+  return mergePolicy(mergePolicy(DEFAULT_BILLING_POLICY, globalPolicy), planPolicy);
+};
\ No newline at end of file
@@ -0,0 +1,144 @@
+// utils/billingReminderUtils.ts
+import Website, { BillingStatus, IWebsite } from '../models/Website';
+import { MAX_REMINDER_OFFSET_DAYS } from '../models/BillingPolicy';
+import { addDays, getDaysRemaining } from './billingUtils';
+import { ResolvedBillingPolicy } from './billingPolicyUtils';
+
+// Billing statuses that get pre-due reminders
+export const REMINDER_BILLING_STATUSES = [BillingStatus.PENDING, BillingStatus.ACTIVE];
+
+export interface PlannedReminder {
+  website: IWebsite;
+  dueAt: Date;
+  offsetDays: number;
+  sendAt: Date;
+  daysRemaining: number;
+}
+
+/**
+ * Find websites whose due date is close enough for a reminder
+ */
+export const findReminderCandidates = async (
+  now: Date = new Date(),
+  horizonDays: number = 0
+): Promise<IWebsite[]> => {
+  return Website.find({
+    'billing.status': { $in: REMINDER_BILLING_STATUSES },
+    'billing.dueAt': {
+      $gt: now,
+      $lte: addDays(now, MAX_REMINDER_OFFSET_DAYS + horizonDays),
+    },
+  });
+};
+
+/**
+ * Check whether a reminder for this offset (or a closer one) was already sent for the current due date
+ */
+const isReminderSent = (website: IWebsite, offsetDays: number): boolean => {
+  const dueAt = website.billing.dueAt?.getTime();
+
+  return (website.billing.remindersSent || []).some(
+    (reminder) => reminder.dueAt.getTime() === dueAt && reminder.offsetDays <= offsetDays
+  );
+};
+
+/**
+ * Get the reminder offset that is due now, if any
+ *
+ * Only the closest offset already reached is sent, so a website that enters
+ * the window late (e.g. 2 days before) gets one reminder, not three.
+ */
+export const getDueReminderOffset = (
+  website: IWebsite,
+  policy: ResolvedBillingPolicy,
+  now: Date = new Date()
+): number | null => {
+  const { dueAt } = website.billing;
+
+  if (!dueAt || dueAt <= now) {
+    return null;
+  }
+
+  const daysRemaining = Math.ceil((dueAt.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+  const reached = policy.reminderOffsets.filter((offset) => daysRemaining <= offset);
+
+  if (reached.length === 0) {
+    return null;
+  }
+
+  const offsetDays = Math.min(...reached);
+  return isReminderSent(website, offsetDays) ? null : offsetDays;
+};
+
+/**
+ * List reminders that are due now or scheduled within the next horizonDays
+ */
+export const planUpcomingReminders = (
+  websites: IWebsite[],
+  resolvePolicy: (plan?: string) => ResolvedBillingPolicy,
+  now: Date = new Date(),
+  horizonDays: number = 7
+): PlannedReminder[] => {
+  const until = addDays(now, horizonDays);
+
+  return websites
+    .flatMap((website) => {
+      const dueAt = website.billing.dueAt;
+      if (!dueAt) {
+        return [];
+      }
+
+      const policy = resolvePolicy(website.billing.plan);
+      const dueNow = getDueReminderOffset(website, policy, now);
+
+      return policy.reminderOffsets
+        .map((offsetDays) => ({ offsetDays, sendAt: addDays(dueAt, -offsetDays) }))
+        .filter(({ offsetDays, sendAt }) =>
+          offsetDays === dueNow || (sendAt > now && sendAt <= until && !isReminderSent(website, offsetDays))
+        )
+        .map(({ offsetDays, sendAt }) => ({
+          website,
+          dueAt,
+          offsetDays,
+          sendAt: offsetDays === dueNow ? now : sendAt,
+          daysRemaining: getDaysRemaining(dueAt),
+        }));
+    })
+    .sort((a, b) => a.sendAt.getTime() - b.sendAt.getTime());
+};
+
+/**
+ * Atomically record a reminder before sending; returns false if another run already claimed it
+ */
+export const claimReminder = async (
+  website: IWebsite,
+  offsetDays: number,
+  now: Date = new Date()
+): Promise<boolean> => {
+  const dueAt = website.billing.dueAt;
+
+  const result = await Website.updateOne(
+    {
+      _id: website._id,
+      'billing.dueAt': dueAt,
+      'billing.remindersSent': {
+        $not: { $elemMatch: { dueAt, offsetDays: { $lte: offsetDays } } },
+      },
+    },
+    {
+      $push: { 'billing.remindersSent': { dueAt, offsetDays, sentAt: now } },
+    }
+  );
+
+  return result.modifiedCount === 1;
+};
+
+/**
+ * Undo a claim when the reminder could not be sent, so the next run retries
+ */
+export const releaseReminder = async (website: IWebsite, offsetDays: number): Promise<void> => {
+  await Website.updateOne(
+    { _id: website._id },
+    { $pull: { 'billing.remindersSent': { dueAt: website.billing.dueAt, offsetDays } } }
+  );
+};
\ No newline at end of file
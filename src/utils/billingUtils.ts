@@ -38,21 +38,41 @@ export const calculateNextDueDate = (
   }
 };
 
+/**
+ * Calculate the start of the billing period that ends at dueDate
+ */
+export const calculatePreviousDueDate = (
+  dueDate: Date,
+  cycle: 'monthly' | 'quarterly' | 'yearly'
+): Date => {
+  switch (cycle) {
+    case 'quarterly':
+      return addMonths(dueDate, -3);
+    case 'yearly':
+      return addMonths(dueDate, -12);
+    default:
+      return addMonths(dueDate, -1);
+  }
+};
+
 /**
  * Initialize billing when website is deployed
  */
 export const initializeBilling = (
   plan?: string,
   price?: number,
-  cycle: 'monthly' | 'quarterly' | 'yearly' = 'monthly'
+  cycle: 'monthly' | 'quarterly' | 'yearly' = 'monthly',
+  graceDays: number = 5,
+  currency?: string
 ): Partial<IBilling> => {
   const now = new Date();
-  const graceEndsAt = addDays(now, 5); // 5-day grace period
+  const graceEndsAt = addDays(now, graceDays); // Grace period from the billing policy
   
   return {
     status: BillingStatus.PENDING,
     plan,
     price,
+    currency,
     billingCycle: cycle,
     activatedAt: now,
     dueAt: graceEndsAt,
@@ -94,4 +114,27 @@ export const formatBillingStatus = (status: string): string => {
     SUSPENDED: 'Suspended',
   };
   return statusMap[status] || status;
+};
+
+/**
+ * Count billing cycles that have come due since dueAt (0 if not yet due)
+ */
+export const countMissedCycles = (
+  dueAt: Date | undefined,
+  cycle: 'monthly' | 'quarterly' | 'yearly',
+  now: Date = new Date()
+): number => {
+  if (!dueAt) {
+    return 0;
+  }
+
+  let count = 0;
+  let periodStart = new Date(dueAt);
+
+  while (periodStart <= now) {
+    count++;
+    periodStart = calculateNextDueDate(periodStart, cycle);
+  }
+
+  return count;
 };
\ No newline at end of file
@@ -0,0 +1,195 @@
+// utils/couponUtils.ts
+import { ClientSession } from 'mongoose';
+import Coupon, { CouponDiscountType, CouponDuration, CouponStatus, ICoupon } from '../models/Coupon';
+import CouponRedemption, { ICouponRedemption } from '../models/CouponRedemption';
+import { IBilling, IWebsite } from '../models/Website';
+import { roundAmount } from './invoiceUtils';
+import { getBillingCurrency } from './currencyUtils';
+
+export type BillingCoupon = NonNullable<IBilling['coupon']>;
+
+export type CouponCheckResult =
+  | { success: true; coupon: ICoupon }
+  | { success: false; statusCode: number; error: string };
+
+/**
+ * Normalize a coupon code the way it is stored
+ */
+export const normalizeCouponCode = (code: string): string => code.toUpperCase().trim();
+
+/**
+ * Fixed discounts are in one currency; percent discounts work in any
+ */
+const isCouponCurrencyValid = (coupon: Pick<ICoupon, 'discountType' | 'currency'>, currency: string): boolean => {
+  return coupon.discountType !== CouponDiscountType.FIXED || coupon.currency === currency;
+};
+
+/**
+ * Check that a coupon can be redeemed now (and for this plan and currency, if given)
+ */
+export const validateCoupon = async (
+  code: unknown,
+  { plan, currency, now = new Date() }: { plan?: string; currency?: string; now?: Date } = {}
+): Promise<CouponCheckResult> => {
+  if (typeof code !== 'string' || !code.trim()) {
+    return { success: false, statusCode: 400, error: 'Coupon code is required' };
+  }
+
+  const coupon = await Coupon.findOne({ code: normalizeCouponCode(code) });
+
+  if (!coupon || coupon.status !== CouponStatus.ACTIVE) {
+    return { success: false, statusCode: 400, error: 'Invalid coupon code' };
+  }
+
+  if (coupon.expiresAt && coupon.expiresAt <= now) {
+    return { success: false, statusCode: 400, error: 'This coupon has expired' };
+  }
+
+  if (coupon.maxRedemptions && coupon.redemptionCount >= coupon.maxRedemptions) {
+    return { success: false, statusCode: 400, error: 'This coupon has been fully redeemed' };
+  }
+
+  if (coupon.plans.length > 0 && (!plan || !coupon.plans.includes(plan))) {
+    return {
+      success: false,
+      statusCode: 400,
+      error: `This coupon only applies to: ${coupon.plans.join(', ')}`,
+    };
+  }
+
+  if (currency && !isCouponCurrencyValid(coupon, currency)) {
+    return {
+      success: false,
+      statusCode: 400,
+      error: `This coupon only applies to ${coupon.currency} billing`,
+    };
+  }
+
+  return { success: true, coupon };
+};
+
+/**
+ * Count a redemption and record it (in the session's transaction, if given); returns
+ * null if the last redemption was taken meanwhile
+ */
+export const redeemCoupon = async (
+  coupon: ICoupon,
+  redemption: Pick<ICouponRedemption, 'userId'> & Partial<Pick<ICouponRedemption, 'requestId' | 'websiteId' | 'redeemedBy'>>,
+  session?: ClientSession
+): Promise<ICouponRedemption | null> => {
+  // Atomic check-and-increment so concurrent redemptions can't exceed maxRedemptions
+  const counted = await Coupon.findOneAndUpdate(
+    {
+      _id: coupon._id,
+      $or: [
+        // Missing or 0 means unlimited, as in validateCoupon
+        { maxRedemptions: { $in: [null, 0] } },
+        { $expr: { $lt: ['$redemptionCount', '$maxRedemptions'] } },
+      ],
+    },
+    { $inc: { redemptionCount: 1 } },
+    { new: true, session }
+  );
+
+  if (!counted) {
+    return null;
+  }
+
+  coupon.redemptionCount = counted.redemptionCount;
+
+  const [created] = await CouponRedemption.create([{
+    ...redemption,
+    couponId: coupon._id,
+    code: coupon.code,
+  }], { session });
+
+  return created;
+};
+
+/**
+ * Undo a redemption whose change could not be saved (frees the slot it counted)
+ */
+export const releaseCouponRedemption = async (redemption: ICouponRedemption): Promise<void> => {
+  const { deletedCount } = await CouponRedemption.deleteOne({ _id: redemption._id });
+
+  if (deletedCount > 0) {
+    await Coupon.updateOne(
+      { _id: redemption.couponId, redemptionCount: { $gt: 0 } },
+      { $inc: { redemptionCount: -1 } }
+    );
+  }
+};
+
+/**
+ * Attach a coupon's terms to a website's billing (caller saves)
+ */
+export const attachCouponToBilling = (website: IWebsite, coupon: ICoupon): void => {
+  website.billing.coupon = {
+    couponId: coupon._id as BillingCoupon['couponId'],
+    code: coupon.code,
+    discountType: coupon.discountType,
+    amount: coupon.amount,
+    currency: coupon.currency,
+    duration: coupon.duration,
+    cyclesRemaining: coupon.duration === CouponDuration.FOREVER
+      ? undefined
+      : coupon.duration === CouponDuration.ONCE ? 1 : coupon.durationCycles,
+    appliedAt: new Date(),
+  };
+};
+
+/**
+ * Check whether a billing coupon still discounts new cycle invoices
+ */
+export const isBillingCouponActive = (coupon?: BillingCoupon): coupon is BillingCoupon => {
+  return !!coupon && (coupon.cyclesRemaining === undefined || coupon.cyclesRemaining === null || coupon.cyclesRemaining > 0);
+};
+
+/**
+ * Discount a coupon gives on a subtotal (never more than the subtotal)
+ */
+export const calculateCouponDiscount = (coupon: BillingCoupon, subtotal: number): number => {
+  const discount = coupon.discountType === CouponDiscountType.PERCENT
+    ? (subtotal * coupon.amount) / 100
+    : coupon.amount;
+
+  return roundAmount(Math.min(Math.max(discount, 0), Math.max(subtotal, 0)));
+};
+
+/**
+ * Move the coupon redeemed with the website's request onto its billing (caller saves)
+ *
+ * Skipped when the website ended up on a plan or currency the coupon doesn't cover.
+ */
+export const applyRequestCoupon = async (website: IWebsite): Promise<boolean> => {
+  const redemption = await CouponRedemption.findOne({
+    requestId: website.requestId,
+    websiteId: { $exists: false },
+  });
+
+  if (!redemption) {
+    return false;
+  }
+
+  const coupon = await Coupon.findById(redemption.couponId);
+
+  if (!coupon) {
+    return false;
+  }
+
+  if (coupon.plans.length > 0 && !coupon.plans.includes(website.billing.plan || '')) {
+    console.warn(`Coupon ${coupon.code} does not cover plan ${website.billing.plan}; not applied to ${website._id}`);
+    return false;
+  }
+
+  if (!isCouponCurrencyValid(coupon, getBillingCurrency(website.billing))) {
+    console.warn(`Coupon ${coupon.code} is in ${coupon.currency}; not applied to ${website._id}`);
+    return false;
+  }
+
+  attachCouponToBilling(website, coupon);
+  redemption.websiteId = website._id as ICouponRedemption['websiteId'];
+  await redemption.save();
+
+  return true;
+};
\ No newline at end of file
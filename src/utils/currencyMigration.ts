@@ -0,0 +1,125 @@
+// utils/currencyMigration.ts
+import Website from '../models/Website';
+import Invoice from '../models/Invoice';
+import Plan from '../models/Plan';
+import PlanChange from '../models/PlanChange';
+import Coupon, { CouponDiscountType } from '../models/Coupon';
+import { getCurrencyDecimals, getDefaultCurrency } from './currencyUtils';
+
+/**
+ * Aggregation expression converting a major-unit amount to minor units (missing stays missing)
+ */
+const toMinor = (field: string, factor: number) => ({
+  $cond: [
+    { $eq: [{ $type: field }, 'missing'] },
+    '$$REMOVE',
+    { $round: [{ $multiply: [field, factor] }, 0] },
+  ],
+});
+
+/**
+ * Convert amounts stored before currencies existed (major units, no currency) to
+ * minor units of the default currency
+ *
+ * Documents without a currency code are the legacy ones; each is converted and
+ * tagged in one update, so running this again (or on several instances) is a no-op.
+ */
+export const migrateAmountsToMinorUnits = async (): Promise<void> => {
+  try {
+    const currency = getDefaultCurrency();
+    const factor = 10 ** getCurrencyDecimals(currency);
+
+    const websites = await Website.updateMany({ 'billing.currency': { $exists: false } }, [
+      {
+        $set: {
+          'billing.currency': currency,
+          'billing.price': toMinor('$billing.price', factor),
+          'billing.paymentHistory': {
+            $map: {
+              input: { $ifNull: ['$billing.paymentHistory', []] },
+              as: 'payment',
+              in: {
+                $mergeObjects: [
+                  '$$payment',
+                  { amount: toMinor('$$payment.amount', factor), currency },
+                ],
+              },
+            },
+          },
+          'billing.coupon': {
+            $cond: [
+              { $eq: ['$billing.coupon.discountType', CouponDiscountType.FIXED] },
+              { $mergeObjects: ['$billing.coupon', { amount: toMinor('$billing.coupon.amount', factor), currency }] },
+              { $ifNull: ['$billing.coupon', '$$REMOVE'] },
+            ],
+          },
+        },
+      },
+    ]);
+
+    const invoices = await Invoice.updateMany({ currency: { $exists: false } }, [
+      {
+        $set: {
+          currency,
+          lineItems: {
+            $map: {
+              input: '$lineItems',
+              as: 'item',
+              in: {
+                $mergeObjects: [
+                  '$$item',
+                  {
+                    unitPrice: toMinor('$$item.unitPrice', factor),
+                    amount: toMinor('$$item.amount', factor),
+                  },
+                ],
+              },
+            },
+          },
+          subtotal: toMinor('$subtotal', factor),
+          discount: toMinor('$discount', factor),
+          tax: toMinor('$tax', factor),
+          total: toMinor('$total', factor),
+          amountPaid: toMinor('$amountPaid', factor),
+        },
+      },
+    ]);
+
+    const plans = await Plan.updateMany({ currency: { $exists: false } }, [
+      {
+        $set: {
+          currency,
+          'prices.monthly': toMinor('$prices.monthly', factor),
+          'prices.quarterly': toMinor('$prices.quarterly', factor),
+          'prices.yearly': toMinor('$prices.yearly', factor),
+        },
+      },
+    ]);
+
+    const planChanges = await PlanChange.updateMany({ currency: { $exists: false } }, [
+      {
+        $set: {
+          currency,
+          fromPrice: toMinor('$fromPrice', factor),
+          toPrice: toMinor('$toPrice', factor),
+          adjustment: toMinor('$adjustment', factor),
+        },
+      },
+    ]);
+
+    // Percent coupons have no currency and nothing to convert
+    const coupons = await Coupon.updateMany(
+      { discountType: CouponDiscountType.FIXED, currency: { $exists: false } },
+      [{ $set: { currency, amount: toMinor('$amount', factor) } }]
+    );
+
+    const converted = websites.modifiedCount + invoices.modifiedCount + plans.modifiedCount
+      + planChanges.modifiedCount + coupons.modifiedCount;
+
+    if (converted > 0) {
+      console.log(`✅ Converted ${converted} billing document(s) to ${currency} minor units`);
+    }
+  } catch (error) {
+    console.error('❌ Failed to convert billing amounts to minor units:', error);
+  }
+};
\ No newline at end of file
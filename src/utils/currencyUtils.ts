@@ -0,0 +1,84 @@
+// utils/currencyUtils.ts
+import { IBilling } from '../models/Website';
+
+/**
+ * Currency used when nothing else sets one (BILLING_CURRENCY, default USD)
+ */
+export const getDefaultCurrency = (): string => {
+  return normalizeCurrency(process.env.BILLING_CURRENCY || 'USD');
+};
+
+/**
+ * Normalize a currency code the way it is stored, e.g. "usd" -> "USD"
+ */
+export const normalizeCurrency = (currency: string): string => currency.toUpperCase().trim();
+
+/**
+ * Currencies we bill in (BILLING_CURRENCIES, comma-separated; always includes the default)
+ */
+export const getSupportedCurrencies = (): string[] => {
+  const configured = (process.env.BILLING_CURRENCIES || 'USD,EUR,INR')
+    .split(',')
+    .map((code) => normalizeCurrency(code))
+    .filter(Boolean);
+
+  return Array.from(new Set([getDefaultCurrency(), ...configured]));
+};
+
+/**
+ * Check that a value is a supported currency code
+ */
+export const isSupportedCurrency = (currency: unknown): currency is string => {
+  return typeof currency === 'string' && getSupportedCurrencies().includes(normalizeCurrency(currency));
+};
+
+/**
+ * Currency of a website's billing (websites priced before currencies existed use the default)
+ */
+export const getBillingCurrency = (billing: Pick<IBilling, 'currency'>): string => {
+  return billing.currency || getDefaultCurrency();
+};
+
+/**
+ * Number of decimals in a currency's minor unit, e.g. 2 for USD, 0 for JPY
+ */
+export const getCurrencyDecimals = (currency: string): number => {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+};
+
+/**
+ * Check that an amount is a whole number of minor units (e.g. cents)
+ */
+export const isMinorUnitAmount = (amount: unknown): amount is number => {
+  return typeof amount === 'number' && Number.isInteger(amount);
+};
+
+/**
+ * Convert an amount in minor units to major units, e.g. 1999 USD -> 19.99
+ */
+export const fromMinorUnits = (amount: number, currency: string): number => {
+  return amount / 10 ** getCurrencyDecimals(currency);
+};
+
+/**
+ * Format an amount in minor units with the currency's symbol (or code) and decimals
+ */
+export const formatMoney = (
+  amount: number = 0,
+  currency: string = getDefaultCurrency(),
+  currencyDisplay: 'symbol' | 'code' = 'symbol'
+): string => {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency, currencyDisplay })
+    .format(fromMinorUnits(amount, currency));
+};
+
+/**
+ * Symbol of a currency, e.g. "₹" for INR
+ */
+export const getCurrencySymbol = (currency: string): string => {
+  const part = new Intl.NumberFormat('en-US', { style: 'currency', currency })
+    .formatToParts(0)
+    .find((item) => item.type === 'currency');
+
+  return part?.value || currency;
+};
\ No newline at end of file
@@ -0,0 +1,209 @@
+// utils/emailOutboxUtils.ts
+import mongoose, { ClientSession } from 'mongoose';
+import EmailOutbox, {
+  EmailEvent,
+  EmailOutboxStatus,
+  IEmailAttachment,
+  IEmailOutbox,
+} from '../models/EmailOutbox';
+import { getEmailTransport } from './emailTransport';
+
+// Backoff between attempts: 1 min, 2 min, 4 min, ... capped at 6 hours
+const RETRY_BASE_MS = 60 * 1000;
+const RETRY_MAX_MS = 6 * 60 * 60 * 1000;
+
+// A claimed email whose worker hasn't finished after this long is claimed again
+const SEND_LOCK_MS = 5 * 60 * 1000;
+
+const DEFAULT_MAX_ATTEMPTS = 8;
+
+export interface OutboxEmail {
+  event: EmailEvent;
+  from?: string;
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+  headers?: Record<string, string>;
+  attachments?: IEmailAttachment[];
+}
+
+export interface EnqueueEmailOptions {
+  // Queue as part of this transaction (see withEmailTransaction)
+  session?: ClientSession;
+}
+
+// Emails queued in a transaction, sent once it commits
+const pendingDeliveries = new WeakMap<ClientSession, IEmailOutbox[]>();
+
+/**
+ * Sender address (EMAIL_FROM, or RESEND_FROM_EMAIL)
+ */
+export const getDefaultFromAddress = (): string => {
+  return process.env.EMAIL_FROM || process.env.RESEND_FROM_EMAIL || 'onboarding@resend.dev';
+};
+
+/**
+ * Attempts before an email is dead-lettered (EMAIL_MAX_ATTEMPTS, default 8)
+ */
+export const getMaxEmailAttempts = (): number => {
+  const configured = Number(process.env.EMAIL_MAX_ATTEMPTS);
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_MAX_ATTEMPTS;
+};
+
+/**
+ * Delay before the next attempt after a failed one (exponential backoff)
+ */
+export const getRetryDelayMs = (attempts: number): number => {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MS);
+};
+
+/**
+ * Atomically claim one email that is due (or whose worker died) for sending
+ */
+export const claimEmail = async (
+  filter: Record<string, unknown> = {},
+  now: Date = new Date()
+): Promise<IEmailOutbox | null> => {
+  return EmailOutbox.findOneAndUpdate(
+    {
+      ...filter,
+      $or: [
+        { status: EmailOutboxStatus.PENDING, nextAttemptAt: { $lte: now } },
+        { status: EmailOutboxStatus.SENDING, lockedUntil: { $lte: now } },
+      ],
+    },
+    {
+      $set: {
+        status: EmailOutboxStatus.SENDING,
+        lockedUntil: new Date(now.getTime() + SEND_LOCK_MS),
+      },
+    },
+    { new: true, sort: { nextAttemptAt: 1 } }
+  );
+};
+
+/**
+ * Send a claimed email once and record the outcome
+ *
+ * A failure schedules the next attempt with backoff, or moves the email to DEAD
+ * once maxAttempts is reached.
+ */
+export const sendClaimedEmail = async (email: IEmailOutbox): Promise<IEmailOutbox> => {
+  email.attempts++;
+
+  try {
+    const { messageId } = await getEmailTransport().send({
+      from: email.from,
+      to: email.to,
+      subject: email.subject,
+      html: email.html,
+      text: email.text || undefined,
+      headers: email.headers,
+      attachments: email.attachments?.map(({ filename, content }) => ({ filename, content })),
+    });
+
+    email.status = EmailOutboxStatus.SENT;
+    email.sentAt = new Date();
+    email.providerMessageId = messageId;
+    email.lastError = undefined;
+    console.log(`✅ ${email.event} email sent to ${email.to}`);
+  } catch (error: any) {
+    email.lastError = error?.message || String(error);
+
+    if (email.attempts >= email.maxAttempts) {
+      email.status = EmailOutboxStatus.DEAD;
+      console.error(`❌ ${email.event} email to ${email.to} failed ${email.attempts} time(s), giving up:`, email.lastError);
+    } else {
+      email.status = EmailOutboxStatus.PENDING;
+      email.nextAttemptAt = new Date(Date.now() + getRetryDelayMs(email.attempts));
+      console.warn(`⚠️ ${email.event} email to ${email.to} failed (attempt ${email.attempts}), retrying at ${email.nextAttemptAt.toISOString()}:`, email.lastError);
+    }
+  }
+
+  email.lockedUntil = undefined;
+  await email.save();
+
+  return email;
+};
+
+/**
+ * Send a queued email now if it is due and nobody else is sending it
+ */
+export const deliverEmail = async (id: IEmailOutbox['_id']): Promise<IEmailOutbox | null> => {
+  const email = await claimEmail({ _id: id });
+  return email ? sendClaimedEmail(email) : null;
+};
+
+const deliverInBackground = (queued: IEmailOutbox): void => {
+  deliverEmail(queued._id).catch((error) => {
+    console.error(`Failed to deliver ${queued.event} email ${queued._id}:`, error);
+  });
+};
+
+/**
+ * Queue an email in the outbox and make a first delivery attempt in the background
+ *
+ * Once this resolves the email is stored; delivery failures are retried by the
+ * email outbox job and never reach the caller. With a session, the email is stored
+ * in that transaction and the first attempt waits for the commit.
+ */
+export const enqueueEmail = async (
+  email: OutboxEmail,
+  options: EnqueueEmailOptions = {}
+): Promise<IEmailOutbox> => {
+  const { session } = options;
+  const [queued] = await EmailOutbox.create([{
+    ...email,
+    from: email.from || getDefaultFromAddress(),
+    maxAttempts: getMaxEmailAttempts(),
+  }], { session });
+
+  if (session) {
+    pendingDeliveries.get(session)?.push(queued);
+  } else {
+    deliverInBackground(queued);
+  }
+
+  return queued;
+};
+
+/**
+ * Run a state change and the emails it queues in one transaction
+ *
+ * `work` passes the session to its writes and to the email senders, so the change
+ * and its emails are stored together or not at all; the emails are sent after the
+ * commit. Transactions need MongoDB to run as a replica set (as Atlas does).
+ */
+export const withEmailTransaction = async <T>(
+  work: (session: ClientSession) => Promise<T>
+): Promise<T> => {
+  const queued: IEmailOutbox[] = [];
+
+  const result = await mongoose.connection.transaction(async (session) => {
+    // A retried transaction queues its emails again
+    queued.length = 0;
+    pendingDeliveries.set(session, queued);
+    return work(session);
+  });
+
+  queued.forEach(deliverInBackground);
+  return result;
+};
+
+/**
+ * Put a dead (or already sent) email back in the queue and try it right away
+ */
+export const resendEmail = async (
+  email: IEmailOutbox,
+  resentBy?: string
+): Promise<IEmailOutbox> => {
+  email.status = EmailOutboxStatus.PENDING;
+  email.attempts = 0;
+  email.nextAttemptAt = new Date();
+  email.lockedUntil = undefined;
+  email.resentBy = resentBy;
+  await email.save();
+
+  return (await deliverEmail(email._id)) || email;
+};
\ No newline at end of file
@@ -1,12 +1,19 @@
 // utils/emailService.ts
-import { Resend } from 'resend';
 import { IWebsiteRequest } from '../models/WebsiteRequest';
-import { IWebsite } from '../models/Website';
-import { ISupportRequest } from '../models/SupportRequest';
+import { IBilling, IWebsite } from '../models/Website';
+import SupportRequest, {
+  ISupportRequest,
+  SupportCategory,
+  SupportStatus,
+} from '../models/SupportRequest';
+import Invoice, { IInvoice, InvoiceStatus } from '../models/Invoice';
+import { EmailEvent } from '../models/EmailOutbox';
 import { getDaysRemaining } from './billingUtils';
-
-
-const resend = new Resend(process.env.RESEND_API_KEY);
+import { formatMoney, getBillingCurrency } from './currencyUtils';
+import { enqueueEmail, EnqueueEmailOptions } from './emailOutboxUtils';
+import { RenderedEmail, renderEmailTemplate } from './emailTemplateUtils';
+import { mailtoUrl, rawHtml, sanitizeUrl, telUrl } from './templateEngine';
+import { getUnsubscribeHeaders, getUnsubscribeUrl, isEmailEnabled } from './notificationUtils';
 
 // Helper function to truncate description
 const truncateDescription = (text: string, maxLength: number = 200): { text: string; isTruncated: boolean } => {
@@ -31,7 +38,7 @@ const truncateDescription = (text: string, maxLength: number = 200): { text: str
 };
 
 // Shared responsive email styles
-const getEmailStyles = (): string => {
+export const getEmailStyles = (): string => {
   return `
     * { margin: 0; padding: 0; box-sizing: border-box; }
     body { 
@@ -252,578 +259,369 @@ const getEmailStyles = (): string => {
   `;
 };
 
+// ============================================
+// TEMPLATE DATA
+// ============================================
+// Values are formatted here and escaped by the template engine; links are
+// sanitized here since escaping alone doesn't stop javascript: URLs. See
+// emailTemplateDefaults for the templates that use them.
+
+const formatDate = (date?: Date): string | undefined => {
+  return date ? new Date(date).toLocaleDateString() : undefined;
+};
+
+// Styles, company details and send time available to every template
+const getCommonData = () => ({
+  styles: rawHtml(getEmailStyles()),
+  company: {
+    name: process.env.COMPANY_NAME || 'Your Company',
+    team: process.env.COMPANY_NAME || 'The Team',
+    year: new Date().getFullYear(),
+    contactNumber: process.env.CONTACT_NO || '',
+  },
+  sentAt: new Date().toLocaleString(),
+});
+
+const getRequestData = (request: IWebsiteRequest, descriptionLength: number = 200) => {
+  const description = truncateDescription(request.description || '', descriptionLength);
+
+  return {
+    _id: String(request._id),
+    userId: request.userId,
+    projectName: request.projectName,
+    projectType: request.projectType,
+    pagesRequired: request.pagesRequired,
+    selectedPlan: request.selectedPlan,
+    recommendedTemplate: request.recommendedTemplate,
+    status: request.status,
+    contactName: request.contactName,
+    contactEmail: request.contactEmail,
+    contactEmailUrl: mailtoUrl(request.contactEmail),
+    contactPhone: request.contactPhone,
+    contactPhoneUrl: telUrl(request.contactPhone),
+    description: description.text,
+    descriptionTruncated: description.isTruncated,
+    features: request.features || [],
+    // Links that aren't http(s) are shown as text only
+    referenceLinks: (request.referenceLinks || []).map((url) => ({ url, href: sanitizeUrl(url) })),
+    createdAt: new Date(request.createdAt).toLocaleString(),
+    editableUntil: new Date(request.editableUntil).toLocaleString(),
+  };
+};
+
+const getWebsiteData = (website: IWebsite) => {
+  const billing: Partial<IBilling> = website.billing || {};
+
+  return {
+    _id: String(website._id),
+    name: website.name,
+    status: website.status,
+    assignedAdmin: website.assignedAdmin,
+    totalPages: website.totalPages,
+    deploymentUrl: sanitizeUrl(website.deploymentUrl),
+    billing: {
+      plan: billing.plan,
+      price: billing.price ? formatMoney(billing.price, getBillingCurrency(billing)) : '',
+      billingCycle: billing.billingCycle,
+      dueAt: formatDate(billing.dueAt),
+      graceEndsAt: formatDate(billing.graceEndsAt),
+      graceDaysRemaining: billing.graceEndsAt ? getDaysRemaining(new Date(billing.graceEndsAt)) : 5,
+      suspendedAt: billing.suspendedAt ? new Date(billing.suspendedAt).toLocaleString() : 'Today',
+    },
+  };
+};
+
+const getSupportData = (supportRequest: ISupportRequest) => ({
+  _id: String(supportRequest._id),
+  userId: supportRequest.userId,
+  category: supportRequest.category,
+  subject: supportRequest.subject,
+  message: supportRequest.message,
+  status: supportRequest.status,
+  createdAt: new Date(supportRequest.createdAt).toLocaleString(),
+});
+
+const getPaymentData = (invoice: IInvoice, amount: number) => {
+  const balanceDue = Math.max(invoice.total - invoice.amountPaid, 0);
+
+  return {
+    invoice: {
+      number: invoice.number,
+      status: invoice.status,
+      paid: invoice.status === InvoiceStatus.PAID,
+    },
+    payment: {
+      amount: formatMoney(amount, invoice.currency),
+      balanceDue: balanceDue > 0 ? formatMoney(balanceDue, invoice.currency) : '',
+    },
+  };
+};
+
+const getReminderData = (daysRemaining: number) => ({
+  daysRemaining,
+  dueLabel: daysRemaining <= 1 ? 'tomorrow' : `in ${daysRemaining} days`,
+  daysLabel: `${daysRemaining} ${daysRemaining === 1 ? 'day' : 'days'}`,
+});
+
+const getDigestData = (digest: AdminDigest) => ({
+  since: digest.since.toLocaleString(),
+  newRequests: digest.newRequests.map(({ projectName, projectType, contactName }) => ({
+    projectName,
+    projectType,
+    contactName,
+  })),
+  newRequestsLabel: `${digest.newRequests.length} new request${digest.newRequests.length === 1 ? '' : 's'}`,
+  pendingRequests: digest.pendingRequests,
+  expiredRequests: digest.expiredRequests,
+  openSupportRequests: digest.openSupportRequests,
+  overdueWebsites: digest.overdueWebsites,
+  suspendedWebsites: digest.suspendedWebsites,
+  dueSoonWebsites: digest.dueSoonWebsites,
+});
+
+const getAdminEmail = (): string | undefined => {
+  return process.env.ADMIN_EMAIL || process.env.EMAIL_FROM || process.env.RESEND_FROM_EMAIL;
+};
+
+// ============================================
+// SENDERS
+// ============================================
+
 export const sendRequestNotificationEmail = async (
-  request: IWebsiteRequest
+  request: IWebsiteRequest,
+  options: EnqueueEmailOptions = {}
 ): Promise<void> => {
   try {
-    const { text: descriptionText, isTruncated: isDescTruncated } = truncateDescription(request.description);
-    
-    const featuresHtml = request.features && request.features.length > 0
-      ? `
-        <div style="margin: 12px 0;">
-          <div class="detail-label">Features</div>
-          <ul class="list-items">
-            ${request.features.map(feature => `<li>${feature}</li>`).join('')}
-          </ul>
-        </div>
-      `
-      : '';
-
-    const referenceLinksHtml = request.referenceLinks && request.referenceLinks.length > 0
-      ? `
-        <div style="margin: 12px 0;">
-          <div class="detail-label">Reference Links</div>
-          <ul class="list-items">
-            ${request.referenceLinks.map(link => `<li><a href="${link}">${link}</a></li>`).join('')}
-          </ul>
-        </div>
-      `
-      : '';
-
-    await resend.emails.send({
-      from: process.env.RESEND_FROM_EMAIL || 'onboarding@resend.dev',
-      to: request.contactEmail,
-      subject: 'Request Received - We\'ll Be In Touch Soon',
-      html: `
-        <!DOCTYPE html>
-        <html lang="en">
-        <head>
-          <meta charset="UTF-8">
-          <meta name="viewport" content="width=device-width, initial-scale=1.0">
-          <meta http-equiv="X-UA-Compatible" content="IE=edge">
-          <title>Request Confirmation</title>
-          <style>${getEmailStyles()}</style>
-        </head>
-        <body>
-          <div class="email-wrapper">
-            <div class="email-container">
-              <div class="header">
-                <h1>Request Received</h1>
-                <p>Thank you for reaching out to us</p>
-              </div>
-              
-              <div class="content">
-                <div class="greeting">
-                  Hi <strong>${request.contactName}</strong>,
-                </div>
-                
-                <p class="intro-text">
-                  We've successfully received your website request and our team will review it shortly. 
-                  You'll hear from us within 1-2 business days.
-                </p>
-
-                <div class="section">
-                  <div class="section-title">Project Details</div>
-                  
-                  <div class="detail-row">
-                    <div class="detail-label">Project Name</div>
-                    <div class="detail-value"><strong>${request.projectName}</strong></div>
-                  </div>
-                  
-                  <div class="detail-row">
-                    <div class="detail-label">Type</div>
-                    <div class="detail-value">${request.projectType}</div>
-                  </div>
-                  
-                  ${request.pagesRequired ? `
-                  <div class="detail-row">
-                    <div class="detail-label">Pages</div>
-                    <div class="detail-value">${request.pagesRequired}</div>
-                  </div>
-                  ` : ''}
-                  
-                  ${request.selectedPlan ? `
-                  <div class="detail-row">
-                    <div class="detail-label">Plan</div>
-                    <div class="detail-value">${request.selectedPlan}</div>
-                  </div>
-                  ` : ''}
-                  
-                  <div class="detail-row">
-                    <div class="detail-label">Status</div>
-                    <div class="detail-value"><span class="badge">${request.status}</span></div>
-                  </div>
-                </div>
-
-                <div class="section">
-                  <div class="section-title">Description</div>
-                  <div class="description-box${isDescTruncated ? ' truncated' : ''}">
-                    <div class="description-text">${descriptionText}</div>
-                  </div>
-                  ${isDescTruncated ? '<p style="font-size: 12px; color: #9ca3af; font-style: italic; margin-top: 8px;">Full description available in your dashboard</p>' : ''}
-                  
-                  ${featuresHtml}
-                  ${referenceLinksHtml}
-                  
-                  ${request.recommendedTemplate ? `
-                  <div style="margin: 12px 0;">
-                    <div class="detail-label">Recommended Template</div>
-                    <div class="detail-value">${request.recommendedTemplate}</div>
-                  </div>
-                  ` : ''}
-                </div>
-
-                <div class="alert-box">
-                  <strong>Editing Window</strong>
-                  <p>You can edit this request until ${new Date(request.editableUntil).toLocaleString()}. After that, it will be locked for review.</p>
-                </div>
-
-                <div class="info-box">
-                  <strong>Next Steps</strong>
-                  <p>Our team will contact you at <strong>${request.contactPhone}</strong> to discuss your project requirements in detail.</p>
-                </div>
-                
-                <p style="margin-top: 24px; font-size: 14px; color: #6b7280;">
-                  Please do not reply to this mail since it is an automated response.
-                </p>
-                
-                <p style="margin-top: 20px; font-size: 14px; color: #374151;">
-                  Best regards,<br/>
-                  <strong>${process.env.COMPANY_NAME || 'The Team'}</strong>
-                </p>
-              </div>
-              
-              <div class="footer">
-                <p>Submitted on ${new Date(request.createdAt).toLocaleString()}</p>
-                <p>&copy; ${new Date().getFullYear()} ${process.env.COMPANY_NAME || 'Your Company'}. All rights reserved.</p>
-              </div>
-            </div>
-          </div>
-        </body>
-        </html>
-      `,
+    const email = await renderEmailTemplate(EmailEvent.REQUEST_RECEIVED, {
+      ...getCommonData(),
+      request: getRequestData(request),
     });
 
-    console.log('✅ User notification email sent successfully');
+    await enqueueEmail({
+      event: EmailEvent.REQUEST_RECEIVED,
+      to: request.contactEmail,
+      ...email,
+    }, options);
+
+    console.log('✅ User notification email queued');
   } catch (error) {
-    console.error('❌ Failed to send user notification email:', error);
+    console.error('❌ Failed to queue user notification email:', error);
     throw error;
   }
 };
 
 export const sendAdminNotificationEmail = async (
-  request: IWebsiteRequest
+  request: IWebsiteRequest,
+  options: EnqueueEmailOptions = {}
 ): Promise<void> => {
   try {
-    const adminEmail = process.env.ADMIN_EMAIL || process.env.RESEND_FROM_EMAIL;
+    const adminEmail = getAdminEmail();
 
     if (!adminEmail) {
       console.warn('⚠️ No admin email configured, skipping admin notification');
       return;
     }
 
-    const { text: descriptionText, isTruncated: isDescTruncated } = truncateDescription(request.description, 250);
-
-    const featuresHtml = request.features && request.features.length > 0
-      ? `
-        <div style="margin: 12px 0;">
-          <div class="detail-label">Features Requested</div>
-          <ul class="list-items">
-            ${request.features.map(feature => `<li>${feature}</li>`).join('')}
-          </ul>
-        </div>
-      `
-      : '<div style="margin: 12px 0; color: #9ca3af; font-size: 13px; font-style: italic;">No features specified</div>';
-
-    const referenceLinksHtml = request.referenceLinks && request.referenceLinks.length > 0
-      ? `
-        <div style="margin: 12px 0;">
-          <div class="detail-label">Reference Links</div>
-          <ul class="list-items">
-            ${request.referenceLinks.map(link => `<li><a href="${link}" target="_blank">${link}</a></li>`).join('')}
-          </ul>
-        </div>
-      `
-      : '<div style="margin: 12px 0; color: #9ca3af; font-size: 13px; font-style: italic;">No reference links provided</div>';
-
-    await resend.emails.send({
-      from: process.env.RESEND_FROM_EMAIL || 'onboarding@resend.dev',
+    const email = await renderEmailTemplate(EmailEvent.REQUEST_ADMIN_NOTIFICATION, {
+      ...getCommonData(),
+      request: getRequestData(request, 250),
+    });
+
+    await enqueueEmail({
+      event: EmailEvent.REQUEST_ADMIN_NOTIFICATION,
+      to: adminEmail,
+      ...email,
+    }, options);
+
+    console.log('✅ Admin notification email queued');
+  } catch (error) {
+    console.error('❌ Failed to queue admin notification email:', error);
+    throw error;
+  }
+};
+
+export interface AdminDigest {
+  since: Date;
+  newRequests: Pick<IWebsiteRequest, 'projectName' | 'projectType' | 'contactName' | 'createdAt'>[];
+  pendingRequests: number;
+  expiredRequests: number;
+  openSupportRequests: number;
+  overdueWebsites: number;
+  suspendedWebsites: number;
+  dueSoonWebsites: number;
+}
+
+/**
+ * Build the periodic admin digest of requests, support and billing activity
+ */
+export const buildAdminDigestEmail = async (digest: AdminDigest): Promise<RenderedEmail> => {
+  return renderEmailTemplate(EmailEvent.ADMIN_DIGEST, {
+    ...getCommonData(),
+    digest: getDigestData(digest),
+  });
+};
+
+/**
+ * Send the admin digest; returns false when no admin email is configured
+ */
+export const sendAdminDigestEmail = async (digest: AdminDigest): Promise<boolean> => {
+  try {
+    const adminEmail = getAdminEmail();
+
+    if (!adminEmail) {
+      console.warn('⚠️ No admin email configured, skipping admin digest');
+      return false;
+    }
+
+    const email = await buildAdminDigestEmail(digest);
+
+    await enqueueEmail({
+      event: EmailEvent.ADMIN_DIGEST,
       to: adminEmail,
-      subject: `New Request: ${request.projectName}`,
-      html: `
-        <!DOCTYPE html>
-        <html lang="en">
-        <head>
-          <meta charset="UTF-8">
-          <meta name="viewport" content="width=device-width, initial-scale=1.0">
-          <meta http-equiv="X-UA-Compatible" content="IE=edge">
-          <title>New Website Request</title>
-          <style>
-            ${getEmailStyles()}
-            .admin-header { 
-              background: linear-gradient(135deg, #10b981 0%, #059669 100%);
-            }
-            .admin-section-title { 
-              color: #059669;
-            }
-            .badge-new {
-              background-color: #d1fae5;
-              color: #065f46;
-            }
-            .code-text {
-              background-color: #f3f4f6;
-              padding: 4px 8px;
-              border-radius: 4px;
-              font-family: 'Courier New', monospace;
-              font-size: 12px;
-              color: #4b5563;
-            }
-          </style>
-        </head>
-        <body>
-          <div class="email-wrapper">
-            <div class="email-container">
-              <div class="header admin-header">
-                <h1>New Website Request</h1>
-                <p>Action required: Review and respond</p>
-              </div>
-              
-              <div class="content">
-                <p class="intro-text">
-                  A new client has submitted a website request. Please review the details below and 
-                  contact them within 1-2 business days.
-                </p>
-
-                <div class="section">
-                  <div class="section-title admin-section-title">Project Information</div>
-                  
-                  <div class="detail-row">
-                    <div class="detail-label">Project Name</div>
-                    <div class="detail-value"><strong>${request.projectName}</strong></div>
-                  </div>
-                  
-                  <div class="detail-row">
-                    <div class="detail-label">Type</div>
-                    <div class="detail-value">${request.projectType}</div>
-                  </div>
-                  
-                  ${request.pagesRequired ? `
-                  <div class="detail-row">
-                    <div class="detail-label">Pages Required</div>
-                    <div class="detail-value">${request.pagesRequired}</div>
-                  </div>
-                  ` : '<div style="margin: 12px 0; color: #9ca3af; font-size: 13px; font-style: italic;">Pages not specified</div>'}
-                  
-                  ${request.selectedPlan ? `
-                  <div class="detail-row">
-                    <div class="detail-label">Selected Plan</div>
-                    <div class="detail-value"><span class="badge badge-new">${request.selectedPlan}</span></div>
-                  </div>
-                  ` : '<div style="margin: 12px 0; color: #9ca3af; font-size: 13px; font-style: italic;">Plan not selected</div>'}
-                </div>
-
-                <div class="section">
-                  <div class="section-title admin-section-title">Project Description</div>
-                  <div class="description-box${isDescTruncated ? ' truncated' : ''}">
-                    <div class="description-text">${descriptionText}</div>
-                  </div>
-                  ${isDescTruncated ? '<p style="font-size: 12px; color: #9ca3af; font-style: italic; margin-top: 8px;">Description truncated - view full text in admin dashboard</p>' : ''}
-                  
-                  ${featuresHtml}
-                  ${referenceLinksHtml}
-                  
-                  ${request.recommendedTemplate ? `
-                  <div style="margin: 12px 0;">
-                    <div class="detail-label">Recommended Template</div>
-                    <div class="detail-value">${request.recommendedTemplate}</div>
-                  </div>
-                  ` : '<div style="margin: 12px 0; color: #9ca3af; font-size: 13px; font-style: italic;">No template recommendation</div>'}
-                </div>
-
-                <div class="section">
-                  <div class="section-title admin-section-title">Contact Information</div>
-                  
-                  <div class="detail-row">
-                    <div class="detail-label">Name</div>
-                    <div class="detail-value"><strong>${request.contactName}</strong></div>
-                  </div>
-                  
-                  <div class="detail-row">
-                    <div class="detail-label">Email</div>
-                    <div class="detail-value"><a href="mailto:${request.contactEmail}">${request.contactEmail}</a></div>
-                  </div>
-                  
-                  <div class="detail-row">
-                    <div class="detail-label">Phone</div>
-                    <div class="detail-value"><a href="tel:${request.contactPhone}">${request.contactPhone}</a></div>
-                  </div>
-                </div>
-
-                <div class="section">
-                  <div class="section-title admin-section-title">Metadata</div>
-                  
-                  <div class="detail-row">
-                    <div class="detail-label">Submitted</div>
-                    <div class="detail-value">${new Date(request.createdAt).toLocaleString()}</div>
-                  </div>
-                  
-                  <div class="detail-row">
-                    <div class="detail-label">Editable Until</div>
-                    <div class="detail-value">${new Date(request.editableUntil).toLocaleString()}</div>
-                  </div>
-                  
-                  <div class="detail-row">
-                    <div class="detail-label">Request ID</div>
-                    <div class="detail-value"><span class="code-text">${request._id}</span></div>
-                  </div>
-                  
-                  <div class="detail-row">
-                    <div class="detail-label">User ID</div>
-                    <div class="detail-value"><span class="code-text">${request.userId}</span></div>
-                  </div>
-                </div>
-
-                <div class="alert-box">
-                  <strong>Action Required</strong>
-                  <p>Please review this request and contact the client within 1-2 business days to discuss their requirements.</p>
-                </div>
-              </div>
-              
-              <div class="footer">
-                <p>Automated notification from your website request system</p>
-                <p>&copy; ${new Date().getFullYear()} ${process.env.COMPANY_NAME || 'Your Company'}</p>
-              </div>
-            </div>
-          </div>
-        </body>
-        </html>
-      `,
+      ...email,
     });
 
-    console.log('✅ Admin notification email sent successfully');
+    console.log('✅ Admin digest email queued');
+    return true;
   } catch (error) {
-    console.error('❌ Failed to send admin notification email:', error);
+    console.error('❌ Failed to queue admin digest email:', error);
     throw error;
   }
 };
 
 export const sendClientApprovalEmail = async (
   request: IWebsiteRequest,
-  website: any
+  website: IWebsite,
+  options: EnqueueEmailOptions = {}
 ): Promise<void> => {
   try {
-    await resend.emails.send({
-      from: process.env.RESEND_FROM_EMAIL || 'onboarding@resend.dev',
-      to: request.contactEmail,
-      subject: '✅ Your Website Request Has Been Approved!',
-      html: `
-        <!DOCTYPE html>
-        <html lang="en">
-        <head>
-          <meta charset="UTF-8">
-          <meta name="viewport" content="width=device-width, initial-scale=1.0">
-          <meta http-equiv="X-UA-Compatible" content="IE=edge">
-          <title>Request Approved</title>
-          <style>${getEmailStyles()}</style>
-        </head>
-        <body>
-          <div class="email-wrapper">
-            <div class="email-container">
-              <div class="header" style="background: linear-gradient(135deg, #10b981 0%, #059669 100%);">
-                <h1>Request Approved!</h1>
-                <p>Your project is now in progress</p>
-              </div>
-              
-              <div class="content">
-                <div class="greeting">
-                  Hi <strong>${request.contactName}</strong>,
-                </div>
-                
-                <p class="intro-text">
-                  Great news! We've approved your website request for <strong>${request.projectName}</strong> 
-                  and our team is ready to start working on your project.
-                </p>
-
-                <div class="section">
-                  <div class="section-title">Project Details</div>
-                  
-                  <div class="detail-row">
-                    <div class="detail-label">Project Name</div>
-                    <div class="detail-value"><strong>${website.name}</strong></div>
-                  </div>
-                  
-                  <div class="detail-row">
-                    <div class="detail-label">Status</div>
-                    <div class="detail-value"><span class="badge badge-success">${website.status}</span></div>
-                  </div>
-                  
-                  ${website.assignedAdmin ? `
-                  <div class="detail-row">
-                    <div class="detail-label">Assigned Team Member</div>
-                    <div class="detail-value">${website.assignedAdmin}</div>
-                  </div>
-                  ` : ''}
-                  
-                  ${website.totalPages ? `
-                  <div class="detail-row">
-                    <div class="detail-label">Total Pages</div>
-                    <div class="detail-value">${website.totalPages}</div>
-                  </div>
-                  ` : ''}
-                </div>
-
-                <div class="info-box">
-                  <strong>What Happens Next?</strong>
-                  <p>
-                    Our team will begin working on your website immediately. 
-                    ${website.assignedAdmin ? `${website.assignedAdmin} will be your primary point of contact and ` : 'Someone from our team '}
-                    will reach out to you within 24 hours to discuss the next steps and timeline.
-                  </p>
-                </div>
-
-                <div class="alert-box" style="background-color: #dbeafe; border-left-color: #3b82f6;">
-                  <strong style="color: #1e40af;">Stay Updated</strong>
-                  <p style="color: #1e3a8a;">
-                    You can track your project progress through your dashboard. 
-                    We'll keep you informed at every milestone!
-                  </p>
-                </div>
-                
-                <p style="margin-top: 24px; font-size: 14px; color: #6b7280;">
-                  Please do not reply to this mail since it is an automated response.
-                </p>
-                
-                <p style="margin-top: 20px; font-size: 14px; color: #374151;">
-                  Best regards,<br/>
-                  <strong>${process.env.COMPANY_NAME || 'The Team'}</strong>
-                </p>
-              </div>
-              
-              <div class="footer">
-                <p>Approved on ${new Date().toLocaleString()}</p>
-                <p>&copy; ${new Date().getFullYear()} ${process.env.COMPANY_NAME || 'Your Company'}. All rights reserved.</p>
-              </div>
-            </div>
-          </div>
-        </body>
-        </html>
-      `,
+    const email = await renderEmailTemplate(EmailEvent.REQUEST_APPROVED, {
+      ...getCommonData(),
+      request: getRequestData(request),
+      website: getWebsiteData(website),
     });
 
-    console.log('✅ Client approval email sent successfully');
+    await enqueueEmail({
+      event: EmailEvent.REQUEST_APPROVED,
+      to: request.contactEmail,
+      ...email,
+    }, options);
+
+    console.log('✅ Client approval email queued');
   } catch (error) {
-    console.error('❌ Failed to send approval email:', error);
+    console.error('❌ Failed to queue approval email:', error);
     throw error;
   }
 };
 
 export const sendBillingActivatedEmail = async (
   request: IWebsiteRequest,
-  website: IWebsite
+  website: IWebsite,
+  options: EnqueueEmailOptions = {}
 ): Promise<void> => {
   try {
-    const daysRemaining = website.billing.graceEndsAt 
-      ? getDaysRemaining(website.billing.graceEndsAt)
-      : 5;
+    const email = await renderEmailTemplate(EmailEvent.BILLING_ACTIVATED, {
+      ...getCommonData(),
+      request: getRequestData(request),
+      website: getWebsiteData(website),
+    });
 
-    await resend.emails.send({
-      from: process.env.RESEND_FROM_EMAIL || 'onboarding@resend.dev',
+    await enqueueEmail({
+      event: EmailEvent.BILLING_ACTIVATED,
       to: request.contactEmail,
-      subject: '🎉 Your Website is Live! Payment Details Inside',
-      html: `
-        <!DOCTYPE html>
-        <html lang="en">
-        <head>
-          <meta charset="UTF-8">
-          <meta name="viewport" content="width=device-width, initial-scale=1.0">
-          <title>Website Deployed</title>
-          <style>${getEmailStyles()}</style>
-        </head>
-        <body>
-          <div class="email-wrapper">
-            <div class="email-container">
-              <div class="header" style="background: linear-gradient(135deg, #8b5cf6 0%, #6d28d9 100%);">
-                <h1>Your Website is Live!</h1>
-                <p>Congratulations! Your project is now deployed</p>
-              </div>
-              
-              <div class="content">
-                <div class="greeting">
-                  Hi <strong>${request.contactName}</strong>,
-                </div>
-                
-                <p class="intro-text">
-                  Great news! Your website <strong>${website.name}</strong> has been successfully deployed and is now live!
-                </p>
-
-                ${website.deploymentUrl ? `
-                <div class="info-box">
-                  <strong>🌐 Your Website URL</strong>
-                  <p style="font-size: 16px; margin-top: 8px;">
-                    <a href="${website.deploymentUrl}" style="color: #6366f1; font-weight: 600;">${website.deploymentUrl}</a>
-                  </p>
-                </div>
-                ` : ''}
-
-                <div class="section">
-                  <div class="section-title">Payment Information</div>
-                  
-                  ${website.billing.plan ? `
-                  <div class="detail-row">
-                    <div class="detail-label">Plan</div>
-                    <div class="detail-value"><strong>${website.billing.plan}</strong></div>
-                  </div>
-                  ` : ''}
-                  
-                  ${website.billing.price ? `
-                  <div class="detail-row">
-                    <div class="detail-label">Price</div>
-                    <div class="detail-value"><strong>$${website.billing.price}</strong> / ${website.billing.billingCycle}</div>
-                  </div>
-                  ` : ''}
-                  
-                  <div class="detail-row">
-                    <div class="detail-label">Payment Due</div>
-                    <div class="detail-value">${website.billing.graceEndsAt?.toLocaleDateString()}</div>
-                  </div>
-                  
-                  <div class="detail-row">
-                    <div class="detail-label">Days Remaining</div>
-                    <div class="detail-value"><span class="badge badge-success">${daysRemaining} days</span></div>
-                  </div>
-                </div>
-
-                <div class="alert-box" style="background-color: #fef3c7; border-left-color: #f59e0b;">
-                  <strong style="color: #92400e;">⏰ Important: Payment Grace Period</strong>
-                  <p style="color: #78350f;">
-                    You have <strong>${daysRemaining} days</strong> to complete your first payment. 
-                    After ${website.billing.graceEndsAt?.toLocaleDateString()}, your website will be suspended 
-                    until payment is received.
-                  </p>
-                </div>
-
-                <div class="info-box">
-                  <strong>📞 How to Make Payment</strong>
-                  <p>
-                    Please contact us at <strong>${process.env.CONTACT_NO}</strong>
-                    to arrange payment. We accept various payment methods for your convenience.
-                  </p>
-                </div>
-                
-                <p style="margin-top: 24px; font-size: 14px; color: #6b7280;">
-                  Thank you for choosing us to build your website. We're excited to see your project live!
-                </p>
-                
-                <p style="margin-top: 20px; font-size: 14px; color: #374151;">
-                  Best regards,<br/>
-                  <strong>${process.env.COMPANY_NAME || 'The Team'}</strong>
-                </p>
-              </div>
-              
-              <div class="footer">
-                <p>Deployed on ${new Date().toLocaleString()}</p>
-                <p>&copy; ${new Date().getFullYear()} ${process.env.COMPANY_NAME || 'Your Company'}. All rights reserved.</p>
-              </div>
-            </div>
-          </div>
-        </body>
-        </html>
-      `,
+      ...email,
+    }, options);
+
+    console.log('✅ Billing activation email queued');
+  } catch (error) {
+    console.error('❌ Failed to queue billing activation email:', error);
+    throw error;
+  }
+};
+
+/**
+ * Send payment confirmation with the invoice/receipt PDF attached
+ */
+export const sendPaymentConfirmationEmail = async (
+  request: IWebsiteRequest,
+  website: IWebsite,
+  invoice: IInvoice,
+  amount: number,
+  pdf: Buffer,
+  options: EnqueueEmailOptions = {}
+): Promise<void> => {
+  try {
+    const email = await renderEmailTemplate(EmailEvent.PAYMENT_CONFIRMATION, {
+      ...getCommonData(),
+      ...getPaymentData(invoice, amount),
+      request: getRequestData(request),
+      website: getWebsiteData(website),
     });
 
-    console.log('✅ Billing activation email sent successfully');
+    await enqueueEmail({
+      event: EmailEvent.PAYMENT_CONFIRMATION,
+      to: request.contactEmail,
+      ...email,
+      attachments: [
+        {
+          filename: `${invoice.number}.pdf`,
+          content: pdf,
+        },
+      ],
+    }, options);
+
+    console.log('✅ Payment confirmation email queued');
   } catch (error) {
-    console.error('❌ Failed to send billing activation email:', error);
+    console.error('❌ Failed to queue payment confirmation email:', error);
+    throw error;
+  }
+};
+
+/**
+ * Build the pre-due payment reminder (shared by the sender and the admin preview)
+ */
+export const buildPaymentReminderEmail = async (
+  request: IWebsiteRequest,
+  website: IWebsite,
+  daysRemaining: number
+): Promise<RenderedEmail> => {
+  return renderEmailTemplate(EmailEvent.PAYMENT_REMINDER, {
+    ...getCommonData(),
+    request: getRequestData(request),
+    website: getWebsiteData(website),
+    reminder: getReminderData(daysRemaining),
+    unsubscribeUrl: getUnsubscribeUrl(request.userId, EmailEvent.PAYMENT_REMINDER),
+  });
+};
+
+/**
+ * Send a payment reminder before the due date; returns false when the client
+ * has unsubscribed from reminders
+ */
+export const sendPaymentReminderEmail = async (
+  request: IWebsiteRequest,
+  website: IWebsite,
+  daysRemaining: number
+): Promise<boolean> => {
+  try {
+    if (!(await isEmailEnabled(request.userId, EmailEvent.PAYMENT_REMINDER))) {
+      console.log('⏭️ Payment reminder skipped, client unsubscribed');
+      return false;
+    }
+
+    const email = await buildPaymentReminderEmail(request, website, daysRemaining);
+
+    await enqueueEmail({
+      event: EmailEvent.PAYMENT_REMINDER,
+      to: request.contactEmail,
+      ...email,
+      headers: getUnsubscribeHeaders(getUnsubscribeUrl(request.userId, EmailEvent.PAYMENT_REMINDER)),
+    });
+
+    console.log('✅ Payment reminder email queued');
+    return true;
+  } catch (error) {
+    console.error('❌ Failed to queue payment reminder email:', error);
     throw error;
   }
 };
@@ -833,116 +631,25 @@ export const sendBillingActivatedEmail = async (
  */
 export const sendBillingSuspensionEmail = async (
   request: IWebsiteRequest,
-  website: IWebsite
+  website: IWebsite,
+  options: EnqueueEmailOptions = {}
 ): Promise<void> => {
   try {
-    await resend.emails.send({
-      from: process.env.RESEND_FROM_EMAIL || 'onboarding@resend.dev',
-      to: request.contactEmail,
-      subject: '⚠️ URGENT: Website Suspended - Payment Required',
-      html: `
-        <!DOCTYPE html>
-        <html lang="en">
-        <head>
-          <meta charset="UTF-8">
-          <meta name="viewport" content="width=device-width, initial-scale=1.0">
-          <title>Website Suspended</title>
-          <style>${getEmailStyles()}</style>
-        </head>
-        <body>
-          <div class="email-wrapper">
-            <div class="email-container">
-              <div class="header" style="background: linear-gradient(135deg, #ef4444 0%, #dc2626 100%);">
-                <h1>Website Suspended</h1>
-                <p>Immediate action required</p>
-              </div>
-              
-              <div class="content">
-                <div class="greeting">
-                  Hi <strong>${request.contactName}</strong>,
-                </div>
-                
-                <p class="intro-text" style="color: #991b1b;">
-                  Your website <strong>${website.name}</strong> has been suspended due to non-payment.
-                </p>
-
-                <div class="alert-box" style="background-color: #fee2e2; border-left-color: #dc2626;">
-                  <strong style="color: #991b1b;">Website Status: SUSPENDED</strong>
-                  <p style="color: #991b1b;">
-                    Your website is currently inaccessible to visitors. To restore service, 
-                    payment must be received immediately.
-                  </p>
-                </div>
-
-                <div class="section">
-                  <div class="section-title">Suspension Details</div>
-                  
-                  <div class="detail-row">
-                    <div class="detail-label">Website</div>
-                    <div class="detail-value">${website.name}</div>
-                  </div>
-                  
-                  ${website.deploymentUrl ? `
-                  <div class="detail-row">
-                    <div class="detail-label">URL</div>
-                    <div class="detail-value">${website.deploymentUrl}</div>
-                  </div>
-                  ` : ''}
-                  
-                  <div class="detail-row">
-                    <div class="detail-label">Suspended On</div>
-                    <div class="detail-value">${website.billing.suspendedAt?.toLocaleString() || 'Today'}</div>
-                  </div>
-                  
-                  ${website.billing.price ? `
-                  <div class="detail-row">
-                    <div class="detail-label">Amount Due</div>
-                    <div class="detail-value"><strong style="color: #dc2626;">$${website.billing.price}</strong></div>
-                  </div>
-                  ` : ''}
-                </div>
-
-                <div class="info-box">
-                  <strong>💳 How to Restore Your Website</strong>
-                  <p>
-                    1. Contact us immediately at <strong>${process.env.CONTACT_NO}</strong><br/>
-                    2. Arrange payment for the outstanding amount<br/>
-                    3. Your website will be restored within 2-4 hours of payment confirmation
-                  </p>
-                </div>
-
-                <div class="alert-box">
-                  <strong>⏰ Time-Sensitive</strong>
-                  <p>
-                    The longer your website remains suspended, the more impact it has on your 
-                    business and SEO rankings. Please act quickly to restore service.
-                  </p>
-                </div>
-                
-                <p style="margin-top: 24px; font-size: 14px; color: #6b7280;">
-                  If you believe this suspension was made in error, please contact us immediately.
-                </p>
-                
-                <p style="margin-top: 20px; font-size: 14px; color: #374151;">
-                  Best regards,<br/>
-                  <strong>${process.env.COMPANY_NAME || 'The Team'}</strong>
-                </p>
-              </div>
-              
-              <div class="footer">
-                <p>This is an automated notification</p>
-                <p>&copy; ${new Date().getFullYear()} ${process.env.COMPANY_NAME || 'Your Company'}. All rights reserved.</p>
-              </div>
-            </div>
-          </div>
-        </body>
-        </html>
-      `,
+    const email = await renderEmailTemplate(EmailEvent.BILLING_SUSPENDED, {
+      ...getCommonData(),
+      request: getRequestData(request),
+      website: getWebsiteData(website),
     });
 
-    console.log('✅ Suspension email sent successfully');
+    await enqueueEmail({
+      event: EmailEvent.BILLING_SUSPENDED,
+      to: request.contactEmail,
+      ...email,
+    }, options);
+
+    console.log('✅ Suspension email queued');
   } catch (error) {
-    console.error('❌ Failed to send suspension email:', error);
+    console.error('❌ Failed to queue suspension email:', error);
     throw error;
   }
 };
@@ -952,109 +659,25 @@ export const sendBillingSuspensionEmail = async (
  */
 export const sendBillingOverdueEmail = async (
   request: IWebsiteRequest,
-  website: IWebsite
+  website: IWebsite,
+  options: EnqueueEmailOptions = {}
 ): Promise<void> => {
   try {
-    await resend.emails.send({
-      from: process.env.RESEND_FROM_EMAIL || 'onboarding@resend.dev',
-      to: request.contactEmail,
-      subject: '⚠️ Payment Overdue - Action Required',
-      html: `
-        <!DOCTYPE html>
-        <html lang="en">
-        <head>
-          <meta charset="UTF-8">
-          <meta name="viewport" content="width=device-width, initial-scale=1.0">
-          <title>Payment Overdue</title>
-          <style>${getEmailStyles()}</style>
-        </head>
-        <body>
-          <div class="email-wrapper">
-            <div class="email-container">
-              <div class="header" style="background: linear-gradient(135deg, #f59e0b 0%, #d97706 100%);">
-                <h1>Payment Overdue</h1>
-                <p>Please settle your account</p>
-              </div>
-              
-              <div class="content">
-                <div class="greeting">
-                  Hi <strong>${request.contactName}</strong>,
-                </div>
-                
-                <p class="intro-text">
-                  Your payment for <strong>${website.name}</strong> is now overdue. 
-                  Please arrange payment as soon as possible to avoid service interruption.
-                </p>
-
-                <div class="alert-box">
-                  <strong>Payment Status: OVERDUE</strong>
-                  <p>
-                    Your payment was due on ${website.billing.dueAt?.toLocaleDateString()}. 
-                    To maintain uninterrupted service, please make payment immediately.
-                  </p>
-                </div>
-
-                <div class="section">
-                  <div class="section-title">Account Details</div>
-                  
-                  <div class="detail-row">
-                    <div class="detail-label">Website</div>
-                    <div class="detail-value">${website.name}</div>
-                  </div>
-                  
-                  ${website.billing.price ? `
-                  <div class="detail-row">
-                    <div class="detail-label">Amount Due</div>
-                    <div class="detail-value"><strong style="color: #d97706;">$${website.billing.price}</strong></div>
-                  </div>
-                  ` : ''}
-                  
-                  <div class="detail-row">
-                    <div class="detail-label">Due Date</div>
-                    <div class="detail-value">${website.billing.dueAt?.toLocaleDateString()}</div>
-                  </div>
-                </div>
-
-                <div class="alert-box" style="background-color: #fee2e2; border-left-color: #dc2626;">
-                  <strong style="color: #991b1b;">⚠️ Service Suspension Warning</strong>
-                  <p style="color: #991b1b;">
-                    If payment is not received soon, your website may be suspended. 
-                    This will make it inaccessible to visitors until payment is made.
-                  </p>
-                </div>
-
-                <div class="info-box">
-                  <strong>💳 Make Payment Now</strong>
-                  <p>
-                    Contact us at <strong>${process.env.CONTACT_NO}</strong> or reply to this email 
-                    to arrange payment and keep your website active.
-                  </p>
-                </div>
-                
-                <p style="margin-top: 24px; font-size: 14px; color: #6b7280;">
-                  Thank you for your prompt attention to this matter.
-                </p>
-                
-                <p style="margin-top: 20px; font-size: 14px; color: #374151;">
-                  Best regards,<br/>
-                  <strong>${process.env.COMPANY_NAME || 'The Team'}</strong>
-                </p>
-              </div>
-              
-              <div class="footer">
-                <p>This is an automated reminder</p>
-                <p>&copy; ${new Date().getFullYear()} ${process.env.COMPANY_NAME || 'Your Company'}. All rights reserved.</p>
-              </div>
-            </div>
-          </div>
-        </body>
-        </html>
-      `,
+    const email = await renderEmailTemplate(EmailEvent.BILLING_OVERDUE, {
+      ...getCommonData(),
+      request: getRequestData(request),
+      website: getWebsiteData(website),
     });
 
-    console.log('✅ Overdue payment email sent successfully');
+    await enqueueEmail({
+      event: EmailEvent.BILLING_OVERDUE,
+      to: request.contactEmail,
+      ...email,
+    }, options);
+
+    console.log('✅ Overdue payment email queued');
   } catch (error) {
-    console.error('❌ Failed to send overdue email:', error);
+    console.error('❌ Failed to queue overdue email:', error);
     throw error;
   }
 };
@@ -1065,155 +688,29 @@ export const sendSupportRequestAdminEmail = async (
   websiteRequest: IWebsiteRequest
 ): Promise<void> => {
   try {
-    const adminEmail = process.env.ADMIN_EMAIL || process.env.RESEND_FROM_EMAIL;
+    const adminEmail = getAdminEmail();
 
     if (!adminEmail) {
       console.warn('⚠️ No admin email configured, skipping admin notification');
       return;
     }
 
-    await resend.emails.send({
-      from: process.env.RESEND_FROM_EMAIL || 'onboarding@resend.dev',
+    const email = await renderEmailTemplate(EmailEvent.SUPPORT_ADMIN_NOTIFICATION, {
+      ...getCommonData(),
+      support: getSupportData(supportRequest),
+      website: getWebsiteData(website),
+      request: getRequestData(websiteRequest),
+    });
+
+    await enqueueEmail({
+      event: EmailEvent.SUPPORT_ADMIN_NOTIFICATION,
       to: adminEmail,
-      subject: `New Support Request: ${supportRequest.category}`,
-      html: `
-        <!DOCTYPE html>
-        <html lang="en">
-        <head>
-          <meta charset="UTF-8">
-          <meta name="viewport" content="width=device-width, initial-scale=1.0">
-          <title>New Support Request</title>
-          <style>
-            ${getEmailStyles()}
-            .admin-header { 
-              background: linear-gradient(135deg, #ef4444 0%, #dc2626 100%);
-            }
-            .priority-badge {
-              display: inline-block;
-              padding: 4px 12px;
-              border-radius: 12px;
-              font-size: 13px;
-              font-weight: 600;
-            }
-            .priority-high { background-color: #fee2e2; color: #991b1b; }
-            .priority-medium { background-color: #fef3c7; color: #92400e; }
-            .priority-low { background-color: #dbeafe; color: #1e40af; }
-          </style>
-        </head>
-        <body>
-          <div class="email-wrapper">
-            <div class="email-container">
-              <div class="header admin-header">
-                <h1>New Support Request</h1>
-                <p>Immediate attention required</p>
-              </div>
-              
-              <div class="content">
-                <div class="alert-box" style="background-color: #fee2e2; border-left-color: #dc2626;">
-                  <strong style="color: #991b1b;">Action Required</strong>
-                  <p style="color: #991b1b;">A user has submitted a support request that needs your attention.</p>
-                </div>
-
-                <div class="section">
-                  <div class="section-title">Request Details</div>
-                  
-                  <div class="detail-row">
-                    <div class="detail-label">Category</div>
-                    <div class="detail-value"><span class="badge">${supportRequest.category}</span></div>
-                  </div>
-                  
-                  <div class="detail-row">
-                    <div class="detail-label">Subject</div>
-                    <div class="detail-value"><strong>${supportRequest.subject}</strong></div>
-                  </div>
-                  
-                  <div class="detail-row">
-                    <div class="detail-label">Submitted</div>
-                    <div class="detail-value">${new Date(supportRequest.createdAt).toLocaleString()}</div>
-                  </div>
-                </div>
-
-                <div class="section">
-                  <div class="section-title">Message</div>
-                  <div class="description-box">
-                    <div class="description-text">${supportRequest.message}</div>
-                  </div>
-                </div>
-
-                <div class="section">
-                  <div class="section-title">Website Information</div>
-                  
-                  <div class="detail-row">
-                    <div class="detail-label">Website Name</div>
-                    <div class="detail-value"><strong>${website.name}</strong></div>
-                  </div>
-                  
-                  <div class="detail-row">
-                    <div class="detail-label">Status</div>
-                    <div class="detail-value">${website.status}</div>
-                  </div>
-                  
-                  ${website.deploymentUrl ? `
-                  <div class="detail-row">
-                    <div class="detail-label">URL</div>
-                    <div class="detail-value"><a href="${website.deploymentUrl}">${website.deploymentUrl}</a></div>
-                  </div>
-                  ` : ''}
-                </div>
-
-                <div class="section">
-                  <div class="section-title">Client Information</div>
-                  
-                  <div class="detail-row">
-                    <div class="detail-label">Name</div>
-                    <div class="detail-value"><strong>${websiteRequest.contactName}</strong></div>
-                  </div>
-                  
-                  <div class="detail-row">
-                    <div class="detail-label">Email</div>
-                    <div class="detail-value"><a href="mailto:${websiteRequest.contactEmail}">${websiteRequest.contactEmail}</a></div>
-                  </div>
-                  
-                  <div class="detail-row">
-                    <div class="detail-label">Phone</div>
-                    <div class="detail-value"><a href="tel:${websiteRequest.contactPhone}">${websiteRequest.contactPhone}</a></div>
-                  </div>
-                </div>
-
-                <div class="section">
-                  <div class="section-title">Metadata</div>
-                  
-                  <div class="detail-row">
-                    <div class="detail-label">Request ID</div>
-                    <div class="detail-value"><span class="code-text">${supportRequest._id}</span></div>
-                  </div>
-                  
-                  <div class="detail-row">
-                    <div class="detail-label">Website ID</div>
-                    <div class="detail-value"><span class="code-text">${website._id}</span></div>
-                  </div>
-                  
-                  <div class="detail-row">
-                    <div class="detail-label">User ID</div>
-                    <div class="detail-value"><span class="code-text">${supportRequest.userId}</span></div>
-                  </div>
-                </div>
-              </div>
-              
-              <div class="footer">
-                <p>Automated notification from your support system</p>
-                <p>&copy; ${new Date().getFullYear()} ${process.env.COMPANY_NAME || 'Your Company'}</p>
-              </div>
-            </div>
-          </div>
-        </body>
-        </html>
-      `,
+      ...email,
     });
 
-    console.log('✅ Support request admin email sent successfully');
+    console.log('✅ Support request admin email queued');
   } catch (error) {
-    console.error('❌ Failed to send support request admin email:', error);
+    console.error('❌ Failed to queue support request admin email:', error);
     throw error;
   }
 };
@@ -1227,107 +724,22 @@ export const sendSupportRequestUserEmail = async (
   websiteRequest: IWebsiteRequest
 ): Promise<void> => {
   try {
-    await resend.emails.send({
-      from: process.env.RESEND_FROM_EMAIL || 'onboarding@resend.dev',
+    const email = await renderEmailTemplate(EmailEvent.SUPPORT_RECEIVED, {
+      ...getCommonData(),
+      support: getSupportData(supportRequest),
+      website: getWebsiteData(website),
+      request: getRequestData(websiteRequest),
+    });
+
+    await enqueueEmail({
+      event: EmailEvent.SUPPORT_RECEIVED,
       to: websiteRequest.contactEmail,
-      subject: 'Support Request Received - We\'re Here to Help',
-      html: `
-        <!DOCTYPE html>
-        <html lang="en">
-        <head>
-          <meta charset="UTF-8">
-          <meta name="viewport" content="width=device-width, initial-scale=1.0">
-          <title>Support Request Confirmation</title>
-          <style>${getEmailStyles()}</style>
-        </head>
-        <body>
-          <div class="email-wrapper">
-            <div class="email-container">
-              <div class="header" style="background: linear-gradient(135deg, #3b82f6 0%, #2563eb 100%);">
-                <h1>Support Request Received</h1>
-                <p>We're here to help</p>
-              </div>
-              
-              <div class="content">
-                <div class="greeting">
-                  Hi <strong>${websiteRequest.contactName}</strong>,
-                </div>
-                
-                <p class="intro-text">
-                  We've received your support request for <strong>${website.name}</strong> and our team will look into it right away.
-                </p>
-
-                <div class="section">
-                  <div class="section-title">Your Request</div>
-                  
-                  <div class="detail-row">
-                    <div class="detail-label">Category</div>
-                    <div class="detail-value"><span class="badge">${supportRequest.category}</span></div>
-                  </div>
-                  
-                  <div class="detail-row">
-                    <div class="detail-label">Subject</div>
-                    <div class="detail-value"><strong>${supportRequest.subject}</strong></div>
-                  </div>
-                  
-                  <div class="detail-row">
-                    <div class="detail-label">Status</div>
-                    <div class="detail-value"><span class="badge badge-success">${supportRequest.status}</span></div>
-                  </div>
-                  
-                  <div class="detail-row">
-                    <div class="detail-label">Submitted</div>
-                    <div class="detail-value">${new Date(supportRequest.createdAt).toLocaleString()}</div>
-                  </div>
-                </div>
-
-                <div class="section">
-                  <div class="section-title">Your Message</div>
-                  <div class="description-box">
-                    <div class="description-text">${supportRequest.message}</div>
-                  </div>
-                </div>
-
-                <div class="info-box">
-                  <strong>What Happens Next?</strong>
-                  <p>
-                    Our support team will review your request and get back to you within 24-48 hours. 
-                    For urgent matters, please call us at <strong>${process.env.CONTACT_NO}</strong>.
-                  </p>
-                </div>
-
-                <div class="alert-box">
-                  <strong>Track Your Request</strong>
-                  <p>
-                    You can track the status of your support request in your dashboard. 
-                    We'll update you once your issue is being worked on and when it's resolved.
-                  </p>
-                </div>
-                
-                <p style="margin-top: 24px; font-size: 14px; color: #6b7280;">
-                  If you have additional information to provide, feel free to reply to this email.
-                </p>
-                
-                <p style="margin-top: 20px; font-size: 14px; color: #374151;">
-                  Best regards,<br/>
-                  <strong>${process.env.COMPANY_NAME || 'The Team'}</strong>
-                </p>
-              </div>
-              
-              <div class="footer">
-                <p>Support Request ID: ${supportRequest._id}</p>
-                <p>&copy; ${new Date().getFullYear()} ${process.env.COMPANY_NAME || 'Your Company'}. All rights reserved.</p>
-              </div>
-            </div>
-          </div>
-        </body>
-        </html>
-      `,
+      ...email,
     });
 
-    console.log('✅ Support request user confirmation email sent successfully');
+    console.log('✅ Support request user confirmation email queued');
   } catch (error) {
-    console.error('❌ Failed to send support request user email:', error);
+    console.error('❌ Failed to queue support request user email:', error);
     throw error;
   }
 };
@@ -1341,109 +753,83 @@ export const sendSupportResolvedEmail = async (
   websiteRequest: IWebsiteRequest
 ): Promise<void> => {
   try {
-    await resend.emails.send({
-      from: process.env.RESEND_FROM_EMAIL || 'onboarding@resend.dev',
+    const email = await renderEmailTemplate(EmailEvent.SUPPORT_RESOLVED, {
+      ...getCommonData(),
+      support: getSupportData(supportRequest),
+      website: getWebsiteData(website),
+      request: getRequestData(websiteRequest),
+    });
+
+    await enqueueEmail({
+      event: EmailEvent.SUPPORT_RESOLVED,
       to: websiteRequest.contactEmail,
-      subject: '✅ Your Support Request Has Been Resolved',
-      html: `
-        <!DOCTYPE html>
-        <html lang="en">
-        <head>
-          <meta charset="UTF-8">
-          <meta name="viewport" content="width=device-width, initial-scale=1.0">
-          <title>Support Request Resolved</title>
-          <style>${getEmailStyles()}</style>
-        </head>
-        <body>
-          <div class="email-wrapper">
-            <div class="email-container">
-              <div class="header" style="background: linear-gradient(135deg, #10b981 0%, #059669 100%);">
-                <h1>Issue Resolved</h1>
-                <p>Your support request has been completed</p>
-              </div>
-              
-              <div class="content">
-                <div class="greeting">
-                  Hi <strong>${websiteRequest.contactName}</strong>,
-                </div>
-                
-                <p class="intro-text">
-                  Great news! We've resolved your support request for <strong>${website.name}</strong>.
-                </p>
-
-                <div class="section">
-                  <div class="section-title">Resolved Request</div>
-                  
-                  <div class="detail-row">
-                    <div class="detail-label">Category</div>
-                    <div class="detail-value">${supportRequest.category}</div>
-                  </div>
-                  
-                  <div class="detail-row">
-                    <div class="detail-label">Subject</div>
-                    <div class="detail-value"><strong>${supportRequest.subject}</strong></div>
-                  </div>
-                  
-                  <div class="detail-row">
-                    <div class="detail-label">Status</div>
-                    <div class="detail-value"><span class="badge badge-success">RESOLVED</span></div>
-                  </div>
-                  
-                  <div class="detail-row">
-                    <div class="detail-label">Resolved On</div>
-                    <div class="detail-value">${new Date().toLocaleString()}</div>
-                  </div>
-                </div>
-
-                <div class="info-box">
-                  <strong>Original Request</strong>
-                  <p style="margin-top: 8px; color: #4b5563;">${supportRequest.message}</p>
-                </div>
-
-                ${website.deploymentUrl ? `
-                <div class="alert-box" style="background-color: #dbeafe; border-left-color: #3b82f6;">
-                  <strong style="color: #1e40af;">🌐 Check Your Website</strong>
-                  <p style="color: #1e3a8a;">
-                    Please visit your website at <a href="${website.deploymentUrl}" style="color: #2563eb; font-weight: 600;">${website.deploymentUrl}</a> 
-                    to verify that the issue has been resolved.
-                  </p>
-                </div>
-                ` : ''}
-
-                <div class="info-box">
-                  <strong>Need Further Help?</strong>
-                  <p>
-                    If you're still experiencing issues or have additional questions, feel free to:
-                    <br/>• Reply to this email
-                    <br/>• Submit a new support request through your dashboard
-                    <br/>• Call us at <strong>${process.env.CONTACT_NO}</strong>
-                  </p>
-                </div>
-                
-                <p style="margin-top: 24px; font-size: 14px; color: #6b7280;">
-                  Thank you for your patience while we worked on resolving your issue.
-                </p>
-                
-                <p style="margin-top: 20px; font-size: 14px; color: #374151;">
-                  Best regards,<br/>
-                  <strong>${process.env.COMPANY_NAME || 'The Team'}</strong>
-                </p>
-              </div>
-              
-              <div class="footer">
-                <p>Support Request ID: ${supportRequest._id}</p>
-                <p>&copy; ${new Date().getFullYear()} ${process.env.COMPANY_NAME || 'Your Company'}. All rights reserved.</p>
-              </div>
-            </div>
-          </div>
-        </body>
-        </html>
-      `,
+      ...email,
     });
 
-    console.log('✅ Support resolved email sent successfully');
+    console.log('✅ Support resolved email queued');
   } catch (error) {
-    console.error('❌ Failed to send support resolved email:', error);
+    console.error('❌ Failed to queue support resolved email:', error);
     throw error;
   }
+};
+
+// ============================================
+// PREVIEW
+// ============================================
+
+/**
+ * Data for previewing an event's template against a real request and website
+ *
+ * Uses the website's latest support request and invoice when it has them, and
+ * placeholders otherwise; the digest uses sample counts.
+ */
+export const buildPreviewEmailData = async (
+  event: EmailEvent,
+  request: IWebsiteRequest,
+  website: IWebsite
+): Promise<Record<string, unknown>> => {
+  const [supportRequest, invoice] = await Promise.all([
+    SupportRequest.findOne({ websiteId: website._id }).sort({ createdAt: -1 }),
+    Invoice.findOne({ websiteId: website._id }).sort({ createdAt: -1 }),
+  ]);
+
+  const currency = getBillingCurrency(website.billing || {});
+  const sampleAmount = website.billing?.price || 0;
+
+  return {
+    ...getCommonData(),
+    request: getRequestData(request),
+    website: getWebsiteData(website),
+    support: supportRequest
+      ? getSupportData(supportRequest)
+      : {
+          _id: 'preview',
+          userId: request.userId,
+          category: SupportCategory.GENERAL,
+          subject: 'Sample support request',
+          message: 'This is a sample support message used for the preview.',
+          status: SupportStatus.OPEN,
+          createdAt: new Date().toLocaleString(),
+        },
+    ...(invoice
+      ? getPaymentData(invoice, invoice.amountPaid || invoice.total)
+      : {
+          invoice: { number: 'INV-PREVIEW', status: InvoiceStatus.PAID, paid: true },
+          payment: { amount: formatMoney(sampleAmount, currency), balanceDue: '' },
+        }),
+    reminder: getReminderData(
+      website.billing?.dueAt ? Math.max(getDaysRemaining(new Date(website.billing.dueAt)), 1) : 3
+    ),
+    digest: getDigestData({
+      since: new Date(Date.now() - 24 * 60 * 60 * 1000),
+      newRequests: [request],
+      pendingRequests: 3,
+      expiredRequests: 1,
+      openSupportRequests: 2,
+      overdueWebsites: 1,
+      suspendedWebsites: 0,
+      dueSoonWebsites: 4,
+    }),
+    unsubscribeUrl: getUnsubscribeUrl(request.userId, event),
+  };
 };
\ No newline at end of file
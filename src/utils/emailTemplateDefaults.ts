@@ -0,0 +1,1320 @@
+// utils/emailTemplateDefaults.ts
+import { EmailEvent } from '../models/EmailOutbox';
+
+export interface EmailTemplateContent {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailTemplateDefault extends EmailTemplateContent {
+  description: string;
+  variables: string[]; // Top-level data the template can use (see emailService)
+}
+
+/**
+ * Built-in templates, seeded into the EmailTemplate collection and restored on revert
+ *
+ * Every template also gets {{styles}} (the shared email CSS), {{company.name}},
+ * {{company.team}}, {{company.year}}, {{company.contactNumber}} and {{sentAt}}.
+ * Values are HTML-escaped; links only come from the *Url/href fields, which
+ * hold sanitized URLs (e.g. request.referenceLinks items are { url, href }).
+ */
+export const DEFAULT_EMAIL_TEMPLATES: Record<EmailEvent, EmailTemplateDefault> = {
+  [EmailEvent.REQUEST_RECEIVED]: {
+    description: 'Sent to the client when they submit a website request',
+    variables: ['request', 'company', 'sentAt'],
+    subject: 'Request Received - We\'ll Be In Touch Soon',
+    text: '',
+    html: `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta http-equiv="X-UA-Compatible" content="IE=edge">
+  <title>Request Confirmation</title>
+  <style>{{styles}}</style>
+</head>
+<body>
+  <div class="email-wrapper">
+    <div class="email-container">
+      <div class="header">
+        <h1>Request Received</h1>
+        <p>Thank you for reaching out to us</p>
+      </div>
+
+      <div class="content">
+        <div class="greeting">
+          Hi <strong>{{request.contactName}}</strong>,
+        </div>
+
+        <p class="intro-text">
+          We've successfully received your website request and our team will review it shortly. 
+          You'll hear from us within 1-2 business days.
+        </p>
+
+        <div class="section">
+          <div class="section-title">Project Details</div>
+
+          <div class="detail-row">
+            <div class="detail-label">Project Name</div>
+            <div class="detail-value"><strong>{{request.projectName}}</strong></div>
+          </div>
+
+          <div class="detail-row">
+            <div class="detail-label">Type</div>
+            <div class="detail-value">{{request.projectType}}</div>
+          </div>
+
+          {{#request.pagesRequired}}
+          <div class="detail-row">
+            <div class="detail-label">Pages</div>
+            <div class="detail-value">{{request.pagesRequired}}</div>
+          </div>
+          {{/request.pagesRequired}}
+
+          {{#request.selectedPlan}}
+          <div class="detail-row">
+            <div class="detail-label">Plan</div>
+            <div class="detail-value">{{request.selectedPlan}}</div>
+          </div>
+          {{/request.selectedPlan}}
+
+          <div class="detail-row">
+            <div class="detail-label">Status</div>
+            <div class="detail-value"><span class="badge">{{request.status}}</span></div>
+          </div>
+        </div>
+
+        <div class="section">
+          <div class="section-title">Description</div>
+          <div class="description-box{{#request.descriptionTruncated}} truncated{{/request.descriptionTruncated}}">
+            <div class="description-text">{{request.description}}</div>
+          </div>
+          {{#request.descriptionTruncated}}<p style="font-size: 12px; color: #9ca3af; font-style: italic; margin-top: 8px;">Full description available in your dashboard</p>{{/request.descriptionTruncated}}
+
+          {{#request.features.length}}
+          <div style="margin: 12px 0;">
+            <div class="detail-label">Features</div>
+            <ul class="list-items">
+              {{#request.features}}<li>{{.}}</li>{{/request.features}}
+            </ul>
+          </div>
+          {{/request.features.length}}
+          {{#request.referenceLinks.length}}
+          <div style="margin: 12px 0;">
+            <div class="detail-label">Reference Links</div>
+            <ul class="list-items">
+              {{#request.referenceLinks}}<li>{{#href}}<a href="{{href}}">{{url}}</a>{{/href}}{{^href}}{{url}}{{/href}}</li>{{/request.referenceLinks}}
+            </ul>
+          </div>
+          {{/request.referenceLinks.length}}
+
+          {{#request.recommendedTemplate}}
+          <div style="margin: 12px 0;">
+            <div class="detail-label">Recommended Template</div>
+            <div class="detail-value">{{request.recommendedTemplate}}</div>
+          </div>
+          {{/request.recommendedTemplate}}
+        </div>
+
+        <div class="alert-box">
+          <strong>Editing Window</strong>
+          <p>You can edit this request until {{request.editableUntil}}. After that, it will be locked for review.</p>
+        </div>
+
+        <div class="info-box">
+          <strong>Next Steps</strong>
+          <p>Our team will contact you at <strong>{{request.contactPhone}}</strong> to discuss your project requirements in detail.</p>
+        </div>
+
+        <p style="margin-top: 24px; font-size: 14px; color: #6b7280;">
+          Please do not reply to this mail since it is an automated response.
+        </p>
+
+        <p style="margin-top: 20px; font-size: 14px; color: #374151;">
+          Best regards,<br/>
+          <strong>{{company.team}}</strong>
+        </p>
+      </div>
+
+      <div class="footer">
+        <p>Submitted on {{request.createdAt}}</p>
+        <p>&copy; {{company.year}} {{company.name}}. All rights reserved.</p>
+      </div>
+    </div>
+  </div>
+</body>
+</html>
+`,
+  },
+
+  [EmailEvent.REQUEST_ADMIN_NOTIFICATION]: {
+    description: 'Sent to the admin inbox for every new website request',
+    variables: ['request', 'company', 'sentAt'],
+    subject: 'New Request: {{request.projectName}}',
+    text: '',
+    html: `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta http-equiv="X-UA-Compatible" content="IE=edge">
+  <title>New Website Request</title>
+  <style>
+    {{styles}}
+    .admin-header { 
+      background: linear-gradient(135deg, #10b981 0%, #059669 100%);
+    }
+    .admin-section-title { 
+      color: #059669;
+    }
+    .badge-new {
+      background-color: #d1fae5;
+      color: #065f46;
+    }
+    .code-text {
+      background-color: #f3f4f6;
+      padding: 4px 8px;
+      border-radius: 4px;
+      font-family: 'Courier New', monospace;
+      font-size: 12px;
+      color: #4b5563;
+    }
+  </style>
+</head>
+<body>
+  <div class="email-wrapper">
+    <div class="email-container">
+      <div class="header admin-header">
+        <h1>New Website Request</h1>
+        <p>Action required: Review and respond</p>
+      </div>
+
+      <div class="content">
+        <p class="intro-text">
+          A new client has submitted a website request. Please review the details below and 
+          contact them within 1-2 business days.
+        </p>
+
+        <div class="section">
+          <div class="section-title admin-section-title">Project Information</div>
+
+          <div class="detail-row">
+            <div class="detail-label">Project Name</div>
+            <div class="detail-value"><strong>{{request.projectName}}</strong></div>
+          </div>
+
+          <div class="detail-row">
+            <div class="detail-label">Type</div>
+            <div class="detail-value">{{request.projectType}}</div>
+          </div>
+
+          {{#request.pagesRequired}}
+          <div class="detail-row">
+            <div class="detail-label">Pages Required</div>
+            <div class="detail-value">{{request.pagesRequired}}</div>
+          </div>
+          {{/request.pagesRequired}}{{^request.pagesRequired}}<div style="margin: 12px 0; color: #9ca3af; font-size: 13px; font-style: italic;">Pages not specified</div>{{/request.pagesRequired}}
+
+          {{#request.selectedPlan}}
+          <div class="detail-row">
+            <div class="detail-label">Selected Plan</div>
+            <div class="detail-value"><span class="badge badge-new">{{request.selectedPlan}}</span></div>
+          </div>
+          {{/request.selectedPlan}}{{^request.selectedPlan}}<div style="margin: 12px 0; color: #9ca3af; font-size: 13px; font-style: italic;">Plan not selected</div>{{/request.selectedPlan}}
+        </div>
+
+        <div class="section">
+          <div class="section-title admin-section-title">Project Description</div>
+          <div class="description-box{{#request.descriptionTruncated}} truncated{{/request.descriptionTruncated}}">
+            <div class="description-text">{{request.description}}</div>
+          </div>
+          {{#request.descriptionTruncated}}<p style="font-size: 12px; color: #9ca3af; font-style: italic; margin-top: 8px;">Description truncated - view full text in admin dashboard</p>{{/request.descriptionTruncated}}
+
+          {{#request.features.length}}
+          <div style="margin: 12px 0;">
+            <div class="detail-label">Features Requested</div>
+            <ul class="list-items">
+              {{#request.features}}<li>{{.}}</li>{{/request.features}}
+            </ul>
+          </div>
+          {{/request.features.length}}{{^request.features.length}}<div style="margin: 12px 0; color: #9ca3af; font-size: 13px; font-style: italic;">No features specified</div>{{/request.features.length}}
+          {{#request.referenceLinks.length}}
+          <div style="margin: 12px 0;">
+            <div class="detail-label">Reference Links</div>
+            <ul class="list-items">
+              {{#request.referenceLinks}}<li>{{#href}}<a href="{{href}}" target="_blank">{{url}}</a>{{/href}}{{^href}}{{url}}{{/href}}</li>{{/request.referenceLinks}}
+            </ul>
+          </div>
+          {{/request.referenceLinks.length}}{{^request.referenceLinks.length}}<div style="margin: 12px 0; color: #9ca3af; font-size: 13px; font-style: italic;">No reference links provided</div>{{/request.referenceLinks.length}}
+
+          {{#request.recommendedTemplate}}
+          <div style="margin: 12px 0;">
+            <div class="detail-label">Recommended Template</div>
+            <div class="detail-value">{{request.recommendedTemplate}}</div>
+          </div>
+          {{/request.recommendedTemplate}}{{^request.recommendedTemplate}}<div style="margin: 12px 0; color: #9ca3af; font-size: 13px; font-style: italic;">No template recommendation</div>{{/request.recommendedTemplate}}
+        </div>
+
+        <div class="section">
+          <div class="section-title admin-section-title">Contact Information</div>
+
+          <div class="detail-row">
+            <div class="detail-label">Name</div>
+            <div class="detail-value"><strong>{{request.contactName}}</strong></div>
+          </div>
+
+          <div class="detail-row">
+            <div class="detail-label">Email</div>
+            <div class="detail-value"><a href="{{request.contactEmailUrl}}">{{request.contactEmail}}</a></div>
+          </div>
+
+          <div class="detail-row">
+            <div class="detail-label">Phone</div>
+            <div class="detail-value"><a href="{{request.contactPhoneUrl}}">{{request.contactPhone}}</a></div>
+          </div>
+        </div>
+
+        <div class="section">
+          <div class="section-title admin-section-title">Metadata</div>
+
+          <div class="detail-row">
+            <div class="detail-label">Submitted</div>
+            <div class="detail-value">{{request.createdAt}}</div>
+          </div>
+
+          <div class="detail-row">
+            <div class="detail-label">Editable Until</div>
+            <div class="detail-value">{{request.editableUntil}}</div>
+          </div>
+
+          <div class="detail-row">
+            <div class="detail-label">Request ID</div>
+            <div class="detail-value"><span class="code-text">{{request._id}}</span></div>
+          </div>
+
+          <div class="detail-row">
+            <div class="detail-label">User ID</div>
+            <div class="detail-value"><span class="code-text">{{request.userId}}</span></div>
+          </div>
+        </div>
+
+        <div class="alert-box">
+          <strong>Action Required</strong>
+          <p>Please review this request and contact the client within 1-2 business days to discuss their requirements.</p>
+        </div>
+      </div>
+
+      <div class="footer">
+        <p>Automated notification from your website request system</p>
+        <p>&copy; {{company.year}} {{company.name}}</p>
+      </div>
+    </div>
+  </div>
+</body>
+</html>
+`,
+  },
+
+  [EmailEvent.ADMIN_DIGEST]: {
+    description: 'Periodic summary of requests, support and billing sent to the admin inbox',
+    variables: ['digest', 'company', 'sentAt'],
+    subject: 'Daily Digest: {{digest.newRequestsLabel}}, {{digest.overdueWebsites}} overdue',
+    text: '',
+    html: `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Daily Digest</title>
+  <style>{{styles}}</style>
+</head>
+<body>
+  <div class="email-wrapper">
+    <div class="email-container">
+      <div class="header" style="background: linear-gradient(135deg, #10b981 0%, #059669 100%);">
+        <h1>Daily Digest</h1>
+        <p>Activity since {{digest.since}}</p>
+      </div>
+
+      <div class="content">
+        <div class="section">
+          <div class="section-title">New Requests ({{digest.newRequests.length}})</div>
+          {{#digest.newRequests.length}}
+          <ul class="list-items">
+            {{#digest.newRequests}}<li><strong>{{projectName}}</strong> ({{projectType}}) - {{contactName}}</li>{{/digest.newRequests}}
+          </ul>
+          {{/digest.newRequests.length}}
+          {{^digest.newRequests.length}}<div style="margin: 12px 0; color: #9ca3af; font-size: 13px; font-style: italic;">No new requests</div>{{/digest.newRequests.length}}
+        </div>
+
+        <div class="section">
+          <div class="section-title">Requests &amp; Support</div>
+          <div class="detail-row">
+            <div class="detail-label">Requests awaiting review</div>
+            <div class="detail-value"><strong>{{digest.pendingRequests}}</strong></div>
+          </div>
+          <div class="detail-row">
+            <div class="detail-label">Requests expired</div>
+            <div class="detail-value"><strong>{{digest.expiredRequests}}</strong></div>
+          </div>
+          <div class="detail-row">
+            <div class="detail-label">Open support requests</div>
+            <div class="detail-value"><strong>{{digest.openSupportRequests}}</strong></div>
+          </div>
+        </div>
+
+        <div class="section">
+          <div class="section-title">Billing</div>
+          <div class="detail-row">
+            <div class="detail-label">Overdue websites</div>
+            <div class="detail-value"><strong>{{digest.overdueWebsites}}</strong></div>
+          </div>
+          <div class="detail-row">
+            <div class="detail-label">Suspended websites</div>
+            <div class="detail-value"><strong>{{digest.suspendedWebsites}}</strong></div>
+          </div>
+          <div class="detail-row">
+            <div class="detail-label">Due in the next 7 days</div>
+            <div class="detail-value"><strong>{{digest.dueSoonWebsites}}</strong></div>
+          </div>
+        </div>
+      </div>
+
+      <div class="footer">
+        <p>Automated digest from your website request system</p>
+        <p>&copy; {{company.year}} {{company.name}}</p>
+      </div>
+    </div>
+  </div>
+</body>
+</html>
+`,
+  },
+
+  [EmailEvent.REQUEST_APPROVED]: {
+    description: 'Sent to the client when their request is approved and a website is created',
+    variables: ['request', 'website', 'company', 'sentAt'],
+    subject: '✅ Your Website Request Has Been Approved!',
+    text: '',
+    html: `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta http-equiv="X-UA-Compatible" content="IE=edge">
+  <title>Request Approved</title>
+  <style>{{styles}}</style>
+</head>
+<body>
+  <div class="email-wrapper">
+    <div class="email-container">
+      <div class="header" style="background: linear-gradient(135deg, #10b981 0%, #059669 100%);">
+        <h1>Request Approved!</h1>
+        <p>Your project is now in progress</p>
+      </div>
+
+      <div class="content">
+        <div class="greeting">
+          Hi <strong>{{request.contactName}}</strong>,
+        </div>
+
+        <p class="intro-text">
+          Great news! We've approved your website request for <strong>{{request.projectName}}</strong> 
+          and our team is ready to start working on your project.
+        </p>
+
+        <div class="section">
+          <div class="section-title">Project Details</div>
+
+          <div class="detail-row">
+            <div class="detail-label">Project Name</div>
+            <div class="detail-value"><strong>{{website.name}}</strong></div>
+          </div>
+
+          <div class="detail-row">
+            <div class="detail-label">Status</div>
+            <div class="detail-value"><span class="badge badge-success">{{website.status}}</span></div>
+          </div>
+
+          {{#website.assignedAdmin}}
+          <div class="detail-row">
+            <div class="detail-label">Assigned Team Member</div>
+            <div class="detail-value">{{website.assignedAdmin}}</div>
+          </div>
+          {{/website.assignedAdmin}}
+
+          {{#website.totalPages}}
+          <div class="detail-row">
+            <div class="detail-label">Total Pages</div>
+            <div class="detail-value">{{website.totalPages}}</div>
+          </div>
+          {{/website.totalPages}}
+        </div>
+
+        <div class="info-box">
+          <strong>What Happens Next?</strong>
+          <p>
+            Our team will begin working on your website immediately. 
+            {{#website.assignedAdmin}}{{website.assignedAdmin}} will be your primary point of contact and {{/website.assignedAdmin}}{{^website.assignedAdmin}}Someone from our team {{/website.assignedAdmin}}
+            will reach out to you within 24 hours to discuss the next steps and timeline.
+          </p>
+        </div>
+
+        <div class="alert-box" style="background-color: #dbeafe; border-left-color: #3b82f6;">
+          <strong style="color: #1e40af;">Stay Updated</strong>
+          <p style="color: #1e3a8a;">
+            You can track your project progress through your dashboard. 
+            We'll keep you informed at every milestone!
+          </p>
+        </div>
+
+        <p style="margin-top: 24px; font-size: 14px; color: #6b7280;">
+          Please do not reply to this mail since it is an automated response.
+        </p>
+
+        <p style="margin-top: 20px; font-size: 14px; color: #374151;">
+          Best regards,<br/>
+          <strong>{{company.team}}</strong>
+        </p>
+      </div>
+
+      <div class="footer">
+        <p>Approved on {{sentAt}}</p>
+        <p>&copy; {{company.year}} {{company.name}}. All rights reserved.</p>
+      </div>
+    </div>
+  </div>
+</body>
+</html>
+`,
+  },
+
+  [EmailEvent.BILLING_ACTIVATED]: {
+    description: 'Sent to the client when their website is deployed and billing starts',
+    variables: ['request', 'website', 'company', 'sentAt'],
+    subject: '🎉 Your Website is Live! Payment Details Inside',
+    text: '',
+    html: `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Website Deployed</title>
+  <style>{{styles}}</style>
+</head>
+<body>
+  <div class="email-wrapper">
+    <div class="email-container">
+      <div class="header" style="background: linear-gradient(135deg, #8b5cf6 0%, #6d28d9 100%);">
+        <h1>Your Website is Live!</h1>
+        <p>Congratulations! Your project is now deployed</p>
+      </div>
+
+      <div class="content">
+        <div class="greeting">
+          Hi <strong>{{request.contactName}}</strong>,
+        </div>
+
+        <p class="intro-text">
+          Great news! Your website <strong>{{website.name}}</strong> has been successfully deployed and is now live!
+        </p>
+
+        {{#website.deploymentUrl}}
+        <div class="info-box">
+          <strong>🌐 Your Website URL</strong>
+          <p style="font-size: 16px; margin-top: 8px;">
+            <a href="{{website.deploymentUrl}}" style="color: #6366f1; font-weight: 600;">{{website.deploymentUrl}}</a>
+          </p>
+        </div>
+        {{/website.deploymentUrl}}
+
+        <div class="section">
+          <div class="section-title">Payment Information</div>
+
+          {{#website.billing.plan}}
+          <div class="detail-row">
+            <div class="detail-label">Plan</div>
+            <div class="detail-value"><strong>{{website.billing.plan}}</strong></div>
+          </div>
+          {{/website.billing.plan}}
+
+          {{#website.billing.price}}
+          <div class="detail-row">
+            <div class="detail-label">Price</div>
+            <div class="detail-value"><strong>{{website.billing.price}}</strong> / {{website.billing.billingCycle}}</div>
+          </div>
+          {{/website.billing.price}}
+
+          <div class="detail-row">
+            <div class="detail-label">Payment Due</div>
+            <div class="detail-value">{{website.billing.graceEndsAt}}</div>
+          </div>
+
+          <div class="detail-row">
+            <div class="detail-label">Days Remaining</div>
+            <div class="detail-value"><span class="badge badge-success">{{website.billing.graceDaysRemaining}} days</span></div>
+          </div>
+        </div>
+
+        <div class="alert-box" style="background-color: #fef3c7; border-left-color: #f59e0b;">
+          <strong style="color: #92400e;">⏰ Important: Payment Grace Period</strong>
+          <p style="color: #78350f;">
+            You have <strong>{{website.billing.graceDaysRemaining}} days</strong> to complete your first payment. 
+            After {{website.billing.graceEndsAt}}, your website will be suspended 
+            until payment is received.
+          </p>
+        </div>
+
+        <div class="info-box">
+          <strong>📞 How to Make Payment</strong>
+          <p>
+            Please contact us at <strong>{{company.contactNumber}}</strong>
+            to arrange payment. We accept various payment methods for your convenience.
+          </p>
+        </div>
+
+        <p style="margin-top: 24px; font-size: 14px; color: #6b7280;">
+          Thank you for choosing us to build your website. We're excited to see your project live!
+        </p>
+
+        <p style="margin-top: 20px; font-size: 14px; color: #374151;">
+          Best regards,<br/>
+          <strong>{{company.team}}</strong>
+        </p>
+      </div>
+
+      <div class="footer">
+        <p>Deployed on {{sentAt}}</p>
+        <p>&copy; {{company.year}} {{company.name}}. All rights reserved.</p>
+      </div>
+    </div>
+  </div>
+</body>
+</html>
+`,
+  },
+
+  [EmailEvent.PAYMENT_CONFIRMATION]: {
+    description: 'Sent to the client for each recorded payment, with the invoice PDF attached',
+    variables: ['request', 'website', 'invoice', 'payment', 'company', 'sentAt'],
+    subject: '✅ Payment Received - {{website.name}}',
+    text: '',
+    html: `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Payment Received</title>
+  <style>{{styles}}</style>
+</head>
+<body>
+  <div class="email-wrapper">
+    <div class="email-container">
+      <div class="header" style="background: linear-gradient(135deg, #10b981 0%, #059669 100%);">
+        <h1>Payment Received</h1>
+        <p>Thank you for your payment</p>
+      </div>
+
+      <div class="content">
+        <div class="greeting">
+          Hi <strong>{{request.contactName}}</strong>,
+        </div>
+
+        <p class="intro-text">
+          We have received your payment for <strong>{{website.name}}</strong>. 
+          Your {{#invoice.paid}}receipt{{/invoice.paid}}{{^invoice.paid}}invoice{{/invoice.paid}} is attached to this email as a PDF.
+        </p>
+
+        <div class="section">
+          <div class="section-title">Payment Details</div>
+
+          <div class="detail-row">
+            <div class="detail-label">Amount Paid</div>
+            <div class="detail-value"><strong>{{payment.amount}}</strong></div>
+          </div>
+
+          <div class="detail-row">
+            <div class="detail-label">Invoice</div>
+            <div class="detail-value">{{invoice.number}}</div>
+          </div>
+
+          <div class="detail-row">
+            <div class="detail-label">Status</div>
+            <div class="detail-value"><span class="badge{{#invoice.paid}} badge-success{{/invoice.paid}}">{{invoice.status}}</span></div>
+          </div>
+
+          {{#payment.balanceDue}}
+          <div class="detail-row">
+            <div class="detail-label">Balance Due</div>
+            <div class="detail-value"><strong>{{payment.balanceDue}}</strong></div>
+          </div>
+          {{/payment.balanceDue}}
+
+          {{#website.billing.dueAt}}
+          <div class="detail-row">
+            <div class="detail-label">Next Payment Due</div>
+            <div class="detail-value">{{website.billing.dueAt}}</div>
+          </div>
+          {{/website.billing.dueAt}}
+        </div>
+
+        <p style="margin-top: 24px; font-size: 14px; color: #6b7280;">
+          If you have any questions about this payment, please contact us at <strong>{{company.contactNumber}}</strong>.
+        </p>
+
+        <p style="margin-top: 20px; font-size: 14px; color: #374151;">
+          Best regards,<br/>
+          <strong>{{company.team}}</strong>
+        </p>
+      </div>
+
+      <div class="footer">
+        <p>Payment recorded on {{sentAt}}</p>
+        <p>&copy; {{company.year}} {{company.name}}. All rights reserved.</p>
+      </div>
+    </div>
+  </div>
+</body>
+</html>
+`,
+  },
+
+  [EmailEvent.PAYMENT_REMINDER]: {
+    description: 'Sent to the client before a payment is due',
+    variables: ['request', 'website', 'reminder', 'unsubscribeUrl', 'company', 'sentAt'],
+    subject: '⏰ Payment Reminder - {{website.name}} is due {{reminder.dueLabel}}',
+    text: '',
+    html: `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Payment Reminder</title>
+  <style>{{styles}}</style>
+</head>
+<body>
+  <div class="email-wrapper">
+    <div class="email-container">
+      <div class="header" style="background: linear-gradient(135deg, #3b82f6 0%, #2563eb 100%);">
+        <h1>Payment Reminder</h1>
+        <p>Your next payment is due {{reminder.dueLabel}}</p>
+      </div>
+
+      <div class="content">
+        <div class="greeting">
+          Hi <strong>{{request.contactName}}</strong>,
+        </div>
+
+        <p class="intro-text">
+          This is a friendly reminder that the next payment for <strong>{{website.name}}</strong> 
+          is due on <strong>{{website.billing.dueAt}}</strong>.
+        </p>
+
+        <div class="section">
+          <div class="section-title">Payment Details</div>
+
+          <div class="detail-row">
+            <div class="detail-label">Website</div>
+            <div class="detail-value">{{website.name}}</div>
+          </div>
+
+          {{#website.billing.price}}
+          <div class="detail-row">
+            <div class="detail-label">Amount Due</div>
+            <div class="detail-value"><strong>{{website.billing.price}}</strong> / {{website.billing.billingCycle}}</div>
+          </div>
+          {{/website.billing.price}}
+
+          <div class="detail-row">
+            <div class="detail-label">Due Date</div>
+            <div class="detail-value">{{website.billing.dueAt}}</div>
+          </div>
+
+          <div class="detail-row">
+            <div class="detail-label">Days Remaining</div>
+            <div class="detail-value"><span class="badge">{{reminder.daysLabel}}</span></div>
+          </div>
+        </div>
+
+        <div class="info-box">
+          <strong>💳 How to Pay</strong>
+          <p>
+            Pay online from your dashboard, or contact us at <strong>{{company.contactNumber}}</strong> 
+            to arrange payment. Paying on time keeps your website online without interruption.
+          </p>
+        </div>
+
+        <p style="margin-top: 24px; font-size: 14px; color: #6b7280;">
+          If you have already paid, please disregard this reminder.
+        </p>
+
+        <p style="margin-top: 20px; font-size: 14px; color: #374151;">
+          Best regards,<br/>
+          <strong>{{company.team}}</strong>
+        </p>
+      </div>
+
+      <div class="footer">
+        <p>This is an automated reminder</p>
+      {{#unsubscribeUrl}}<p><a href="{{unsubscribeUrl}}">Unsubscribe from payment reminders</a></p>{{/unsubscribeUrl}}
+        <p>&copy; {{company.year}} {{company.name}}. All rights reserved.</p>
+      </div>
+    </div>
+  </div>
+</body>
+</html>
+`,
+  },
+
+  [EmailEvent.BILLING_SUSPENDED]: {
+    description: 'Sent to the client when their website is suspended for non-payment',
+    variables: ['request', 'website', 'company', 'sentAt'],
+    subject: '⚠️ URGENT: Website Suspended - Payment Required',
+    text: '',
+    html: `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Website Suspended</title>
+  <style>{{styles}}</style>
+</head>
+<body>
+  <div class="email-wrapper">
+    <div class="email-container">
+      <div class="header" style="background: linear-gradient(135deg, #ef4444 0%, #dc2626 100%);">
+        <h1>Website Suspended</h1>
+        <p>Immediate action required</p>
+      </div>
+
+      <div class="content">
+        <div class="greeting">
+          Hi <strong>{{request.contactName}}</strong>,
+        </div>
+
+        <p class="intro-text" style="color: #991b1b;">
+          Your website <strong>{{website.name}}</strong> has been suspended due to non-payment.
+        </p>
+
+        <div class="alert-box" style="background-color: #fee2e2; border-left-color: #dc2626;">
+          <strong style="color: #991b1b;">Website Status: SUSPENDED</strong>
+          <p style="color: #991b1b;">
+            Your website is currently inaccessible to visitors. To restore service, 
+            payment must be received immediately.
+          </p>
+        </div>
+
+        <div class="section">
+          <div class="section-title">Suspension Details</div>
+
+          <div class="detail-row">
+            <div class="detail-label">Website</div>
+            <div class="detail-value">{{website.name}}</div>
+          </div>
+
+          {{#website.deploymentUrl}}
+          <div class="detail-row">
+            <div class="detail-label">URL</div>
+            <div class="detail-value">{{website.deploymentUrl}}</div>
+          </div>
+          {{/website.deploymentUrl}}
+
+          <div class="detail-row">
+            <div class="detail-label">Suspended On</div>
+            <div class="detail-value">{{website.billing.suspendedAt}}</div>
+          </div>
+
+          {{#website.billing.price}}
+          <div class="detail-row">
+            <div class="detail-label">Amount Due</div>
+            <div class="detail-value"><strong style="color: #dc2626;">{{website.billing.price}}</strong></div>
+          </div>
+          {{/website.billing.price}}
+        </div>
+
+        <div class="info-box">
+          <strong>💳 How to Restore Your Website</strong>
+          <p>
+            1. Contact us immediately at <strong>{{company.contactNumber}}</strong><br/>
+            2. Arrange payment for the outstanding amount<br/>
+            3. Your website will be restored within 2-4 hours of payment confirmation
+          </p>
+        </div>
+
+        <div class="alert-box">
+          <strong>⏰ Time-Sensitive</strong>
+          <p>
+            The longer your website remains suspended, the more impact it has on your 
+            business and SEO rankings. Please act quickly to restore service.
+          </p>
+        </div>
+
+        <p style="margin-top: 24px; font-size: 14px; color: #6b7280;">
+          If you believe this suspension was made in error, please contact us immediately.
+        </p>
+
+        <p style="margin-top: 20px; font-size: 14px; color: #374151;">
+          Best regards,<br/>
+          <strong>{{company.team}}</strong>
+        </p>
+      </div>
+
+      <div class="footer">
+        <p>This is an automated notification</p>
+        <p>&copy; {{company.year}} {{company.name}}. All rights reserved.</p>
+      </div>
+    </div>
+  </div>
+</body>
+</html>
+`,
+  },
+
+  [EmailEvent.BILLING_OVERDUE]: {
+    description: 'Sent to the client when a payment becomes overdue',
+    variables: ['request', 'website', 'company', 'sentAt'],
+    subject: '⚠️ Payment Overdue - Action Required',
+    text: '',
+    html: `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Payment Overdue</title>
+  <style>{{styles}}</style>
+</head>
+<body>
+  <div class="email-wrapper">
+    <div class="email-container">
+      <div class="header" style="background: linear-gradient(135deg, #f59e0b 0%, #d97706 100%);">
+        <h1>Payment Overdue</h1>
+        <p>Please settle your account</p>
+      </div>
+
+      <div class="content">
+        <div class="greeting">
+          Hi <strong>{{request.contactName}}</strong>,
+        </div>
+
+        <p class="intro-text">
+          Your payment for <strong>{{website.name}}</strong> is now overdue. 
+          Please arrange payment as soon as possible to avoid service interruption.
+        </p>
+
+        <div class="alert-box">
+          <strong>Payment Status: OVERDUE</strong>
+          <p>
+            Your payment was due on {{website.billing.dueAt}}. 
+            To maintain uninterrupted service, please make payment immediately.
+          </p>
+        </div>
+
+        <div class="section">
+          <div class="section-title">Account Details</div>
+
+          <div class="detail-row">
+            <div class="detail-label">Website</div>
+            <div class="detail-value">{{website.name}}</div>
+          </div>
+
+          {{#website.billing.price}}
+          <div class="detail-row">
+            <div class="detail-label">Amount Due</div>
+            <div class="detail-value"><strong style="color: #d97706;">{{website.billing.price}}</strong></div>
+          </div>
+          {{/website.billing.price}}
+
+          <div class="detail-row">
+            <div class="detail-label">Due Date</div>
+            <div class="detail-value">{{website.billing.dueAt}}</div>
+          </div>
+        </div>
+
+        <div class="alert-box" style="background-color: #fee2e2; border-left-color: #dc2626;">
+          <strong style="color: #991b1b;">⚠️ Service Suspension Warning</strong>
+          <p style="color: #991b1b;">
+            If payment is not received soon, your website may be suspended. 
+            This will make it inaccessible to visitors until payment is made.
+          </p>
+        </div>
+
+        <div class="info-box">
+          <strong>💳 Make Payment Now</strong>
+          <p>
+            Contact us at <strong>{{company.contactNumber}}</strong> or reply to this email 
+            to arrange payment and keep your website active.
+          </p>
+        </div>
+
+        <p style="margin-top: 24px; font-size: 14px; color: #6b7280;">
+          Thank you for your prompt attention to this matter.
+        </p>
+
+        <p style="margin-top: 20px; font-size: 14px; color: #374151;">
+          Best regards,<br/>
+          <strong>{{company.team}}</strong>
+        </p>
+      </div>
+
+      <div class="footer">
+        <p>This is an automated reminder</p>
+        <p>&copy; {{company.year}} {{company.name}}. All rights reserved.</p>
+      </div>
+    </div>
+  </div>
+</body>
+</html>
+`,
+  },
+
+  [EmailEvent.SUPPORT_ADMIN_NOTIFICATION]: {
+    description: 'Sent to the admin inbox for every new support request',
+    variables: ['support', 'website', 'request', 'company', 'sentAt'],
+    subject: 'New Support Request: {{support.category}}',
+    text: '',
+    html: `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>New Support Request</title>
+  <style>
+    {{styles}}
+    .admin-header { 
+      background: linear-gradient(135deg, #ef4444 0%, #dc2626 100%);
+    }
+    .priority-badge {
+      display: inline-block;
+      padding: 4px 12px;
+      border-radius: 12px;
+      font-size: 13px;
+      font-weight: 600;
+    }
+    .priority-high { background-color: #fee2e2; color: #991b1b; }
+    .priority-medium { background-color: #fef3c7; color: #92400e; }
+    .priority-low { background-color: #dbeafe; color: #1e40af; }
+  </style>
+</head>
+<body>
+  <div class="email-wrapper">
+    <div class="email-container">
+      <div class="header admin-header">
+        <h1>New Support Request</h1>
+        <p>Immediate attention required</p>
+      </div>
+
+      <div class="content">
+        <div class="alert-box" style="background-color: #fee2e2; border-left-color: #dc2626;">
+          <strong style="color: #991b1b;">Action Required</strong>
+          <p style="color: #991b1b;">A user has submitted a support request that needs your attention.</p>
+        </div>
+
+        <div class="section">
+          <div class="section-title">Request Details</div>
+
+          <div class="detail-row">
+            <div class="detail-label">Category</div>
+            <div class="detail-value"><span class="badge">{{support.category}}</span></div>
+          </div>
+
+          <div class="detail-row">
+            <div class="detail-label">Subject</div>
+            <div class="detail-value"><strong>{{support.subject}}</strong></div>
+          </div>
+
+          <div class="detail-row">
+            <div class="detail-label">Submitted</div>
+            <div class="detail-value">{{support.createdAt}}</div>
+          </div>
+        </div>
+
+        <div class="section">
+          <div class="section-title">Message</div>
+          <div class="description-box">
+            <div class="description-text">{{support.message}}</div>
+          </div>
+        </div>
+
+        <div class="section">
+          <div class="section-title">Website Information</div>
+
+          <div class="detail-row">
+            <div class="detail-label">Website Name</div>
+            <div class="detail-value"><strong>{{website.name}}</strong></div>
+          </div>
+
+          <div class="detail-row">
+            <div class="detail-label">Status</div>
+            <div class="detail-value">{{website.status}}</div>
+          </div>
+
+          {{#website.deploymentUrl}}
+          <div class="detail-row">
+            <div class="detail-label">URL</div>
+            <div class="detail-value"><a href="{{website.deploymentUrl}}">{{website.deploymentUrl}}</a></div>
+          </div>
+          {{/website.deploymentUrl}}
+        </div>
+
+        <div class="section">
+          <div class="section-title">Client Information</div>
+
+          <div class="detail-row">
+            <div class="detail-label">Name</div>
+            <div class="detail-value"><strong>{{request.contactName}}</strong></div>
+          </div>
+
+          <div class="detail-row">
+            <div class="detail-label">Email</div>
+            <div class="detail-value"><a href="{{request.contactEmailUrl}}">{{request.contactEmail}}</a></div>
+          </div>
+
+          <div class="detail-row">
+            <div class="detail-label">Phone</div>
+            <div class="detail-value"><a href="{{request.contactPhoneUrl}}">{{request.contactPhone}}</a></div>
+          </div>
+        </div>
+
+        <div class="section">
+          <div class="section-title">Metadata</div>
+
+          <div class="detail-row">
+            <div class="detail-label">Request ID</div>
+            <div class="detail-value"><span class="code-text">{{support._id}}</span></div>
+          </div>
+
+          <div class="detail-row">
+            <div class="detail-label">Website ID</div>
+            <div class="detail-value"><span class="code-text">{{website._id}}</span></div>
+          </div>
+
+          <div class="detail-row">
+            <div class="detail-label">User ID</div>
+            <div class="detail-value"><span class="code-text">{{support.userId}}</span></div>
+          </div>
+        </div>
+      </div>
+
+      <div class="footer">
+        <p>Automated notification from your support system</p>
+        <p>&copy; {{company.year}} {{company.name}}</p>
+      </div>
+    </div>
+  </div>
+</body>
+</html>
+`,
+  },
+
+  [EmailEvent.SUPPORT_RECEIVED]: {
+    description: 'Sent to the client when they submit a support request',
+    variables: ['support', 'website', 'request', 'company', 'sentAt'],
+    subject: 'Support Request Received - We\'re Here to Help',
+    text: '',
+    html: `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Support Request Confirmation</title>
+  <style>{{styles}}</style>
+</head>
+<body>
+  <div class="email-wrapper">
+    <div class="email-container">
+      <div class="header" style="background: linear-gradient(135deg, #3b82f6 0%, #2563eb 100%);">
+        <h1>Support Request Received</h1>
+        <p>We're here to help</p>
+      </div>
+
+      <div class="content">
+        <div class="greeting">
+          Hi <strong>{{request.contactName}}</strong>,
+        </div>
+
+        <p class="intro-text">
+          We've received your support request for <strong>{{website.name}}</strong> and our team will look into it right away.
+        </p>
+
+        <div class="section">
+          <div class="section-title">Your Request</div>
+
+          <div class="detail-row">
+            <div class="detail-label">Category</div>
+            <div class="detail-value"><span class="badge">{{support.category}}</span></div>
+          </div>
+
+          <div class="detail-row">
+            <div class="detail-label">Subject</div>
+            <div class="detail-value"><strong>{{support.subject}}</strong></div>
+          </div>
+
+          <div class="detail-row">
+            <div class="detail-label">Status</div>
+            <div class="detail-value"><span class="badge badge-success">{{support.status}}</span></div>
+          </div>
+
+          <div class="detail-row">
+            <div class="detail-label">Submitted</div>
+            <div class="detail-value">{{support.createdAt}}</div>
+          </div>
+        </div>
+
+        <div class="section">
+          <div class="section-title">Your Message</div>
+          <div class="description-box">
+            <div class="description-text">{{support.message}}</div>
+          </div>
+        </div>
+
+        <div class="info-box">
+          <strong>What Happens Next?</strong>
+          <p>
+            Our support team will review your request and get back to you within 24-48 hours. 
+            For urgent matters, please call us at <strong>{{company.contactNumber}}</strong>.
+          </p>
+        </div>
+
+        <div class="alert-box">
+          <strong>Track Your Request</strong>
+          <p>
+            You can track the status of your support request in your dashboard. 
+            We'll update you once your issue is being worked on and when it's resolved.
+          </p>
+        </div>
+
+        <p style="margin-top: 24px; font-size: 14px; color: #6b7280;">
+          If you have additional information to provide, feel free to reply to this email.
+        </p>
+
+        <p style="margin-top: 20px; font-size: 14px; color: #374151;">
+          Best regards,<br/>
+          <strong>{{company.team}}</strong>
+        </p>
+      </div>
+
+      <div class="footer">
+        <p>Support Request ID: {{support._id}}</p>
+        <p>&copy; {{company.year}} {{company.name}}. All rights reserved.</p>
+      </div>
+    </div>
+  </div>
+</body>
+</html>
+`,
+  },
+
+  [EmailEvent.SUPPORT_RESOLVED]: {
+    description: 'Sent to the client when their support request is resolved',
+    variables: ['support', 'website', 'request', 'company', 'sentAt'],
+    subject: '✅ Your Support Request Has Been Resolved',
+    text: '',
+    html: `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Support Request Resolved</title>
+  <style>{{styles}}</style>
+</head>
+<body>
+  <div class="email-wrapper">
+    <div class="email-container">
+      <div class="header" style="background: linear-gradient(135deg, #10b981 0%, #059669 100%);">
+        <h1>Issue Resolved</h1>
+        <p>Your support request has been completed</p>
+      </div>
+
+      <div class="content">
+        <div class="greeting">
+          Hi <strong>{{request.contactName}}</strong>,
+        </div>
+
+        <p class="intro-text">
+          Great news! We've resolved your support request for <strong>{{website.name}}</strong>.
+        </p>
+
+        <div class="section">
+          <div class="section-title">Resolved Request</div>
+
+          <div class="detail-row">
+            <div class="detail-label">Category</div>
+            <div class="detail-value">{{support.category}}</div>
+          </div>
+
+          <div class="detail-row">
+            <div class="detail-label">Subject</div>
+            <div class="detail-value"><strong>{{support.subject}}</strong></div>
+          </div>
+
+          <div class="detail-row">
+            <div class="detail-label">Status</div>
+            <div class="detail-value"><span class="badge badge-success">RESOLVED</span></div>
+          </div>
+
+          <div class="detail-row">
+            <div class="detail-label">Resolved On</div>
+            <div class="detail-value">{{sentAt}}</div>
+          </div>
+        </div>
+
+        <div class="info-box">
+          <strong>Original Request</strong>
+          <p style="margin-top: 8px; color: #4b5563;">{{support.message}}</p>
+        </div>
+
+        {{#website.deploymentUrl}}
+        <div class="alert-box" style="background-color: #dbeafe; border-left-color: #3b82f6;">
+          <strong style="color: #1e40af;">🌐 Check Your Website</strong>
+          <p style="color: #1e3a8a;">
+            Please visit your website at <a href="{{website.deploymentUrl}}" style="color: #2563eb; font-weight: 600;">{{website.deploymentUrl}}</a> 
+            to verify that the issue has been resolved.
+          </p>
+        </div>
+        {{/website.deploymentUrl}}
+
+        <div class="info-box">
+          <strong>Need Further Help?</strong>
+          <p>
+            If you're still experiencing issues or have additional questions, feel free to:
+            <br/>• Reply to this email
+            <br/>• Submit a new support request through your dashboard
+            <br/>• Call us at <strong>{{company.contactNumber}}</strong>
+          </p>
+        </div>
+
+        <p style="margin-top: 24px; font-size: 14px; color: #6b7280;">
+          Thank you for your patience while we worked on resolving your issue.
+        </p>
+
+        <p style="margin-top: 20px; font-size: 14px; color: #374151;">
+          Best regards,<br/>
+          <strong>{{company.team}}</strong>
+        </p>
+      </div>
+
+      <div class="footer">
+        <p>Support Request ID: {{support._id}}</p>
+        <p>&copy; {{company.year}} {{company.name}}. All rights reserved.</p>
+      </div>
+    </div>
+  </div>
+</body>
+</html>
+`,
+  },
+};
\ No newline at end of file
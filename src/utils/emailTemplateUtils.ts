@@ -0,0 +1,127 @@
+// utils/emailTemplateUtils.ts
+import { EmailEvent } from '../models/EmailOutbox';
+import EmailTemplate from '../models/EmailTemplate';
+import { DEFAULT_EMAIL_TEMPLATES, EmailTemplateContent } from './emailTemplateDefaults';
+import { htmlToText, renderTemplate, validateTemplate } from './templateEngine';
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/**
+ * Current template for an event (the stored one, or the built-in default)
+ */
+export const getEmailTemplate = async (event: EmailEvent): Promise<EmailTemplateContent> => {
+  try {
+    const template = await EmailTemplate.findOne({ event }).lean();
+
+    if (template) {
+      return { subject: template.subject, html: template.html, text: template.text || '' };
+    }
+  } catch (error) {
+    // Never block an email on the template store; the default still renders it
+    console.error(`Failed to load ${event} email template, using the default:`, error);
+  }
+
+  return DEFAULT_EMAIL_TEMPLATES[event];
+};
+
+/**
+ * Render a template with the given data
+ *
+ * The subject and text body are rendered without HTML escaping; without a text
+ * template the plain-text alternative is generated from the rendered HTML.
+ */
+export const renderEmailContent = (
+  template: EmailTemplateContent,
+  data: Record<string, unknown>
+): RenderedEmail => {
+  const html = renderTemplate(template.html, data, 'html');
+  const text = template.text?.trim() ? renderTemplate(template.text, data, 'text').trim() : htmlToText(html);
+
+  return {
+    subject: renderTemplate(template.subject, data, 'text').replace(/\s+/g, ' ').trim(),
+    html,
+    text,
+  };
+};
+
+/**
+ * Render the current template for an event
+ */
+export const renderEmailTemplate = async (
+  event: EmailEvent,
+  data: Record<string, unknown>
+): Promise<RenderedEmail> => {
+  return renderEmailContent(await getEmailTemplate(event), data);
+};
+
+/**
+ * Check template fields before saving; returns the first error, or null when valid
+ */
+export const validateEmailTemplate = (template: Partial<EmailTemplateContent>): string | null => {
+  for (const field of ['subject', 'html', 'text'] as const) {
+    const source = template[field];
+
+    if (source === undefined) {
+      continue;
+    }
+
+    if (typeof source !== 'string') {
+      return `${field} must be a string`;
+    }
+
+    if (field !== 'text' && !source.trim()) {
+      return `${field} cannot be empty`;
+    }
+
+    const error = validateTemplate(source);
+    if (error) {
+      return `Invalid ${field} template: ${error}`;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Store the built-in templates for events that have none, and refresh the ones
+ * no admin has customized so they follow changes to the defaults
+ */
+export const seedEmailTemplates = async (): Promise<void> => {
+  const events = Object.keys(DEFAULT_EMAIL_TEMPLATES) as EmailEvent[];
+
+  try {
+    const result = await EmailTemplate.bulkWrite(
+      events.flatMap((event) => {
+        const { subject, html, text } = DEFAULT_EMAIL_TEMPLATES[event];
+
+        return [
+          {
+            updateOne: {
+              filter: { event },
+              update: { $setOnInsert: { event, subject, html, text, customized: false } },
+              upsert: true,
+            },
+          },
+          {
+            updateOne: {
+              filter: { event, customized: false },
+              update: { $set: { subject, html, text } },
+              timestamps: false,
+            },
+          },
+        ];
+      })
+    );
+
+    if (result.upsertedCount > 0) {
+      console.log(`📧 Seeded ${result.upsertedCount} email template(s)`);
+    }
+  } catch (error) {
+    // Sending still works: getEmailTemplate falls back to the built-in defaults
+    console.error('❌ Failed to seed email templates:', error);
+  }
+};
\ No newline at end of file
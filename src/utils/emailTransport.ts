@@ -0,0 +1,173 @@
+// utils/emailTransport.ts
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import { Resend } from 'resend';
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text?: string; // Plain-text alternative
+  headers?: Record<string, string>; // Extra headers, e.g. List-Unsubscribe
+  attachments?: { filename: string; content: Buffer }[];
+}
+
+export interface SentEmail {
+  messageId?: string;
+}
+
+export interface EmailTransport {
+  name: string;
+  /** Throws when the message could not be handed over (the outbox retries it) */
+  send: (message: EmailMessage) => Promise<SentEmail>;
+}
+
+// ============================================
+// RESEND
+// ============================================
+
+export const createResendTransport = (): EmailTransport => {
+  const resend = new Resend(process.env.RESEND_API_KEY);
+
+  return {
+    name: 'resend',
+
+    send: async (message) => {
+      const { data, error } = await resend.emails.send(message);
+
+      // Resend reports API errors in the response rather than throwing
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return { messageId: data?.id };
+    },
+  };
+};
+
+// ============================================
+// SMTP
+// ============================================
+
+export const createSmtpTransport = (): EmailTransport => {
+  const port = Number(process.env.SMTP_PORT) || 587;
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port,
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+      : undefined,
+  });
+
+  return {
+    name: 'smtp',
+
+    send: async (message) => {
+      const info = await transporter.sendMail(message);
+      return { messageId: info.messageId };
+    },
+  };
+};
+
+// ============================================
+// LOCAL SINKS (development/testing)
+// ============================================
+
+/**
+ * Write each email to EMAIL_OUTPUT_DIR (default .emails) as an .eml file plus its HTML
+ * body, so it can be opened in a mail client or a browser
+ */
+export const createFileTransport = (
+  outputDir: string = process.env.EMAIL_OUTPUT_DIR || '.emails'
+): EmailTransport => {
+  // Renders the raw RFC 822 message without sending it anywhere
+  const composer = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+  return {
+    name: 'file',
+
+    send: async (message) => {
+      const info = await composer.sendMail(message);
+      const slug = message.subject.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60);
+      const basename = path.join(outputDir, `${new Date().toISOString().replace(/[:.]/g, '-')}-${slug || 'email'}`);
+
+      await fs.mkdir(outputDir, { recursive: true });
+      await fs.writeFile(`${basename}.eml`, info.message as Buffer);
+      await fs.writeFile(`${basename}.html`, message.html);
+
+      console.log(`📧 Email to ${message.to} written to ${basename}.eml`);
+      return { messageId: info.messageId };
+    },
+  };
+};
+
+const memoryOutbox: EmailMessage[] = [];
+
+/**
+ * Emails sent through the memory transport, oldest first
+ */
+export const getMemoryEmails = (): EmailMessage[] => memoryOutbox;
+
+/**
+ * Forget the emails kept by the memory transport
+ */
+export const clearMemoryEmails = (): void => {
+  memoryOutbox.length = 0;
+};
+
+/**
+ * Keep emails in memory (see getMemoryEmails), e.g. for tests
+ */
+export const createMemoryTransport = (): EmailTransport => {
+  return {
+    name: 'memory',
+
+    send: async (message) => {
+      memoryOutbox.push(message);
+      return { messageId: `memory-${memoryOutbox.length}` };
+    },
+  };
+};
+
+/**
+ * Configured transport name (EMAIL_TRANSPORT=resend|smtp|file|memory)
+ *
+ * Defaults to resend in production or when RESEND_API_KEY is set, otherwise to
+ * file so the app runs without any email account.
+ */
+export const getEmailTransportName = (): string => {
+  return process.env.EMAIL_TRANSPORT
+    || (process.env.NODE_ENV === 'production' || process.env.RESEND_API_KEY ? 'resend' : 'file');
+};
+
+let transport: EmailTransport | null = null;
+
+/**
+ * Get the configured email transport (created once, so SMTP connections and the
+ * memory outbox are shared)
+ */
+export const getEmailTransport = (): EmailTransport => {
+  if (transport) {
+    return transport;
+  }
+
+  switch (getEmailTransportName()) {
+    case 'smtp':
+      transport = createSmtpTransport();
+      break;
+    case 'file':
+      transport = createFileTransport();
+      break;
+    case 'memory':
+      transport = createMemoryTransport();
+      break;
+    case 'resend':
+    default:
+      transport = createResendTransport();
+  }
+
+  return transport;
+};
\ No newline at end of file
@@ -0,0 +1,344 @@
+// utils/invoiceRenderer.ts
+import { IInvoice, InvoiceStatus } from '../models/Invoice';
+import { IWebsite, PaymentEntryType } from '../models/Website';
+import { getEmailStyles } from './emailService';
+import { canEncodePdfText, createPdfDocument } from './pdfWriter';
+import { formatMoney, getCurrencySymbol } from './currencyUtils';
+import { escapeHtml } from './templateEngine';
+
+interface InvoiceDocumentData {
+  title: string;
+  companyName: string;
+  details: Array<{ label: string; value: string }>;
+  lineItems: Array<{ description: string; quantity: number; unitPrice: string; amount: string }>;
+  totals: Array<{ label: string; value: string; emphasize?: boolean }>;
+  payments: Array<{ date: string; method: string; reference: string; amount: string }>;
+  notes?: string;
+}
+
+const formatDate = (date?: Date): string => {
+  return date ? new Date(date).toLocaleDateString() : '-';
+};
+
+/**
+ * Paid invoices are presented as receipts
+ */
+export const getInvoiceDocumentTitle = (invoice: IInvoice): string => {
+  return invoice.status === InvoiceStatus.PAID ? 'Receipt' : 'Invoice';
+};
+
+/**
+ * File name for a rendered invoice, e.g. INV-000042.pdf
+ */
+export const getInvoiceFileName = (invoice: IInvoice, extension: string = 'pdf'): string => {
+  return `${invoice.number.replace(/[^A-Za-z0-9_-]/g, '_')}.${extension}`;
+};
+
+/**
+ * Collect everything shown on the document once, so HTML and PDF stay identical
+ * (except that the PDF falls back to the currency code for symbols its fonts lack)
+ */
+const buildDocumentData = (
+  invoice: IInvoice,
+  website: IWebsite,
+  currencyDisplay: 'symbol' | 'code' = 'symbol'
+): InvoiceDocumentData => {
+  const formatAmount = (amount: number = 0): string => formatMoney(amount, invoice.currency, currencyDisplay);
+
+  const details = [
+    { label: `${getInvoiceDocumentTitle(invoice)} Number`, value: invoice.number },
+    { label: 'Website', value: website.name },
+    { label: 'Status', value: invoice.status },
+    { label: 'Issued', value: formatDate(invoice.issuedAt || invoice.createdAt) },
+  ];
+
+  if (invoice.periodStart && invoice.periodEnd) {
+    details.push({
+      label: 'Billing Period',
+      value: `${formatDate(invoice.periodStart)} - ${formatDate(invoice.periodEnd)}`,
+    });
+  }
+
+  if (invoice.status === InvoiceStatus.PAID) {
+    details.push({ label: 'Paid On', value: formatDate(invoice.paidAt) });
+  } else {
+    details.push({ label: 'Due', value: formatDate(invoice.dueAt) });
+  }
+
+  const totals: InvoiceDocumentData['totals'] = [
+    { label: 'Subtotal', value: formatAmount(invoice.subtotal) },
+  ];
+
+  if (invoice.discount > 0) {
+    totals.push({ label: 'Discount', value: formatAmount(-invoice.discount) });
+  }
+
+  if (invoice.taxRate > 0) {
+    totals.push({ label: `Tax (${invoice.taxRate}%)`, value: formatAmount(invoice.tax) });
+  }
+
+  totals.push({ label: 'Total', value: formatAmount(invoice.total), emphasize: true });
+  totals.push({ label: 'Amount Paid', value: formatAmount(invoice.amountPaid) });
+  totals.push({
+    label: 'Balance Due',
+    value: formatAmount(Math.max(invoice.total - invoice.amountPaid, 0)),
+    emphasize: true,
+  });
+
+  const payments = (website.billing.paymentHistory || [])
+    .filter((payment) => payment.invoiceId && String(payment.invoiceId) === String(invoice._id))
+    .map((payment) => ({
+      date: formatDate(payment.date),
+      method: payment.type === PaymentEntryType.REFUND ? 'Refund' : payment.method || '-',
+      reference: payment.transactionId || '-',
+      amount: formatAmount(payment.amount),
+    }));
+
+  return {
+    title: getInvoiceDocumentTitle(invoice),
+    companyName: process.env.COMPANY_NAME || 'Your Company',
+    details,
+    lineItems: invoice.lineItems.map((item) => ({
+      description: item.description,
+      quantity: item.quantity,
+      unitPrice: formatAmount(item.unitPrice),
+      amount: formatAmount(item.amount),
+    })),
+    totals,
+    payments,
+    notes: invoice.notes,
+  };
+};
+
+/**
+ * Render an invoice/receipt as a standalone HTML document in the email look
+ */
+export const renderInvoiceHtml = (invoice: IInvoice, website: IWebsite): string => {
+  const data = buildDocumentData(invoice, website);
+  const cell = 'padding: 10px 8px; border-bottom: 1px solid #e5e7eb; font-size: 14px;';
+  const headCell = 'padding: 10px 8px; border-bottom: 2px solid #e5e7eb; font-size: 13px; color: #374151; text-align: left;';
+
+  return `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>${escapeHtml(data.title)} ${escapeHtml(invoice.number)}</title>
+      <style>${getEmailStyles()}</style>
+    </head>
+    <body>
+      <div class="email-wrapper">
+        <div class="email-container">
+          <div class="header">
+            <h1>${escapeHtml(data.title)}</h1>
+            <p>${escapeHtml(data.companyName)}</p>
+          </div>
+
+          <div class="content">
+            <div class="section">
+              <div class="section-title">Details</div>
+              ${data.details.map((detail) => `
+              <div class="detail-row">
+                <div class="detail-label">${escapeHtml(detail.label)}</div>
+                <div class="detail-value">${detail.label === 'Status'
+                  ? `<span class="badge${invoice.status === InvoiceStatus.PAID ? ' badge-success' : ''}">${escapeHtml(detail.value)}</span>`
+                  : escapeHtml(detail.value)}</div>
+              </div>
+              `).join('')}
+            </div>
+
+            <div class="section">
+              <div class="section-title">Items</div>
+              <table style="width: 100%; border-collapse: collapse;">
+                <thead>
+                  <tr>
+                    <th style="${headCell}">Description</th>
+                    <th style="${headCell} text-align: right;">Qty</th>
+                    <th style="${headCell} text-align: right;">Unit Price</th>
+                    <th style="${headCell} text-align: right;">Amount</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  ${data.lineItems.map((item) => `
+                  <tr>
+                    <td style="${cell} color: #4b5563;">${escapeHtml(item.description)}</td>
+                    <td style="${cell} text-align: right;">${item.quantity}</td>
+                    <td style="${cell} text-align: right;">${escapeHtml(item.unitPrice)}</td>
+                    <td style="${cell} text-align: right;">${escapeHtml(item.amount)}</td>
+                  </tr>
+                  `).join('')}
+                </tbody>
+              </table>
+
+              <table style="width: 100%; border-collapse: collapse; margin-top: 12px;">
+                ${data.totals.map((total) => `
+                <tr>
+                  <td style="padding: 6px 8px; text-align: right; font-size: 14px; color: #374151;${total.emphasize ? ' font-weight: 600;' : ''}">${escapeHtml(total.label)}</td>
+                  <td style="padding: 6px 8px; text-align: right; font-size: 14px; width: 120px;${total.emphasize ? ' font-weight: 600;' : ''}">${escapeHtml(total.value)}</td>
+                </tr>
+                `).join('')}
+              </table>
+            </div>
+
+            ${data.payments.length ? `
+            <div class="section">
+              <div class="section-title">Payments</div>
+              ${data.payments.map((payment) => `
+              <div class="detail-row">
+                <div class="detail-label">${escapeHtml(payment.date)}</div>
+                <div class="detail-value">${escapeHtml(payment.amount)} &middot; ${escapeHtml(payment.method)} &middot; ${escapeHtml(payment.reference)}</div>
+              </div>
+              `).join('')}
+            </div>
+            ` : ''}
+
+            ${data.notes ? `
+            <div class="info-box">
+              <strong>Notes</strong>
+              <p>${escapeHtml(data.notes)}</p>
+            </div>
+            ` : ''}
+          </div>
+
+          <div class="footer">
+            <p>Generated on ${new Date().toLocaleString()}</p>
+            <p>&copy; ${new Date().getFullYear()} ${escapeHtml(data.companyName)}. All rights reserved.</p>
+          </div>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+};
+
+/**
+ * Render an invoice/receipt as a PDF document
+ */
+export const renderInvoicePdf = (invoice: IInvoice, website: IWebsite): Buffer => {
+  const currencyDisplay = canEncodePdfText(getCurrencySymbol(invoice.currency)) ? 'symbol' : 'code';
+  const data = buildDocumentData(invoice, website, currencyDisplay);
+  const pdf = createPdfDocument();
+  const margin = 48;
+  const right = pdf.width - margin;
+  const bottomLimit = pdf.height - 72;
+  let y = 0;
+
+  const ensureSpace = (height: number): void => {
+    if (y + height > bottomLimit) {
+      pdf.addPage();
+      y = margin;
+    }
+  };
+
+  // Header band (same indigo as the email header)
+  pdf.rect(0, 0, pdf.width, 96, '#4f46e5');
+  pdf.text(margin, 28, data.title, { size: 24, bold: true, color: '#ffffff' });
+  pdf.text(margin, 60, data.companyName, { size: 11, color: '#e0e7ff' });
+  pdf.text(right, 32, invoice.number, { size: 12, bold: true, color: '#ffffff', align: 'right' });
+  y = 124;
+
+  // Details
+  pdf.text(margin, y, 'DETAILS', { size: 10, bold: true, color: '#6366f1' });
+  y += 20;
+  data.details.forEach((detail) => {
+    pdf.text(margin, y, detail.label, { size: 10, bold: true, color: '#374151' });
+    pdf.text(margin + 140, y, detail.value, { size: 10, color: '#6b7280' });
+    y += 18;
+  });
+  y += 16;
+
+  // Line items
+  const columns = { quantity: right - 200, unitPrice: right - 100, amount: right };
+  pdf.text(margin, y, 'ITEMS', { size: 10, bold: true, color: '#6366f1' });
+  y += 20;
+  pdf.text(margin, y, 'Description', { size: 10, bold: true, color: '#374151' });
+  pdf.text(columns.quantity, y, 'Qty', { size: 10, bold: true, color: '#374151', align: 'right' });
+  pdf.text(columns.unitPrice, y, 'Unit Price', { size: 10, bold: true, color: '#374151', align: 'right' });
+  pdf.text(columns.amount, y, 'Amount', { size: 10, bold: true, color: '#374151', align: 'right' });
+  y += 16;
+  pdf.line(margin, y, right, y, '#e5e7eb', 1.5);
+  y += 8;
+
+  data.lineItems.forEach((item) => {
+    // Wrap long descriptions to fit the description column
+    const maxWidth = columns.quantity - 40 - margin;
+    const lines: string[] = [];
+    let currentLine = '';
+
+    item.description.split(' ').forEach((word) => {
+      const candidate = currentLine ? `${currentLine} ${word}` : word;
+      if (currentLine && pdf.measureText(candidate, 10) > maxWidth) {
+        lines.push(currentLine);
+        currentLine = word;
+      } else {
+        currentLine = candidate;
+      }
+    });
+    lines.push(currentLine);
+
+    ensureSpace(lines.length * 14 + 12);
+
+    pdf.text(columns.quantity, y, String(item.quantity), { size: 10, align: 'right' });
+    pdf.text(columns.unitPrice, y, item.unitPrice, { size: 10, align: 'right' });
+    pdf.text(columns.amount, y, item.amount, { size: 10, align: 'right' });
+    lines.forEach((text) => {
+      pdf.text(margin, y, text, { size: 10, color: '#4b5563' });
+      y += 14;
+    });
+
+    y += 4;
+    pdf.line(margin, y, right, y);
+    y += 8;
+  });
+
+  // Totals
+  y += 4;
+  data.totals.forEach((total) => {
+    ensureSpace(18);
+    pdf.text(right - 120, y, total.label, { size: 10, bold: total.emphasize, color: '#374151', align: 'right' });
+    pdf.text(right, y, total.value, { size: 10, bold: total.emphasize, align: 'right' });
+    y += 18;
+  });
+
+  // Payments
+  if (data.payments.length) {
+    y += 16;
+    ensureSpace(40);
+    pdf.text(margin, y, 'PAYMENTS', { size: 10, bold: true, color: '#6366f1' });
+    y += 20;
+
+    data.payments.forEach((payment) => {
+      ensureSpace(18);
+      pdf.text(margin, y, payment.date, { size: 10, color: '#374151' });
+      pdf.text(margin + 100, y, payment.method, { size: 10, color: '#6b7280' });
+      pdf.text(margin + 200, y, payment.reference, { size: 10, color: '#6b7280' });
+      pdf.text(right, y, payment.amount, { size: 10, align: 'right' });
+      y += 18;
+    });
+  }
+
+  // Notes
+  if (data.notes) {
+    y += 16;
+    ensureSpace(40);
+    pdf.text(margin, y, 'NOTES', { size: 10, bold: true, color: '#6366f1' });
+    y += 20;
+
+    data.notes.split('\n').forEach((note) => {
+      ensureSpace(14);
+      pdf.text(margin, y, note, { size: 10, color: '#4b5563' });
+      y += 14;
+    });
+  }
+
+  // Footer
+  pdf.line(margin, pdf.height - 56, right, pdf.height - 56);
+  pdf.text(pdf.width / 2, pdf.height - 44, `© ${new Date().getFullYear()} ${data.companyName}. All rights reserved.`, {
+    size: 8,
+    color: '#9ca3af',
+    align: 'center',
+  });
+
+  return pdf.toBuffer();
+};
\ No newline at end of file
@@ -0,0 +1,252 @@
+// utils/invoiceUtils.ts
+import { getNextSequence } from '../models/Counter';
+import Invoice, { IInvoice, IInvoiceLineItem, InvoiceStatus } from '../models/Invoice';
+import Website, { IWebsite } from '../models/Website';
+import { calculateNextDueDate, countMissedCycles } from './billingUtils';
+import { calculateCouponDiscount, isBillingCouponActive } from './couponUtils';
+import { getBillingCurrency } from './currencyUtils';
+
+/**
+ * Round a monetary amount to whole minor units (amounts are stored as e.g. cents)
+ */
+export const roundAmount = (amount: number): number => {
+  return Math.round(amount);
+};
+
+/**
+ * Default tax rate in percent (INVOICE_TAX_RATE, default 0)
+ */
+export const getDefaultTaxRate = (): number => {
+  return Number(process.env.INVOICE_TAX_RATE) || 0;
+};
+
+/**
+ * Generate the next sequential invoice number, e.g. INV-000042
+ */
+export const generateInvoiceNumber = async (): Promise<string> => {
+  const seq = await getNextSequence('invoice');
+  const prefix = process.env.INVOICE_PREFIX || 'INV';
+  return `${prefix}-${String(seq).padStart(6, '0')}`;
+};
+
+/**
+ * Build line items for one billing cycle from the website's billing settings
+ */
+export const buildCycleLineItems = (
+  website: IWebsite,
+  periodStart: Date,
+  periodEnd: Date
+): IInvoiceLineItem[] => {
+  const { plan, price = 0, billingCycle } = website.billing;
+  const planName = plan ? plan.charAt(0).toUpperCase() + plan.slice(1) : 'Website';
+
+  return [
+    {
+      description: `${planName} plan (${billingCycle}) for ${website.name}: ${periodStart.toLocaleDateString()} - ${periodEnd.toLocaleDateString()}`,
+      quantity: 1,
+      unitPrice: price,
+      amount: roundAmount(price),
+    },
+  ];
+};
+
+/**
+ * Calculate subtotal, tax and total (discount is applied before tax)
+ */
+export const calculateInvoiceTotals = (
+  lineItems: IInvoiceLineItem[],
+  taxRate: number = 0,
+  discount: number = 0
+): { subtotal: number; discount: number; tax: number; total: number } => {
+  const subtotal = roundAmount(lineItems.reduce((sum, item) => sum + item.amount, 0));
+  const appliedDiscount = roundAmount(Math.min(Math.max(discount, 0), subtotal));
+  const tax = roundAmount(((subtotal - appliedDiscount) * taxRate) / 100);
+  const total = roundAmount(subtotal - appliedDiscount + tax);
+
+  return { subtotal, discount: appliedDiscount, tax, total };
+};
+
+/**
+ * Create an invoice for one billing cycle of a website
+ *
+ * Idempotent per period: returns the existing invoice if one was already
+ * generated for the same periodStart. Without an explicit discount, the
+ * website's coupon applies and one of its remaining cycles is used up.
+ */
+export const generateCycleInvoice = async (
+  website: IWebsite,
+  periodStart: Date,
+  options: {
+    dueAt?: Date;
+    status?: InvoiceStatus;
+    discount?: number;
+    taxRate?: number;
+    notes?: string;
+  } = {}
+): Promise<IInvoice> => {
+  const findExisting = () => Invoice.findOne({
+    websiteId: website._id,
+    periodStart,
+    status: { $ne: InvoiceStatus.VOID },
+  });
+
+  const existing = await findExisting();
+
+  if (existing) {
+    return existing;
+  }
+
+  const periodEnd = calculateNextDueDate(periodStart, website.billing.billingCycle);
+  const lineItems = buildCycleLineItems(website, periodStart, periodEnd);
+  const taxRate = options.taxRate ?? getDefaultTaxRate();
+  const status = options.status || InvoiceStatus.OPEN;
+
+  const { coupon } = website.billing;
+  const useCoupon = options.discount === undefined && isBillingCouponActive(coupon);
+  const discount = useCoupon
+    ? calculateCouponDiscount(coupon!, calculateInvoiceTotals(lineItems).subtotal)
+    : options.discount;
+
+  let invoice: IInvoice;
+  try {
+    invoice = await Invoice.create({
+      number: await generateInvoiceNumber(),
+      websiteId: website._id,
+      userId: website.userId,
+      currency: getBillingCurrency(website.billing),
+      lineItems,
+      ...calculateInvoiceTotals(lineItems, taxRate, discount),
+      taxRate,
+      couponCode: useCoupon ? coupon!.code : undefined,
+      periodStart,
+      periodEnd,
+      status,
+      issuedAt: status === InvoiceStatus.DRAFT ? undefined : new Date(),
+      dueAt: options.dueAt || periodStart,
+      notes: options.notes,
+    });
+  } catch (error: any) {
+    // Another run issued this period's invoice first (unique websiteId + periodStart)
+    const duplicate = error.code === 11000 && error.keyPattern?.periodStart ? await findExisting() : null;
+    if (duplicate) {
+      return duplicate;
+    }
+    throw error;
+  }
+
+  if (useCoupon && typeof coupon!.cyclesRemaining === 'number') {
+    coupon!.cyclesRemaining--;
+    await Website.updateOne(
+      { _id: website._id },
+      { $inc: { 'billing.coupon.cyclesRemaining': -1 } }
+    );
+  }
+
+  return invoice;
+};
+
+/**
+ * Create the first invoice when billing is initialized (due when the grace period ends)
+ */
+export const generateInitialInvoice = async (website: IWebsite): Promise<IInvoice | null> => {
+  if (!website.billing.activatedAt) {
+    return null;
+  }
+
+  return generateCycleInvoice(website, website.billing.activatedAt, {
+    dueAt: website.billing.graceEndsAt || website.billing.dueAt,
+  });
+};
+
+/**
+ * Apply a payment amount to an invoice, marking it PAID once fully covered
+ */
+export const applyPaymentToInvoice = (
+  invoice: IInvoice,
+  amount: number,
+  paidAt: Date = new Date()
+): void => {
+  invoice.amountPaid = roundAmount((invoice.amountPaid || 0) + amount);
+
+  if (invoice.amountPaid >= invoice.total) {
+    invoice.status = InvoiceStatus.PAID;
+    invoice.paidAt = paidAt;
+  }
+};
+
+/**
+ * Take a refunded amount back off an invoice, reopening it if it was paid
+ */
+export const removePaymentFromInvoice = (invoice: IInvoice, amount: number): void => {
+  invoice.amountPaid = roundAmount(Math.max((invoice.amountPaid || 0) - amount, 0));
+
+  if (invoice.status === InvoiceStatus.PAID && invoice.amountPaid < invoice.total) {
+    invoice.status = InvoiceStatus.OPEN;
+    invoice.paidAt = undefined;
+  }
+};
+
+/**
+ * Amount still owed on an invoice
+ */
+export const getInvoiceBalance = (invoice: IInvoice): number => {
+  return roundAmount(Math.max(invoice.total - (invoice.amountPaid || 0), 0));
+};
+
+/**
+ * Total still owed on a website's open invoices
+ */
+export const getOutstandingBalance = async (websiteId: IWebsite['_id']): Promise<number> => {
+  const openInvoices = await Invoice.find({ websiteId, status: InvoiceStatus.OPEN });
+  return roundAmount(openInvoices.reduce((sum, invoice) => sum + getInvoiceBalance(invoice), 0));
+};
+
+/**
+ * Make sure every missed billing cycle has an open invoice and return all open invoices (oldest first)
+ *
+ * Open invoices are assumed to cover the earliest missed cycles; invoices are
+ * generated only for the cycles beyond them.
+ */
+export const ensureMissedCycleInvoices = async (
+  website: IWebsite,
+  now: Date = new Date()
+): Promise<{ cycles: number; invoices: IInvoice[] }> => {
+  const { dueAt, billingCycle } = website.billing;
+  const cycles = countMissedCycles(dueAt, billingCycle, now);
+
+  const openInvoices: IInvoice[] = await Invoice.find({
+    websiteId: website._id,
+    status: InvoiceStatus.OPEN,
+  }).sort({ dueAt: 1 });
+
+  if (dueAt && website.billing.price) {
+    let periodStart = new Date(dueAt);
+
+    for (let index = 0; index < cycles; index++) {
+      if (index >= openInvoices.length) {
+        openInvoices.push(await generateCycleInvoice(website, periodStart, { dueAt: periodStart }));
+      }
+      periodStart = calculateNextDueDate(periodStart, billingCycle);
+    }
+  }
+
+  return { cycles, invoices: openInvoices };
+};
+
+/**
+ * Set the voided flag on invoices stored before it existed, so the
+ * per-period index covers them
+ */
+export const backfillInvoiceVoidedFlags = async (): Promise<void> => {
+  try {
+    const result = await Invoice.updateMany({ voided: { $exists: false } }, [
+      { $set: { voided: { $eq: ['$status', InvoiceStatus.VOID] } } },
+    ]);
+
+    if (result.modifiedCount > 0) {
+      console.log(`✅ Flagged ${result.modifiedCount} existing invoice(s) as voided or live`);
+    }
+  } catch (error) {
+    console.error('❌ Failed to backfill invoice voided flags:', error);
+  }
+};
\ No newline at end of file
@@ -0,0 +1,239 @@
+// utils/ledgerUtils.ts
+import { BillingStatus, IWebsite } from '../models/Website';
+import Invoice, { IInvoice, InvoiceStatus } from '../models/Invoice';
+import LedgerEntry, { ILedgerEntry, LedgerEntrySource, LedgerEntryType } from '../models/LedgerEntry';
+import { calculateNextDueDate } from './billingUtils';
+import {
+  applyPaymentToInvoice,
+  generateCycleInvoice,
+  getInvoiceBalance,
+  getOutstandingBalance,
+  roundAmount,
+} from './invoiceUtils';
+import { getBillingCurrency } from './currencyUtils';
+import { acquireJobLock, releaseJobLock } from '../jobs/jobRunner';
+
+// Spending credit takes a minute at most; the lock expires on its own after a crash
+const CREDIT_LOCK_TTL_MS = 60 * 1000;
+
+export type LedgerEntryInput = Pick<ILedgerEntry, 'userId' | 'type' | 'source' | 'amount' | 'currency' | 'description'>
+  & Partial<Pick<ILedgerEntry, 'websiteId' | 'invoiceId' | 'paymentId' | 'createdBy'>>;
+
+/**
+ * Aggregation expression for an entry's effect on the balance (credits add, debits subtract)
+ */
+const signedAmountExpression = {
+  $cond: [{ $eq: ['$type', LedgerEntryType.CREDIT] }, '$amount', { $multiply: ['$amount', -1] }],
+};
+
+/**
+ * Account credit per currency for a user (currencies with no entries are left out)
+ */
+export const getCreditBalances = async (userId: string): Promise<{ currency: string; credit: number }[]> => {
+  return LedgerEntry.aggregate([
+    { $match: { userId } },
+    { $group: { _id: '$currency', credit: { $sum: signedAmountExpression } } },
+    { $project: { _id: 0, currency: '$_id', credit: 1 } },
+    { $sort: { currency: 1 } },
+  ]);
+};
+
+/**
+ * Account credit a user has in one currency
+ */
+export const getCreditBalance = async (userId: string, currency: string): Promise<number> => {
+  const [balance] = await LedgerEntry.aggregate([
+    { $match: { userId, currency } },
+    { $group: { _id: null, credit: { $sum: signedAmountExpression } } },
+  ]);
+
+  return balance?.credit || 0;
+};
+
+/**
+ * Account credit, unpaid invoices and the net balance (credit - outstanding) per currency
+ */
+export const getAccountBalances = async (
+  userId: string
+): Promise<{ currency: string; credit: number; outstanding: number; balance: number }[]> => {
+  const [credits, outstanding] = await Promise.all([
+    getCreditBalances(userId),
+    Invoice.aggregate([
+      { $match: { userId, status: InvoiceStatus.OPEN } },
+      {
+        $group: {
+          _id: '$currency',
+          outstanding: { $sum: { $max: [{ $subtract: ['$total', '$amountPaid'] }, 0] } },
+        },
+      },
+    ]),
+  ]);
+
+  const currencies = Array.from(new Set([
+    ...credits.map((entry) => entry.currency),
+    ...outstanding.map((entry) => entry._id as string),
+  ])).sort();
+
+  return currencies.map((currency) => {
+    const credit = credits.find((entry) => entry.currency === currency)?.credit || 0;
+    const owed = outstanding.find((entry) => entry._id === currency)?.outstanding || 0;
+
+    return { currency, credit, outstanding: owed, balance: roundAmount(credit - owed) };
+  });
+};
+
+/**
+ * Add an entry to a user's ledger
+ */
+export const addLedgerEntry = async (input: LedgerEntryInput): Promise<ILedgerEntry> => {
+  return LedgerEntry.create(input);
+};
+
+/**
+ * Run a read-then-spend of a user's account credit under a per-user lock, so two
+ * concurrent spends can't both use the same balance
+ *
+ * Returns null without calling spend if another spend holds the lock.
+ */
+export const withCreditLock = async <T>(userId: string, spend: () => Promise<T>): Promise<T | null> => {
+  const lockName = `account-credit:${userId}`;
+  const owner = await acquireJobLock(lockName, CREDIT_LOCK_TTL_MS);
+
+  if (!owner) {
+    return null;
+  }
+
+  try {
+    return await spend();
+  } finally {
+    await releaseJobLock(lockName, owner);
+  }
+};
+
+/**
+ * Credit a payment left unused that has not been taken back by a refund yet
+ */
+export const getUnusedPaymentCredit = async (paymentId: ILedgerEntry['paymentId']): Promise<number> => {
+  const [balance] = await LedgerEntry.aggregate([
+    { $match: { paymentId, source: { $in: [LedgerEntrySource.OVERPAYMENT, LedgerEntrySource.REFUND] } } },
+    { $group: { _id: null, credit: { $sum: signedAmountExpression } } },
+  ]);
+
+  return balance?.credit || 0;
+};
+
+/**
+ * Move dueAt past billing periods whose invoice is already paid, invoicing the next period
+ *
+ * Returns the number of periods skipped.
+ */
+export const rollDueDateOverPaidCycles = async (website: IWebsite): Promise<number> => {
+  const { billingCycle } = website.billing;
+  let cycles = 0;
+
+  while (website.billing.dueAt) {
+    const paid = await Invoice.exists({
+      websiteId: website._id,
+      periodStart: website.billing.dueAt,
+      status: InvoiceStatus.PAID,
+    });
+
+    if (!paid) {
+      break;
+    }
+
+    website.billing.dueAt = calculateNextDueDate(website.billing.dueAt, billingCycle);
+    cycles++;
+  }
+
+  if (cycles > 0) {
+    await website.save();
+
+    try {
+      await generateCycleInvoice(website, website.billing.dueAt!);
+    } catch (invoiceError) {
+      console.error('Failed to generate next cycle invoice:', invoiceError);
+    }
+  }
+
+  return cycles;
+};
+
+/**
+ * Spend the owner's account credit on a website's open invoices (caller holds the credit lock)
+ */
+const spendAccountCredit = async (website: IWebsite, now: Date): Promise<number> => {
+  const currency = getBillingCurrency(website.billing);
+  const credit = await getCreditBalance(website.userId, currency);
+
+  if (credit <= 0) {
+    return 0;
+  }
+
+  const invoices: IInvoice[] = await Invoice.find({
+    websiteId: website._id,
+    status: InvoiceStatus.OPEN,
+    currency,
+  }).sort({ dueAt: 1 });
+
+  let applied = 0;
+
+  for (const invoice of invoices) {
+    const portion = Math.min(credit - applied, getInvoiceBalance(invoice));
+
+    if (portion <= 0) {
+      continue;
+    }
+
+    applyPaymentToInvoice(invoice, portion, now);
+    await invoice.save();
+
+    await addLedgerEntry({
+      userId: website.userId,
+      websiteId: website._id as ILedgerEntry['websiteId'],
+      type: LedgerEntryType.DEBIT,
+      source: LedgerEntrySource.INVOICE,
+      amount: portion,
+      currency,
+      description: `Applied to invoice ${invoice.number}`,
+      invoiceId: invoice._id as ILedgerEntry['invoiceId'],
+    });
+
+    applied = roundAmount(applied + portion);
+
+    if (applied >= credit) {
+      break;
+    }
+  }
+
+  if (applied <= 0) {
+    return 0;
+  }
+
+  await rollDueDateOverPaidCycles(website);
+
+  const { status, dueAt } = website.billing;
+  if (status !== BillingStatus.ACTIVE && dueAt && dueAt > now && await getOutstandingBalance(website._id) <= 0) {
+    website.billing.status = BillingStatus.ACTIVE;
+    website.billing.suspendedAt = undefined;
+    await website.save();
+  }
+
+  return applied;
+};
+
+/**
+ * Spend the owner's account credit on a website's open invoices, oldest first
+ *
+ * Each amount applied is recorded as an INVOICE debit. Periods paid this way roll
+ * dueAt forward, and credit that clears everything reactivates billing as a payment
+ * would. Runs under the owner's credit lock; returns the amount applied (0 when
+ * another spend holds the lock).
+ */
+export const applyAccountCredit = async (
+  website: IWebsite,
+  now: Date = new Date()
+): Promise<number> => {
+  const applied = await withCreditLock(website.userId, () => spendAccountCredit(website, now));
+  return applied ?? 0;
+};
\ No newline at end of file
@@ -0,0 +1,169 @@
+// utils/notificationUtils.ts
+import crypto from 'crypto';
+import { EmailEvent } from '../models/EmailOutbox';
+import User, { INotificationPreferences } from '../models/User';
+
+export type NotificationPreference = keyof INotificationPreferences;
+
+/**
+ * Client emails a user can opt out of, by the preference that controls them
+ *
+ * Everything else (request updates, billing activation, payment confirmations,
+ * overdue and suspension notices, support) is transactional and always sent.
+ */
+export const OPTIONAL_EMAIL_EVENTS: Partial<Record<EmailEvent, NotificationPreference>> = {
+  [EmailEvent.PAYMENT_REMINDER]: 'paymentReminders',
+};
+
+export const NOTIFICATION_PREFERENCES = Object.values(OPTIONAL_EMAIL_EVENTS) as NotificationPreference[];
+
+export const isNotificationPreference = (value: unknown): value is NotificationPreference => {
+  return NOTIFICATION_PREFERENCES.includes(value as NotificationPreference);
+};
+
+/**
+ * Key for unsubscribe links (UNSUBSCRIBE_SECRET, required in production;
+ * without it no unsubscribe links are sent)
+ */
+const getUnsubscribeSecret = (): string => {
+  return process.env.UNSUBSCRIBE_SECRET || '';
+};
+
+/**
+ * Public base URL of this API (API_URL, required in production), used in unsubscribe links
+ */
+export const getApiBaseUrl = (): string => {
+  return (process.env.API_URL || `http://localhost:${process.env.PORT || 5000}`).replace(/\/+$/, '');
+};
+
+// Bumped when the token format changes; tokens of any other version are rejected
+const UNSUBSCRIBE_TOKEN_VERSION = 'v1';
+
+// Links in old emails keep working for a year
+const UNSUBSCRIBE_TOKEN_MAX_AGE_MS = 365 * 24 * 60 * 60 * 1000;
+
+const signUnsubscribe = (payload: string): string => {
+  return crypto
+    .createHmac('sha256', getUnsubscribeSecret())
+    .update(`unsubscribe.${payload}`)
+    .digest('base64url');
+};
+
+/**
+ * Signed token that turns off one preference for one user (versioned, with its
+ * issue time so it expires)
+ */
+export const createUnsubscribeToken = (
+  userId: string,
+  preference: NotificationPreference,
+  issuedAt: Date = new Date()
+): string => {
+  const payload = [
+    UNSUBSCRIBE_TOKEN_VERSION,
+    Buffer.from(userId).toString('base64url'),
+    preference,
+    Math.floor(issuedAt.getTime() / 1000).toString(36),
+  ].join('.');
+
+  return `${payload}.${signUnsubscribe(payload)}`;
+};
+
+/**
+ * Check an unsubscribe token; returns what it unsubscribes from, or null
+ * (also for tokens of another version or older than a year)
+ */
+export const verifyUnsubscribeToken = (
+  token: unknown,
+  now: Date = new Date()
+): { userId: string; preference: NotificationPreference } | null => {
+  if (typeof token !== 'string') {
+    return null;
+  }
+
+  const [version, encodedUserId, preference, encodedIssuedAt, signature, ...rest] = token.split('.');
+
+  if (
+    version !== UNSUBSCRIBE_TOKEN_VERSION
+    || !encodedUserId
+    || !encodedIssuedAt
+    || !signature
+    || rest.length > 0
+    || !isNotificationPreference(preference)
+  ) {
+    return null;
+  }
+
+  const expected = Buffer.from(signUnsubscribe([version, encodedUserId, preference, encodedIssuedAt].join('.')));
+  const actual = Buffer.from(signature);
+
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  const issuedAt = parseInt(encodedIssuedAt, 36) * 1000;
+
+  if (!Number.isFinite(issuedAt) || now.getTime() - issuedAt > UNSUBSCRIBE_TOKEN_MAX_AGE_MS) {
+    return null;
+  }
+
+  return { userId: Buffer.from(encodedUserId, 'base64url').toString(), preference };
+};
+
+/**
+ * One-click unsubscribe URL (RFC 8058) for an optional email, or undefined for mandatory ones
+ */
+export const getUnsubscribeUrl = (userId: string, event: EmailEvent): string | undefined => {
+  const preference = OPTIONAL_EMAIL_EVENTS[event];
+
+  if (!preference || !getUnsubscribeSecret()) {
+    return undefined;
+  }
+
+  return `${getApiBaseUrl()}/api/notifications/unsubscribe?token=${createUnsubscribeToken(userId, preference)}`;
+};
+
+/**
+ * List-Unsubscribe headers pointing mail clients at the one-click endpoint
+ */
+export const getUnsubscribeHeaders = (unsubscribeUrl?: string): Record<string, string> | undefined => {
+  if (!unsubscribeUrl) {
+    return undefined;
+  }
+
+  return {
+    'List-Unsubscribe': `<${unsubscribeUrl}>`,
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+  };
+};
+
+/**
+ * Whether a user still receives an email (mandatory emails always return true)
+ */
+export const isEmailEnabled = async (userId: string, event: EmailEvent): Promise<boolean> => {
+  const preference = OPTIONAL_EMAIL_EVENTS[event];
+
+  if (!preference) {
+    return true;
+  }
+
+  const user = await User.findOne({ clerkId: userId }).select('notificationPreferences').lean();
+  return user?.notificationPreferences?.[preference] !== false;
+};
+
+/**
+ * Update a user's notification preferences; returns null when the user doesn't exist
+ */
+export const setNotificationPreferences = async (
+  userId: string,
+  preferences: Partial<INotificationPreferences>
+): Promise<INotificationPreferences | null> => {
+  const $set = Object.fromEntries(
+    Object.entries(preferences).map(([preference, enabled]) => [`notificationPreferences.${preference}`, enabled])
+  );
+
+  const user = await User.findOneAndUpdate({ clerkId: userId }, { $set }, { new: true })
+    .select('notificationPreferences')
+    .lean();
+
+  return user ? user.notificationPreferences : null;
+};
\ No newline at end of file
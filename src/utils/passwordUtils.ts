@@ -0,0 +1,47 @@
+// utils/passwordUtils.ts
+import crypto from 'crypto';
+import { promisify } from 'util';
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: string,
+  salt: string,
+  keylen: number
+) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+/**
+ * Hash a password with scrypt
+ * Stored format: scrypt$<salt hex>$<hash hex>
+ */
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const derivedKey = await scrypt(password, salt, KEY_LENGTH);
+  return `scrypt$${salt}$${derivedKey.toString('hex')}`;
+};
+
+/**
+ * Verify a password against a stored scrypt hash (constant-time)
+ */
+export const verifyPassword = async (
+  password: string,
+  storedHash: string
+): Promise<boolean> => {
+  const [algorithm, salt, hash] = storedHash.split('$');
+
+  if (algorithm !== 'scrypt' || !salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'hex');
+  const derivedKey = await scrypt(password, salt, expected.length);
+
+  return crypto.timingSafeEqual(derivedKey, expected);
+};
+
+/**
+ * Minimum password policy for admin accounts
+ */
+export const isStrongPassword = (password: unknown): boolean => {
+  return typeof password === 'string' && password.length >= 12;
+};
\ No newline at end of file
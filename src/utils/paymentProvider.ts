@@ -0,0 +1,333 @@
+// utils/paymentProvider.ts
+import crypto from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+
+export enum PaymentEventType {
+  PAYMENT_SUCCEEDED = 'payment_succeeded',
+  PAYMENT_FAILED = 'payment_failed',
+}
+
+export interface CheckoutSessionParams {
+  amount: number; // Minor units
+  currency: string;
+  description: string;
+  websiteId: string;
+  invoiceId?: string;
+  customerEmail?: string;
+  successUrl: string;
+  cancelUrl: string;
+}
+
+export interface CheckoutSession {
+  id: string;
+  url: string;
+}
+
+/**
+ * Provider-agnostic payment event
+ */
+export interface PaymentEvent {
+  id: string;
+  type: PaymentEventType;
+  transactionId: string;
+  amount: number; // Minor units
+  currency: string;
+  websiteId?: string;
+  invoiceId?: string;
+  method?: string;
+  failureReason?: string;
+  occurredAt: Date;
+}
+
+export interface PaymentProvider {
+  name: string;
+  createCheckoutSession: (params: CheckoutSessionParams) => Promise<CheckoutSession>;
+  verifyWebhookSignature: (payload: Buffer, headers: IncomingHttpHeaders) => boolean;
+  /** Returns null for event types we don't handle */
+  parseEvent: (payload: Buffer) => PaymentEvent | null;
+}
+
+/**
+ * Constant-time comparison of two hex signatures
+ */
+const safeCompare = (a: string, b: string): boolean => {
+  const bufferA = Buffer.from(a, 'hex');
+  const bufferB = Buffer.from(b, 'hex');
+  return bufferA.length > 0 && bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+};
+
+const getHeader = (headers: IncomingHttpHeaders, name: string): string | undefined => {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+// ============================================
+// STRIPE-COMPATIBLE PROVIDER
+// ============================================
+
+// Reject webhook timestamps older than 5 minutes (replay protection)
+const STRIPE_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/**
+ * Flatten nested params to Stripe's form encoding (e.g. metadata[websiteId]=...)
+ */
+const toFormBody = (params: Record<string, any>, prefix?: string): string[] => {
+  return Object.entries(params).flatMap(([key, value]) => {
+    const name = prefix ? `${prefix}[${key}]` : key;
+
+    if (value === undefined || value === null) {
+      return [];
+    }
+
+    if (typeof value === 'object') {
+      return toFormBody(value, name);
+    }
+
+    return [`${encodeURIComponent(name)}=${encodeURIComponent(String(value))}`];
+  });
+};
+
+export const createStripeProvider = (): PaymentProvider => {
+  const apiKey = process.env.STRIPE_SECRET_KEY;
+  const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
+  const apiBase = process.env.STRIPE_API_BASE || 'https://api.stripe.com/v1';
+
+  return {
+    name: 'stripe',
+
+    createCheckoutSession: async (params) => {
+      if (!apiKey) {
+        throw new Error('STRIPE_SECRET_KEY is not configured');
+      }
+
+      const metadata = { websiteId: params.websiteId, invoiceId: params.invoiceId };
+      const body = toFormBody({
+        mode: 'payment',
+        success_url: params.successUrl,
+        cancel_url: params.cancelUrl,
+        customer_email: params.customerEmail,
+        client_reference_id: params.websiteId,
+        metadata,
+        payment_intent_data: { metadata },
+        line_items: {
+          0: {
+            quantity: 1,
+            price_data: {
+              currency: params.currency.toLowerCase(),
+              unit_amount: params.amount, // Stripe also uses minor units
+              product_data: { name: params.description },
+            },
+          },
+        },
+      }).join('&');
+
+      const response = await fetch(`${apiBase}/checkout/sessions`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body,
+      });
+
+      const data: any = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data?.error?.message || `Stripe request failed with status ${response.status}`);
+      }
+
+      return { id: data.id, url: data.url };
+    },
+
+    verifyWebhookSignature: (payload, headers) => {
+      const header = getHeader(headers, 'stripe-signature');
+
+      if (!webhookSecret || !header) {
+        return false;
+      }
+
+      // Header format: t=timestamp,v1=signature[,v1=signature...]
+      const parts = header.split(',').map((part) => part.split('='));
+      const timestamp = parts.find(([key]) => key === 't')?.[1];
+      const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value);
+
+      if (!timestamp || signatures.length === 0) {
+        return false;
+      }
+
+      if (Math.abs(Date.now() / 1000 - Number(timestamp)) > STRIPE_SIGNATURE_TOLERANCE_SECONDS) {
+        return false;
+      }
+
+      const expected = crypto
+        .createHmac('sha256', webhookSecret)
+        .update(`${timestamp}.${payload.toString('utf8')}`)
+        .digest('hex');
+
+      return signatures.some((signature) => safeCompare(signature, expected));
+    },
+
+    parseEvent: (payload) => {
+      const event = JSON.parse(payload.toString('utf8'));
+      const object = event?.data?.object || {};
+      const metadata = object.metadata || {};
+      const occurredAt = new Date((event.created || Date.now() / 1000) * 1000);
+
+      switch (event.type) {
+        // A completed checkout and its payment intent share the same transactionId; the
+        // webhook claims each successful transactionId once, so only the first is applied
+        case 'checkout.session.completed':
+          if (object.payment_status !== 'paid') {
+            return null;
+          }
+          return {
+            id: event.id,
+            type: PaymentEventType.PAYMENT_SUCCEEDED,
+            transactionId: object.payment_intent || object.id,
+            amount: object.amount_total || 0,
+            currency: (object.currency || 'usd').toUpperCase(),
+            websiteId: metadata.websiteId || object.client_reference_id,
+            invoiceId: metadata.invoiceId,
+            method: 'stripe',
+            occurredAt,
+          };
+
+        case 'payment_intent.succeeded':
+          return {
+            id: event.id,
+            type: PaymentEventType.PAYMENT_SUCCEEDED,
+            transactionId: object.id,
+            amount: object.amount_received ?? object.amount ?? 0,
+            currency: (object.currency || 'usd').toUpperCase(),
+            websiteId: metadata.websiteId,
+            invoiceId: metadata.invoiceId,
+            method: 'stripe',
+            occurredAt,
+          };
+
+        case 'payment_intent.payment_failed':
+          return {
+            id: event.id,
+            type: PaymentEventType.PAYMENT_FAILED,
+            transactionId: object.id,
+            amount: object.amount || 0,
+            currency: (object.currency || 'usd').toUpperCase(),
+            websiteId: metadata.websiteId,
+            invoiceId: metadata.invoiceId,
+            method: 'stripe',
+            failureReason: object.last_payment_error?.message,
+            occurredAt,
+          };
+
+        default:
+          return null;
+      }
+    },
+  };
+};
+
+// ============================================
+// LOCAL FAKE PROVIDER (development/testing)
+// ============================================
+
+const getFakeWebhookSecret = (): string => {
+  const secret = process.env.PAYMENT_WEBHOOK_SECRET;
+
+  if (!secret) {
+    throw new Error('PAYMENT_WEBHOOK_SECRET is not configured');
+  }
+
+  return secret;
+};
+
+/**
+ * Sign a payload the way the fake provider expects (x-fake-signature header)
+ */
+export const signFakeWebhookPayload = (payload: string): string => {
+  return crypto.createHmac('sha256', getFakeWebhookSecret()).update(payload).digest('hex');
+};
+
+/**
+ * Build a signed fake webhook event, e.g. to simulate a completed checkout locally
+ */
+export const createFakeWebhookEvent = (
+  event: Omit<PaymentEvent, 'id' | 'occurredAt'> & { id?: string }
+): { payload: string; signature: string } => {
+  const payload = JSON.stringify({
+    ...event,
+    id: event.id || `evt_fake_${crypto.randomBytes(8).toString('hex')}`,
+    occurredAt: new Date().toISOString(),
+  });
+
+  return { payload, signature: signFakeWebhookPayload(payload) };
+};
+
+export const createFakeProvider = (): PaymentProvider => {
+  return {
+    name: 'fake',
+
+    createCheckoutSession: async (params) => {
+      const id = `cs_fake_${crypto.randomBytes(12).toString('hex')}`;
+      const query = new URLSearchParams({
+        session: id,
+        amount: String(params.amount),
+        currency: params.currency,
+        websiteId: params.websiteId,
+        ...(params.invoiceId && { invoiceId: params.invoiceId }),
+      });
+
+      // No hosted page: the success URL doubles as the "checkout" for local development
+      const separator = params.successUrl.includes('?') ? '&' : '?';
+      return { id, url: `${params.successUrl}${separator}${query.toString()}` };
+    },
+
+    verifyWebhookSignature: (payload, headers) => {
+      // Never accept fake payments in production, or without a secret of our own
+      if (process.env.NODE_ENV === 'production' || !process.env.PAYMENT_WEBHOOK_SECRET) {
+        return false;
+      }
+
+      const signature = getHeader(headers, 'x-fake-signature');
+      return !!signature && safeCompare(signature, signFakeWebhookPayload(payload.toString('utf8')));
+    },
+
+    parseEvent: (payload) => {
+      const event = JSON.parse(payload.toString('utf8'));
+
+      if (!Object.values(PaymentEventType).includes(event.type)) {
+        return null;
+      }
+
+      return {
+        id: event.id,
+        type: event.type,
+        transactionId: event.transactionId,
+        amount: Number(event.amount),
+        currency: (event.currency || 'USD').toUpperCase(),
+        websiteId: event.websiteId,
+        invoiceId: event.invoiceId,
+        method: event.method || 'fake',
+        failureReason: event.failureReason,
+        occurredAt: event.occurredAt ? new Date(event.occurredAt) : new Date(),
+      };
+    },
+  };
+};
+
+/**
+ * Get the configured payment provider (PAYMENT_PROVIDER=stripe|fake, no default so
+ * a deployment never falls back to fake payments)
+ */
+export const getPaymentProvider = (): PaymentProvider => {
+  switch (process.env.PAYMENT_PROVIDER) {
+    case 'stripe':
+      return createStripeProvider();
+    case 'fake':
+      if (process.env.NODE_ENV === 'production' || !process.env.PAYMENT_WEBHOOK_SECRET) {
+        throw new Error('The fake payment provider needs PAYMENT_WEBHOOK_SECRET and is disabled in production');
+      }
+      return createFakeProvider();
+    default:
+      throw new Error('PAYMENT_PROVIDER must be "stripe" or "fake"');
+  }
+};
\ No newline at end of file
@@ -0,0 +1,422 @@
+// utils/paymentUtils.ts
+import Website, { BillingStatus, IPaymentEntry, IWebsite, PaymentEntryType } from '../models/Website';
+import WebsiteRequest from '../models/WebsiteRequest';
+import Invoice, { IInvoice, InvoiceStatus } from '../models/Invoice';
+import { ReinstatementDueDateBasis } from '../models/BillingPolicy';
+import { ILedgerEntry, LedgerEntrySource, LedgerEntryType } from '../models/LedgerEntry';
+import { calculateNextDueDate } from './billingUtils';
+import { getBillingPolicy } from './billingPolicyUtils';
+import {
+  applyPaymentToInvoice,
+  generateCycleInvoice,
+  getInvoiceBalance,
+  getOutstandingBalance,
+  removePaymentFromInvoice,
+  roundAmount,
+} from './invoiceUtils';
+import { renderInvoicePdf } from './invoiceRenderer';
+import { sendPaymentConfirmationEmail } from './emailService';
+import { withEmailTransaction } from './emailOutboxUtils';
+import { getBillingCurrency, normalizeCurrency } from './currencyUtils';
+import { addLedgerEntry, getCreditBalance, getUnusedPaymentCredit } from './ledgerUtils';
+
+export interface RecordPaymentInput {
+  amount: number; // Minor units
+  currency?: string; // Must match the website's billing currency when given
+  method?: string;
+  transactionId?: string;
+  invoiceId?: string;
+  paidAt?: Date;
+}
+
+export type RecordPaymentResult =
+  | { success: true; duplicate: false; website: IWebsite; invoice: IInvoice }
+  | { success: true; duplicate: true; website: IWebsite; invoice?: undefined }
+  | { success: false; statusCode: number; error: string };
+
+export interface RefundPaymentInput {
+  amount?: number; // Minor units; defaults to everything not yet refunded
+  reason: string;
+  transactionId?: string;
+  refundedBy?: string;
+  refundedAt?: Date;
+}
+
+export type RefundPaymentResult =
+  | { success: true; website: IWebsite; refund: IPaymentEntry; reopenedInvoices: IInvoice[] }
+  | { success: false; statusCode: number; error: string };
+
+/**
+ * Next due date after a payment: one cycle from the payment date, or the
+ * previous due date moved forward by the number of cycles paid (unchanged
+ * when the payment settled no cycle)
+ */
+const calculateReinstatedDueDate = (
+  website: IWebsite,
+  basis: ReinstatementDueDateBasis,
+  cyclesPaid: number,
+  now: Date
+): Date => {
+  const { dueAt, billingCycle } = website.billing;
+
+  if (cyclesPaid === 0 && dueAt) {
+    return new Date(dueAt);
+  }
+
+  if (basis === ReinstatementDueDateBasis.PAYMENT_DATE || !dueAt) {
+    return calculateNextDueDate(now, billingCycle);
+  }
+
+  let nextDueAt = new Date(dueAt);
+  for (let cycle = 0; cycle < cyclesPaid; cycle++) {
+    nextDueAt = calculateNextDueDate(nextDueAt, billingCycle);
+  }
+  return nextDueAt;
+};
+
+/**
+ * Check whether a payment with this transaction ID was already recorded on any website
+ */
+export const isTransactionRecorded = async (transactionId: string): Promise<boolean> => {
+  const exists = await Website.exists({ 'billing.paymentHistory.transactionId': transactionId });
+  return !!exists;
+};
+
+/**
+ * Record a payment against a website
+ *
+ * Settles the requested invoice (or open invoices oldest first), appends the payment
+ * to the billing history and, as the billing policy allows, reactivates billing,
+ * rolls the due date forward and invoices the next cycle. Money beyond what is owed
+ * prepays whole cycles ahead; less than a cycle is kept as account credit. Shared by
+ * the admin endpoint and payment webhooks; payments are deduplicated on transactionId.
+ */
+export const recordWebsitePayment = async (
+  website: IWebsite,
+  input: RecordPaymentInput
+): Promise<RecordPaymentResult> => {
+  const { amount, method, transactionId, invoiceId } = input;
+  const now = input.paidAt || new Date();
+  const currency = getBillingCurrency(website.billing);
+
+  if (input.currency && normalizeCurrency(input.currency) !== currency) {
+    return {
+      success: false,
+      statusCode: 400,
+      error: `Payment is in ${normalizeCurrency(input.currency)}; this website is billed in ${currency}`,
+    };
+  }
+
+  if (transactionId && await isTransactionRecorded(transactionId)) {
+    return { success: true, duplicate: true, website };
+  }
+
+  // Invoices to settle: the one requested, or all open invoices oldest first
+  const invoices: IInvoice[] = invoiceId
+    ? await Invoice.find({ _id: invoiceId, websiteId: website._id })
+    : await Invoice.find({ websiteId: website._id, status: InvoiceStatus.OPEN }).sort({ dueAt: 1 });
+
+  if (invoiceId && invoices.length === 0) {
+    return { success: false, statusCode: 404, error: 'Invoice not found for this website' };
+  }
+
+  if (invoiceId && invoices[0].status !== InvoiceStatus.OPEN) {
+    return {
+      success: false,
+      statusCode: 400,
+      error: `Cannot settle an invoice with status ${invoices[0].status}`,
+    };
+  }
+
+  // No invoice outstanding: issue one for this payment so every payment has a receipt
+  if (invoices.length === 0) {
+    invoices.push(await generateCycleInvoice(website, now, { dueAt: now }));
+  }
+
+  // Spread the payment over the invoices
+  let remaining = amount;
+  const allocations: NonNullable<IPaymentEntry['allocations']> = [];
+
+  for (const target of invoices) {
+    const portion = Math.min(remaining, getInvoiceBalance(target));
+
+    if (portion <= 0) {
+      continue;
+    }
+
+    applyPaymentToInvoice(target, portion, now);
+    await target.save();
+    allocations.push({ invoiceId: target._id, amount: portion });
+    remaining = roundAmount(remaining - portion);
+  }
+
+  // The receipt is the first (oldest) invoice covered by this payment
+  const invoice = invoices[0];
+
+  // Reinstate billing according to the plan's billing policy
+  const policy = await getBillingPolicy(website.billing.plan);
+  const outstanding = await getOutstandingBalance(website._id);
+
+  // Without the full balance, only a payment that settles the oldest unpaid invoice reinstates
+  const olderOpenInvoice = invoice.dueAt
+    && await Invoice.exists({ websiteId: website._id, status: InvoiceStatus.OPEN, dueAt: { $lt: invoice.dueAt } });
+  const oldestSettled = invoice.status === InvoiceStatus.PAID && !olderOpenInvoice;
+  const reinstated = outstanding <= 0 || (!policy.reinstatement.requireFullBalance && oldestSettled);
+
+  if (reinstated) {
+    const settledCycles = invoices.filter((target) => target.status === InvoiceStatus.PAID).length;
+
+    website.billing.status = BillingStatus.ACTIVE;
+    website.billing.suspendedAt = undefined;
+    website.billing.dueAt = calculateReinstatedDueDate(
+      website,
+      policy.reinstatement.dueDateBasis,
+      settledCycles,
+      now
+    );
+
+    // Prepay whole cycles with what is left; each one moves the due date a cycle forward
+    while (remaining > 0 && website.billing.price && website.billing.dueAt) {
+      const upcoming = await generateCycleInvoice(website, website.billing.dueAt);
+      const balance = getInvoiceBalance(upcoming);
+
+      if (upcoming.status !== InvoiceStatus.OPEN || balance <= 0 || balance > remaining) {
+        break;
+      }
+
+      applyPaymentToInvoice(upcoming, balance, now);
+      await upcoming.save();
+      allocations.push({ invoiceId: upcoming._id, amount: balance });
+      remaining = roundAmount(remaining - balance);
+      website.billing.dueAt = calculateNextDueDate(website.billing.dueAt, website.billing.billingCycle);
+    }
+  }
+
+  // Add payment to history
+  if (!website.billing.paymentHistory) {
+    website.billing.paymentHistory = [];
+  }
+
+  website.billing.paymentHistory.push({
+    type: PaymentEntryType.PAYMENT,
+    amount,
+    currency,
+    date: now,
+    method,
+    transactionId,
+    invoiceId: invoice._id,
+    allocations,
+  });
+
+  website.billing.lastPaymentAt = now;
+
+  // Save the payment and queue its confirmation, with the receipt attached, together
+  const request = await WebsiteRequest.findById(website.requestId);
+
+  await withEmailTransaction(async (session) => {
+    await website.save({ session });
+
+    if (request) {
+      await sendPaymentConfirmationEmail(request, website, invoice, amount, renderInvoicePdf(invoice, website), { session });
+    }
+  });
+
+  // Less than a cycle left over: carry it forward as account credit
+  if (remaining > 0) {
+    const payment = website.billing.paymentHistory[website.billing.paymentHistory.length - 1];
+
+    try {
+      await addLedgerEntry({
+        userId: website.userId,
+        websiteId: website._id as ILedgerEntry['websiteId'],
+        type: LedgerEntryType.CREDIT,
+        source: LedgerEntrySource.OVERPAYMENT,
+        amount: remaining,
+        currency,
+        description: `Overpayment on ${website.name}${transactionId ? ` (${transactionId})` : ''}`,
+        paymentId: payment._id as ILedgerEntry['paymentId'],
+      });
+    } catch (ledgerError) {
+      console.error('Failed to record overpayment credit:', ledgerError);
+    }
+  }
+
+  // Cycle rolled forward: invoice the next period
+  if (reinstated && website.billing.dueAt) {
+    try {
+      await generateCycleInvoice(website, website.billing.dueAt);
+    } catch (invoiceError) {
+      console.error('Failed to generate next cycle invoice:', invoiceError);
+    }
+  }
+
+  return { success: true, duplicate: false, website, invoice };
+};
+
+/**
+ * Refund all or part of a recorded payment
+ *
+ * Adds a negative REFUND entry to the payment history, takes back any account credit
+ * the payment left unused and then takes the rest off the invoices the payment settled,
+ * latest first. If that reopens an invoice, the due
+ * date moves back to it and billing that is now past due becomes OVERDUE.
+ */
+export const refundWebsitePayment = async (
+  website: IWebsite,
+  paymentId: string,
+  input: RefundPaymentInput
+): Promise<RefundPaymentResult> => {
+  const now = input.refundedAt || new Date();
+  const history = website.billing.paymentHistory || [];
+  const payment = history.find((entry) => String(entry._id) === paymentId);
+
+  if (!payment) {
+    return { success: false, statusCode: 404, error: 'Payment not found for this website' };
+  }
+
+  if (payment.type === PaymentEntryType.REFUND) {
+    return { success: false, statusCode: 400, error: 'A refund cannot be refunded' };
+  }
+
+  if (!input.reason || !input.reason.trim()) {
+    return { success: false, statusCode: 400, error: 'A refund reason is required' };
+  }
+
+  const refunds = history.filter((entry) => entry.refundOf && String(entry.refundOf) === paymentId);
+  const refundable = payment.amount + refunds.reduce((sum, entry) => sum + entry.amount, 0);
+
+  if (refundable <= 0) {
+    return { success: false, statusCode: 409, error: 'This payment has already been fully refunded' };
+  }
+
+  const amount = input.amount ?? refundable;
+
+  if (!Number.isInteger(amount) || amount <= 0 || amount > refundable) {
+    return {
+      success: false,
+      statusCode: 400,
+      error: `Refund amount must be whole minor units between 1 and ${refundable}`,
+    };
+  }
+
+  if (input.transactionId && await isTransactionRecorded(input.transactionId)) {
+    return { success: false, statusCode: 409, error: 'A refund with this transaction ID has already been recorded' };
+  }
+
+  // Credit the payment left unused goes back first (unless it has been spent since)
+  const currency = payment.currency || getBillingCurrency(website.billing);
+  const reclaimed = Math.min(
+    amount,
+    await getUnusedPaymentCredit(payment._id as ILedgerEntry['paymentId']),
+    Math.max(await getCreditBalance(website.userId, currency), 0)
+  );
+
+  // What the payment still has on each invoice (payments recorded before allocations: all on invoiceId)
+  const applied = new Map<string, NonNullable<IPaymentEntry['allocations']>[number]>();
+  const paymentAllocations = payment.allocations?.length
+    ? payment.allocations
+    : payment.invoiceId ? [{ invoiceId: payment.invoiceId, amount: payment.amount }] : [];
+
+  [...paymentAllocations, ...refunds.flatMap((entry) => entry.allocations || [])].forEach((allocation) => {
+    const key = String(allocation.invoiceId);
+    const current = applied.get(key);
+    applied.set(key, {
+      invoiceId: allocation.invoiceId,
+      amount: (current?.amount || 0) + allocation.amount,
+    });
+  });
+
+  // Un-apply from the latest invoice first (the oldest ones were settled first)
+  const allocations: NonNullable<IPaymentEntry['allocations']> = [];
+  const reopenedInvoices: IInvoice[] = [];
+  let remaining = roundAmount(amount - reclaimed);
+
+  for (const { invoiceId, amount: onInvoice } of Array.from(applied.values()).reverse()) {
+    const portion = Math.min(remaining, onInvoice);
+
+    if (remaining <= 0) {
+      break;
+    }
+
+    if (portion <= 0) {
+      continue;
+    }
+
+    const invoice = await Invoice.findOne({ _id: invoiceId, websiteId: website._id });
+
+    if (invoice) {
+      const wasPaid = invoice.status === InvoiceStatus.PAID;
+      removePaymentFromInvoice(invoice, portion);
+      await invoice.save();
+
+      if (wasPaid && invoice.status === InvoiceStatus.OPEN) {
+        reopenedInvoices.push(invoice);
+      }
+    }
+
+    allocations.push({ invoiceId, amount: -portion });
+    remaining = roundAmount(remaining - portion);
+
+    if (remaining <= 0) {
+      break;
+    }
+  }
+
+  const refund: IPaymentEntry = {
+    type: PaymentEntryType.REFUND,
+    amount: -amount,
+    currency,
+    date: now,
+    method: payment.method,
+    transactionId: input.transactionId,
+    invoiceId: payment.invoiceId,
+    allocations,
+    refundOf: payment._id,
+    reason: input.reason.trim(),
+    recordedBy: input.refundedBy,
+  };
+
+  history.push(refund);
+
+  // A reopened invoice un-pays its period: the due date goes back to the earliest one
+  const reopenedDueDates = reopenedInvoices
+    .map((invoice) => invoice.dueAt || invoice.periodStart)
+    .filter((date): date is Date => !!date)
+    .sort((a, b) => a.getTime() - b.getTime());
+
+  if (reopenedDueDates.length > 0) {
+    const { dueAt } = website.billing;
+
+    if (!dueAt || reopenedDueDates[0] < dueAt) {
+      website.billing.dueAt = reopenedDueDates[0];
+    }
+
+    if (website.billing.status === BillingStatus.ACTIVE && website.billing.dueAt! < now) {
+      website.billing.status = BillingStatus.OVERDUE;
+    }
+  }
+
+  await website.save();
+
+  const savedRefund = history[history.length - 1];
+
+  if (reclaimed > 0) {
+    await addLedgerEntry({
+      userId: website.userId,
+      websiteId: website._id as ILedgerEntry['websiteId'],
+      type: LedgerEntryType.DEBIT,
+      source: LedgerEntrySource.REFUND,
+      amount: reclaimed,
+      currency,
+      description: `Refund of unused overpayment on ${website.name}`,
+      paymentId: payment._id as ILedgerEntry['paymentId'],
+    });
+  }
+
+  return {
+    success: true,
+    website,
+    refund: savedRefund,
+    reopenedInvoices,
+  };
+};
\ No newline at end of file
@@ -0,0 +1,185 @@
+// utils/pdfWriter.ts
+
+/**
+ * Minimal, dependency-free PDF writer
+ *
+ * Supports text in the standard Helvetica fonts, filled rectangles and lines,
+ * which is all the invoice documents need. Coordinates are in points with the
+ * origin at the top-left corner of the page.
+ */
+
+// A4 in points
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+
+// Helvetica glyph widths (1/1000 em) for characters used in amounts/labels; others use the default
+const HELVETICA_WIDTHS: Record<string, number> = {
+  ' ': 278, '.': 278, ',': 278, ':': 278, '-': 333, '/': 278, '(': 333, ')': 333,
+  '$': 556, '%': 889, '#': 556, 'i': 222, 'l': 222, 'j': 222, 'I': 278, 'f': 278,
+  't': 278, 'r': 333, 'm': 833, 'w': 722, 'M': 833, 'W': 944,
+};
+const DEFAULT_GLYPH_WIDTH = 556;
+const BOLD_WIDTH_FACTOR = 1.05;
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: string;
+  align?: 'left' | 'right' | 'center';
+}
+
+export interface PdfDocument {
+  readonly width: number;
+  readonly height: number;
+  addPage: () => void;
+  text: (x: number, y: number, value: string, options?: PdfTextOptions) => void;
+  rect: (x: number, y: number, width: number, height: number, color: string) => void;
+  line: (x1: number, y1: number, x2: number, y2: number, color?: string, lineWidth?: number) => void;
+  measureText: (value: string, size?: number, bold?: boolean) => number;
+  toBuffer: () => Buffer;
+}
+
+/**
+ * Convert a #rrggbb color to PDF RGB components
+ */
+const toRgb = (hex: string): string => {
+  const value = hex.replace('#', '');
+  const r = parseInt(value.substring(0, 2), 16) / 255;
+  const g = parseInt(value.substring(2, 4), 16) / 255;
+  const b = parseInt(value.substring(4, 6), 16) / 255;
+  return [r, g, b].map((c) => (isNaN(c) ? 0 : c).toFixed(3)).join(' ');
+};
+
+// WinAnsiEncoding puts the euro sign at 0x80
+const WIN_ANSI_EURO = '\x80';
+
+/**
+ * Check that a string can be drawn with the standard fonts (Latin-1 plus the euro sign)
+ */
+export const canEncodePdfText = (value: string): boolean => {
+  return /^[\x20-\xff€]*$/.test(value);
+};
+
+/**
+ * Escape a string for a PDF literal string; other characters become '?'
+ */
+const escapePdfText = (value: string): string => {
+  return value
+    .replace(/€/g, WIN_ANSI_EURO)
+    .replace(/[^\x20-\xff]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+};
+
+const formatNumber = (value: number): string => {
+  return Number(value.toFixed(2)).toString();
+};
+
+/**
+ * Create an empty PDF document with one page
+ */
+export const createPdfDocument = (): PdfDocument => {
+  const pages: string[][] = [[]];
+  const current = (): string[] => pages[pages.length - 1];
+
+  const measureText = (value: string, size: number = 10, bold: boolean = false): number => {
+    const units = Array.from(value).reduce(
+      (sum, char) => sum + (HELVETICA_WIDTHS[char] ?? DEFAULT_GLYPH_WIDTH),
+      0
+    );
+    return (units / 1000) * size * (bold ? BOLD_WIDTH_FACTOR : 1);
+  };
+
+  const text = (x: number, y: number, value: string, options: PdfTextOptions = {}): void => {
+    const { size = 10, bold = false, color = '#1f2937', align = 'left' } = options;
+    const width = measureText(value, size, bold);
+
+    let left = x;
+    if (align === 'right') left = x - width;
+    if (align === 'center') left = x - width / 2;
+
+    // Baseline sits roughly one font size below the top of the text box
+    const baseline = PAGE_HEIGHT - y - size;
+
+    current().push(
+      `BT /${bold ? 'F2' : 'F1'} ${formatNumber(size)} Tf ${toRgb(color)} rg ` +
+      `${formatNumber(left)} ${formatNumber(baseline)} Td (${escapePdfText(value)}) Tj ET`
+    );
+  };
+
+  const rect = (x: number, y: number, width: number, height: number, color: string): void => {
+    current().push(
+      `${toRgb(color)} rg ${formatNumber(x)} ${formatNumber(PAGE_HEIGHT - y - height)} ` +
+      `${formatNumber(width)} ${formatNumber(height)} re f`
+    );
+  };
+
+  const line = (
+    x1: number,
+    y1: number,
+    x2: number,
+    y2: number,
+    color: string = '#e5e7eb',
+    lineWidth: number = 1
+  ): void => {
+    current().push(
+      `${toRgb(color)} RG ${formatNumber(lineWidth)} w ` +
+      `${formatNumber(x1)} ${formatNumber(PAGE_HEIGHT - y1)} m ` +
+      `${formatNumber(x2)} ${formatNumber(PAGE_HEIGHT - y2)} l S`
+    );
+  };
+
+  const toBuffer = (): Buffer => {
+    // Object numbers: 1 catalog, 2 page tree, 3-4 fonts, then a page + content stream per page
+    const objects: string[] = [];
+    const pageRefs = pages.map((_, index) => `${5 + index * 2} 0 R`);
+
+    objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+    objects.push(`<< /Type /Pages /Kids [${pageRefs.join(' ')}] /Count ${pages.length} >>`);
+    objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+    pages.forEach((operations, index) => {
+      const contentRef = 6 + index * 2;
+      const stream = operations.join('\n');
+
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentRef} 0 R >>`
+      );
+      objects.push(
+        `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`
+      );
+    });
+
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+
+    objects.forEach((object, index) => {
+      offsets.push(Buffer.byteLength(output, 'latin1'));
+      output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    });
+
+    const xrefOffset = Buffer.byteLength(output, 'latin1');
+
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+  };
+
+  return {
+    width: PAGE_WIDTH,
+    height: PAGE_HEIGHT,
+    addPage: () => {
+      pages.push([]);
+    },
+    text,
+    rect,
+    line,
+    measureText,
+    toBuffer,
+  };
+};
\ No newline at end of file
@@ -0,0 +1,359 @@
+// utils/planChangeUtils.ts
+import Website, { BillingStatus, IWebsite } from '../models/Website';
+import Invoice, { IInvoice, IInvoiceLineItem, InvoiceStatus } from '../models/Invoice';
+import { PLAN_BILLING_CYCLES, PlanBillingCycle } from '../models/Plan';
+import PlanChange, {
+  IPlanChange,
+  PlanChangeStatus,
+  PlanChangeTiming,
+} from '../models/PlanChange';
+import { calculateNextDueDate, calculatePreviousDueDate } from './billingUtils';
+import {
+  buildCycleLineItems,
+  calculateInvoiceTotals,
+  generateCycleInvoice,
+  generateInvoiceNumber,
+  roundAmount,
+} from './invoiceUtils';
+import { resolvePlanPrice } from './planUtils';
+import { calculateCouponDiscount } from './couponUtils';
+import { getBillingCurrency } from './currencyUtils';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// A website can have at most one plan change waiting at a time
+export const OPEN_PLAN_CHANGE_STATUSES = [PlanChangeStatus.REQUESTED, PlanChangeStatus.SCHEDULED];
+
+export interface PlanChangeInput {
+  plan: string;
+  billingCycle?: PlanBillingCycle;
+  timing?: PlanChangeTiming;
+}
+
+export interface Proration {
+  periodStart: Date;
+  periodEnd: Date;
+  remainingDays: number;
+  credit: number; // Unused part of the current price
+  charge: number; // New price for the rest of the period
+  adjustment: number; // charge - credit
+}
+
+export type PlanChangeDraft = Pick<
+  IPlanChange,
+  'timing' | 'currency' | 'fromPlan' | 'fromPrice' | 'fromCycle' | 'toPlan' | 'toPrice' | 'toCycle' | 'adjustment' | 'remainingDays' | 'effectiveAt'
+>;
+
+export type PreparePlanChangeResult =
+  | { success: true; draft: PlanChangeDraft }
+  | { success: false; statusCode: number; error: string };
+
+/**
+ * Prorate a price change over the rest of the current paid period (which ends at dueAt)
+ */
+export const calculateProration = (
+  website: IWebsite,
+  newPrice: number,
+  now: Date = new Date()
+): Proration => {
+  const { dueAt, billingCycle, price = 0 } = website.billing;
+  const periodEnd = dueAt || now;
+  const periodStart = calculatePreviousDueDate(periodEnd, billingCycle);
+
+  const periodMs = periodEnd.getTime() - periodStart.getTime();
+  const remainingMs = Math.min(Math.max(periodEnd.getTime() - now.getTime(), 0), periodMs);
+  const fraction = periodMs > 0 ? remainingMs / periodMs : 0;
+
+  const credit = roundAmount(price * fraction);
+  const charge = roundAmount(newPrice * fraction);
+
+  return {
+    periodStart,
+    periodEnd,
+    remainingDays: Math.ceil(remainingMs / DAY_MS),
+    credit,
+    charge,
+    adjustment: roundAmount(charge - credit),
+  };
+};
+
+/**
+ * Validate a plan change against the catalog and the website's billing, and price it
+ *
+ * Immediate changes need an active, paid-up period to prorate against and keep the
+ * billing cycle; cycle changes always wait for the next due date.
+ */
+export const preparePlanChange = async (
+  website: IWebsite,
+  input: PlanChangeInput,
+  { now = new Date(), excludeChangeId }: { now?: Date; excludeChangeId?: IPlanChange['_id'] } = {}
+): Promise<PreparePlanChangeResult> => {
+  const { billing } = website;
+  const timing = input.timing || PlanChangeTiming.IMMEDIATE;
+  const cycle = input.billingCycle || billing.billingCycle;
+
+  if (!billing.activatedAt) {
+    return { success: false, statusCode: 409, error: 'Billing has not started for this website' };
+  }
+
+  if (!Object.values(PlanChangeTiming).includes(timing)) {
+    return { success: false, statusCode: 400, error: 'Invalid timing' };
+  }
+
+  if (!PLAN_BILLING_CYCLES.includes(cycle)) {
+    return { success: false, statusCode: 400, error: 'Invalid billing cycle' };
+  }
+
+  if (typeof input.plan !== 'string' || !input.plan) {
+    return { success: false, statusCode: 400, error: 'Plan is required' };
+  }
+
+  const resolved = await resolvePlanPrice(input.plan, cycle, billing.plan, getBillingCurrency(billing));
+  if (!resolved.success) {
+    return resolved;
+  }
+
+  if (resolved.plan.slug === billing.plan && cycle === billing.billingCycle) {
+    return { success: false, statusCode: 400, error: 'Website is already on this plan and billing cycle' };
+  }
+
+  // excludeChangeId: the request being approved doesn't count against itself
+  const pending = await PlanChange.exists({
+    websiteId: website._id,
+    status: { $in: OPEN_PLAN_CHANGE_STATUSES },
+    ...(excludeChangeId ? { _id: { $ne: excludeChangeId } } : {}),
+  });
+  if (pending) {
+    return { success: false, statusCode: 409, error: 'A plan change is already pending for this website' };
+  }
+
+  const draft: PlanChangeDraft = {
+    timing,
+    currency: resolved.plan.currency,
+    fromPlan: billing.plan,
+    fromPrice: billing.price,
+    fromCycle: billing.billingCycle,
+    toPlan: resolved.plan.slug,
+    toPrice: resolved.price,
+    toCycle: cycle,
+    adjustment: 0,
+  };
+
+  if (timing === PlanChangeTiming.NEXT_CYCLE) {
+    return { success: true, draft: { ...draft, effectiveAt: billing.dueAt } };
+  }
+
+  if (cycle !== billing.billingCycle) {
+    return {
+      success: false,
+      statusCode: 400,
+      error: 'Billing cycle changes take effect at the next cycle; use timing NEXT_CYCLE',
+    };
+  }
+
+  if (billing.status !== BillingStatus.ACTIVE || !billing.dueAt || billing.dueAt <= now) {
+    return {
+      success: false,
+      statusCode: 409,
+      error: 'Immediate plan changes need active, paid-up billing; use timing NEXT_CYCLE',
+    };
+  }
+
+  const proration = calculateProration(website, resolved.price, now);
+
+  return {
+    success: true,
+    draft: {
+      ...draft,
+      adjustment: proration.adjustment,
+      remainingDays: proration.remainingDays,
+      effectiveAt: now,
+    },
+  };
+};
+
+/**
+ * Rebuild an unpaid invoice's cycle line (always the first line) from the website's
+ * current plan, keep earlier adjustment lines and append extraLines
+ */
+const repriceInvoice = (
+  invoice: IInvoice,
+  website: IWebsite,
+  extraLines: IInvoiceLineItem[] = []
+): void => {
+  if (invoice.periodStart && !invoice.amountPaid) {
+    invoice.periodEnd = calculateNextDueDate(invoice.periodStart, website.billing.billingCycle);
+    invoice.lineItems = [
+      ...buildCycleLineItems(website, invoice.periodStart, invoice.periodEnd),
+      ...invoice.lineItems.slice(1),
+    ];
+  }
+
+  invoice.lineItems.push(...extraLines);
+
+  // A coupon discount follows the new amounts (a percent coupon scales with them)
+  const { coupon } = website.billing;
+  const discount = invoice.couponCode && coupon?.code === invoice.couponCode
+    ? calculateCouponDiscount(coupon, calculateInvoiceTotals(invoice.lineItems).subtotal)
+    : invoice.discount;
+
+  const totals = calculateInvoiceTotals(invoice.lineItems, invoice.taxRate, discount);
+  invoice.subtotal = totals.subtotal;
+  invoice.discount = totals.discount;
+  invoice.tax = totals.tax;
+  invoice.total = totals.total;
+};
+
+/**
+ * Put the proration on the invoice for the next period (re-priced to the new plan)
+ *
+ * A credit is capped at the invoice subtotal. If the next period is already
+ * paid, a charge gets its own invoice and a credit is not carried over.
+ */
+const applyProration = async (
+  website: IWebsite,
+  change: IPlanChange
+): Promise<IInvoice | null> => {
+  const dueAt = website.billing.dueAt!;
+  const upcoming = await generateCycleInvoice(website, dueAt);
+
+  const description = `Proration: ${change.fromPlan || 'no plan'} → ${change.toPlan} for the remaining ${change.remainingDays} day(s) of the current ${change.fromCycle} period`;
+
+  if (upcoming.status === InvoiceStatus.OPEN) {
+    repriceInvoice(upcoming, website);
+
+    const adjustment = Math.max(change.adjustment, -upcoming.subtotal);
+    if (adjustment !== 0) {
+      repriceInvoice(upcoming, website, [
+        { description, quantity: 1, unitPrice: adjustment, amount: adjustment },
+      ]);
+    }
+
+    change.adjustment = adjustment;
+    await upcoming.save();
+    return upcoming;
+  }
+
+  if (change.adjustment <= 0) {
+    change.adjustment = 0;
+    return null;
+  }
+
+  const lineItems = [
+    { description, quantity: 1, unitPrice: change.adjustment, amount: change.adjustment },
+  ];
+  const taxRate = upcoming.taxRate;
+
+  return Invoice.create({
+    number: await generateInvoiceNumber(),
+    websiteId: website._id,
+    userId: website.userId,
+    currency: upcoming.currency,
+    lineItems,
+    ...calculateInvoiceTotals(lineItems, taxRate),
+    taxRate,
+    status: InvoiceStatus.OPEN,
+    issuedAt: new Date(),
+    dueAt,
+  });
+};
+
+/**
+ * Carry out an approved plan change (caller has validated it with preparePlanChange)
+ *
+ * IMMEDIATE: switches the plan now and prorates onto the next invoice.
+ * NEXT_CYCLE: stays SCHEDULED until effectiveAt, then switches plan and cycle
+ * and re-prices unpaid invoices for periods from that date.
+ */
+export const applyPlanChange = async (
+  website: IWebsite,
+  change: IPlanChange,
+  now: Date = new Date()
+): Promise<IPlanChange> => {
+  if (change.timing === PlanChangeTiming.NEXT_CYCLE && change.effectiveAt && change.effectiveAt > now) {
+    change.status = PlanChangeStatus.SCHEDULED;
+    await change.save();
+    return change;
+  }
+
+  const immediate = change.timing === PlanChangeTiming.IMMEDIATE;
+
+  // Re-prorate at apply time: a client request may have waited for approval
+  if (immediate) {
+    const proration = calculateProration(website, change.toPrice, now);
+    change.fromPlan = website.billing.plan;
+    change.fromPrice = website.billing.price;
+    change.adjustment = proration.adjustment;
+    change.remainingDays = proration.remainingDays;
+    change.effectiveAt = now;
+  }
+
+  website.billing.plan = change.toPlan;
+  website.billing.price = change.toPrice;
+  website.billing.currency = change.currency;
+  website.billing.billingCycle = change.toCycle;
+  await website.save();
+
+  if (immediate) {
+    const invoice = await applyProration(website, change);
+    change.invoiceId = invoice?._id as IPlanChange['invoiceId'];
+  } else {
+    const invoices: IInvoice[] = await Invoice.find({
+      websiteId: website._id,
+      status: InvoiceStatus.OPEN,
+      amountPaid: 0,
+      periodStart: { $gte: change.effectiveAt || now },
+    });
+
+    for (const invoice of invoices) {
+      repriceInvoice(invoice, website);
+      await invoice.save();
+    }
+  }
+
+  change.status = PlanChangeStatus.APPLIED;
+  change.appliedAt = now;
+  await change.save();
+
+  return change;
+};
+
+/**
+ * Apply scheduled plan changes whose cycle boundary has passed
+ */
+export const applyDuePlanChanges = async (
+  now: Date = new Date(),
+  { dryRun = false }: { dryRun?: boolean } = {}
+): Promise<number> => {
+  const due = await PlanChange.find({
+    status: PlanChangeStatus.SCHEDULED,
+    effectiveAt: { $lte: now },
+  });
+
+  if (dryRun) {
+    return due.length;
+  }
+
+  let applied = 0;
+
+  for (const change of due) {
+    try {
+      const website = await Website.findById(change.websiteId);
+
+      if (!website) {
+        change.status = PlanChangeStatus.CANCELLED;
+        change.note = 'Website no longer exists';
+        await change.save();
+        continue;
+      }
+
+      await applyPlanChange(website, change, now);
+      applied++;
+      console.log(`🔁 Plan change applied for ${website.name}: ${change.fromPlan} → ${change.toPlan}`);
+    } catch (error) {
+      console.error(`Failed to apply plan change ${change._id}:`, error);
+    }
+  }
+
+  return applied;
+};
\ No newline at end of file
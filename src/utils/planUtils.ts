@@ -0,0 +1,67 @@
+// utils/planUtils.ts
+import Plan, { IPlan, PlanBillingCycle, PlanStatus } from '../models/Plan';
+
+export type ResolvePlanResult =
+  | { success: true; plan: IPlan; price: number }
+  | { success: false; statusCode: number; error: string };
+
+/**
+ * Normalize a plan slug the way the catalog stores it
+ */
+export const normalizePlanSlug = (slug: string): string => slug.toLowerCase().trim();
+
+/**
+ * Find a catalog plan by slug (archived plans only when includeArchived)
+ */
+export const findPlanBySlug = async (
+  slug: string,
+  { includeArchived = false }: { includeArchived?: boolean } = {}
+): Promise<IPlan | null> => {
+  return Plan.findOne({
+    slug: normalizePlanSlug(slug),
+    ...(includeArchived ? {} : { status: PlanStatus.ACTIVE }),
+  });
+};
+
+/**
+ * Get a plan's price for a billing cycle (undefined if the plan isn't offered on that cycle)
+ */
+export const getPlanPrice = (plan: IPlan, cycle: PlanBillingCycle): number | undefined => {
+  return plan.prices?.[cycle] ?? undefined;
+};
+
+/**
+ * Resolve the catalog plan and its price for a billing cycle
+ *
+ * Archived plans are accepted only when the website is already on that plan;
+ * with a currency (billing already started), the plan must be priced in it.
+ */
+export const resolvePlanPrice = async (
+  slug: string,
+  cycle: PlanBillingCycle,
+  currentPlan?: string,
+  currency?: string
+): Promise<ResolvePlanResult> => {
+  const normalized = normalizePlanSlug(slug);
+  const plan = await findPlanBySlug(normalized, { includeArchived: normalized === currentPlan });
+
+  if (!plan) {
+    return { success: false, statusCode: 400, error: `Unknown or archived plan: ${slug}` };
+  }
+
+  if (currency && plan.currency !== currency) {
+    return {
+      success: false,
+      statusCode: 400,
+      error: `Plan "${plan.name}" is priced in ${plan.currency}; this website is billed in ${currency}`,
+    };
+  }
+
+  const price = getPlanPrice(plan, cycle);
+
+  if (price === undefined) {
+    return { success: false, statusCode: 400, error: `Plan "${plan.name}" is not offered ${cycle}` };
+  }
+
+  return { success: true, plan, price };
+};
\ No newline at end of file
@@ -0,0 +1,303 @@
+// utils/templateEngine.ts
+
+/**
+ * Minimal mustache-style templates for emails
+ *
+ * - {{name}} / {{object.field}} inserts a value (HTML-escaped when rendering HTML)
+ * - {{#name}}...{{/name}} renders once for a truthy value, or once per array item
+ * - {{^name}}...{{/name}} renders when the value is missing, false or an empty array
+ * - {{.}} is the current item inside a section
+ *
+ * Only own properties of the data are looked up, so templates can't reach
+ * prototypes or call anything. There is no unescaped {{{...}}}: trusted markup
+ * (e.g. shared styles) is passed in as rawHtml(...).
+ */
+
+const RAW_HTML = Symbol('rawHtml');
+
+export interface RawHtml {
+  [RAW_HTML]: string;
+}
+
+export type TemplateMode = 'html' | 'text';
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; name: string }
+  | { type: 'section'; name: string; inverted: boolean; children: TemplateNode[] };
+
+const TAG_PATTERN = /\{\{\s*([#^/]?)\s*([A-Za-z0-9_$.]*)\s*\}\}/g;
+
+/**
+ * Mark trusted markup to be inserted into HTML as-is
+ */
+export const rawHtml = (html: string): RawHtml => ({ [RAW_HTML]: html });
+
+const isRawHtml = (value: unknown): value is RawHtml => {
+  return typeof value === 'object' && value !== null && RAW_HTML in value;
+};
+
+/**
+ * Escape a value for use in HTML text and attribute values
+ */
+export const escapeHtml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+    .replace(/`/g, '&#96;')
+    .replace(/=/g, '&#61;');
+};
+
+// ============================================
+// URLS
+// ============================================
+// Escaping keeps a value inside its attribute but doesn't make a link safe
+// (javascript: and data: URLs survive it), so hrefs built from user input go
+// through these first.
+
+const SAFE_URL_PROTOCOLS = ['http:', 'https:'];
+
+/**
+ * Normalize a user-supplied link to an absolute http(s) URL
+ *
+ * Bare domains ("example.com/page") get https://. Anything else (javascript:,
+ * data:, relative paths, unparseable input) returns undefined.
+ */
+export const sanitizeUrl = (url?: string | null): string | undefined => {
+  const trimmed = url?.trim();
+
+  if (!trimmed) {
+    return undefined;
+  }
+
+  // "example.com:8080" is a host and port, not a scheme
+  const hasScheme = /^[a-z][a-z0-9+.-]*:(?!\d)/i.test(trimmed);
+
+  try {
+    const parsed = new URL(hasScheme ? trimmed : `https://${trimmed}`);
+
+    // A bare word ("mysite") is not a domain
+    if (!SAFE_URL_PROTOCOLS.includes(parsed.protocol) || (!hasScheme && !parsed.hostname.includes('.'))) {
+      return undefined;
+    }
+
+    return parsed.href;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * mailto: link for a single address (query characters are encoded, so the
+ * address can't add recipients or a body)
+ */
+export const mailtoUrl = (email?: string | null): string | undefined => {
+  return email?.trim() ? `mailto:${encodeURIComponent(email.trim()).replace(/%40/g, '@')}` : undefined;
+};
+
+/**
+ * tel: link keeping only the digits and a leading +
+ */
+export const telUrl = (phone?: string | null): string | undefined => {
+  const digits = phone?.trim().replace(/(?!^\+)[^\d]/g, '');
+  return digits && /\d/.test(digits) ? `tel:${digits}` : undefined;
+};
+
+/**
+ * Parse a template, throwing on unbalanced or malformed tags
+ */
+export const parseTemplate = (source: string): TemplateNode[] => {
+  const root: TemplateNode[] = [];
+  const stack: { name: string; children: TemplateNode[] }[] = [{ name: '', children: root }];
+  let lastIndex = 0;
+
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const [tag, kind, name] = match;
+    const children = stack[stack.length - 1].children;
+
+    if (match.index > lastIndex) {
+      children.push({ type: 'text', value: source.slice(lastIndex, match.index) });
+    }
+    lastIndex = match.index + tag.length;
+
+    if (!name || (name !== '.' && !/^[A-Za-z0-9_$]+(\.[A-Za-z0-9_$]+)*$/.test(name))) {
+      throw new Error(`Invalid tag ${tag}`);
+    }
+
+    if (kind === '#' || kind === '^') {
+      const section: TemplateNode = { type: 'section', name, inverted: kind === '^', children: [] };
+      children.push(section);
+      stack.push({ name, children: section.children });
+    } else if (kind === '/') {
+      if (stack.length === 1 || stack[stack.length - 1].name !== name) {
+        throw new Error(`Unexpected closing tag ${tag}`);
+      }
+      stack.pop();
+    } else {
+      children.push({ type: 'variable', name });
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Unclosed section {{#${stack[stack.length - 1].name}}}`);
+  }
+
+  // Anything that still looks like a tag was not understood (e.g. {{{raw}}} or {{ a b }})
+  if (source.includes('{{{') || source.replace(TAG_PATTERN, '').includes('{{')) {
+    throw new Error('Malformed tag: use {{name}}, {{#name}}, {{^name}} or {{/name}}');
+  }
+
+  const rest = source.slice(lastIndex);
+
+  if (rest) {
+    root.push({ type: 'text', value: rest });
+  }
+
+  return root;
+};
+
+/**
+ * Check that a template parses; returns the error message, or null when valid
+ */
+export const validateTemplate = (source: string): string | null => {
+  try {
+    parseTemplate(source);
+    return null;
+  } catch (error: any) {
+    return error.message;
+  }
+};
+
+const hasOwn = (value: unknown, key: string): boolean => {
+  return typeof value === 'object' && value !== null && Object.prototype.hasOwnProperty.call(value, key);
+};
+
+// Resolve a dotted name against the innermost context that has its first segment
+const lookup = (name: string, contexts: unknown[]): unknown => {
+  if (name === '.') {
+    return contexts[contexts.length - 1];
+  }
+
+  const [head, ...path] = name.split('.');
+
+  for (let i = contexts.length - 1; i >= 0; i--) {
+    if (!hasOwn(contexts[i], head)) {
+      continue;
+    }
+
+    let value = (contexts[i] as Record<string, unknown>)[head];
+    for (const key of path) {
+      value = hasOwn(value, key) ? (value as Record<string, unknown>)[key] : undefined;
+    }
+    return value;
+  }
+
+  return undefined;
+};
+
+const stringify = (value: unknown, mode: TemplateMode): string => {
+  if (value === undefined || value === null) {
+    return '';
+  }
+
+  if (isRawHtml(value)) {
+    return value[RAW_HTML];
+  }
+
+  const text = value instanceof Date ? value.toLocaleString() : String(value);
+  return mode === 'html' ? escapeHtml(text) : text;
+};
+
+const renderNodes = (nodes: TemplateNode[], contexts: unknown[], mode: TemplateMode): string => {
+  let output = '';
+
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      output += node.value;
+    } else if (node.type === 'variable') {
+      output += stringify(lookup(node.name, contexts), mode);
+    } else {
+      const value = lookup(node.name, contexts);
+      const empty = !value || (Array.isArray(value) && value.length === 0);
+
+      if (node.inverted) {
+        output += empty ? renderNodes(node.children, contexts, mode) : '';
+      } else if (Array.isArray(value)) {
+        output += value.map((item) => renderNodes(node.children, [...contexts, item], mode)).join('');
+      } else if (!empty) {
+        output += renderNodes(node.children, [...contexts, value], mode);
+      }
+    }
+  }
+
+  return output;
+};
+
+/**
+ * Render a template; values are HTML-escaped in html mode and inserted as-is in text mode
+ */
+export const renderTemplate = (
+  source: string,
+  data: Record<string, unknown>,
+  mode: TemplateMode = 'html'
+): string => {
+  return renderNodes(parseTemplate(source), [data], mode);
+};
+
+// ============================================
+// PLAIN TEXT
+// ============================================
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  nbsp: ' ',
+  copy: '©',
+  middot: '·',
+};
+
+const decodeEntities = (text: string): string => {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+};
+
+/**
+ * Plain-text version of a rendered HTML email
+ *
+ * Keeps the reading order and line structure: blocks and <br> become line
+ * breaks, list items get bullets and links keep their URL in parentheses.
+ */
+export const htmlToText = (html: string): string => {
+  const text = html
+    .replace(/<(head|style|script|title)\b[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<a\b[^>]*\bhref="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, (match, href: string, label: string) => {
+      const url = decodeEntities(href);
+      const linkText = label.replace(/<[^>]+>/g, '').trim();
+      const sameAsText = decodeEntities(linkText).replace(/\/$/, '') === url.replace(/\/$/, '');
+      // mailto:/tel: links already show their address
+      return /^(mailto|tel):/i.test(url) || sameAsText ? linkText : `${linkText} (${url})`;
+    })
+    // "Label: value" for the detail rows used throughout the templates
+    .replace(/(<div class="detail-label"[^>]*>[\s\S]*?)<\/div>\s*(?=<div class="detail-value")/gi, '$1: ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li\b[^>]*>/gi, '\n• ')
+    .replace(/<\/(p|div|h[1-6]|li|ul|ol|tr|table)>/gi, '\n')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeEntities(text)
+    .split('\n')
+    .map((line) => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
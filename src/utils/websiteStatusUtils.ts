@@ -0,0 +1,167 @@
+// utils/websiteStatusUtils.ts
+import mongoose, { ClientSession } from 'mongoose';
+import { IWebsite, WebsiteStatus } from '../models/Website';
+import { initializeBilling } from './billingUtils';
+
+/**
+ * Allowed website status transitions
+ *
+ * DEPLOYED can only be entered once (from COMPLETED) and CANCELLED is terminal,
+ * so billing initialization can neither be skipped nor run twice.
+ */
+export const WEBSITE_STATUS_TRANSITIONS: Record<WebsiteStatus, WebsiteStatus[]> = {
+  [WebsiteStatus.CREATED]: [WebsiteStatus.IN_PROGRESS, WebsiteStatus.CANCELLED],
+  [WebsiteStatus.IN_PROGRESS]: [
+    WebsiteStatus.REVIEW,
+    WebsiteStatus.COMPLETED,
+    WebsiteStatus.CANCELLED,
+  ],
+  [WebsiteStatus.REVIEW]: [
+    WebsiteStatus.IN_PROGRESS,
+    WebsiteStatus.COMPLETED,
+    WebsiteStatus.CANCELLED,
+  ],
+  [WebsiteStatus.COMPLETED]: [
+    WebsiteStatus.IN_PROGRESS,
+    WebsiteStatus.REVIEW,
+    WebsiteStatus.DEPLOYED,
+    WebsiteStatus.CANCELLED,
+  ],
+  [WebsiteStatus.DEPLOYED]: [WebsiteStatus.CANCELLED],
+  [WebsiteStatus.CANCELLED]: [],
+};
+
+/**
+ * Check if a status transition is allowed
+ */
+export const canTransitionWebsiteStatus = (
+  from: WebsiteStatus,
+  to: WebsiteStatus
+): boolean => {
+  return WEBSITE_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+};
+
+/**
+ * Build the error message for a rejected transition
+ */
+export const getInvalidTransitionMessage = (
+  from: WebsiteStatus,
+  to: WebsiteStatus
+): string => {
+  const allowed = WEBSITE_STATUS_TRANSITIONS[from] || [];
+  return allowed.length > 0
+    ? `Cannot change status from ${from} to ${to}. Allowed: ${allowed.join(', ')}`
+    : `Cannot change status from ${from} to ${to}. ${from} is a final status`;
+};
+
+export interface StatusTransitionOptions {
+  admin?: string;
+  notes?: string;
+  billingPlan?: string;
+  billingPrice?: number; // Resolved from the plan catalog by the caller
+  billingCurrency?: string;
+  billingCycle?: 'monthly' | 'quarterly' | 'yearly';
+  graceDays?: number;
+}
+
+/**
+ * Apply a validated status transition to a website document (caller saves
+ * with saveWebsiteStatusTransition)
+ *
+ * Records the transition in statusHistory, updates lifecycle timestamps and
+ * initializes billing when the website is deployed.
+ * Returns true if billing was initialized by this transition.
+ */
+export const applyWebsiteStatusTransition = (
+  website: IWebsite,
+  to: WebsiteStatus,
+  options: StatusTransitionOptions = {}
+): { billingInitialized: boolean } => {
+  const from = website.status;
+  const now = new Date();
+  let billingInitialized = false;
+
+  if (!canTransitionWebsiteStatus(from, to)) {
+    throw new Error(getInvalidTransitionMessage(from, to));
+  }
+
+  website.status = to;
+
+  if (to === WebsiteStatus.IN_PROGRESS && !website.startedAt) {
+    website.startedAt = now;
+  }
+  if (to === WebsiteStatus.COMPLETED) {
+    website.completedAt = now;
+  }
+  if (to === WebsiteStatus.DEPLOYED) {
+    website.deployedAt = now;
+
+    // 🔥 PHASE 2: Initialize billing when deployed
+    if (!website.billing.activatedAt) {
+      const billingPlan = options.billingPlan
+        ? options.billingPlan.toLowerCase().trim()
+        : undefined;
+
+      const billingData = initializeBilling(
+        billingPlan,
+        options.billingPrice,
+        options.billingCycle || 'monthly',
+        options.graceDays,
+        options.billingCurrency || website.billing.currency
+      );
+
+      website.billing.status = billingData.status!;
+      website.billing.plan = billingData.plan;
+      website.billing.price = billingData.price;
+      website.billing.currency = billingData.currency;
+      website.billing.billingCycle = billingData.billingCycle!;
+      website.billing.activatedAt = billingData.activatedAt;
+      website.billing.dueAt = billingData.dueAt;
+      website.billing.graceEndsAt = billingData.graceEndsAt;
+      billingInitialized = true;
+
+      console.log(`✅ Billing initialized for website ${website._id}:`, billingData);
+    }
+  }
+
+  if (!website.statusHistory) {
+    website.statusHistory = [];
+  }
+
+  website.statusHistory.push({
+    from,
+    to,
+    admin: options.admin,
+    notes: options.notes,
+    changedAt: now,
+  });
+
+  return { billingInitialized };
+};
+
+/**
+ * Save a website after applyWebsiteStatusTransition, only if its status is still `from`
+ *
+ * Two admins changing the same website at once can't both apply a transition
+ * (and initialize billing twice): the later save matches nothing and returns false.
+ */
+export const saveWebsiteStatusTransition = async (
+  website: IWebsite,
+  from: WebsiteStatus,
+  session?: ClientSession
+): Promise<boolean> => {
+  const where = website.$where;
+  website.$where = { ...where, status: from };
+
+  try {
+    await website.save({ session });
+    return true;
+  } catch (error) {
+    if (error instanceof mongoose.Error.DocumentNotFoundError) {
+      return false;
+    }
+    throw error;
+  } finally {
+    website.$where = where;
+  }
+};